@@ -0,0 +1,125 @@
+// Headless game export for CI: project JSON -> .tap, .tzx, .asm and .bin, and .sna and .z80 for 48K games
+// Usage: npm run export:game -- <project.json> [--out <dir>] [--optimize-size] [--debug]
+// Accepts the project as saved by the editor (browser storage or Supabase)
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { exportGameProject } from "@/lib/gameFlowExport";
+import { formatMemoryMap } from "@/lib/memoryMap";
+import { formatStrippedAssets } from "@/lib/assetStripping";
+import { hydrateProjectFromStorage } from "@/lib/projectStorage";
+import { setTapDebugLogging } from "@/lib/tapGenerator";
+
+const USAGE = "Usage: npm run export:game -- <project.json> [--out <dir>] [--optimize-size] [--debug]";
+
+interface CliOptions {
+  input: string;
+  outDir?: string;
+  optimizeSize?: boolean;  // Pack the banks whatever the project's setting
+  debug?: boolean;         // Print the TAP byte dumps as well as the report
+}
+
+function parseArgs(args: string[]): CliOptions {
+  let input: string | undefined;
+  let outDir: string | undefined;
+  let optimizeSize: boolean | undefined;
+  let debug = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === "--out" || arg === "-o") {
+      outDir = args[++i];
+      if (!outDir) throw new Error(`${arg} needs a directory`);
+    } else if (arg === "--optimize-size") {
+      optimizeSize = true;
+    } else if (arg === "--debug") {
+      debug = true;
+    } else if (arg.startsWith("-")) {
+      throw new Error(`Unknown option ${arg}`);
+    } else if (input) {
+      throw new Error(`Unexpected argument ${arg}`);
+    } else {
+      input = arg;
+    }
+  }
+
+  if (!input) throw new Error("No project file given");
+  return { input, outDir, optimizeSize, debug };
+}
+
+// Output file name from the project name, with characters unsafe in paths replaced
+function getBaseName(projectName: string | undefined): string {
+  return (projectName ?? "").trim().replace(/[^\w-]+/g, "_") || "game";
+}
+
+function formatSize(label: string, bytes: number | undefined): string {
+  return `  ${label.padEnd(14)}${String(bytes ?? 0).padStart(6)} bytes`;
+}
+
+async function main() {
+  const { input, outDir, optimizeSize, debug } = parseArgs(process.argv.slice(2));
+  setTapDebugLogging(debug);
+
+  const json = JSON.parse(await readFile(input, "utf8"));
+  const project = hydrateProjectFromStorage(json);
+  if (project.gameFlow.length === 0) {
+    throw new Error(`${input} has no Game Flow screens to export`);
+  }
+
+  const result = exportGameProject(project, { optimizeSize });
+  const { stats } = result;
+
+  console.log(`${project.name ?? input}`);
+  console.log(formatSize("Sprite bank", stats.spriteBankSize));
+  console.log(formatSize("Block bank", stats.blockBankSize));
+  console.log(formatSize("Object bank", stats.objectBankSize));
+  console.log(formatSize("Sound bank", stats.soundBankSize));
+  console.log(formatSize("Level table", stats.levelTableSize));
+  console.log(formatSize("Screen bank", stats.screenBankSize));
+  console.log(formatSize("Data total", stats.totalSize));
+  console.log(formatSize("CODE block", stats.codeSize));
+  if (stats.compressed) {
+    console.log("Packed");
+    for (const { bank, size, packedSize } of stats.compressed) {
+      console.log(`${formatSize(bank, size)} -> ${String(packedSize).padStart(6)} bytes`);
+    }
+  }
+  if (stats.snapshotsSkipped) {
+    console.log(`No snapshots: ${stats.snapshotsSkipped}`);
+  }
+  if (stats.asmSections) {
+    console.log(`RAM pages: ${stats.asmSections}`);
+  }
+  if (result.stripped?.length) {
+    console.log("Left out (unused or duplicate)");
+    console.log(formatStrippedAssets(result.stripped).replace(/^/gm, "  "));
+  }
+  if (result.memoryMap) {
+    console.log("Memory (48K)");
+    console.log(formatMemoryMap(result.memoryMap).replace(/^/gm, "  "));
+  }
+
+  const dir = outDir ?? path.dirname(input);
+  await mkdir(dir, { recursive: true });
+  const base = path.join(dir, getBaseName(project.name));
+
+  const files: [string, Uint8Array | string][] = [
+    [`${base}.tap`, new Uint8Array(await result.tapBlob.arrayBuffer())],
+    [`${base}.asm`, result.asmCode ?? ""],
+    [`${base}.bin`, result.binaryData ?? new Uint8Array()],
+  ];
+  if (result.tzxBlob) {
+    files.push([`${base}.tzx`, new Uint8Array(await result.tzxBlob.arrayBuffer())]);
+  }
+  if (result.snaData) files.push([`${base}.sna`, result.snaData]);
+  if (result.z80Data) files.push([`${base}.z80`, result.z80Data]);
+  for (const [file, data] of files) {
+    await writeFile(file, data);
+    console.log(`Wrote ${file}`);
+  }
+}
+
+main().catch((error: unknown) => {
+  console.error(error instanceof Error ? error.message : error);
+  console.error(USAGE);
+  process.exitCode = 1;
+});
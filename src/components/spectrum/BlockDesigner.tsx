@@ -9,6 +9,8 @@ import { Slider } from "@/components/ui/slider";
 import { type Block, type Sprite, type BlockType } from "@/types/spectrum";
 import { Plus, Trash2, Edit } from "lucide-react";
 import { toast } from "sonner";
+import { BLOCK_PROPERTIES, BLOCK_TYPE_OPTIONS, CONVEYOR_DIRECTION_OPTIONS, getPropertyField } from "@/lib/propertySchema";
+import { DEFAULT_BLOCK_PROPERTIES } from "@/lib/blockPhysics";
 
 interface BlockDesignerProps {
   sprites: Sprite[];
@@ -16,15 +18,14 @@ interface BlockDesignerProps {
   onBlocksChange: (blocks: Block[]) => void;
 }
 
-const BLOCK_TYPES: { value: BlockType; label: string; description: string }[] = [
-  { value: "solid", label: "Solid", description: "Blocks movement" },
-  { value: "deadly", label: "Deadly", description: "Kills player on contact" },
-  { value: "crumbling", label: "Crumbling", description: "Breaks after standing" },
-  { value: "sinking", label: "Sinking", description: "Sinks when stepped on" },
-  { value: "conveyor", label: "Conveyor", description: "Moves player" },
-  { value: "ice", label: "Ice / Slippery", description: "Low friction surface" },
-  { value: "ladder", label: "Ladder", description: "Allows climbing" },
-];
+// Packed property ranges
+const CRUMBLE_TIME_FIELD = getPropertyField(BLOCK_PROPERTIES, "crumbleTime");
+const RESPAWN_TIME_FIELD = getPropertyField(BLOCK_PROPERTIES, "respawnTime");
+const SINKING_SPEED_FIELD = getPropertyField(BLOCK_PROPERTIES, "sinkingSpeed");
+const SINKING_DEPTH_FIELD = getPropertyField(BLOCK_PROPERTIES, "sinkingDepth");
+const CONVEYOR_SPEED_FIELD = getPropertyField(BLOCK_PROPERTIES, "speed");
+const FRICTION_FIELD = getPropertyField(BLOCK_PROPERTIES, "frictionCoefficient");
+const CLIMB_SPEED_FIELD = getPropertyField(BLOCK_PROPERTIES, "climbSpeed");
 
 export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesignerProps) => {
   const [selectedBlock, setSelectedBlock] = useState<Block | null>(null);
@@ -280,7 +281,7 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                {BLOCK_TYPES.map((type) => (
+                {BLOCK_TYPE_OPTIONS.map((type) => (
                   <SelectItem key={type.value} value={type.value}>
                     <div>
                       <div className="font-semibold">{type.label}</div>
@@ -300,9 +301,10 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
                 <Input
                   id="crumbleTime"
                   type="number"
-                  min="0.1"
-                  step="0.1"
-                  value={editingBlock.properties?.crumbleTime ?? 1}
+                  min={CRUMBLE_TIME_FIELD.min}
+                  max={CRUMBLE_TIME_FIELD.max}
+                  step={CRUMBLE_TIME_FIELD.step}
+                  value={editingBlock.properties?.crumbleTime ?? DEFAULT_BLOCK_PROPERTIES.crumbleTime}
                   onChange={(e) => setEditingBlock({
                     ...editingBlock,
                     properties: { ...editingBlock.properties, crumbleTime: parseFloat(e.target.value) }
@@ -314,8 +316,9 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
                 <Input
                   id="respawnTime"
                   type="number"
-                  min="0"
-                  step="0.5"
+                  min={RESPAWN_TIME_FIELD.min}
+                  max={RESPAWN_TIME_FIELD.max}
+                  step={RESPAWN_TIME_FIELD.step}
                   placeholder="Leave empty for no respawn"
                   value={editingBlock.properties?.respawnTime ?? ""}
                   onChange={(e) => setEditingBlock({
@@ -334,9 +337,10 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
                 <Input
                   id="sinkingSpeed"
                   type="number"
-                  min="0.1"
-                  step="0.1"
-                  value={editingBlock.properties?.sinkingSpeed ?? 1}
+                  min={SINKING_SPEED_FIELD.min}
+                  max={SINKING_SPEED_FIELD.max}
+                  step={SINKING_SPEED_FIELD.step}
+                  value={editingBlock.properties?.sinkingSpeed ?? DEFAULT_BLOCK_PROPERTIES.sinkingSpeed}
                   onChange={(e) => setEditingBlock({
                     ...editingBlock,
                     properties: { ...editingBlock.properties, sinkingSpeed: parseFloat(e.target.value) }
@@ -348,9 +352,10 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
                 <Input
                   id="sinkingDepth"
                   type="number"
-                  min="1"
-                  step="1"
-                  value={editingBlock.properties?.sinkingDepth ?? 8}
+                  min={SINKING_DEPTH_FIELD.min}
+                  max={SINKING_DEPTH_FIELD.max}
+                  step={SINKING_DEPTH_FIELD.step}
+                  value={editingBlock.properties?.sinkingDepth ?? DEFAULT_BLOCK_PROPERTIES.sinkingDepth}
                   onChange={(e) => setEditingBlock({
                     ...editingBlock,
                     properties: { ...editingBlock.properties, sinkingDepth: parseInt(e.target.value) }
@@ -376,7 +381,7 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
               <div>
                 <Label htmlFor="conveyorDirection">Direction</Label>
                 <Select
-                  value={editingBlock.properties?.direction ?? "right"}
+                  value={editingBlock.properties?.direction ?? DEFAULT_BLOCK_PROPERTIES.direction}
                   onValueChange={(value) => setEditingBlock({
                     ...editingBlock,
                     properties: { ...editingBlock.properties, direction: value as "left" | "right" }
@@ -386,19 +391,20 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="left">Left</SelectItem>
-                    <SelectItem value="right">Right</SelectItem>
+                    {CONVEYOR_DIRECTION_OPTIONS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
               <div>
-                <Label htmlFor="conveyorSpeed">Speed: {editingBlock.properties?.speed ?? 2}</Label>
+                <Label htmlFor="conveyorSpeed">Speed: {editingBlock.properties?.speed ?? DEFAULT_BLOCK_PROPERTIES.speed}</Label>
                 <Slider
                   id="conveyorSpeed"
-                  min={1}
-                  max={10}
-                  step={1}
-                  value={[editingBlock.properties?.speed ?? 2]}
+                  min={CONVEYOR_SPEED_FIELD.min}
+                  max={CONVEYOR_SPEED_FIELD.max}
+                  step={CONVEYOR_SPEED_FIELD.step}
+                  value={[editingBlock.properties?.speed ?? DEFAULT_BLOCK_PROPERTIES.speed]}
                   onValueChange={([value]) => setEditingBlock({
                     ...editingBlock,
                     properties: { ...editingBlock.properties, speed: value }
@@ -411,13 +417,13 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
           {editingBlock.type === "ice" && (
             <div className="space-y-3 pt-2 border-t">
               <div>
-                <Label htmlFor="frictionCoefficient">Friction Coefficient: {(editingBlock.properties?.frictionCoefficient ?? 0.5).toFixed(2)}</Label>
+                <Label htmlFor="frictionCoefficient">Friction Coefficient: {(editingBlock.properties?.frictionCoefficient ?? DEFAULT_BLOCK_PROPERTIES.frictionCoefficient).toFixed(2)}</Label>
                 <Slider
                   id="frictionCoefficient"
-                  min={0.1}
-                  max={1.0}
-                  step={0.05}
-                  value={[editingBlock.properties?.frictionCoefficient ?? 0.5]}
+                  min={FRICTION_FIELD.min}
+                  max={FRICTION_FIELD.max}
+                  step={FRICTION_FIELD.step}
+                  value={[editingBlock.properties?.frictionCoefficient ?? DEFAULT_BLOCK_PROPERTIES.frictionCoefficient]}
                   onValueChange={([value]) => setEditingBlock({
                     ...editingBlock,
                     properties: { ...editingBlock.properties, frictionCoefficient: value }
@@ -435,9 +441,10 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
                 <Input
                   id="climbSpeed"
                   type="number"
-                  min="0.5"
-                  step="0.5"
-                  value={editingBlock.properties?.climbSpeed ?? 2}
+                  min={CLIMB_SPEED_FIELD.min}
+                  max={CLIMB_SPEED_FIELD.max}
+                  step={CLIMB_SPEED_FIELD.step}
+                  value={editingBlock.properties?.climbSpeed ?? DEFAULT_BLOCK_PROPERTIES.climbSpeed}
                   onChange={(e) => setEditingBlock({
                     ...editingBlock,
                     properties: { ...editingBlock.properties, climbSpeed: parseFloat(e.target.value) }
@@ -447,7 +454,7 @@ export const BlockDesigner = ({ sprites, blocks, onBlocksChange }: BlockDesigner
               <div className="flex items-center space-x-2">
                 <Checkbox
                   id="passThroughAllowed"
-                  checked={editingBlock.properties?.passThroughAllowed ?? true}
+                  checked={editingBlock.properties?.passThroughAllowed ?? DEFAULT_BLOCK_PROPERTIES.passThroughAllowed}
                   onCheckedChange={(checked) => setEditingBlock({
                     ...editingBlock,
                     properties: { ...editingBlock.properties, passThroughAllowed: checked === true }
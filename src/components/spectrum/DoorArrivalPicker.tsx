@@ -0,0 +1,66 @@
+import { useEffect, useRef } from "react";
+import { SPECTRUM_COLORS, type Block, type Screen } from "@/types/spectrum";
+
+interface DoorArrivalPickerProps {
+  screen: Screen;
+  blocks: Block[];
+  arrivalX?: number;
+  arrivalY?: number;
+  onPick: (x: number, y: number) => void;
+}
+
+const TILE_SIZE = 8;
+const COLS = 32;
+const ROWS = 24;
+
+// The tiles of a door's target screen; clicking a tile picks where the player comes out
+export const DoorArrivalPicker = ({ screen, blocks, arrivalX, arrivalY, onPick }: DoorArrivalPickerProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx) return;
+
+    ctx.fillStyle = "#000";
+    ctx.fillRect(0, 0, COLS * TILE_SIZE, ROWS * TILE_SIZE);
+
+    for (let row = 0; row < ROWS; row++) {
+      for (let col = 0; col < COLS; col++) {
+        const blockId = screen.tiles?.[row]?.[col];
+        const block = blockId ? blocks.find(b => b.id === blockId) : undefined;
+        block?.sprite?.frames?.[0]?.pixels?.forEach((pixelRow, py) => {
+          pixelRow.forEach((colorIndex, px) => {
+            if (!colorIndex) return;
+            ctx.fillStyle = SPECTRUM_COLORS[colorIndex]?.value || "#000";
+            ctx.fillRect(col * TILE_SIZE + px, row * TILE_SIZE + py, 1, 1);
+          });
+        });
+      }
+    }
+
+    if (arrivalX !== undefined && arrivalY !== undefined) {
+      // The player's top left corner comes out in this tile
+      ctx.strokeStyle = "#ff0";
+      ctx.lineWidth = 1;
+      ctx.strokeRect(arrivalX * TILE_SIZE + 0.5, arrivalY * TILE_SIZE + 0.5, TILE_SIZE - 1, TILE_SIZE - 1);
+    }
+  }, [screen, blocks, arrivalX, arrivalY]);
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const col = Math.floor(((e.clientX - rect.left) / rect.width) * COLS);
+    const row = Math.floor(((e.clientY - rect.top) / rect.height) * ROWS);
+    onPick(Math.max(0, Math.min(COLS - 1, col)), Math.max(0, Math.min(ROWS - 1, row)));
+  };
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={COLS * TILE_SIZE}
+      height={ROWS * TILE_SIZE}
+      onClick={handleClick}
+      className="w-full border rounded cursor-crosshair"
+      style={{ imageRendering: "pixelated" }}
+    />
+  );
+};
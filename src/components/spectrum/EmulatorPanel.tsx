@@ -0,0 +1,154 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Pause, Play, RotateCcw, ZoomIn, ZoomOut } from "lucide-react";
+import {
+  SpectrumEmulator,
+  DISPLAY_WIDTH,
+  DISPLAY_HEIGHT,
+  FRAMES_PER_SECOND,
+  type TapeLoadResult,
+} from "@/lib/spectrumEmulator";
+import { readGamepadControls, toKempston } from "@/lib/controls";
+
+interface EmulatorPanelProps {
+  tape: Blob | null;
+}
+
+const ZOOM_LEVELS = [1, 2, 3];
+
+// PC keys that have no single Spectrum key of their own
+const SPECIAL_KEYS: Record<string, string[]> = {
+  enter: ["enter"],
+  " ": ["space"],
+  shift: ["shift"],
+  control: ["symbol"],
+  alt: ["symbol"],
+  backspace: ["shift", "0"],
+};
+
+// Translate a browser key event to SPECTRUM_KEYBOARD_MAP names
+const toSpectrumKeys = (e: KeyboardEvent): string[] => {
+  const key = e.key.toLowerCase();
+  if (SPECIAL_KEYS[key]) return SPECIAL_KEYS[key];
+  if (/^[a-z0-9]$/.test(key)) return [key];
+  return [];
+};
+
+export const EmulatorPanel = ({ tape }: EmulatorPanelProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const emulatorRef = useRef<SpectrumEmulator | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [zoomIndex, setZoomIndex] = useState(1);
+  const [loadResult, setLoadResult] = useState<TapeLoadResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [bootCount, setBootCount] = useState(0);
+
+  // Boot the tape whenever it changes (or on restart)
+  useEffect(() => {
+    if (!tape) return;
+    let cancelled = false;
+
+    tape.arrayBuffer().then((buffer) => {
+      if (cancelled) return;
+      const emulator = emulatorRef.current ?? new SpectrumEmulator();
+      emulatorRef.current = emulator;
+      emulator.reset();
+      try {
+        setLoadResult(emulator.loadTAP(new Uint8Array(buffer)));
+        setError(null);
+        setIsRunning(true);
+      } catch (e) {
+        setLoadResult(null);
+        setError(e instanceof Error ? e.message : "Failed to load tape");
+        setIsRunning(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [tape, bootCount]);
+
+  // 50Hz frame loop
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const emulator = emulatorRef.current;
+    if (!isRunning || !canvas || !emulator) return;
+
+    const ctx = canvas.getContext("2d");
+    if (!ctx) return;
+    const image = ctx.createImageData(DISPLAY_WIDTH, DISPLAY_HEIGHT);
+
+    // A gamepad is a Kempston joystick (pick Kempston on the game's controls screen)
+    const interval = window.setInterval(() => {
+      emulator.setKempston(toKempston(readGamepadControls()));
+      emulator.runFrame();
+      emulator.renderFrame(image.data);
+      ctx.putImageData(image, 0, 0);
+    }, 1000 / FRAMES_PER_SECOND);
+
+    return () => clearInterval(interval);
+  }, [isRunning, loadResult]);
+
+  // Keyboard input is captured while the screen has focus
+  const handleKey = (e: React.KeyboardEvent, pressed: boolean) => {
+    const keys = toSpectrumKeys(e.nativeEvent);
+    if (keys.length === 0 || !emulatorRef.current) return;
+    e.preventDefault();
+    keys.forEach((key) => emulatorRef.current?.setKey(key, pressed));
+  };
+
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  return (
+    <div className="flex flex-col items-center gap-4">
+      <div className="flex items-center gap-2">
+        <Button variant="outline" size="sm" onClick={() => setIsRunning(!isRunning)} disabled={!loadResult}>
+          {isRunning ? <Pause className="w-4 h-4 mr-2" /> : <Play className="w-4 h-4 mr-2" />}
+          {isRunning ? "Pause" : "Resume"}
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setBootCount(bootCount + 1)} disabled={!tape}>
+          <RotateCcw className="w-4 h-4 mr-2" />
+          Restart
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => setZoomIndex(Math.max(0, zoomIndex - 1))}>
+          <ZoomOut className="w-4 h-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground">{zoom}x</span>
+        <Button variant="outline" size="sm" onClick={() => setZoomIndex(Math.min(ZOOM_LEVELS.length - 1, zoomIndex + 1))}>
+          <ZoomIn className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <div className="border-4 border-border rounded-lg overflow-hidden shadow-2xl">
+        <canvas
+          ref={canvasRef}
+          width={DISPLAY_WIDTH}
+          height={DISPLAY_HEIGHT}
+          tabIndex={0}
+          onKeyDown={(e) => handleKey(e, true)}
+          onKeyUp={(e) => handleKey(e, false)}
+          onBlur={() => emulatorRef.current?.releaseAllKeys()}
+          style={{
+            width: DISPLAY_WIDTH * zoom,
+            height: DISPLAY_HEIGHT * zoom,
+            imageRendering: "pixelated",
+          }}
+          className="bg-black outline-none focus:ring-2 focus:ring-primary"
+        />
+      </div>
+
+      {error ? (
+        <p className="text-sm text-destructive">{error}</p>
+      ) : loadResult ? (
+        <p className="text-xs text-muted-foreground text-center">
+          Running from {loadResult.entryPoint} •{" "}
+          {loadResult.loadedBlocks.map((block) => `${block.name || "CODE"} ${block.length}b @ ${block.start}`).join(", ")}
+        </p>
+      ) : null}
+      <p className="text-xs text-muted-foreground text-center">
+        Click the screen to give it keyboard focus • Ctrl/Alt = Symbol Shift • Gamepad = Kempston joystick • No ROM: tape blocks are fast-loaded
+      </p>
+    </div>
+  );
+};
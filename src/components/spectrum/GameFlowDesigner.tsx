@@ -1,17 +1,24 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
-import { type Screen, type GameFlowScreen, type Block, type Level, type GameObject, type Sprite, SPECTRUM_COLORS } from "@/types/spectrum";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { type Screen, type GameFlowScreen, type Block, type Level, type GameObject, type Sprite, type MusicTrack, type TargetMachine, type SoundEffect, type SoundEvents, type GameSettings, SPECTRUM_COLORS } from "@/types/spectrum";
 import { toast } from "sonner";
-import { Grip, X, Settings2, Plus, AlertCircle, Download, ChevronDown } from "lucide-react";
+import { Grip, X, Settings2, Plus, AlertCircle, Download, ChevronDown, Play } from "lucide-react";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
-import { exportGameFlowToTAP, downloadGameFlowTAP, exportGameFlowToASM, downloadGameFlowASM, exportGameFlowToBIN, downloadGameFlowBIN } from "@/lib/gameFlowExport";
+import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerClose } from "@/components/ui/drawer";
+import { EmulatorPanel } from "@/components/spectrum/EmulatorPanel";
+import { MemoryMapBar } from "@/components/spectrum/MemoryMapBar";
+import { exportGameFlowToTAP, downloadGameFlowTAP, exportGameFlowToTZX, downloadGameFlowTZX, exportGameFlowToSNA, downloadGameFlowSNA, exportGameFlowToZ80, downloadGameFlowZ80, exportGameFlowToASM, downloadGameFlowASM, exportGameFlowToBIN, downloadGameFlowBIN, planGameFlowMemory, getStrippedGameFlowAssets, BANKED_ASM_NOTE, type GameBuildOptions } from "@/lib/gameFlowExport";
+import { AY_CHANNELS, DEFAULT_MUSIC_TEMPO } from "@/lib/ayMusic";
+import type { MemoryMap } from "@/lib/memoryMap";
 
 interface GameFlowDesignerProps {
   screens: Screen[];
@@ -22,14 +29,32 @@ interface GameFlowDesignerProps {
   gameFlow: GameFlowScreen[];
   onGameFlowChange: (gameFlow: GameFlowScreen[]) => void;
   projectName: string;
+  projectAuthor?: string;
+  settings: GameSettings;
+  machine?: TargetMachine;
+  music?: MusicTrack;
+  sounds: SoundEffect[];
+  soundEvents: SoundEvents;
+  onMachineChange: (machine: TargetMachine) => void;
+  onOptimizeSizeChange: (optimizeSize: boolean) => void;
+  onMusicChange: (music: MusicTrack) => void;
 }
 
-export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, gameFlow, onGameFlowChange, projectName }: GameFlowDesignerProps) => {
+// Export failures such as invalid property values explain themselves in the toast
+const getErrorMessage = (error: unknown) => (error instanceof Error ? error.message : undefined);
+
+const EMPTY_MUSIC: MusicTrack = { tempo: DEFAULT_MUSIC_TEMPO, channels: ["", "", ""] };
+
+// Quiet time after an edit before the memory map is replanned
+const MEMORY_PLAN_DELAY = 750;
+
+export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, gameFlow, onGameFlowChange, projectName, projectAuthor, settings, machine = "48k", music, sounds, soundEvents, onMachineChange, onOptimizeSizeChange, onMusicChange }: GameFlowDesignerProps) => {
   const [selectedFlowScreen, setSelectedFlowScreen] = useState<GameFlowScreen | null>(null);
   const [draggedScreenId, setDraggedScreenId] = useState<string | null>(null);
   const [draggedFlowIndex, setDraggedFlowIndex] = useState<number | null>(null);
   const [categoryFilter, setCategoryFilter] = useState<"all" | "loading" | "title" | "instructions" | "controls" | "scoreboard" | "gameover" | "levels">("all");
   const [flowFilter, setFlowFilter] = useState<"all" | "loading" | "system" | "levels">("all");
+  const [emulatorTape, setEmulatorTape] = useState<Blob | null>(null);
 
   // Filter screens based on category
   const filteredScreens = screens.filter(s => {
@@ -204,36 +229,126 @@ export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, ga
     toast.success("Screen configuration updated");
   };
 
+  // TAP, TZX and ASM follow the build target; snapshots and the emulator are 48K
+  const buildOptions: GameBuildOptions = {
+    machine, music, author: projectAuthor, sounds, soundEvents, settings, optimizeSize: settings.optimizeSize,
+  };
+
+  // The 48K memory map, replanned once the game stops changing: assembling
+  // takes long enough to hold up editing if it ran on every change
+  const [memoryPlan, setMemoryPlan] = useState<{ map?: MemoryMap; error?: string }>();
+  useEffect(() => {
+    if (machine !== "48k") {
+      setMemoryPlan(undefined);
+      return;
+    }
+    const timer = setTimeout(() => {
+      try {
+        const options = { sounds, soundEvents, settings, optimizeSize: settings.optimizeSize };
+        setMemoryPlan({ map: planGameFlowMemory(gameFlow, screens, levels, blocks, objects, sprites, projectName, options) });
+      } catch (error) {
+        setMemoryPlan({ error: getErrorMessage(error) });
+      }
+    }, MEMORY_PLAN_DELAY);
+    return () => clearTimeout(timer);
+  }, [machine, gameFlow, screens, levels, blocks, objects, sprites, projectName, sounds, soundEvents, settings]);
+
+  // Blocks, objects and sprites the game never reaches, and duplicate sprites
+  const strippedAssets = useMemo(
+    () => getStrippedGameFlowAssets(gameFlow, screens, levels, blocks, objects, sprites),
+    [gameFlow, screens, levels, blocks, objects, sprites]
+  );
+
+  const handleMusicChange = (updates: Partial<MusicTrack>) => {
+    onMusicChange({ ...EMPTY_MUSIC, ...music, ...updates });
+  };
+
+  const handleMusicChannelChange = (channel: number, notes: string) => {
+    const channels = Array.from({ length: AY_CHANNELS }, (_, i) => music?.channels[i] ?? "");
+    channels[channel] = notes;
+    handleMusicChange({ channels });
+  };
+
   const handleExportTAP = () => {
     try {
-      const blob = exportGameFlowToTAP(gameFlow, screens, levels, blocks, objects, sprites, projectName);
+      const blob = exportGameFlowToTAP(gameFlow, screens, levels, blocks, objects, sprites, projectName, buildOptions);
       downloadGameFlowTAP(blob, projectName);
       toast.success("Game Flow exported to TAP file successfully!");
     } catch (error) {
       console.error("TAP export error:", error);
-      toast.error("Failed to export TAP file");
+      toast.error("Failed to export TAP file", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleExportTZX = () => {
+    try {
+      const blob = exportGameFlowToTZX(gameFlow, screens, levels, blocks, objects, sprites, projectName, buildOptions);
+      downloadGameFlowTZX(blob, projectName);
+      toast.success("Game Flow exported to TZX file successfully!");
+    } catch (error) {
+      console.error("TZX export error:", error);
+      toast.error("Failed to export TZX file", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleExportSNA = () => {
+    try {
+      const blob = exportGameFlowToSNA(gameFlow, screens, levels, blocks, objects, sprites, projectName, buildOptions);
+      downloadGameFlowSNA(blob, projectName);
+      toast.success("Game Flow exported to SNA snapshot successfully!");
+    } catch (error) {
+      console.error("SNA export error:", error);
+      toast.error("Failed to export SNA snapshot", { description: getErrorMessage(error) });
+    }
+  };
+
+  const handleExportZ80 = () => {
+    try {
+      const blob = exportGameFlowToZ80(gameFlow, screens, levels, blocks, objects, sprites, projectName, buildOptions);
+      downloadGameFlowZ80(blob, projectName);
+      toast.success("Game Flow exported to Z80 snapshot successfully!");
+    } catch (error) {
+      console.error("Z80 export error:", error);
+      toast.error("Failed to export Z80 snapshot", { description: getErrorMessage(error) });
+    }
+  };
+
+  // The emulator is a 48K machine: a 128K game runs as its 48K build, which
+  // leaves out the AY music
+  const handleRunInEmulator = () => {
+    try {
+      const blob = exportGameFlowToTAP(gameFlow, screens, levels, blocks, objects, sprites, projectName, { ...buildOptions, machine: "48k" });
+      setEmulatorTape(blob);
+      if (machine === "128k") {
+        toast.info("Running the 48K build", { description: "The emulator is a 48K Spectrum: music is left out. Export a TAP to play the 128K build." });
+      }
+    } catch (error) {
+      console.error("Emulator export error:", error);
+      toast.error("Failed to build TAP for the emulator", { description: getErrorMessage(error) });
     }
   };
 
   const handleExportASM = () => {
     try {
-      const asm = exportGameFlowToASM(gameFlow, screens, levels, blocks, objects, sprites, projectName);
+      const asm = exportGameFlowToASM(gameFlow, screens, levels, blocks, objects, sprites, projectName, buildOptions);
       downloadGameFlowASM(asm, projectName);
-      toast.success("Game Flow exported to ASM file successfully!");
+      toast.success("Game Flow exported to ASM file successfully!", {
+        description: machine === "128k" ? BANKED_ASM_NOTE : undefined,
+      });
     } catch (error) {
       console.error("ASM export error:", error);
-      toast.error("Failed to export ASM file");
+      toast.error("Failed to export ASM file", { description: getErrorMessage(error) });
     }
   };
 
   const handleExportBIN = () => {
     try {
-      const blob = exportGameFlowToBIN(gameFlow, screens, levels, blocks, objects, sprites, projectName);
+      const blob = exportGameFlowToBIN(gameFlow, screens, levels, blocks, objects, sprites, projectName, buildOptions);
       downloadGameFlowBIN(blob, projectName);
       toast.success("Game Flow exported to BIN file successfully!");
     } catch (error) {
       console.error("BIN export error:", error);
-      toast.error("Failed to export BIN file");
+      toast.error("Failed to export BIN file", { description: getErrorMessage(error) });
     }
   };
 
@@ -424,13 +539,29 @@ export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, ga
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={handleRunInEmulator}>
+                <Play className="w-4 h-4 mr-2" />
+                {machine === "128k" ? "Run in Emulator (48K build)" : "Run in Emulator"}
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleExportTAP}>
                 <Download className="w-4 h-4 mr-2" />
                 Export TAP
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleExportTZX}>
+                <Download className="w-4 h-4 mr-2" />
+                {machine === "128k" ? "Export TZX" : "Export TZX (turbo)"}
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleExportSNA}>
+                <Download className="w-4 h-4 mr-2" />
+                Export SNA (48K snapshot)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={handleExportZ80}>
+                <Download className="w-4 h-4 mr-2" />
+                Export Z80 (48K snapshot)
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleExportASM}>
                 <Download className="w-4 h-4 mr-2" />
-                Export ASM
+                {machine === "128k" ? "Export ASM (main + page sections)" : "Export ASM"}
               </DropdownMenuItem>
               <DropdownMenuItem onClick={handleExportBIN}>
                 <Download className="w-4 h-4 mr-2" />
@@ -609,15 +740,118 @@ export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, ga
                 Set access keys for each screen. The game will show a scrolling menu at the bottom of title screens.
               </p>
             </div>
+
+            <div className="p-4 bg-muted/30 rounded-lg space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <h4 className="font-semibold text-sm">Build Target</h4>
+                  <p className="text-xs text-muted-foreground">
+                    128K spreads sprites and screens over RAM pages and plays AY music
+                  </p>
+                </div>
+                <Select value={machine} onValueChange={(v) => onMachineChange(v as TargetMachine)}>
+                  <SelectTrigger className="w-28 h-8 text-xs">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="48k">48K</SelectItem>
+                    <SelectItem value="128k">128K</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="flex items-start space-x-2">
+                <Checkbox
+                  id="optimize-size"
+                  checked={settings.optimizeSize || false}
+                  onCheckedChange={(checked) => onOptimizeSizeChange(checked as boolean)}
+                />
+                <div className="flex-1">
+                  <Label htmlFor="optimize-size" className="text-sm font-medium cursor-pointer">
+                    Optimize size
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Pack screens, menu pictures, sprites (48K) and the loading screen; the game unpacks them as it needs them
+                  </p>
+                </div>
+              </div>
+
+              {machine === "128k" && (
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor="music-tempo" className="text-xs">Tempo (frames per row)</Label>
+                    <Input
+                      id="music-tempo"
+                      type="number"
+                      min={1}
+                      max={255}
+                      value={music?.tempo ?? DEFAULT_MUSIC_TEMPO}
+                      onChange={(e) => handleMusicChange({ tempo: Number(e.target.value) || DEFAULT_MUSIC_TEMPO })}
+                      className="w-20 h-8 text-xs"
+                    />
+                  </div>
+                  {Array.from({ length: AY_CHANNELS }, (_, channel) => (
+                    <div key={channel}>
+                      <Label htmlFor={`music-channel-${channel}`} className="text-xs">
+                        Channel {"ABC"[channel]}
+                      </Label>
+                      <Textarea
+                        id={`music-channel-${channel}`}
+                        placeholder="e.g. C4:2 E4 G4 -:2 C5"
+                        value={music?.channels[channel] ?? ""}
+                        onChange={(e) => handleMusicChannelChange(channel, e.target.value)}
+                        className="font-mono text-xs min-h-[48px]"
+                      />
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    Note and octave (C#4, Bb3), - for a rest, :n for a length in rows. Leave every channel empty for no music.
+                  </p>
+                </div>
+              )}
+            </div>
+
+            {memoryPlan && (
+              <div className="p-4 bg-muted/30 rounded-lg space-y-2">
+                <h4 className="font-semibold text-sm">Memory (48K)</h4>
+                {memoryPlan.map && <MemoryMapBar map={memoryPlan.map} />}
+                {memoryPlan.error && <p className="text-xs text-destructive">{memoryPlan.error}</p>}
+              </div>
+            )}
+
+            {strippedAssets.length > 0 && (
+              <div className="p-4 bg-muted/30 rounded-lg space-y-2">
+                <h4 className="font-semibold text-sm">Left out of the export</h4>
+                <ul className="text-xs text-muted-foreground space-y-0.5">
+                  {strippedAssets.map(({ kind, name, mergedInto }, index) => (
+                    <li key={index}>
+                      <span className="capitalize">{kind}</span> {name}
+                      {mergedInto !== undefined ? ` (same as ${mergedInto})` : " (unused)"}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
             
-            <Button 
-              onClick={handleExportTAP}
-              className="w-full"
-              disabled={gameFlow.length === 0}
-            >
-              <Download className="w-4 h-4 mr-2" />
-              Export Game Flow as TAP
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                onClick={handleRunInEmulator}
+                variant="outline"
+                className="flex-1"
+                disabled={gameFlow.length === 0}
+              >
+                <Play className="w-4 h-4 mr-2" />
+                {machine === "128k" ? "Run in Emulator (48K build)" : "Run in Emulator"}
+              </Button>
+              <Button 
+                onClick={handleExportTAP}
+                className="flex-1"
+                disabled={gameFlow.length === 0}
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export Game Flow as TAP
+              </Button>
+            </div>
           </div>
         )}
       </Card>
@@ -676,7 +910,7 @@ export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, ga
                       className="text-sm"
                     />
                     <p className="text-xs text-muted-foreground mt-1">
-                      Key to press to access this screen
+                      Key to press on the title to open this screen, or start at this level (SPACE starts the game)
                     </p>
                   </div>
 
@@ -691,7 +925,7 @@ export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, ga
                         Auto-show on start
                       </Label>
                       <p className="text-xs text-muted-foreground">
-                        Display automatically when game starts
+                        Display once after loading, before the title, until a key is pressed
                       </p>
                     </div>
                   </div>
@@ -708,7 +942,7 @@ export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, ga
                       className="text-sm"
                     />
                     <p className="text-xs text-muted-foreground mt-1">
-                      Text shown in continuous loop menu
+                      Text scrolling along the bottom of the title, after its access key
                     </p>
                   </div>
                 </>
@@ -730,6 +964,23 @@ export const GameFlowDesigner = ({ screens, blocks, levels, objects, sprites, ga
           </div>
         )}
       </Card>
+
+      {/* Built-in emulator */}
+      <Drawer open={!!emulatorTape} onOpenChange={(open) => !open && setEmulatorTape(null)}>
+        <DrawerContent className="h-screen w-[90vw] sm:w-[850px] ml-auto">
+          <DrawerHeader className="flex items-center justify-between border-b">
+            <DrawerTitle>Emulator: {projectName}</DrawerTitle>
+            <DrawerClose asChild>
+              <Button variant="ghost" size="sm">
+                <X className="w-4 h-4" />
+              </Button>
+            </DrawerClose>
+          </DrawerHeader>
+          <div className="flex-1 flex items-center justify-center p-8 bg-muted/20 overflow-auto">
+            <EmulatorPanel tape={emulatorTape} />
+          </div>
+        </DrawerContent>
+      </Drawer>
     </div>
   );
 };
@@ -4,9 +4,26 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Drawer, DrawerContent, DrawerHeader, DrawerTitle, DrawerClose } from "@/components/ui/drawer";
-import { Trash2, Grip, Edit, Play, X, ZoomIn, ZoomOut } from "lucide-react";
-import { type Level, type Screen, type Block, type GameObject, type Sprite, SPECTRUM_COLORS } from "@/types/spectrum";
+import { Trash2, Grip, Edit, Play, X, ZoomIn, ZoomOut, Link } from "lucide-react";
+import {
+  type Level, type Screen, type ScreenLinks, type Block, type GameObject, type Sprite, type GameSettings, SPECTRUM_COLORS,
+} from "@/types/spectrum";
+import {
+  PLATFORM_TOP, ROPE_HOLD_FRAMES, createPlatform, findRopeGrab, getRopePoints, movePlatform, type PlatformState,
+} from "@/lib/platformMotion";
+import {
+  MAX_CRUMBLES, SLIDE_SCALE, climbLadder, getBlockPhysics, isLandable, isSolid, respawnCrumble, sinkInto, slideOnIce,
+  standOnCrumble, type BlockPhysics, type CrumbleState,
+} from "@/lib/blockPhysics";
+import {
+  DEFAULT_ENEMY_HEALTH, DEFAULT_MAX_SHOTS, createShot, getPlayerAmmunition, getShotTip, hitEnemy, moveShot, shotHits,
+  type ShotState,
+} from "@/lib/projectiles";
+import { getDoorArrival, opensDoor } from "@/lib/doors";
+import { CONTROLS, readGamepadControls } from "@/lib/controls";
+import { getPlayerAction, resolveAnimation, stepAnimation, type AnimationSprite } from "@/lib/animations";
 
 interface LevelDesignerProps {
   levels: Level[];
@@ -14,10 +31,46 @@ interface LevelDesignerProps {
   blocks: Block[];
   objects: GameObject[];
   sprites: Sprite[];
+  settings?: GameSettings;
   onLevelsChange: (levels: Level[]) => void;
+  onScreensChange: (screens: Screen[]) => void;
 }
 
-export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLevelsChange }: LevelDesignerProps) => {
+// A moving platform in the playtest, with the sprite it's drawn with
+interface PlaytestPlatform {
+  state: PlatformState;
+  sprite?: Sprite;
+  width: number;
+}
+
+// A placed door in the playtest, with its properties and overrides
+interface PlaytestDoor {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties: GameObject["properties"];
+  sprite: Sprite;
+}
+
+// An enemy in the playtest: it stands where it was placed until shot away
+interface PlaytestEnemy {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  health: number;
+  sprite: Sprite;
+}
+
+const LINK_DIRECTIONS: { key: keyof ScreenLinks; label: string }[] = [
+  { key: "left", label: "Left" },
+  { key: "right", label: "Right" },
+  { key: "up", label: "Up" },
+  { key: "down", label: "Down" },
+];
+
+export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, settings, onLevelsChange, onScreensChange }: LevelDesignerProps) => {
   const [newLevelName, setNewLevelName] = useState("");
   const [selectedScreenIds, setSelectedScreenIds] = useState<string[]>([]);
   const [draggingIndex, setDraggingIndex] = useState<number | null>(null);
@@ -26,6 +79,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
   const [editingLevelId, setEditingLevelId] = useState<string | null>(null);
   const [playingLevelId, setPlayingLevelId] = useState<string | null>(null);
   const [canvasZoomIndex, setCanvasZoomIndex] = useState(1); // 0=256x192, 1=512x384, 2=768x576
+  const [pendingLinks, setPendingLinks] = useState<Record<string, ScreenLinks>>({});
   const playCanvasRef = useRef<HTMLCanvasElement>(null);
   const gameLoopRef = useRef<number | null>(null);
 
@@ -73,6 +127,38 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
     }));
   };
 
+  // Flip-screen links are edited alongside the level and saved with it
+  const getLinks = (screenId: string): ScreenLinks =>
+    pendingLinks[screenId] ?? screens.find(s => s.id === screenId)?.links ?? {};
+
+  const setLink = (screenId: string, direction: keyof ScreenLinks, targetId: string | undefined) => {
+    setPendingLinks(prev => ({
+      ...prev,
+      [screenId]: { ...getLinks(screenId), [direction]: targetId }
+    }));
+  };
+
+  // Chain the selected game screens left-to-right in level order
+  const linkInOrder = () => {
+    const gameScreenIds = selectedScreenIds.filter(id => screens.find(s => s.id === id)?.type === "game");
+    const links: Record<string, ScreenLinks> = {};
+    gameScreenIds.forEach((id, i) => {
+      links[id] = {
+        ...getLinks(id),
+        left: gameScreenIds[i - 1],
+        right: gameScreenIds[i + 1],
+      };
+    });
+    setPendingLinks(prev => ({ ...prev, ...links }));
+  };
+
+  const commitLinks = () => {
+    if (Object.keys(pendingLinks).length > 0) {
+      onScreensChange(screens.map(s => (pendingLinks[s.id] ? { ...s, links: pendingLinks[s.id] } : s)));
+    }
+    setPendingLinks({});
+  };
+
   const handleDeleteLevel = (id: string) => {
     onLevelsChange(levels.filter(l => l.id !== id));
   };
@@ -86,6 +172,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
       screenIds: selectedScreenIds
     };
     onLevelsChange([...levels, newLevel]);
+    commitLinks();
     setNewLevelName("");
     setSelectedScreenIds([]);
   };
@@ -104,6 +191,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
       l.id === editingLevelId ? { ...l, screenIds: selectedScreenIds } : l
     );
     onLevelsChange(updatedLevels);
+    commitLinks();
     setEditingLevelId(null);
     setSelectedScreenIds([]);
   };
@@ -111,6 +199,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
   const handleCancelEdit = () => {
     setEditingLevelId(null);
     setSelectedScreenIds([]);
+    setPendingLinks({});
   };
 
   const handlePlayLevel = (levelId: string) => {
@@ -143,7 +232,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
     if (!level || level.screenIds.length === 0) return;
 
     const currentScreenId = level.screenIds[0];
-    const currentScreen = screens.find(s => s.id === currentScreenId);
+    let currentScreen = screens.find(s => s.id === currentScreenId);
     if (!currentScreen) return;
 
     // Find player object
@@ -179,12 +268,103 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
     const GRID_COLS = 32;
     const GRID_ROWS = 24;
 
+    // Moving platforms placed on a screen, on their tracks from the start
+    const loadPlatforms = (screen: Screen): PlaytestPlatform[] =>
+      (screen.placedObjects ?? []).flatMap(po => {
+        const obj = objects.find(o => o.id === po.objectId);
+        if (obj?.type !== "moving-platform") return [];
+        const sprite = sprites.find(s => s.id === obj.spriteId);
+        return [{
+          state: createPlatform({ ...obj.properties, ...po.propertyOverrides }, po.x * TILE_SIZE, po.y * TILE_SIZE),
+          sprite,
+          width: sprite ? Number(sprite.size.split("x")[0]) || 16 : 0,
+        }];
+      });
+
+    // Enemies placed on a screen, with their health; the playtest doesn't run their AI
+    const loadEnemies = (screen: Screen): PlaytestEnemy[] =>
+      (screen.placedObjects ?? []).flatMap(po => {
+        const obj = objects.find(o => o.id === po.objectId);
+        const sprite = obj?.type === "enemy" ? sprites.find(s => s.id === obj.spriteId) : undefined;
+        if (!obj || !sprite) return [];
+        const [width, height] = sprite.size.split("x").map(Number);
+        return [{
+          x: po.x * TILE_SIZE,
+          y: po.y * TILE_SIZE,
+          width: width || 16,
+          height: height || 16,
+          health: obj.properties.health ?? DEFAULT_ENEMY_HEALTH,
+          sprite,
+        }];
+      });
+
+    // Doors placed on a screen; like the engine's, a door without a sprite can't be touched
+    const loadDoors = (screen: Screen): PlaytestDoor[] =>
+      (screen.placedObjects ?? []).flatMap(po => {
+        const obj = objects.find(o => o.id === po.objectId);
+        const sprite = obj?.type === "door" ? sprites.find(s => s.id === obj.spriteId) : undefined;
+        if (!obj || !sprite) return [];
+        const [width, height] = sprite.size.split("x").map(Number);
+        return [{
+          x: po.x * TILE_SIZE,
+          y: po.y * TILE_SIZE,
+          width: width || 16,
+          height: height || 16,
+          properties: { ...obj.properties, ...po.propertyOverrides },
+          sprite,
+        }];
+      });
+
+    // The player's ammunition and the shots in flight
+    const ammunition = getPlayerAmmunition(playerObj, objects);
+    const shotSprite = ammunition ? sprites.find(s => s.id === ammunition.spriteId) : undefined;
+    const maxShots = settings?.maxShots ?? DEFAULT_MAX_SHOTS;
+    let shots: ShotState[] = [];
+    let fireHeld = false;
+
+    let platforms = loadPlatforms(currentScreen);
+    let enemies = loadEnemies(currentScreen);
+    let doors = loadDoors(currentScreen);
+    let doorLock = true;  // Until the player steps off any door they came out at
+    let ridingPlatform: PlaytestPlatform | null = null;
+    let heldRope: { platform: PlaytestPlatform; point: number } | null = null;
+    let ropeCooldown = 0;
+
+    // Crumbling blocks stood on this screen, by "row,col"; broken ones aren't there
+    const blockPhysics = new Map(blocks.map(block => [block.id, getBlockPhysics(block)]));
+    let crumbles = new Map<string, CrumbleState>();
+
+    // Go to another screen, through an edge or a door
+    const enterScreen = (target: Screen) => {
+      currentScreen = target;
+      platforms = loadPlatforms(target);
+      enemies = loadEnemies(target);
+      doors = loadDoors(target);
+      doorLock = true;
+      shots = [];
+      crumbles = new Map();
+      heldRope = null;
+    };
+
+    // Flip to the screen linked on one edge; false when there is none
+    const flipScreen = (direction: "left" | "right" | "up" | "down") => {
+      const targetId = currentScreen?.links?.[direction];
+      const target = targetId ? screens.find(s => s.id === targetId) : undefined;
+      if (!target) return false;
+      enterScreen(target);
+      return true;
+    };
+
+    // Block at a tile, unless it's broken
+    const blockAt = (row: number, col: number): BlockPhysics | undefined => {
+      const blockId = currentScreen?.tiles?.[row]?.[col];
+      if (!blockId || crumbles.get(`${row},${col}`)?.gone) return undefined;
+      return blockPhysics.get(blockId);
+    };
+
     const isSolidBlockAt = (row: number, col: number) => {
-      const blockId = currentScreen.tiles?.[row]?.[col];
-      if (!blockId) return false;
-      const block = blocks.find(b => b.id === blockId);
-      if (!block) return false;
-      return block.type === "solid";
+      const physics = blockAt(row, col);
+      return physics !== undefined && isLandable(physics);
     };
 
     const getGroundYForFall = (x: number, prevTopY: number) => {
@@ -250,22 +430,36 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
     let playerY = playerPlaced.y * TILE_SIZE;
     let isJumping = false;
     let jumpFrameIndex = 0;
+    let climbing = false;
+    let slide = 0;  // 1/16 pixels per frame, negative to the left
+    let sunk = 0;   // Quarter pixels sunk into a sinking block
+    let respawnX = playerX;
+    let respawnY = playerY;
     let facingLeft = false;
+    let shown: AnimationSprite = { spriteId: playerObj.spriteId, mirror: false };
     let animFrame = 0;
+    let animTicks = 0;
     const keys: Record<string, boolean> = {};
+    const keyboard: Record<string, boolean> = {};
 
     // Keyboard handlers
     const handleKeyDown = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase();
-      if (key === "arrowleft" || key === "q") keys["left"] = true;
-      if (key === "arrowright" || key === "w") keys["right"] = true;
-      if (key === "arrowup" || key === " " || key === "p") keys["jump"] = true;
+      if (key === "arrowleft" || key === "q") keyboard["left"] = true;
+      if (key === "arrowright" || key === "w") keyboard["right"] = true;
+      if (key === "arrowup" || key === " " || key === "p") keyboard["jump"] = true;
+      if (key === "o") keyboard["up"] = true;
+      if (key === "arrowdown" || key === "k") keyboard["down"] = true;
+      if (key === "m") keyboard["fire"] = true;
     };
     const handleKeyUp = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase();
-      if (key === "arrowleft" || key === "q") keys["left"] = false;
-      if (key === "arrowright" || key === "w") keys["right"] = false;
-      if (key === "arrowup" || key === " " || key === "p") keys["jump"] = false;
+      if (key === "arrowleft" || key === "q") keyboard["left"] = false;
+      if (key === "arrowright" || key === "w") keyboard["right"] = false;
+      if (key === "arrowup" || key === " " || key === "p") keyboard["jump"] = false;
+      if (key === "o") keyboard["up"] = false;
+      if (key === "arrowdown" || key === "k") keyboard["down"] = false;
+      if (key === "m") keyboard["fire"] = false;
     };
 
     window.addEventListener("keydown", handleKeyDown);
@@ -274,16 +468,22 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
     const gameLoop = () => {
       const walkSpeed = playerObj.properties.speed || 2;
 
+      // Keys and the gamepad steer alike
+      const pad = readGamepadControls();
+      CONTROLS.forEach(control => {
+        keys[control] = !!keyboard[control] || !!pad[control];
+      });
+
       // Clear canvas
       ctx.fillStyle = "#000";
       ctx.fillRect(0, 0, 256, 192);
 
       // Render screen tiles/blocks (32x24 grid, each tile is 8x8 pixels)
-      if (currentScreen.type === "game" && currentScreen.tiles) {
+      if (currentScreen?.type === "game" && currentScreen.tiles) {
         for (let row = 0; row < 24; row++) {
           for (let col = 0; col < 32; col++) {
             const blockId = currentScreen.tiles[row]?.[col];
-            if (!blockId) continue;
+            if (!blockId || crumbles.get(`${row},${col}`)?.gone) continue;
 
             const block = blocks.find(b => b.id === blockId);
             if (!block?.sprite?.frames?.[0]?.pixels) continue;
@@ -310,23 +510,50 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
         }
       }
 
-      // Start jump
-      if (keys["jump"] && !isJumping) {
+      // Hanging on a rope: it moves the player, jump lets go
+      if (heldRope && ropeCooldown === 0 && keys["jump"]) {
+        heldRope = null;
+        ropeCooldown = ROPE_HOLD_FRAMES;
         isJumping = true;
         jumpFrameIndex = 0;
       }
 
-      // Horizontal movement
-      if (keys["left"]) {
-        playerX -= walkSpeed;
-        facingLeft = true;
-      } else if (keys["right"]) {
-        playerX += walkSpeed;
-        facingLeft = false;
+      // Start jump (also off a ladder)
+      let startedJump = false;
+      if (keys["jump"] && !isJumping && !heldRope) {
+        isJumping = true;
+        jumpFrameIndex = 0;
+        climbing = false;
+        startedJump = true;
+      }
+
+      // Ladders: up and down climb while the feet are on one, and hold on there
+      // Under the centre of the feet, like the engine
+      const centreX = playerX + Math.floor(spriteWidth / 2);
+      const ladderAt = (y: number) => y >= 0 && blockAt(y >> 3, centreX >> 3)?.type === "ladder";
+      if (!heldRope && !startedJump) {
+        const footY = playerY + spriteHeight;
+        const ladder = ladderAt(footY - 1) ? blockAt((footY - 1) >> 3, centreX >> 3) : blockAt(footY >> 3, centreX >> 3);
+        if (ladder?.type !== "ladder") {
+          climbing = false;
+        } else if (keys["up"] || keys["down"]) {
+          const climbedY = climbLadder(footY, keys["up"] ? -1 : 1, ladder.climbStep, ladderAt);
+          if (climbedY !== footY) {
+            playerY += climbedY - footY;
+            climbing = true;
+          }
+        }
+        if (climbing) {
+          isJumping = false;
+          jumpFrameIndex = 0;
+        }
       }
 
       // Jump / gravity - variable height with solid block collisions
-      if (isJumping) {
+      const startY = playerY;
+      if (climbing) {
+        // On a ladder: no jump arc or gravity
+      } else if (isJumping) {
         const prevY = playerY;
 
         if (!keys["jump"] && jumpFrameIndex < JUMP_PEAK_FRAME) {
@@ -348,7 +575,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
           isJumping = false;
           jumpFrameIndex = 0;
         }
-      } else {
+      } else if (!heldRope) {
         // Not jumping — gently drop to ground if we walk off a ledge
         const groundY = getGroundYForFall(playerX, playerY);
         if (playerY < groundY) {
@@ -356,54 +583,249 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
         }
       }
 
-      // Clamp horizontal bounds
-      if (playerX < 0) playerX = 0;
-      if (playerX > WORLD_WIDTH - spriteWidth) playerX = WORLD_WIDTH - spriteWidth;
+      // Land on a platform when the feet are in its top rows, centre over it
+      ridingPlatform = null;
+      if (!heldRope && playerY >= startY) {
+        const centreX = playerX + Math.floor(spriteWidth / 2);
+        const footY = playerY + spriteHeight;
+        ridingPlatform = platforms.find(({ state, width }) =>
+          state.type !== "rope" &&
+          centreX - state.x >= 0 && centreX - state.x < width &&
+          footY - state.y >= 0 && footY - state.y < PLATFORM_TOP
+        ) ?? null;
+        if (ridingPlatform) {
+          playerY = ridingPlatform.state.y - spriteHeight;
+          isJumping = false;
+          jumpFrameIndex = 0;
+        }
+      }
+
+      // The block the player stands on, under the centre of their feet
+      const sank = sunk;
+      let grip = 0;
+      sunk = 0;
+      const footRow = (playerY + spriteHeight) >> 3;
+      const footCol = (playerX + Math.floor(spriteWidth / 2)) >> 3;
+      const standing = !isJumping && !climbing && !heldRope && !ridingPlatform &&
+        playerY === getGroundYForFall(playerX, playerY);
+      const underfoot = standing ? blockAt(footRow, footCol) : undefined;
+      if (underfoot?.type === "conveyor") {
+        playerX += underfoot.push;
+      } else if (underfoot?.type === "ice") {
+        grip = underfoot.grip;
+      } else if (underfoot?.type === "sinking") {
+        sunk = sinkInto(sank, underfoot);
+      } else if (underfoot?.type === "crumbling") {
+        const key = `${footRow},${footCol}`;
+        if (!crumbles.has(key) && crumbles.size < MAX_CRUMBLES) {
+          crumbles.set(key, { stood: 0, timer: 0, gone: false });
+        }
+        const crumble = crumbles.get(key);
+        if (crumble) standOnCrumble(crumble, underfoot);
+      }
+
+      // Horizontal movement (a rope swings the player instead); on ice the
+      // player slides on once the walk keys are let go
+      if (!heldRope && keys["left"]) {
+        playerX -= walkSpeed;
+        slide = -walkSpeed * SLIDE_SCALE;
+        facingLeft = true;
+      } else if (!heldRope && keys["right"]) {
+        playerX += walkSpeed;
+        slide = walkSpeed * SLIDE_SCALE;
+        facingLeft = false;
+      } else if (grip > 0) {
+        const slid = slideOnIce(slide, grip);
+        playerX += slid.move;
+        slide = slid.slide;
+      } else {
+        slide = 0;
+      }
 
-      // Animate sprite frames
-      const isMoving = keys["left"] || keys["right"] || isJumping;
-      if (isMoving && playerSprite.frames.length > 1) {
-        animFrame = (animFrame + 1) % playerSprite.frames.length;
+      // Deadly blocks at the feet or the middle of the body send the player
+      // back to where they came onto the screen
+      const deadlyAt = (y: number) => blockAt(y >> 3, (playerX + Math.floor(spriteWidth / 2)) >> 3)?.type === "deadly";
+      if (deadlyAt(playerY + spriteHeight) || deadlyAt(playerY + Math.floor(spriteHeight / 2))) {
+        playerX = respawnX;
+        playerY = respawnY;
+        doorLock = true;
+        isJumping = false;
+        jumpFrameIndex = 0;
+        climbing = false;
+        slide = 0;
+        sunk = 0;
+        heldRope = null;
       }
 
-      // Determine which sprite to use (with mirroring support)
-      let spriteId = playerObj.spriteId;
-      let shouldMirror = false;
+      // Broken crumbling blocks come back once their respawn time is up, but
+      // not while the player is in their cell
+      for (const [key, crumble] of crumbles) {
+        const [row, col] = key.split(",").map(Number);
+        const occupied =
+          playerX < (col + 1) * TILE_SIZE && playerX + spriteWidth > col * TILE_SIZE &&
+          playerY < (row + 1) * TILE_SIZE && playerY + spriteHeight > row * TILE_SIZE;
+        if (respawnCrumble(crumble, occupied)) crumbles.delete(key);
+      }
 
-      if (playerObj.animations) {
-        const animations = playerObj.animations;
-        let action: keyof typeof animations = facingLeft ? "moveLeft" : "moveRight";
-        
-        if (isJumping) {
-          action = facingLeft ? "jumpLeft" : "jumpRight";
+      // Move the platforms, carrying the player riding one; ropes carry the
+      // player holding on, or let them grab on when they touch
+      if (ropeCooldown > 0) ropeCooldown--;
+      for (const platform of platforms) {
+        const { dx, dy, wrapped } = movePlatform(platform.state);
+        if (platform === ridingPlatform && platform.state.carry && !wrapped) {
+          playerX += dx;
+          playerY += dy;
+        }
+        if (platform.state.type !== "rope") continue;
+
+        const points = getRopePoints(platform.state, WORLD_HEIGHT);
+        if (!heldRope && platform.state.carry && ropeCooldown === 0) {
+          const point = findRopeGrab(points, playerX, playerY, spriteWidth, spriteHeight);
+          if (point >= 0) {
+            heldRope = { platform, point };
+            ropeCooldown = ROPE_HOLD_FRAMES;
+            isJumping = false;
+            jumpFrameIndex = 0;
+          }
+        }
+        if (heldRope?.platform !== platform) continue;
+        const held = points[heldRope.point];
+        if (!held) {
+          heldRope = null; // Held point is off the screen this swing
+          continue;
         }
+        playerX = Math.min(Math.max(0, held.x - Math.floor(spriteWidth / 2)), WORLD_WIDTH - spriteWidth);
+        playerY = held.y;
+      }
+
+      // Leaving an edge flips to the linked screen, otherwise clamp to the bounds
+      const screenBefore = currentScreen;
+      if (playerX < 0) {
+        playerX = flipScreen("left") ? WORLD_WIDTH - spriteWidth : 0;
+      }
+      if (playerX > WORLD_WIDTH - spriteWidth) {
+        playerX = flipScreen("right") ? 0 : WORLD_WIDTH - spriteWidth;
+      }
+      if (playerY < 0 && flipScreen("up")) {
+        playerY = WORLD_HEIGHT - spriteHeight;
+      } else if (playerY >= WORLD_HEIGHT - spriteHeight && flipScreen("down")) {
+        playerY = 0;
+      }
+
+      // Doors: touching one that opens takes the player through to its screen,
+      // once they're off the door they last came out at
+      let doorTouched = false;
+      let doorUsed: PlaytestDoor | undefined;
+      for (const door of doors) {
+        if (playerX >= door.x + door.width || door.x >= playerX + spriteWidth ||
+          playerY >= door.y + door.height || door.y >= playerY + spriteHeight) continue;
+        doorTouched = true;
+        if (!doorLock && opensDoor(door.properties, !!keys["up"])) doorUsed = door;
+      }
+      if (!doorTouched) doorLock = false;
+      const doorTarget = doorUsed && screens.find(s => s.id === doorUsed.properties.targetScreen);
+      if (doorUsed && doorTarget) {
+        ({ x: playerX, y: playerY } = getDoorArrival(
+          doorUsed.properties, playerX, playerY, WORLD_WIDTH - spriteWidth, WORLD_HEIGHT - spriteHeight
+        ));
+        enterScreen(doorTarget);
+        isJumping = false;
+        climbing = false;
+        slide = 0;
+      }
+
+      if (currentScreen !== screenBefore) {
+        respawnX = playerX;
+        respawnY = playerY;
+      }
+
+      // Fire on the press of the fire key while there's a free shot, then fly the
+      // shots: each stops at its range, the screen edge, a solid block or an enemy
+      if (keys["fire"] && !fireHeld && shotSprite && ammunition && shots.length < maxShots) {
+        const [width, height] = shotSprite.size.split("x").map(Number);
+        const shot = createShot(
+          ammunition.properties, width || 8, height || 8, playerX, playerY, spriteWidth, spriteHeight, facingLeft
+        );
+        if (shot) shots.push(shot);
+      }
+      fireHeld = !!keys["fire"];
+      shots = shots.filter(shot => {
+        if (!moveShot(shot, shotSprite?.frames.length ?? 1)) return false;
+        const tip = getShotTip(shot);
+        const block = blockAt(tip.y >> 3, tip.x >> 3);
+        if (block && isSolid(block.type)) return false;
+        const enemy = enemies.find(e => shotHits(shot, e.x, e.y, e.width, e.height));
+        if (!enemy) return true;
+        enemy.health = hitEnemy(enemy.health, shot);
+        if (enemy.health === 0) enemies = enemies.filter(e => e !== enemy);
+        return false;
+      });
+
+      // Animate the player as the engine does: the action from how they move
+      // picks the sprite, and frames step at its animation speed
+      const action = getPlayerAction({
+        facingLeft,
+        walking: !!(keys["left"] || keys["right"]),
+        airborne: isJumping || (!climbing && !heldRope && !ridingPlatform && playerY > startY),
+        climbing: climbing && keys["up"] ? "up" : climbing && keys["down"] ? "down" : undefined,
+        firing: !!keys["fire"],
+      });
+      const next = resolveAnimation(playerObj, action);
+      if (next && (next.spriteId !== shown.spriteId || next.mirror !== shown.mirror)) {
+        shown = next;
+        animFrame = 0;
+        animTicks = 0;
+      } else if (next) {
+        const sprite = sprites.find(s => s.id === shown.spriteId) || playerSprite;
+        ({ frame: animFrame, ticks: animTicks } = stepAnimation(animFrame, animTicks, sprite.animationSpeed, sprite.frames.length));
+      }
 
-        if (animations[action]) {
-          spriteId = animations[action] as string;
-        } else if (action === "moveRight" && !animations.moveRight && animations.moveLeft) {
-          spriteId = animations.moveLeft;
-          shouldMirror = true;
-        } else if (action === "moveLeft" && !animations.moveLeft && animations.moveRight) {
-          spriteId = animations.moveRight;
-          shouldMirror = true;
-        } else if (action === "jumpRight" && !animations.jumpRight && animations.jumpLeft) {
-          spriteId = animations.jumpLeft;
-          shouldMirror = true;
-        } else if (action === "jumpLeft" && !animations.jumpLeft && animations.jumpRight) {
-          spriteId = animations.jumpRight;
-          shouldMirror = true;
+      // Render platforms and ropes
+      for (const { state, sprite } of platforms) {
+        if (state.type === "rope") {
+          ctx.fillStyle = "#fff";
+          getRopePoints(state, WORLD_HEIGHT).forEach(({ x, y }) => ctx.fillRect(x, y, 1, 1));
+          continue;
         }
+        sprite?.frames[0]?.pixels.forEach((pixelRow, py) => {
+          pixelRow.forEach((colorIndex, px) => {
+            if (!colorIndex) return;
+            ctx.fillStyle = SPECTRUM_COLORS[colorIndex]?.value || "#fff";
+            ctx.fillRect(state.x + px, state.y + py, 1, 1);
+          });
+        });
       }
 
-      const currentSprite = sprites.find(s => s.id === spriteId) || playerSprite;
+      // Render doors, enemies and shots
+      for (const { x, y, sprite } of [...doors, ...enemies]) {
+        sprite.frames[0]?.pixels.forEach((pixelRow, py) => {
+          pixelRow.forEach((colorIndex, px) => {
+            if (!colorIndex) return;
+            ctx.fillStyle = SPECTRUM_COLORS[colorIndex]?.value || "#fff";
+            ctx.fillRect(x + px, y + py, 1, 1);
+          });
+        });
+      }
+      for (const shot of shots) {
+        shotSprite?.frames[shot.frame]?.pixels.forEach((pixelRow, py) => {
+          pixelRow.forEach((colorIndex, px) => {
+            if (!colorIndex) return;
+            ctx.fillStyle = SPECTRUM_COLORS[colorIndex]?.value || "#fff";
+            ctx.fillRect(shot.x + px, shot.y + py, 1, 1);
+          });
+        });
+      }
+
+      const currentSprite = sprites.find(s => s.id === shown.spriteId) || playerSprite;
       const frame = currentSprite.frames[animFrame % currentSprite.frames.length];
 
-      // Render player sprite
+      // Render player sprite, sunk into a sinking block
+      const drawY = playerY + (sunk >> 2);
       if (frame?.pixels) {
         const spriteWidth = currentSprite.size.split("x").map(Number)[0] || 16;
         const spriteHeight = currentSprite.size.split("x").map(Number)[1] || 16;
 
-        if (shouldMirror) {
+        if (shown.mirror) {
           ctx.save();
           ctx.scale(-1, 1);
           for (let y = 0; y < spriteHeight; y++) {
@@ -411,7 +833,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
               const colorIndex = frame.pixels[y]?.[x];
               if (colorIndex !== undefined && colorIndex !== 0) {
                 ctx.fillStyle = SPECTRUM_COLORS[colorIndex]?.value || "#fff";
-                ctx.fillRect(-(playerX + spriteWidth) + x, playerY + y, 1, 1);
+                ctx.fillRect(-(playerX + spriteWidth) + x, drawY + y, 1, 1);
               }
             }
           }
@@ -422,7 +844,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
               const colorIndex = frame.pixels[y]?.[x];
               if (colorIndex !== undefined && colorIndex !== 0) {
                 ctx.fillStyle = SPECTRUM_COLORS[colorIndex]?.value || "#fff";
-                ctx.fillRect(playerX + x, playerY + y, 1, 1);
+                ctx.fillRect(playerX + x, drawY + y, 1, 1);
               }
             }
           }
@@ -443,7 +865,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
         clearInterval(gameLoopRef.current);
       }
     };
-  }, [playingLevelId, levels, screens, blocks, objects, sprites, JUMP_TRAJECTORY, JUMP_PEAK_FRAME, FRAME_INTERVAL]);
+  }, [playingLevelId, levels, screens, blocks, objects, sprites, settings, JUMP_TRAJECTORY, JUMP_PEAK_FRAME, FRAME_INTERVAL]);
 
   return (
     <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
@@ -629,6 +1051,55 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
             </label>
           ))}
         </div>
+        {selectedScreenIds.some(id => screens.find(s => s.id === id)?.type === "game") && (
+          <div className="space-y-2 overflow-auto max-h-full">
+            <div className="flex items-center justify-between">
+              <h4 className="text-sm font-bold text-primary">Screen Links</h4>
+              <Button variant="outline" size="sm" onClick={linkInOrder}>
+                <Link className="w-3 h-3 mr-1" />
+                Link in Order
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              The screen entered when the player leaves each edge
+            </p>
+            {selectedScreenIds.map(screenId => {
+              const screen = screens.find(s => s.id === screenId);
+              if (screen?.type !== "game") return null;
+              const links = getLinks(screenId);
+              return (
+                <div key={screenId} className="p-2 rounded border border-border space-y-1">
+                  <span className="text-sm truncate">{screen.name}</span>
+                  <div className="grid grid-cols-2 gap-1">
+                    {LINK_DIRECTIONS.map(({ key, label }) => (
+                      <Select
+                        key={key}
+                        value={links[key] ?? "none"}
+                        onValueChange={value => setLink(screenId, key, value === "none" ? undefined : value)}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue placeholder={label} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">{label}: none</SelectItem>
+                          {selectedScreenIds
+                            .filter(id => id !== screenId)
+                            .map(id => screens.find(s => s.id === id))
+                            .filter((s): s is Screen => s?.type === "game")
+                            .map(target => (
+                              <SelectItem key={target.id} value={target.id}>
+                                {label}: {target.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
         {editingLevelId ? (
           <div className="flex gap-2">
             <Button onClick={handleCancelEdit} variant="outline" className="flex-1">
@@ -698,7 +1169,7 @@ export const LevelDesigner = ({ levels, screens, blocks, objects, sprites, onLev
           </div>
           <div className="border-t p-4 bg-card">
             <p className="text-sm text-muted-foreground text-center">
-              Use Arrow Keys or WASD to move • Space/W/Up to jump
+              Arrow Keys or Q/W to move • Space/P/Up to jump • O/K to climb • M to fire • Gamepad: d-pad or stick, A jumps, B/X fire
             </p>
           </div>
         </DrawerContent>
@@ -0,0 +1,75 @@
+import { RAM_END, RAM_START, type MemoryMap, type MemoryRegionKind } from "@/lib/memoryMap";
+import { cn } from "@/lib/utils";
+
+interface MemoryMapBarProps {
+  map: MemoryMap;
+  className?: string;
+}
+
+const KIND_COLORS: Record<MemoryRegionKind, string> = {
+  system: "bg-slate-500",
+  buffer: "bg-sky-700",
+  stack: "bg-amber-600",
+  engine: "bg-violet-600",
+  variables: "bg-fuchsia-500",
+  bank: "bg-emerald-600",
+  unpacked: "bg-teal-400",
+  interrupt: "bg-orange-400",
+};
+
+const KIND_NAMES: Record<MemoryRegionKind, string> = {
+  system: "Display and BASIC",
+  buffer: "Back buffer",
+  stack: "Stack",
+  engine: "Engine",
+  variables: "Variables",
+  bank: "Data banks",
+  unpacked: "Unpacked",
+  interrupt: "Interrupts",
+};
+
+const hex = (address: number) => `0x${address.toString(16).toUpperCase().padStart(4, "0")}`;
+
+// The 48K RAM as a bar, one segment per region; a game too big runs past the
+// end of the bar in red
+export const MemoryMapBar = ({ map, className }: MemoryMapBarProps) => {
+  const last = map.regions[map.regions.length - 1];
+  const top = Math.max(RAM_END, last ? last.start + last.size : RAM_END);
+  const width = (bytes: number) => `${(bytes / (top - RAM_START)) * 100}%`;
+  const kinds = [...new Set(map.regions.map(region => region.kind))];
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      <div className="relative flex h-4 w-full overflow-hidden rounded bg-muted">
+        {map.regions.map(region => (
+          <div
+            key={region.name}
+            className={cn("h-full border-r border-background/40", KIND_COLORS[region.kind])}
+            style={{ width: width(region.size) }}
+            title={`${region.name}: ${hex(region.start)}-${hex(region.start + region.size - 1)}, ${region.size} bytes`}
+          />
+        ))}
+        {map.overflow > 0 && (
+          <div
+            className="absolute inset-y-0 right-0 bg-destructive/80"
+            style={{ width: width(map.overflow) }}
+            title={`${map.overflow} bytes past the top of RAM`}
+          />
+        )}
+      </div>
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-muted-foreground">
+        {kinds.map(kind => (
+          <span key={kind} className="flex items-center gap-1">
+            <span className={cn("inline-block h-2 w-2 rounded-sm", KIND_COLORS[kind])} />
+            {KIND_NAMES[kind]}
+          </span>
+        ))}
+      </div>
+      <p className={cn("text-xs", map.overflow > 0 ? "text-destructive" : "text-muted-foreground")}>
+        {map.overflow > 0
+          ? `${map.overflow} bytes too big for 48K: the export will fail`
+          : `${map.free} bytes free at the top of RAM`}
+      </p>
+    </div>
+  );
+};
@@ -8,9 +8,20 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Trash2, Plus, Copy, Grid3x3, ZoomIn, ZoomOut } from "lucide-react";
-import { type GameObject, type ObjectType, type Sprite, type AnimationSet, SPECTRUM_COLORS } from "@/types/spectrum";
+import { type GameObject, type ObjectType, type Sprite, type AnimationSet, type Level, SPECTRUM_COLORS } from "@/types/spectrum";
 import { toast } from "sonner";
 import { cn } from "@/lib/utils";
+import {
+  AI_BEHAVIOR_OPTIONS, DOOR_ACTIVATION_OPTIONS, EXIT_ACTIVATION_OPTIONS, OBJECT_PROPERTIES, OBJECT_TYPE_OPTIONS,
+  PATROL_TYPE_OPTIONS, PLATFORM_TYPE_OPTIONS, REPEAT_TYPE_OPTIONS, getPropertyField,
+} from "@/lib/propertySchema";
+import {
+  DEFAULT_PLATFORM_RANGE, DEFAULT_PLATFORM_SPEED, getPlatformDirection, getPlatformDirectionOptions,
+} from "@/lib/platformMotion";
+import {
+  DEFAULT_ENEMY_HEALTH, DEFAULT_PROJECTILE_DAMAGE, DEFAULT_PROJECTILE_RANGE, DEFAULT_PROJECTILE_SPEED,
+} from "@/lib/projectiles";
+import { DEFAULT_DOOR_ACTIVATION } from "@/lib/doors";
 
 // Canvas sizes: 512x384 (default) and 256x192 (zoomed out)
 const CANVAS_SIZES = [
@@ -28,6 +39,29 @@ const TILE_SIZE = 8;
 
 const ANIMATION_NONE_VALUE = "__none__";
 
+// Select value standing for "the next level in the game flow"
+const NEXT_LEVEL_VALUE = "__next__";
+
+// Select value standing for "the first ammunition in the library"
+const FIRST_AMMUNITION_VALUE = "__first__";
+
+// Packed property ranges
+const SPEED_FIELD = getPropertyField(OBJECT_PROPERTIES, "speed");
+const JUMP_HEIGHT_FIELD = getPropertyField(OBJECT_PROPERTIES, "jumpHeight");
+const GRAVITY_FIELD = getPropertyField(OBJECT_PROPERTIES, "gravity");
+const DAMAGE_FIELD = getPropertyField(OBJECT_PROPERTIES, "damage");
+const HEALTH_FIELD = getPropertyField(OBJECT_PROPERTIES, "health");
+const PROJECTILE_SPEED_FIELD = getPropertyField(OBJECT_PROPERTIES, "projectileSpeed");
+const PROJECTILE_DAMAGE_FIELD = getPropertyField(OBJECT_PROPERTIES, "projectileDamage");
+const PROJECTILE_RANGE_FIELD = getPropertyField(OBJECT_PROPERTIES, "projectileRange");
+const POINTS_FIELD = getPropertyField(OBJECT_PROPERTIES, "points");
+const PLATFORM_SPEED_FIELD = getPropertyField(OBJECT_PROPERTIES, "platformSpeed");
+const PLATFORM_RANGE_FIELD = getPropertyField(OBJECT_PROPERTIES, "platformRange");
+const PAUSE_FIELD = getPropertyField(OBJECT_PROPERTIES, "pauseAtEnds");
+
+// Elevator stops are whole blocks short of the far end, and fit a 16-bit mask
+const MAX_ELEVATOR_STOP = 15;
+
 // Manic Miner-style deterministic movement constants
 const GAME_FPS = 12; // Original ZX Spectrum frame rate
 const FRAME_INTERVAL = 1000 / GAME_FPS; // ~83.33ms per frame
@@ -43,10 +77,11 @@ const JUMP_PEAK_FRAME = 10; // Frame where ascent ends
 interface ObjectLibraryProps {
   objects: GameObject[];
   sprites: Sprite[];
+  levels: Level[];
   onObjectsChange: (objects: GameObject[]) => void;
 }
 
-export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibraryProps) {
+export function ObjectLibrary({ objects, sprites, levels, onObjectsChange }: ObjectLibraryProps) {
   const [selectedObjectId, setSelectedObjectId] = useState<string | null>(
     objects[0]?.id || null
   );
@@ -110,7 +145,8 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
           speed: 2, 
           patrolType: "left-right" as const,
           damage: 10, 
-          aiBehavior: "patrol" as const
+          aiBehavior: "patrol" as const,
+          health: DEFAULT_ENEMY_HEALTH
         };
       case "collectable":
         return { 
@@ -118,11 +154,15 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
           requiredToExit: false
         };
       case "ammunition":
-        return { projectileSpeed: 8, projectileDamage: 5, projectileRange: 100 };
+        return {
+          projectileSpeed: DEFAULT_PROJECTILE_SPEED,
+          projectileDamage: DEFAULT_PROJECTILE_DAMAGE,
+          projectileRange: DEFAULT_PROJECTILE_RANGE
+        };
       case "door":
-        return { targetRoom: "", targetFloor: 0 };
+        return { doorActivation: DEFAULT_DOOR_ACTIVATION };
       case "exit":
-        return { targetLevel: "", activationConditions: "" };
+        return { targetLevel: "", activationConditions: "required-items" as const };
       case "moving-platform":
         return { platformType: "horizontal" as const, platformSpeed: 2, platformRange: 8, pauseAtEnds: 500, startDirection: "right" as const, repeatType: "ping-pong" as const, playerCarry: true };
     }
@@ -644,13 +684,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                 <SelectValue placeholder="Create Object..." />
               </SelectTrigger>
               <SelectContent className="z-50">
-                <SelectItem value="player">Player</SelectItem>
-                <SelectItem value="enemy">Enemy</SelectItem>
-                <SelectItem value="ammunition">Ammunition</SelectItem>
-                <SelectItem value="collectable">Collectable</SelectItem>
-                <SelectItem value="door">Door</SelectItem>
-                <SelectItem value="exit">Exit</SelectItem>
-                <SelectItem value="moving-platform">Moving Platform</SelectItem>
+                {OBJECT_TYPE_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
@@ -750,13 +786,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="player">Player</SelectItem>
-                      <SelectItem value="enemy">Enemy</SelectItem>
-                      <SelectItem value="ammunition">Ammunition</SelectItem>
-                      <SelectItem value="collectable">Collectable</SelectItem>
-                      <SelectItem value="door">Door</SelectItem>
-                      <SelectItem value="exit">Exit</SelectItem>
-                      <SelectItem value="moving-platform">Moving Platform</SelectItem>
+                      {OBJECT_TYPE_OPTIONS.map(option => (
+                        <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -789,9 +821,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                       <Slider
                         value={[selectedObject.properties.speed || 3]}
                         onValueChange={([value]) => updateProperty("speed", value)}
-                        min={1}
-                        max={8}
-                        step={1}
+                        min={SPEED_FIELD.min}
+                        max={SPEED_FIELD.max}
+                        step={SPEED_FIELD.step}
                       />
                       <p className="text-xs text-muted-foreground">Horizontal movement speed</p>
                     </div>
@@ -800,9 +832,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                       <Slider
                         value={[selectedObject.properties.jumpHeight || 40]}
                         onValueChange={([value]) => updateProperty("jumpHeight", value)}
-                        min={16}
-                        max={80}
-                        step={4}
+                        min={JUMP_HEIGHT_FIELD.min}
+                        max={JUMP_HEIGHT_FIELD.max}
+                        step={JUMP_HEIGHT_FIELD.step}
                       />
                       <p className="text-xs text-muted-foreground">Maximum jump height in pixels</p>
                     </div>
@@ -811,9 +843,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                       <Slider
                         value={[selectedObject.properties.gravity || 5]}
                         onValueChange={([value]) => updateProperty("gravity", value)}
-                        min={1}
-                        max={10}
-                        step={1}
+                        min={GRAVITY_FIELD.min}
+                        max={GRAVITY_FIELD.max}
+                        step={GRAVITY_FIELD.step}
                       />
                       <p className="text-xs text-muted-foreground">Fall speed (higher = faster)</p>
                     </div>
@@ -889,6 +921,25 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                           />
                         </div>
                       </div>
+
+                      <div className="space-y-2 mt-3">
+                        <Label>Fires</Label>
+                        <Select
+                          value={selectedObject.properties.ammunition || FIRST_AMMUNITION_VALUE}
+                          onValueChange={(value) => updateProperty("ammunition", value === FIRST_AMMUNITION_VALUE ? "" : value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={FIRST_AMMUNITION_VALUE}>First ammunition in the library</SelectItem>
+                            {objects.filter(obj => obj.type === "ammunition").map(obj => (
+                              <SelectItem key={obj.id} value={obj.id}>{obj.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">Ammunition shot with the fire key</p>
+                      </div>
                     </div>
 
                     <div className="border-t pt-4 mt-4">
@@ -1095,9 +1146,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                       <Slider
                         value={[selectedObject.properties.speed || 2]}
                         onValueChange={([value]) => updateProperty("speed", value)}
-                        min={1}
-                        max={8}
-                        step={1}
+                        min={SPEED_FIELD.min}
+                        max={SPEED_FIELD.max}
+                        step={SPEED_FIELD.step}
                       />
                       <p className="text-xs text-muted-foreground">Enemy movement speed</p>
                     </div>
@@ -1111,10 +1162,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="left-right">Left-Right</SelectItem>
-                          <SelectItem value="up-down">Up-Down</SelectItem>
-                          <SelectItem value="circular">Circular</SelectItem>
-                          <SelectItem value="stationary">Stationary</SelectItem>
+                          {PATROL_TYPE_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <p className="text-xs text-muted-foreground">How the enemy patrols</p>
@@ -1124,12 +1174,23 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                       <Slider
                         value={[selectedObject.properties.damage || 10]}
                         onValueChange={([value]) => updateProperty("damage", value)}
-                        min={1}
-                        max={50}
-                        step={1}
+                        min={DAMAGE_FIELD.min}
+                        max={DAMAGE_FIELD.max}
+                        step={DAMAGE_FIELD.step}
                       />
                       <p className="text-xs text-muted-foreground">Damage dealt on contact</p>
                     </div>
+                    <div className="space-y-2">
+                      <Label>Health: {selectedObject.properties.health ?? DEFAULT_ENEMY_HEALTH}</Label>
+                      <Slider
+                        value={[selectedObject.properties.health ?? DEFAULT_ENEMY_HEALTH]}
+                        onValueChange={([value]) => updateProperty("health", value)}
+                        min={HEALTH_FIELD.min}
+                        max={HEALTH_FIELD.max}
+                        step={HEALTH_FIELD.step}
+                      />
+                      <p className="text-xs text-muted-foreground">Damage the player's shots deal before it goes</p>
+                    </div>
                     <div className="space-y-2">
                       <Label>AI Behavior</Label>
                       <Select
@@ -1140,10 +1201,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="patrol">Patrol</SelectItem>
-                          <SelectItem value="chase">Chase Player</SelectItem>
-                          <SelectItem value="guard">Guard Area</SelectItem>
-                          <SelectItem value="random">Random Movement</SelectItem>
+                          {AI_BEHAVIOR_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                       <p className="text-xs text-muted-foreground">Enemy AI pattern</p>
@@ -1154,34 +1214,37 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                 {selectedObject.type === "ammunition" && (
                   <>
                     <div className="space-y-2">
-                      <Label>Projectile Speed: {selectedObject.properties.projectileSpeed}</Label>
+                      <Label>Projectile Speed: {selectedObject.properties.projectileSpeed ?? DEFAULT_PROJECTILE_SPEED}</Label>
                       <Slider
-                        value={[selectedObject.properties.projectileSpeed || 8]}
+                        value={[selectedObject.properties.projectileSpeed ?? DEFAULT_PROJECTILE_SPEED]}
                         onValueChange={([value]) => updateProperty("projectileSpeed", value)}
-                        min={1}
-                        max={20}
-                        step={1}
+                        min={PROJECTILE_SPEED_FIELD.min}
+                        max={PROJECTILE_SPEED_FIELD.max}
+                        step={PROJECTILE_SPEED_FIELD.step}
                       />
+                      <p className="text-xs text-muted-foreground">Pixels per frame</p>
                     </div>
                     <div className="space-y-2">
-                      <Label>Projectile Damage: {selectedObject.properties.projectileDamage}</Label>
+                      <Label>Projectile Damage: {selectedObject.properties.projectileDamage ?? DEFAULT_PROJECTILE_DAMAGE}</Label>
                       <Slider
-                        value={[selectedObject.properties.projectileDamage || 5]}
+                        value={[selectedObject.properties.projectileDamage ?? DEFAULT_PROJECTILE_DAMAGE]}
                         onValueChange={([value]) => updateProperty("projectileDamage", value)}
-                        min={1}
-                        max={50}
-                        step={1}
+                        min={PROJECTILE_DAMAGE_FIELD.min}
+                        max={PROJECTILE_DAMAGE_FIELD.max}
+                        step={PROJECTILE_DAMAGE_FIELD.step}
                       />
+                      <p className="text-xs text-muted-foreground">Health taken from the enemy it hits</p>
                     </div>
                     <div className="space-y-2">
-                      <Label>Projectile Range: {selectedObject.properties.projectileRange}</Label>
+                      <Label>Projectile Range: {selectedObject.properties.projectileRange ?? DEFAULT_PROJECTILE_RANGE}</Label>
                       <Slider
-                        value={[selectedObject.properties.projectileRange || 100]}
+                        value={[selectedObject.properties.projectileRange ?? DEFAULT_PROJECTILE_RANGE]}
                         onValueChange={([value]) => updateProperty("projectileRange", value)}
-                        min={10}
-                        max={500}
-                        step={10}
+                        min={PROJECTILE_RANGE_FIELD.min}
+                        max={PROJECTILE_RANGE_FIELD.max}
+                        step={PROJECTILE_RANGE_FIELD.step}
                       />
+                      <p className="text-xs text-muted-foreground">Pixels it flies before it's gone</p>
                     </div>
                   </>
                 )}
@@ -1193,9 +1256,9 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                       <Slider
                         value={[selectedObject.properties.points || 10]}
                         onValueChange={([value]) => updateProperty("points", value)}
-                        min={0}
-                        max={1000}
-                        step={10}
+                        min={POINTS_FIELD.min}
+                        max={POINTS_FIELD.max}
+                        step={POINTS_FIELD.step}
                       />
                       <p className="text-xs text-muted-foreground">Points awarded when collected</p>
                     </div>
@@ -1215,137 +1278,199 @@ export function ObjectLibrary({ objects, sprites, onObjectsChange }: ObjectLibra
                 {selectedObject.type === "door" && (
                   <>
                     <div className="space-y-2">
-                      <Label>Target Room</Label>
-                      <Input
-                        value={selectedObject.properties.targetRoom || ""}
-                        onChange={(e) => updateProperty("targetRoom", e.target.value)}
-                        placeholder="e.g., room-2"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Target Floor: {selectedObject.properties.targetFloor}</Label>
-                      <Slider
-                        value={[selectedObject.properties.targetFloor || 0]}
-                        onValueChange={([value]) => updateProperty("targetFloor", value)}
-                        min={0}
-                        max={10}
-                        step={1}
-                      />
-                    </div>
-                  </>
-                )}
-
-                {selectedObject.type === "exit" && (
-                  <>
-                    <div className="space-y-2">
-                      <Label>Target Level</Label>
-                      <Input
-                        value={selectedObject.properties.targetLevel || ""}
-                        onChange={(e) => updateProperty("targetLevel", e.target.value)}
-                        placeholder="e.g., level-2"
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Activation Conditions</Label>
-                      <Input
-                        value={selectedObject.properties.activationConditions || ""}
-                        onChange={(e) => updateProperty("activationConditions", e.target.value)}
-                        placeholder="e.g., all-keys-collected"
-                      />
-                    </div>
-                  </>
-                )}
-
-                {selectedObject.type === "moving-platform" && (
-                  <>
-                    <div className="space-y-2">
-                      <Label>Platform Type</Label>
+                      <Label>Opens When</Label>
                       <Select
-                        value={selectedObject.properties.platformType || "horizontal"}
-                        onValueChange={(value) => updateProperty("platformType", value)}
+                        value={selectedObject.properties.doorActivation || DEFAULT_DOOR_ACTIVATION}
+                        onValueChange={(value) => updateProperty("doorActivation", value)}
                       >
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="horizontal">Horizontal Mover</SelectItem>
-                          <SelectItem value="vertical">Vertical Mover</SelectItem>
-                          <SelectItem value="elevator">Elevator</SelectItem>
-                          <SelectItem value="rope">Rope</SelectItem>
+                          {DOOR_ACTIVATION_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
+                      <p className="text-xs text-muted-foreground">
+                        Each placed door picks the screen it leads to and where the player comes out in the Screen Designer
+                      </p>
                     </div>
+                  </>
+                )}
+
+                {selectedObject.type === "exit" && (
+                  <>
                     <div className="space-y-2">
-                      <Label>Speed (pixels/frame): {selectedObject.properties.platformSpeed}</Label>
-                      <Slider
-                        value={[selectedObject.properties.platformSpeed || 2]}
-                        onValueChange={([value]) => updateProperty("platformSpeed", value)}
-                        min={1}
-                        max={8}
-                        step={1}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Range (blocks): {selectedObject.properties.platformRange}</Label>
-                      <Slider
-                        value={[selectedObject.properties.platformRange || 8]}
-                        onValueChange={([value]) => updateProperty("platformRange", value)}
-                        min={1}
-                        max={16}
-                        step={1}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Pause at Ends (ms): {selectedObject.properties.pauseAtEnds}</Label>
-                      <Slider
-                        value={[selectedObject.properties.pauseAtEnds || 500]}
-                        onValueChange={([value]) => updateProperty("pauseAtEnds", value)}
-                        min={0}
-                        max={2000}
-                        step={100}
-                      />
-                    </div>
-                    <div className="space-y-2">
-                      <Label>Start Direction</Label>
+                      <Label>Target Level</Label>
                       <Select
-                        value={selectedObject.properties.startDirection || "right"}
-                        onValueChange={(value) => updateProperty("startDirection", value)}
+                        value={selectedObject.properties.targetLevel || NEXT_LEVEL_VALUE}
+                        onValueChange={(value) => updateProperty("targetLevel", value === NEXT_LEVEL_VALUE ? "" : value)}
                       >
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="left">Left</SelectItem>
-                          <SelectItem value="right">Right</SelectItem>
-                          <SelectItem value="up">Up</SelectItem>
-                          <SelectItem value="down">Down</SelectItem>
+                          <SelectItem value={NEXT_LEVEL_VALUE}>Next level</SelectItem>
+                          {levels.map(level => (
+                            <SelectItem key={level.id} value={level.id}>{level.name}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
+                      <p className="text-xs text-muted-foreground">Level loaded when the player touches the exit</p>
                     </div>
                     <div className="space-y-2">
-                      <Label>Repeat Type</Label>
+                      <Label>Opens When</Label>
                       <Select
-                        value={selectedObject.properties.repeatType || "ping-pong"}
-                        onValueChange={(value) => updateProperty("repeatType", value)}
+                        value={selectedObject.properties.activationConditions || "required-items"}
+                        onValueChange={(value) => updateProperty("activationConditions", value)}
                       >
                         <SelectTrigger>
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="ping-pong">Ping-Pong</SelectItem>
-                          <SelectItem value="loop">Loop</SelectItem>
+                          {EXIT_ACTIVATION_OPTIONS.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
-                    </div>
-                    <div className="flex items-center justify-between">
-                      <Label>Player Carry</Label>
-                      <Switch
-                        checked={selectedObject.properties.playerCarry !== false}
-                        onCheckedChange={(checked) => updateProperty("playerCarry", checked)}
-                      />
+                      <p className="text-xs text-muted-foreground">An open exit flashes</p>
                     </div>
                   </>
                 )}
+
+                {selectedObject.type === "moving-platform" && (() => {
+                  const platformType = selectedObject.properties.platformType || "horizontal";
+                  const platformRange = selectedObject.properties.platformRange ?? DEFAULT_PLATFORM_RANGE;
+                  const elevatorStops = selectedObject.properties.elevatorStops ?? [];
+                  const isRope = platformType === "rope";
+                  const toggleStop = (stop: number) => updateProperty(
+                    "elevatorStops",
+                    elevatorStops.includes(stop)
+                      ? elevatorStops.filter(s => s !== stop)
+                      : [...elevatorStops, stop].sort((a, b) => a - b)
+                  );
+
+                  return (
+                    <>
+                      <div className="space-y-2">
+                        <Label>Platform Type</Label>
+                        <Select
+                          value={platformType}
+                          onValueChange={(value) => updateProperty("platformType", value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PLATFORM_TYPE_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <p className="text-xs text-muted-foreground">
+                          {isRope ? "Swings from where it's placed; the player grabs on and jumps off" : "Elevators move up and down, stopping on the way"}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label>
+                          {isRope ? "Swing Speed" : "Speed (pixels/frame)"}: {selectedObject.properties.platformSpeed ?? DEFAULT_PLATFORM_SPEED}
+                        </Label>
+                        <Slider
+                          value={[selectedObject.properties.platformSpeed ?? DEFAULT_PLATFORM_SPEED]}
+                          onValueChange={([value]) => updateProperty("platformSpeed", value)}
+                          min={PLATFORM_SPEED_FIELD.min}
+                          max={PLATFORM_SPEED_FIELD.max}
+                          step={PLATFORM_SPEED_FIELD.step}
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>{isRope ? "Length" : "Range"} (blocks): {platformRange}</Label>
+                        <Slider
+                          value={[platformRange]}
+                          onValueChange={([value]) => updateProperty("platformRange", value)}
+                          min={PLATFORM_RANGE_FIELD.min}
+                          max={PLATFORM_RANGE_FIELD.max}
+                          step={PLATFORM_RANGE_FIELD.step}
+                        />
+                      </div>
+                      {!isRope && (
+                        <div className="space-y-2">
+                          <Label>Pause at Ends (ms): {selectedObject.properties.pauseAtEnds ?? 0}</Label>
+                          <Slider
+                            value={[selectedObject.properties.pauseAtEnds ?? 0]}
+                            onValueChange={([value]) => updateProperty("pauseAtEnds", value)}
+                            min={PAUSE_FIELD.min}
+                            max={PAUSE_FIELD.max}
+                            step={PAUSE_FIELD.step}
+                          />
+                          <p className="text-xs text-muted-foreground">Also the wait at each elevator stop</p>
+                        </div>
+                      )}
+                      {platformType === "elevator" && (
+                        <div className="space-y-2">
+                          <Label>Elevator Stops</Label>
+                          <div className="flex flex-wrap gap-1">
+                            {Array.from({ length: Math.min(platformRange - 1, MAX_ELEVATOR_STOP) }, (_, i) => i + 1).map(stop => (
+                              <Button
+                                key={stop}
+                                size="sm"
+                                variant={elevatorStops.includes(stop) ? "default" : "outline"}
+                                className="h-7 w-7 p-0 text-xs"
+                                onClick={() => toggleStop(stop)}
+                              >
+                                {stop}
+                              </Button>
+                            ))}
+                          </div>
+                          <p className="text-xs text-muted-foreground">Blocks from the start where it pauses on the way</p>
+                        </div>
+                      )}
+                      <div className="space-y-2">
+                        <Label>{isRope ? "First Swing" : "Start Direction"}</Label>
+                        <Select
+                          value={getPlatformDirection(platformType, selectedObject.properties.startDirection)}
+                          onValueChange={(value) => updateProperty("startDirection", value)}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getPlatformDirectionOptions(platformType).map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      {!isRope && (
+                        <div className="space-y-2">
+                          <Label>Repeat Type</Label>
+                          <Select
+                            value={selectedObject.properties.repeatType || "ping-pong"}
+                            onValueChange={(value) => updateProperty("repeatType", value)}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {REPEAT_TYPE_OPTIONS.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <p className="text-xs text-muted-foreground">Loop jumps back to the start from the far end</p>
+                        </div>
+                      )}
+                      <div className="flex items-center justify-between">
+                        <Label>{isRope ? "Can Be Grabbed" : "Player Carry"}</Label>
+                        <Switch
+                          checked={selectedObject.properties.playerCarry !== false}
+                          onCheckedChange={(checked) => updateProperty("playerCarry", checked)}
+                        />
+                      </div>
+                    </>
+                  );
+                })()}
               </TabsContent>
             </Tabs>
           ) : (
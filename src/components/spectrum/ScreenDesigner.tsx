@@ -6,15 +6,25 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ColorPalette } from "@/components/spectrum/ColorPalette";
 import { LoadingScreenCreator } from "@/components/spectrum/LoadingScreenCreator";
-import { SPECTRUM_COLORS, type SpectrumColor, type Screen, type Block, type GameObject, type PlacedObject } from "@/types/spectrum";
+import { SPECTRUM_COLORS, type SpectrumColor, type Screen, type Block, type GameObject, type PlacedObject, type Level } from "@/types/spectrum";
 import { Plus, Trash2, Eraser, ZoomIn, ZoomOut, FlipHorizontal, Move } from "lucide-react";
 import { toast } from "sonner";
+import { DoorArrivalPicker } from "@/components/spectrum/DoorArrivalPicker";
+import {
+  AI_BEHAVIOR_OPTIONS, DOOR_ACTIVATION_OPTIONS, EXIT_ACTIVATION_OPTIONS, INSTANCE_PROPERTIES, OBJECT_PROPERTIES, PATROL_TYPE_OPTIONS,
+  PLATFORM_TYPE_OPTIONS, REPEAT_TYPE_OPTIONS, getPropertyField,
+} from "@/lib/propertySchema";
+import {
+  DEFAULT_PLATFORM_RANGE, DEFAULT_PLATFORM_SPEED, getPlatformDirection, getPlatformDirectionOptions,
+} from "@/lib/platformMotion";
+import { DEFAULT_DOOR_ACTIVATION } from "@/lib/doors";
 
 interface ScreenDesignerProps {
   blocks: Block[];
   objects: GameObject[];
   sprites: any[]; // Add sprites array
   screens: Screen[];
+  levels: Level[];
   onScreensChange: (screens: Screen[]) => void;
 }
 
@@ -24,7 +34,23 @@ const BASE_HEIGHT = 192;
 const MIN_ZOOM = 1;
 const MAX_ZOOM = 3;
 
-export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensChange }: ScreenDesignerProps) => {
+// Packed property ranges for per-instance overrides
+const SPEED_FIELD = getPropertyField(INSTANCE_PROPERTIES, "speed");
+const DAMAGE_FIELD = getPropertyField(INSTANCE_PROPERTIES, "damage");
+const PLATFORM_SPEED_FIELD = getPropertyField(INSTANCE_PROPERTIES, "platformSpeed");
+const PLATFORM_RANGE_FIELD = getPropertyField(INSTANCE_PROPERTIES, "platformRange");
+const PAUSE_FIELD = getPropertyField(INSTANCE_PROPERTIES, "pauseAtEnds");
+const POINTS_FIELD = getPropertyField(INSTANCE_PROPERTIES, "points");
+const JUMP_HEIGHT_FIELD = getPropertyField(OBJECT_PROPERTIES, "jumpHeight");
+const GRAVITY_FIELD = getPropertyField(OBJECT_PROPERTIES, "gravity");
+
+// Select value standing for "the next level in the game flow"
+const NEXT_LEVEL_VALUE = "__next__";
+
+// Select value standing for "a door that leads nowhere"
+const NO_SCREEN_VALUE = "__none__";
+
+export const ScreenDesigner = ({ blocks, objects, sprites, screens, levels, onScreensChange }: ScreenDesignerProps) => {
 
   const [selectedScreen, setSelectedScreen] = useState<Screen | null>(screens[0] || null);
   const [selectedBlock, setSelectedBlock] = useState<Block | null>(null);
@@ -644,14 +670,14 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
 
               const hasOverrides = selectedPlacedObject.propertyOverrides && Object.keys(selectedPlacedObject.propertyOverrides).length > 0;
 
-              const updatePropertyOverride = (key: string, value: any) => {
+              const updatePropertyOverrides = (values: Partial<GameObject["properties"]>) => {
                 const updated = placedObjects.map(obj =>
                   obj.id === selectedPlacedObject.id
                     ? { 
                         ...obj, 
                         propertyOverrides: { 
                           ...(obj.propertyOverrides || {}), 
-                          [key]: value 
+                          ...values 
                         } 
                       }
                     : obj
@@ -662,12 +688,14 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                 updateScreenObjects(updated);
               };
 
-              const resetPropertyOverride = (key: string) => {
+              const updatePropertyOverride = (key: string, value: any) => updatePropertyOverrides({ [key]: value });
+
+              const resetPropertyOverride = (...keys: string[]) => {
                 if (!selectedPlacedObject.propertyOverrides) return;
                 const updated = placedObjects.map(obj => {
                   if (obj.id === selectedPlacedObject.id) {
                     const newOverrides = { ...obj.propertyOverrides };
-                    delete newOverrides[key];
+                    keys.forEach(key => delete newOverrides[key]);
                     return {
                       ...obj,
                       propertyOverrides: Object.keys(newOverrides).length > 0 ? newOverrides : undefined
@@ -731,8 +759,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="range"
-                          min="1"
-                          max="8"
+                          min={SPEED_FIELD.min}
+                          max={SPEED_FIELD.max}
+                          step={SPEED_FIELD.step}
                           value={getEffectiveValue("speed") || 3}
                           onChange={(e) => updatePropertyOverride("speed", parseInt(e.target.value))}
                           className="w-full"
@@ -752,9 +781,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="range"
-                          min="16"
-                          max="80"
-                          step="4"
+                          min={JUMP_HEIGHT_FIELD.min}
+                          max={JUMP_HEIGHT_FIELD.max}
+                          step={JUMP_HEIGHT_FIELD.step}
                           value={getEffectiveValue("jumpHeight") || 40}
                           onChange={(e) => updatePropertyOverride("jumpHeight", parseInt(e.target.value))}
                           className="w-full"
@@ -774,8 +803,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="range"
-                          min="1"
-                          max="10"
+                          min={GRAVITY_FIELD.min}
+                          max={GRAVITY_FIELD.max}
+                          step={GRAVITY_FIELD.step}
                           value={getEffectiveValue("gravity") || 5}
                           onChange={(e) => updatePropertyOverride("gravity", parseInt(e.target.value))}
                           className="w-full"
@@ -802,8 +832,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="range"
-                          min="1"
-                          max="8"
+                          min={SPEED_FIELD.min}
+                          max={SPEED_FIELD.max}
+                          step={SPEED_FIELD.step}
                           value={getEffectiveValue("speed") || 2}
                           onChange={(e) => updatePropertyOverride("speed", parseInt(e.target.value))}
                           className="w-full"
@@ -829,10 +860,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="left-right">Left-Right</SelectItem>
-                            <SelectItem value="up-down">Up-Down</SelectItem>
-                            <SelectItem value="circular">Circular</SelectItem>
-                            <SelectItem value="stationary">Stationary</SelectItem>
+                            {PATROL_TYPE_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -850,8 +880,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="range"
-                          min="1"
-                          max="50"
+                          min={DAMAGE_FIELD.min}
+                          max={DAMAGE_FIELD.max}
+                          step={DAMAGE_FIELD.step}
                           value={getEffectiveValue("damage") || 10}
                           onChange={(e) => updatePropertyOverride("damage", parseInt(e.target.value))}
                           className="w-full"
@@ -877,10 +908,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="patrol">Patrol</SelectItem>
-                            <SelectItem value="chase">Chase Player</SelectItem>
-                            <SelectItem value="guard">Guard Area</SelectItem>
-                            <SelectItem value="random">Random Movement</SelectItem>
+                            {AI_BEHAVIOR_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -905,8 +935,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="number"
-                          min="1"
-                          max="1000"
+                          min={POINTS_FIELD.min}
+                          max={POINTS_FIELD.max}
+                          step={POINTS_FIELD.step}
                           value={getEffectiveValue("points") || 10}
                           onChange={(e) => updatePropertyOverride("points", parseInt(e.target.value))}
                           className="w-full px-2 py-1 border rounded text-sm"
@@ -1009,52 +1040,86 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                   )}
 
                   {/* Door Properties */}
-                  {globalObject.type === "door" && (
-                    <div className="space-y-3 border-t pt-3">
-                      <Label className="text-sm font-semibold">Properties</Label>
-                      
-                      <div className="space-y-2">
-                        <div className="flex items-center justify-between">
-                          <Label className="text-xs">Target Room</Label>
-                          {isOverridden("targetRoom") ? (
-                            <Button size="sm" variant="ghost" className="h-5 text-xs" onClick={() => resetPropertyOverride("targetRoom")}>
-                              Reset
-                            </Button>
-                          ) : (
-                            <span className="text-xs text-muted-foreground">Default</span>
-                          )}
+                  {globalObject.type === "door" && (() => {
+                    const targetScreen = screens.find(screen => screen.id === getEffectiveValue("targetScreen"));
+                    const hasArrival = isOverridden("arrivalX") && isOverridden("arrivalY");
+                    return (
+                      <div className="space-y-3 border-t pt-3">
+                        <Label className="text-sm font-semibold">Properties</Label>
+
+                        <div className="space-y-2">
+                          <Label className="text-xs">Target Screen</Label>
+                          <Select
+                            value={targetScreen?.id ?? NO_SCREEN_VALUE}
+                            onValueChange={(value) => value === NO_SCREEN_VALUE
+                              ? resetPropertyOverride("targetScreen", "arrivalX", "arrivalY")
+                              : updatePropertyOverride("targetScreen", value)}
+                          >
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value={NO_SCREEN_VALUE}>None</SelectItem>
+                              {screens.filter(screen => screen.type === "game").map(screen => (
+                                <SelectItem key={screen.id} value={screen.id}>{screen.name}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
-                        <input
-                          type="text"
-                          value={getEffectiveValue("targetRoom") || ""}
-                          onChange={(e) => updatePropertyOverride("targetRoom", e.target.value)}
-                          placeholder="Enter room ID"
-                          className="w-full px-2 py-1 border rounded text-sm"
-                        />
-                      </div>
 
-                      <div className="space-y-2">
-                        <div className="flex items-center justify-between">
-                          <Label className="text-xs">Target Floor: {getEffectiveValue("targetFloor") ?? 0}</Label>
-                          {isOverridden("targetFloor") ? (
-                            <Button size="sm" variant="ghost" className="h-5 text-xs" onClick={() => resetPropertyOverride("targetFloor")}>
-                              Reset
-                            </Button>
-                          ) : (
-                            <span className="text-xs text-muted-foreground">Default</span>
-                          )}
+                        {targetScreen && (
+                          <div className="space-y-2">
+                            <div className="flex items-center justify-between">
+                              <Label className="text-xs">
+                                Arrival: {hasArrival
+                                  ? `tile ${getEffectiveValue("arrivalX")}, ${getEffectiveValue("arrivalY")}`
+                                  : "where the player went in"}
+                              </Label>
+                              {hasArrival && (
+                                <Button size="sm" variant="ghost" className="h-5 text-xs" onClick={() => resetPropertyOverride("arrivalX", "arrivalY")}>
+                                  Reset
+                                </Button>
+                              )}
+                            </div>
+                            <DoorArrivalPicker
+                              screen={targetScreen}
+                              blocks={blocks}
+                              arrivalX={hasArrival ? getEffectiveValue("arrivalX") : undefined}
+                              arrivalY={hasArrival ? getEffectiveValue("arrivalY") : undefined}
+                              onPick={(x, y) => updatePropertyOverrides({ arrivalX: x, arrivalY: y })}
+                            />
+                            <p className="text-xs text-muted-foreground">Click the tile the player comes out at</p>
+                          </div>
+                        )}
+
+                        <div className="space-y-2">
+                          <div className="flex items-center justify-between">
+                            <Label className="text-xs">Opens When</Label>
+                            {isOverridden("doorActivation") ? (
+                              <Button size="sm" variant="ghost" className="h-5 text-xs" onClick={() => resetPropertyOverride("doorActivation")}>
+                                Reset
+                              </Button>
+                            ) : (
+                              <span className="text-xs text-muted-foreground">Default</span>
+                            )}
+                          </div>
+                          <Select
+                            value={getEffectiveValue("doorActivation") || DEFAULT_DOOR_ACTIVATION}
+                            onValueChange={(value) => updatePropertyOverride("doorActivation", value)}
+                          >
+                            <SelectTrigger className="h-8 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {DOOR_ACTIVATION_OPTIONS.map(option => (
+                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
                         </div>
-                        <input
-                          type="number"
-                          min="0"
-                          max="99"
-                          value={getEffectiveValue("targetFloor") ?? 0}
-                          onChange={(e) => updatePropertyOverride("targetFloor", parseInt(e.target.value))}
-                          className="w-full px-2 py-1 border rounded text-sm"
-                        />
                       </div>
-                    </div>
-                  )}
+                    );
+                  })()}
 
                   {/* Exit Properties */}
                   {globalObject.type === "exit" && (
@@ -1072,18 +1137,25 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                             <span className="text-xs text-muted-foreground">Default</span>
                           )}
                         </div>
-                        <input
-                          type="text"
-                          value={getEffectiveValue("targetLevel") || ""}
-                          onChange={(e) => updatePropertyOverride("targetLevel", e.target.value)}
-                          placeholder="Enter level ID"
-                          className="w-full px-2 py-1 border rounded text-sm"
-                        />
+                        <Select
+                          value={getEffectiveValue("targetLevel") || NEXT_LEVEL_VALUE}
+                          onValueChange={(value) => updatePropertyOverride("targetLevel", value === NEXT_LEVEL_VALUE ? "" : value)}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NEXT_LEVEL_VALUE}>Next level</SelectItem>
+                            {levels.map(level => (
+                              <SelectItem key={level.id} value={level.id}>{level.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
 
                       <div className="space-y-2">
                         <div className="flex items-center justify-between">
-                          <Label className="text-xs">Activation Conditions</Label>
+                          <Label className="text-xs">Opens When</Label>
                           {isOverridden("activationConditions") ? (
                             <Button size="sm" variant="ghost" className="h-5 text-xs" onClick={() => resetPropertyOverride("activationConditions")}>
                               Reset
@@ -1092,13 +1164,19 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                             <span className="text-xs text-muted-foreground">Default</span>
                           )}
                         </div>
-                        <input
-                          type="text"
-                          value={getEffectiveValue("activationConditions") || ""}
-                          onChange={(e) => updatePropertyOverride("activationConditions", e.target.value)}
-                          placeholder="e.g., all_items_collected"
-                          className="w-full px-2 py-1 border rounded text-sm"
-                        />
+                        <Select
+                          value={getEffectiveValue("activationConditions") || "required-items"}
+                          onValueChange={(value) => updatePropertyOverride("activationConditions", value)}
+                        >
+                          <SelectTrigger className="h-8 text-xs">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {EXIT_ACTIVATION_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                     </div>
                   )}
@@ -1127,8 +1205,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="horizontal">Horizontal</SelectItem>
-                            <SelectItem value="vertical">Vertical</SelectItem>
+                            {PLATFORM_TYPE_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -1146,9 +1225,10 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="range"
-                          min="1"
-                          max="8"
-                          value={getEffectiveValue("platformSpeed") || 2}
+                          min={PLATFORM_SPEED_FIELD.min}
+                          max={PLATFORM_SPEED_FIELD.max}
+                          step={PLATFORM_SPEED_FIELD.step}
+                          value={getEffectiveValue("platformSpeed") ?? DEFAULT_PLATFORM_SPEED}
                           onChange={(e) => updatePropertyOverride("platformSpeed", parseInt(e.target.value))}
                           className="w-full"
                         />
@@ -1167,9 +1247,10 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="range"
-                          min="2"
-                          max="20"
-                          value={getEffectiveValue("platformRange") || 8}
+                          min={PLATFORM_RANGE_FIELD.min}
+                          max={PLATFORM_RANGE_FIELD.max}
+                          step={PLATFORM_RANGE_FIELD.step}
+                          value={getEffectiveValue("platformRange") ?? DEFAULT_PLATFORM_RANGE}
                           onChange={(e) => updatePropertyOverride("platformRange", parseInt(e.target.value))}
                           className="w-full"
                         />
@@ -1188,10 +1269,10 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                         </div>
                         <input
                           type="range"
-                          min="0"
-                          max="2000"
-                          step="100"
-                          value={getEffectiveValue("pauseAtEnds") || 500}
+                          min={PAUSE_FIELD.min}
+                          max={PAUSE_FIELD.max}
+                          step={PAUSE_FIELD.step}
+                          value={getEffectiveValue("pauseAtEnds") ?? 0}
                           onChange={(e) => updatePropertyOverride("pauseAtEnds", parseInt(e.target.value))}
                           className="w-full"
                         />
@@ -1209,17 +1290,16 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                           )}
                         </div>
                         <Select
-                          value={getEffectiveValue("startDirection") || "right"}
+                          value={getPlatformDirection(getEffectiveValue("platformType") || "horizontal", getEffectiveValue("startDirection"))}
                           onValueChange={(value) => updatePropertyOverride("startDirection", value)}
                         >
                           <SelectTrigger className="h-8 text-xs">
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="left">Left</SelectItem>
-                            <SelectItem value="right">Right</SelectItem>
-                            <SelectItem value="up">Up</SelectItem>
-                            <SelectItem value="down">Down</SelectItem>
+                            {getPlatformDirectionOptions(getEffectiveValue("platformType") || "horizontal").map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -1243,9 +1323,9 @@ export const ScreenDesigner = ({ blocks, objects, sprites, screens, onScreensCha
                             <SelectValue />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="ping-pong">Ping-Pong</SelectItem>
-                            <SelectItem value="loop">Loop</SelectItem>
-                            <SelectItem value="once">Once</SelectItem>
+                            {REPEAT_TYPE_OPTIONS.map(option => (
+                              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
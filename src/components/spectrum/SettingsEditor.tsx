@@ -0,0 +1,153 @@
+import { Card } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { type GameSettings } from "@/types/spectrum";
+import { DEFAULT_HUD_ROWS, MAX_HUD_ROWS } from "@/lib/gameEngineAsm";
+import { DEFAULT_MAX_SHOTS, MAX_SHOTS } from "@/lib/projectiles";
+
+interface SettingsEditorProps {
+  settings: GameSettings;
+  author?: string;
+  onSettingsChange: (settings: GameSettings) => void;
+  onAuthorChange: (author: string) => void;
+}
+
+// Screen size in character cells
+const SCREEN_ROWS = 24;
+
+// The HUD shows at most this many lives icons
+const MAX_LIVES = 9;
+
+export const SettingsEditor = ({ settings, author, onSettingsChange, onAuthorChange }: SettingsEditorProps) => {
+  const hudRows = settings.hudRows ?? DEFAULT_HUD_ROWS;
+  const playRows = SCREEN_ROWS - hudRows;
+  const maxShots = settings.maxShots ?? DEFAULT_MAX_SHOTS;
+
+  const updateSettings = (changes: Partial<GameSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-3 auto-rows-min gap-4">
+      <Card className="p-4 space-y-4">
+        <h2 className="text-lg font-bold text-primary mb-4">Player</h2>
+
+        <div>
+          <Label htmlFor="settings-lives">Lives: {settings.lives}</Label>
+          <Slider
+            id="settings-lives"
+            min={1}
+            max={MAX_LIVES}
+            step={1}
+            value={[settings.lives]}
+            onValueChange={([lives]) => updateSettings({ lives })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">A life is lost when the energy runs out</p>
+        </div>
+
+        <div>
+          <Label htmlFor="settings-energy">Start Energy: {settings.startEnergy}</Label>
+          <Slider
+            id="settings-energy"
+            min={1}
+            max={255}
+            step={1}
+            value={[settings.startEnergy]}
+            onValueChange={([startEnergy]) => updateSettings({ startEnergy })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">Enemies take their damage from this; it refills on respawn</p>
+        </div>
+
+        <div>
+          <Label htmlFor="settings-max-shots">Shots on Screen: {maxShots}</Label>
+          <Slider
+            id="settings-max-shots"
+            min={1}
+            max={MAX_SHOTS}
+            step={1}
+            value={[maxShots]}
+            onValueChange={([shots]) => updateSettings({ maxShots: shots })}
+          />
+          <p className="text-xs text-muted-foreground mt-1">The fire key does nothing while this many are flying</p>
+        </div>
+
+        <div className="pt-4 border-t">
+          <Label htmlFor="settings-author">Author</Label>
+          <Input
+            id="settings-author"
+            value={author ?? ""}
+            onChange={(e) => onAuthorChange(e.target.value)}
+            placeholder="Your name"
+          />
+          <p className="text-xs text-muted-foreground mt-1">Written to the TZX archive info</p>
+        </div>
+      </Card>
+
+      <Card className="p-4 lg:col-span-2 space-y-4">
+        <h2 className="text-lg font-bold text-primary mb-4">HUD</h2>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-4">
+            <div>
+              <Label htmlFor="settings-hud-rows">HUD Rows: {hudRows}</Label>
+              <Slider
+                id="settings-hud-rows"
+                min={0}
+                max={MAX_HUD_ROWS}
+                step={1}
+                value={[hudRows]}
+                onValueChange={([rows]) => updateSettings({ hudRows: rows })}
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                Character rows kept at the bottom of the screen; tiles in them aren't drawn
+              </p>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="settings-show-score"
+                checked={settings.showScore}
+                disabled={hudRows === 0}
+                onCheckedChange={(checked) => updateSettings({ showScore: checked === true })}
+              />
+              <Label htmlFor="settings-show-score" className="cursor-pointer">Show score</Label>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="settings-show-energy"
+                checked={settings.showEnergy}
+                disabled={hudRows === 0}
+                onCheckedChange={(checked) => updateSettings({ showEnergy: checked === true })}
+              />
+              <Label htmlFor="settings-show-energy" className="cursor-pointer">Show energy bar</Label>
+            </div>
+          </div>
+
+          {/* Layout preview: play area above, HUD line in the first kept row */}
+          <div>
+            <Label>Layout</Label>
+            <div className="mt-2 border-2 border-border bg-black aspect-[4/3] flex flex-col font-mono text-[10px] leading-none">
+              <div
+                className="flex items-center justify-center text-muted-foreground border-b border-dashed border-border"
+                style={{ flexGrow: playRows }}
+              >
+                Play area: {playRows} rows
+              </div>
+              {hudRows > 0 && (
+                <div className="flex flex-col" style={{ flexGrow: hudRows }}>
+                  <div className="flex-1 flex items-center justify-between px-1 text-white">
+                    <span>{settings.showScore ? "SCORE 00000" : ""}</span>
+                    <span className="text-red-500">{"♥".repeat(Math.min(settings.lives, 8))}</span>
+                    <span className="w-1/4 h-1 bg-green-500" style={{ visibility: settings.showEnergy ? "visible" : "hidden" }} />
+                  </div>
+                  <div style={{ flexGrow: hudRows - 1 }} />
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,279 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { type SoundEffect, type SoundEvent, type SoundEvents } from "@/types/spectrum";
+import { Plus, Trash2, Edit, Play } from "lucide-react";
+import { toast } from "sonner";
+import {
+  MAX_SOUND_DURATION, MAX_SOUND_PITCH, MIN_SOUND_PITCH, SOUND_EVENT_OPTIONS, renderSoundEffect,
+} from "@/lib/soundPacker";
+
+interface SoundDesignerProps {
+  sounds: SoundEffect[];
+  soundEvents: SoundEvents;
+  onSoundsChange: (sounds: SoundEffect[]) => void;
+  onSoundEventsChange: (soundEvents: SoundEvents) => void;
+}
+
+const NEW_SOUND: Omit<SoundEffect, "id"> = {
+  name: "",
+  wave: "tone",
+  startPitch: 440,
+  endPitch: 1760,
+  duration: 150,
+};
+
+// Select value standing for "no sound" (Select items can't have an empty value)
+const NO_SOUND_VALUE = "none";
+
+export const SoundDesigner = ({ sounds, soundEvents, onSoundsChange, onSoundEventsChange }: SoundDesignerProps) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [editingSound, setEditingSound] = useState<Partial<SoundEffect>>(NEW_SOUND);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  const resetForm = () => {
+    setIsEditing(false);
+    setEditingSound(NEW_SOUND);
+  };
+
+  // Play an effect as the beeper would
+  const handlePreview = (sound: Partial<SoundEffect>) => {
+    const effect = { ...NEW_SOUND, id: "preview", ...sound };
+    const context = audioContextRef.current ?? new AudioContext();
+    audioContextRef.current = context;
+
+    const samples = renderSoundEffect(effect, context.sampleRate);
+    if (samples.length === 0) return;
+    const buffer = context.createBuffer(1, samples.length, context.sampleRate);
+    buffer.getChannelData(0).set(samples);
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    source.connect(context.destination);
+    source.start();
+  };
+
+  const handleCreateSound = () => {
+    if (!editingSound.name) {
+      toast.error("Please enter a name");
+      return;
+    }
+
+    const newSound: SoundEffect = {
+      ...NEW_SOUND,
+      ...editingSound,
+      id: `sound-${Date.now()}`,
+      name: editingSound.name,
+    };
+
+    onSoundsChange([...sounds, newSound]);
+    toast.success(`Sound "${newSound.name}" created!`);
+    resetForm();
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingSound.name || !editingSound.id) {
+      toast.error("Invalid sound data");
+      return;
+    }
+
+    onSoundsChange(sounds.map(s => (s.id === editingSound.id ? { ...s, ...editingSound } as SoundEffect : s)));
+    toast.success(`Sound "${editingSound.name}" updated!`);
+    resetForm();
+  };
+
+  const handleDeleteSound = (soundId: string) => {
+    onSoundsChange(sounds.filter(s => s.id !== soundId));
+
+    // Events that played it go silent
+    const remainingEvents = Object.fromEntries(
+      Object.entries(soundEvents).filter(([, id]) => id !== soundId)
+    ) as SoundEvents;
+    onSoundEventsChange(remainingEvents);
+
+    toast.success("Sound deleted");
+    if (editingSound.id === soundId) {
+      resetForm();
+    }
+  };
+
+  const handleEventChange = (event: SoundEvent, value: string) => {
+    onSoundEventsChange({ ...soundEvents, [event]: value === NO_SOUND_VALUE ? undefined : value });
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-4 auto-rows-min gap-4">
+      <Card className="p-4 lg:col-span-3 rounded-lg border bg-card text-card-foreground shadow-sm space-y-4">
+        <h2 className="text-lg font-bold text-primary mb-4">Sound Library</h2>
+
+        {sounds.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <p>No sounds created yet</p>
+            <p className="text-sm mt-2">Create beeper effects and attach them to game events</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-3">
+            {sounds.map((sound) => (
+              <Card
+                key={sound.id}
+                className={`p-3 transition-all hover:border-primary ${
+                  editingSound.id === sound.id ? "border-primary retro-glow" : ""
+                }`}
+              >
+                <p className="text-xs font-semibold text-center truncate">{sound.name}</p>
+                <p className="text-xs text-muted-foreground text-center">
+                  {sound.wave}, {sound.startPitch}-{sound.endPitch}Hz, {sound.duration}ms
+                </p>
+                <div className="flex gap-1 mt-2">
+                  <Button size="sm" variant="ghost" className="flex-1 h-7" onClick={() => handlePreview(sound)}>
+                    <Play className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="flex-1 h-7"
+                    onClick={() => {
+                      setIsEditing(true);
+                      setEditingSound({ ...sound });
+                    }}
+                  >
+                    <Edit className="w-3 h-3" />
+                  </Button>
+                  <Button size="sm" variant="ghost" className="flex-1 h-7" onClick={() => handleDeleteSound(sound.id)}>
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              </Card>
+            ))}
+          </div>
+        )}
+
+        <div className="pt-4 border-t space-y-3">
+          <div>
+            <h3 className="font-semibold text-sm">Game Events</h3>
+            <p className="text-xs text-muted-foreground">The engine plays these through the beeper (port 0xFE)</p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3">
+            {SOUND_EVENT_OPTIONS.map((event) => (
+              <div key={event.value}>
+                <Label htmlFor={`sound-event-${event.value}`}>{event.label}</Label>
+                <Select
+                  value={soundEvents[event.value] ?? NO_SOUND_VALUE}
+                  onValueChange={(value) => handleEventChange(event.value, value)}
+                >
+                  <SelectTrigger id={`sound-event-${event.value}`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SOUND_VALUE}>No sound</SelectItem>
+                    {sounds.map((sound) => (
+                      <SelectItem key={sound.id} value={sound.id}>{sound.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground mt-1">{event.description}</p>
+              </div>
+            ))}
+          </div>
+        </div>
+      </Card>
+
+      {/* Sound Creator/Editor */}
+      <Card className="p-4">
+        <h2 className="text-lg font-bold text-primary mb-4">
+          {isEditing ? "Edit Sound" : "Create Sound"}
+        </h2>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="sound-name">Sound Name</Label>
+            <Input
+              id="sound-name"
+              value={editingSound.name || ""}
+              onChange={(e) => setEditingSound({ ...editingSound, name: e.target.value })}
+              placeholder="e.g., Jump, Coin, Explosion"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="sound-wave">Wave</Label>
+            <Select
+              value={editingSound.wave}
+              onValueChange={(wave) => setEditingSound({ ...editingSound, wave: wave as SoundEffect["wave"] })}
+            >
+              <SelectTrigger id="sound-wave">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="tone">Tone</SelectItem>
+                <SelectItem value="noise">Noise</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label htmlFor="sound-start-pitch">Start Pitch: {editingSound.startPitch}Hz</Label>
+            <Slider
+              id="sound-start-pitch"
+              min={MIN_SOUND_PITCH}
+              max={MAX_SOUND_PITCH}
+              step={10}
+              value={[editingSound.startPitch ?? NEW_SOUND.startPitch]}
+              onValueChange={([value]) => setEditingSound({ ...editingSound, startPitch: value })}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="sound-end-pitch">End Pitch: {editingSound.endPitch}Hz</Label>
+            <Slider
+              id="sound-end-pitch"
+              min={MIN_SOUND_PITCH}
+              max={MAX_SOUND_PITCH}
+              step={10}
+              value={[editingSound.endPitch ?? NEW_SOUND.endPitch]}
+              onValueChange={([value]) => setEditingSound({ ...editingSound, endPitch: value })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">Equal pitches give a steady note</p>
+          </div>
+
+          <div>
+            <Label htmlFor="sound-duration">Duration: {editingSound.duration}ms</Label>
+            <Slider
+              id="sound-duration"
+              min={10}
+              max={MAX_SOUND_DURATION}
+              step={10}
+              value={[editingSound.duration ?? NEW_SOUND.duration]}
+              onValueChange={([value]) => setEditingSound({ ...editingSound, duration: value })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">The game waits while a sound plays</p>
+          </div>
+
+          <Button onClick={() => handlePreview(editingSound)} variant="outline" className="w-full">
+            <Play className="w-4 h-4 mr-2" />
+            Preview
+          </Button>
+
+          {isEditing ? (
+            <div className="flex gap-2">
+              <Button onClick={resetForm} variant="outline" className="flex-1">
+                Cancel
+              </Button>
+              <Button onClick={handleSaveEdit} className="flex-1">
+                Save Changes
+              </Button>
+            </div>
+          ) : (
+            <Button onClick={handleCreateSound} className="w-full">
+              <Plus className="w-4 h-4 mr-2" />
+              Create Sound
+            </Button>
+          )}
+        </div>
+      </Card>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 import { useState, useRef, useEffect } from "react";
-import { SPECTRUM_COLORS, type Sprite, type SpectrumColor, type SpriteSize } from "@/types/spectrum";
+import { SPECTRUM_COLORS, type AttributeCell, type Sprite, type SpectrumColor, type SpriteSize } from "@/types/spectrum";
 import { ColorPalette } from "./ColorPalette";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
@@ -7,24 +7,51 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Slider } from "@/components/ui/slider";
-import { Eraser, Grid3x3, ZoomIn, ZoomOut, Plus, Trash2, Play, Pause, Copy } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import { Eraser, Grid3x3, ZoomIn, ZoomOut, Plus, Trash2, Play, Pause, Copy, Palette, AlertTriangle } from "lucide-react";
 import { cn } from "@/lib/utils";
+import {
+  ATTRIBUTE_CELL_SIZE,
+  findAttributeClashes,
+  getAttributeGridSize,
+  getFrameAttributes,
+  getInkColorIndex,
+  getPaperColorIndex,
+} from "@/lib/spriteAttributes";
 import { toast } from "sonner";
 
-const countUsedColors = (pixels: number[][]) => {
-  const colors = new Set<number>();
+const SPECTRUM_INKS = [0, 1, 2, 3, 4, 5, 6, 7];
 
-  for (let y = 0; y < pixels.length; y++) {
-    for (let x = 0; x < pixels[y].length; x++) {
-      const value = pixels[y][x];
-      if (value !== 0) { // ignore transparent
-        colors.add(value);
-      }
-    }
-  }
+interface AttributeSwatchesProps {
+  label: string;
+  value: number;
+  bright: boolean;
+  onChange: (value: number) => void;
+}
 
-  return colors.size;
-};
+// One row of the 8 Spectrum colours, for picking an attribute INK or PAPER
+const AttributeSwatches = ({ label, value, bright, onChange }: AttributeSwatchesProps) => (
+  <div className="space-y-1">
+    <Label className="text-xs">{label}</Label>
+    <div className="flex gap-1">
+      {SPECTRUM_INKS.map((ink) => {
+        const color = SPECTRUM_COLORS[ink + (bright ? 8 : 0)];
+        return (
+          <button
+            key={ink}
+            onClick={() => onChange(ink)}
+            className={cn(
+              "w-6 h-6 rounded border-2 transition-all hover:scale-110",
+              value === ink ? "border-primary retro-glow" : "border-border"
+            )}
+            style={{ backgroundColor: color.value }}
+            title={color.name}
+          />
+        );
+      })}
+    </div>
+  </div>
+);
 
 interface SpriteEditorProps {
   sprites: Sprite[];
@@ -42,6 +69,8 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
   const [selectedSpriteId, setSelectedSpriteId] = useState(sprites[0]?.id);
   const [selectedColor, setSelectedColor] = useState<SpectrumColor>(SPECTRUM_COLORS[7]); // White
   const [isErasing, setIsErasing] = useState(false);
+  const [isAttributeMode, setIsAttributeMode] = useState(false);
+  const [attributeBrush, setAttributeBrush] = useState<AttributeCell>({ ink: 7, paper: 0, bright: false, flash: false });
   const [zoom, setZoom] = useState(16);
   const [showGrid, setShowGrid] = useState(true);
   const [isDrawing, setIsDrawing] = useState(false);
@@ -57,10 +86,11 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
   const sprite = sprites.find(s => s.id === selectedSpriteId) || sprites[0] || null;
   const [width, height] = sprite ? sprite.size.split("x").map(Number) : [8, 8];
   const currentFrame = sprite?.frames?.[currentFrameIndex];
+  const clashes = findAttributeClashes(currentFrame, width, height);
 
   useEffect(() => {
     drawSprite();
-  }, [sprite, zoom, showGrid, currentFrameIndex]);
+  }, [sprite, zoom, showGrid, currentFrameIndex, isAttributeMode]);
 
   // Animation preview loop
   useEffect(() => {
@@ -88,10 +118,15 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
     canvas.width = width * zoom;
     canvas.height = height * zoom;
 
-    // Draw pixels
+    // Draw pixels (in attribute mode, as the Spectrum shows them: INK and PAPER per cell)
+    const attributes = getFrameAttributes(currentFrame, width, height);
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
-        const colorIndex = currentFrame.pixels[y]?.[x] ?? 0;
+        let colorIndex = currentFrame.pixels[y]?.[x] ?? 0;
+        if (isAttributeMode) {
+          const cell = attributes[Math.floor(y / ATTRIBUTE_CELL_SIZE)][Math.floor(x / ATTRIBUTE_CELL_SIZE)];
+          colorIndex = colorIndex !== 0 ? getInkColorIndex(cell) : getPaperColorIndex(cell);
+        }
         const color = SPECTRUM_COLORS[colorIndex];
         ctx.fillStyle = color.value;
         ctx.fillRect(x * zoom, y * zoom, zoom, zoom);
@@ -116,6 +151,29 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
       }
     }
 
+    // Draw attribute cell boundaries and outline clashing cells
+    const cellSize = ATTRIBUTE_CELL_SIZE * zoom;
+    ctx.strokeStyle = "rgba(100, 100, 255, 0.6)";
+    ctx.lineWidth = 1;
+    ctx.strokeRect(0, 0, width * zoom, height * zoom);
+    for (let x = cellSize; x < width * zoom; x += cellSize) {
+      ctx.beginPath();
+      ctx.moveTo(x, 0);
+      ctx.lineTo(x, height * zoom);
+      ctx.stroke();
+    }
+    for (let y = cellSize; y < height * zoom; y += cellSize) {
+      ctx.beginPath();
+      ctx.moveTo(0, y);
+      ctx.lineTo(width * zoom, y);
+      ctx.stroke();
+    }
+    ctx.strokeStyle = "rgba(255, 60, 60, 0.9)";
+    ctx.lineWidth = 2;
+    for (const clash of clashes) {
+      ctx.strokeRect(clash.col * cellSize + 1, clash.row * cellSize + 1, cellSize - 2, cellSize - 2);
+    }
+
     // Draw collision box offset guides (dotted lines)
     if (sprite.collisionBox) {
       const { offsetTop, offsetBottom, offsetLeft, offsetRight } = sprite.collisionBox;
@@ -195,6 +253,11 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
     const y = Math.floor((e.clientY - rect.top) / zoom);
 
     if (x >= 0 && x < width && y >= 0 && y < height) {
+      if (isAttributeMode) {
+        applyAttribute(Math.floor(x / ATTRIBUTE_CELL_SIZE), Math.floor(y / ATTRIBUTE_CELL_SIZE));
+        return;
+      }
+
       const newPixels = currentFrame.pixels.map(row => [...row]);
       if (!newPixels[y]) newPixels[y] = new Array(width).fill(0);
 
@@ -206,13 +269,6 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
 
       newPixels[y][x] = colorIndex;
 
-      const colourCount = countUsedColors(newPixels);
-
-      if (colourCount > 2) {
-        toast.error("ZX Spectrum limit: Only 2 colours per sprite allowed.");
-        return;
-      }
-
       const updatedFrames = sprite.frames.map((f, i) =>
         i === currentFrameIndex ? { ...f, pixels: newPixels } : f
       );
@@ -225,6 +281,48 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
     }
   };
   
+  const updateFrameAttributes = (attributes: AttributeCell[][] | undefined) => {
+    if (!sprite) return;
+    const updatedFrames = sprite.frames.map((f, i) =>
+      i === currentFrameIndex ? { ...f, attributes } : f
+    );
+    const updatedSprites = sprites.map(s =>
+      s.id === sprite.id ? { ...sprite, frames: updatedFrames } : s
+    );
+    onSpritesChange(updatedSprites);
+  };
+
+  // Paint the attribute brush onto one 8x8 cell of the current frame
+  const applyAttribute = (col: number, row: number) => {
+    const attributes = getFrameAttributes(currentFrame, width, height).map(cells => [...cells]);
+    const cell = attributes[row]?.[col];
+    if (!cell) return;
+    if (
+      cell.ink === attributeBrush.ink &&
+      cell.paper === attributeBrush.paper &&
+      cell.bright === attributeBrush.bright &&
+      cell.flash === attributeBrush.flash &&
+      currentFrame?.attributes
+    ) {
+      return;
+    }
+    attributes[row][col] = { ...attributeBrush };
+    updateFrameAttributes(attributes);
+  };
+
+  const fillAttributes = () => {
+    const { cols, rows } = getAttributeGridSize(width, height);
+    updateFrameAttributes(
+      Array.from({ length: rows }, () => Array.from({ length: cols }, () => ({ ...attributeBrush })))
+    );
+    toast.success("Attributes applied to every cell");
+  };
+
+  const resetAttributes = () => {
+    updateFrameAttributes(undefined);
+    toast.success("Attributes derived from pixel colours");
+  };
+
   const handleMouseDown = (e: React.MouseEvent<HTMLCanvasElement>) => {
     setIsDrawing(true);
     handleCanvasClick(e);
@@ -323,7 +421,10 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
 
   const handleDuplicateFrame = () => {
     if (!sprite || !currentFrame) return;
-    const duplicatedFrame = { pixels: currentFrame.pixels.map(row => [...row]) };
+    const duplicatedFrame = {
+      pixels: currentFrame.pixels.map(row => [...row]),
+      attributes: currentFrame.attributes?.map(row => row.map(cell => ({ ...cell }))),
+    };
     const updatedFrames = [...sprite.frames];
     updatedFrames.splice(currentFrameIndex + 1, 0, duplicatedFrame);
     const updatedSprites = sprites.map(s =>
@@ -665,20 +766,28 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
 
           <div className="flex gap-2">
             <Button
-              variant={!isErasing ? "default" : "outline"}
+              variant={!isErasing && !isAttributeMode ? "default" : "outline"}
               size="sm"
-              onClick={() => setIsErasing(false)}
+              onClick={() => { setIsErasing(false); setIsAttributeMode(false); }}
             >
               Draw
             </Button>
             <Button
-              variant={isErasing ? "default" : "outline"}
+              variant={isErasing && !isAttributeMode ? "default" : "outline"}
               size="sm"
-              onClick={() => setIsErasing(true)}
+              onClick={() => { setIsErasing(true); setIsAttributeMode(false); }}
             >
               <Eraser className="w-4 h-4 mr-2" />
               Erase
             </Button>
+            <Button
+              variant={isAttributeMode ? "default" : "outline"}
+              size="sm"
+              onClick={() => setIsAttributeMode(true)}
+            >
+              <Palette className="w-4 h-4 mr-2" />
+              Attributes
+            </Button>
             <Button variant="outline" size="sm" onClick={() => setShowGrid(!showGrid)}>
               <Grid3x3 className="w-4 h-4" />
             </Button>
@@ -708,9 +817,69 @@ export const SpriteEditor = ({ sprites, onSpritesChange }: SpriteEditorProps) =>
             />
           </div>
 
-          <div className="text-xs text-muted-foreground mt-2 text-center">
-            Colours used in frame: {currentFrame ? countUsedColors(currentFrame.pixels) : 0} / 2
-          </div>
+          {/* Attribute cells: one INK/PAPER/BRIGHT/FLASH per 8x8 cell */}
+          {isAttributeMode && (
+            <Card className="p-4 bg-muted/30">
+              <h3 className="text-sm font-semibold mb-3">Attribute Brush</h3>
+              <p className="text-xs text-muted-foreground mb-3">
+                Click or drag over 8×8 cells to paint INK, PAPER, BRIGHT and FLASH. Drawn pixels show in the cell's INK, the rest in its PAPER.
+              </p>
+              <div className="flex flex-wrap items-end gap-6">
+                <AttributeSwatches
+                  label="INK"
+                  value={attributeBrush.ink}
+                  bright={attributeBrush.bright}
+                  onChange={(ink) => setAttributeBrush({ ...attributeBrush, ink })}
+                />
+                <AttributeSwatches
+                  label="PAPER"
+                  value={attributeBrush.paper}
+                  bright={attributeBrush.bright}
+                  onChange={(paper) => setAttributeBrush({ ...attributeBrush, paper })}
+                />
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="attribute-bright"
+                    checked={attributeBrush.bright}
+                    onCheckedChange={(bright) => setAttributeBrush({ ...attributeBrush, bright })}
+                  />
+                  <Label htmlFor="attribute-bright" className="text-xs">BRIGHT</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="attribute-flash"
+                    checked={attributeBrush.flash}
+                    onCheckedChange={(flash) => setAttributeBrush({ ...attributeBrush, flash })}
+                  />
+                  <Label htmlFor="attribute-flash" className="text-xs">FLASH</Label>
+                </div>
+              </div>
+              <div className="flex gap-2 mt-3">
+                <Button size="sm" variant="outline" onClick={fillAttributes}>
+                  Fill All Cells
+                </Button>
+                <Button size="sm" variant="outline" onClick={resetAttributes} disabled={!currentFrame?.attributes}>
+                  Derive From Pixels
+                </Button>
+              </div>
+            </Card>
+          )}
+
+          {clashes.length > 0 ? (
+            <div className="text-xs text-destructive mt-2 space-y-1">
+              {clashes.map(clash => (
+                <div key={`${clash.col}-${clash.row}`} className="flex items-center justify-center gap-1">
+                  <AlertTriangle className="w-3 h-3" />
+                  Attribute clash in cell ({clash.col}, {clash.row}):{" "}
+                  {clash.colors.map(c => SPECTRUM_COLORS[c]?.name).join(", ")} will all show in the cell's INK
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-xs text-muted-foreground mt-2 text-center">
+              No attribute clashes: every 8×8 cell uses a single INK
+            </div>
+          )}
 
           {/* Frame Timeline */}
           <Card className="p-4 mt-4">
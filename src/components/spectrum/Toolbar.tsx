@@ -8,7 +8,8 @@ import {
   Settings, 
   Gamepad2,
   Layers,
-  Workflow
+  Workflow,
+  Volume2
 } from "lucide-react";
 
 interface ToolbarProps {
@@ -24,6 +25,7 @@ export const Toolbar = ({ activeTab, onTabChange }: ToolbarProps) => {
     { value: "objects", label: "Objects", icon: Gamepad2 },
     { value: "levels", label: "Levels", icon: Layers },
     { value: "gameflow", label: "Game Flow", icon: Workflow },
+    { value: "sound", label: "Sound", icon: Volume2 },
     { value: "settings", label: "Settings", icon: Settings },
   ];
 
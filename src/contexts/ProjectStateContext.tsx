@@ -1,105 +1,12 @@
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from "react";
-import { type GameProject, SPECTRUM_COLORS } from "@/types/spectrum";
+import { type GameProject } from "@/types/spectrum";
+import { hydrateProjectFromStorage, serializeProjectForStorage } from "@/lib/projectStorage";
 import { supabase } from "@/supabase";
 import { toast } from "sonner";
 
 const STORAGE_KEY = "zx-spectrum-project";
 const AUTO_SAVE_DELAY = 120000; // 2 minutes in milliseconds
 
-// Compress project before saving
-const serializeProjectForStorage = (project: GameProject) => {
-  const serializedScreens = project.screens.map((screen) => {
-    let pixels: number[][] | undefined;
-
-    if (screen.pixels) {
-      pixels = screen.pixels.map((row) =>
-        row.map((color) => {
-          if (!color) return -1;
-          const idx = SPECTRUM_COLORS.findIndex(
-            (c) =>
-              c.value === color.value &&
-              c.ink === color.ink &&
-              c.bright === color.bright
-          );
-          return idx >= 0 ? idx : 0;
-        })
-      );
-    }
-
-    return {
-      ...screen,
-      pixels,
-    };
-  });
-
-  return {
-    ...project,
-    screens: serializedScreens,
-  };
-};
-
-// Expand project loaded from storage
-const hydrateProjectFromStorage = (loaded: any): GameProject => {
-  const migratedSprites =
-    loaded.sprites?.map((sprite: any) => {
-      if (sprite.pixels && !sprite.frames) {
-        return {
-          ...sprite,
-          frames: [{ pixels: sprite.pixels }],
-          animationSpeed: sprite.animationSpeed ?? 4,
-          pixels: undefined,
-        };
-      }
-      return sprite;
-    }) || [];
-
-  const migratedScreens = (loaded.screens ?? []).map((screen: any) => {
-    let pixels = screen.pixels;
-
-    if (pixels && Array.isArray(pixels) && pixels.length > 0 && Array.isArray(pixels[0])) {
-      const first = pixels[0][0];
-      if (typeof first === "number") {
-        pixels = pixels.map((row: number[]) =>
-          row.map((idx: number) => {
-            if (idx < 0 || idx >= SPECTRUM_COLORS.length) return undefined;
-            return SPECTRUM_COLORS[idx];
-          })
-        );
-      }
-    }
-
-    return {
-      ...screen,
-      pixels,
-      tiles:
-        screen.tiles ||
-        (screen.type === "game"
-          ? Array(24)
-              .fill(null)
-              .map(() => Array(32).fill(""))
-          : undefined),
-      placedObjects: screen.placedObjects || [],
-    };
-  });
-
-  return {
-    ...loaded,
-    sprites: migratedSprites,
-    screens: migratedScreens,
-    objects: loaded.objects ?? [],
-    blocks: loaded.blocks ?? [],
-    levels: loaded.levels ?? [],
-    gameFlow: loaded.gameFlow ?? [],
-    settings:
-      loaded.settings ?? {
-        lives: 3,
-        startEnergy: 100,
-        showScore: true,
-        showEnergy: true,
-      },
-  };
-};
-
 interface ProjectStateContextType {
   project: GameProject;
   dirtyCount: number;
@@ -135,6 +42,8 @@ export const ProjectStateProvider: React.FC<{ children: React.ReactNode }> = ({
     screens: [],
     levels: [],
     gameFlow: [],
+    sounds: [],
+    soundEvents: {},
     settings: {
       lives: 3,
       startEnergy: 100,
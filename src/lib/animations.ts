@@ -0,0 +1,80 @@
+// Directional animation shared by the engine, the object packer and the Level Designer playtest
+// An object's animation set gives a sprite for each action. An action without
+// one shows the opposite direction's sprite mirrored (moving down shows the
+// moving up sprite), else moving shows the object's own sprite, and standing
+// or firing keeps the sprite shown with its frame held. Frames step at the
+// sprite's animationSpeed, in frames per second of the game's logic
+import type { AnimationSet, GameObject, ObjectType } from "@/types/spectrum";
+
+export type AnimationAction = keyof AnimationSet;
+
+// Order of the sprites in an animation table entry: the engine's ANIM_* numbers
+export const ANIMATION_ACTIONS: readonly AnimationAction[] = [
+  "moveLeft", "moveRight", "moveUp", "moveDown", "idle", "jumpLeft", "jumpRight", "fire",
+];
+
+// Objects the engine animates: the player by how they're steered, enemies by how they move
+export const ANIMATED_TYPES: readonly ObjectType[] = ["player", "enemy"];
+
+// Logic frames per second: a sprite steps a frame each time its speed adds up to this
+export const ANIMATION_TICKS = 12;
+
+// Actions that show the object's own sprite when the set has nothing for them
+const MOVING_ACTIONS: readonly AnimationAction[] = ["moveLeft", "moveRight", "moveUp", "moveDown", "jumpLeft", "jumpRight"];
+
+// Action whose sprite stands in for one the set has none for
+const STAND_INS: Partial<Record<AnimationAction, { action: AnimationAction; mirror: boolean }>> = {
+  moveLeft: { action: "moveRight", mirror: true },
+  moveRight: { action: "moveLeft", mirror: true },
+  moveDown: { action: "moveUp", mirror: false },
+  jumpLeft: { action: "jumpRight", mirror: true },
+  jumpRight: { action: "jumpLeft", mirror: true },
+};
+
+export interface AnimationSprite {
+  spriteId: string;
+  mirror: boolean;  // Flipped left to right
+}
+
+// Sprite an object shows for an action, undefined to keep the one shown
+export function resolveAnimation(
+  obj: Pick<GameObject, "spriteId" | "animations">,
+  action: AnimationAction
+): AnimationSprite | undefined {
+  const { animations } = obj;
+  if (animations?.[action]) return { spriteId: animations[action] as string, mirror: false };
+  const standIn = STAND_INS[action];
+  if (standIn && animations?.[standIn.action]) {
+    return { spriteId: animations[standIn.action] as string, mirror: standIn.mirror };
+  }
+  return MOVING_ACTIONS.includes(action) ? { spriteId: obj.spriteId, mirror: false } : undefined;
+}
+
+export interface PlayerMotion {
+  facingLeft: boolean;
+  walking: boolean;          // Left or right held
+  airborne: boolean;         // Jumping or falling
+  climbing?: "up" | "down";  // Moving on a ladder
+  firing: boolean;           // Fire held
+}
+
+// The player's action: climbing, then jumping, firing, walking, and idle
+export function getPlayerAction(motion: PlayerMotion): AnimationAction {
+  if (motion.climbing) return motion.climbing === "up" ? "moveUp" : "moveDown";
+  if (motion.airborne) return motion.facingLeft ? "jumpLeft" : "jumpRight";
+  if (motion.firing) return "fire";
+  if (motion.walking) return motion.facingLeft ? "moveLeft" : "moveRight";
+  return "idle";
+}
+
+// Frame and tick count after one logic frame of a sprite animated at speed fps
+export function stepAnimation(
+  frame: number,
+  ticks: number,
+  speed: number,
+  frameCount: number
+): { frame: number; ticks: number } {
+  ticks += speed;
+  if (ticks < ANIMATION_TICKS) return { frame, ticks };
+  return { frame: (frame + 1) % Math.max(1, frameCount), ticks: ticks - ANIMATION_TICKS };
+}
@@ -0,0 +1,113 @@
+// Dead-asset stripping for the game flow export
+// Only what the game can reach goes in the banks: the game screens of the flow
+// and its levels and those their flip-screen links and placed doors lead to,
+// the objects placed on them, the player and the ammunition they fire, the
+// blocks their tiles use, and the sprites of those blocks and objects (with
+// their animation sets). Sprites that pack to the same bytes are merged into
+// the first of them, and the index maps point both at it; a frame shared by
+// different sprites is stored once by the sprite bank (spritePacker.ts)
+import type { Block, GameObject, Screen, Sprite } from "@/types/spectrum";
+import { ANIMATED_TYPES, ANIMATION_ACTIONS } from "./animations";
+import { getPlayerAmmunition } from "./projectiles";
+import { packSpriteData } from "./spritePacker";
+import { SCREEN_LINK_DIRECTIONS } from "./screenPacker";
+
+export interface StrippedAsset {
+  kind: "screen" | "object" | "block" | "sprite";
+  name: string;
+  mergedInto?: string;  // A sprite identical to the one kept under this name
+}
+
+export interface ExportAssets {
+  screens: Screen[];                    // Game screens: the flow's, then those they lead to
+  blocks: Block[];                      // What the game reaches, in library order
+  objects: GameObject[];
+  sprites: Sprite[];                    // One of each set of identical sprites
+  spriteAliases: Map<string, string>;   // Merged sprite ID -> ID of the one kept
+  stripped: StrippedAsset[];            // What was left out, by kind
+}
+
+// The screens and assets the flow's game screens reach; screens is every screen
+export function stripUnusedAssets(
+  flowScreens: Screen[],
+  screens: Screen[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[]
+): ExportAssets {
+  // Game screens the player can get to from those, through links and doors
+  const gameScreens = [...flowScreens];
+  for (let i = 0; i < gameScreens.length; i++) {
+    const screen = gameScreens[i];
+    const targetIds = [
+      ...SCREEN_LINK_DIRECTIONS.map(direction => screen.links?.[direction]),
+      ...(screen.placedObjects ?? []).map(po => po.propertyOverrides?.targetScreen),
+    ];
+    targetIds.forEach(id => {
+      const target = screens.find(s => s.id === id);
+      if (target?.type === "game" && !gameScreens.includes(target)) gameScreens.push(target);
+    });
+  }
+
+  // Objects placed on the game screens, and the player and their shot even when not placed
+  const objectIds = new Set(gameScreens.flatMap(screen => (screen.placedObjects ?? []).map(po => po.objectId)));
+  const player = objects.find(obj => obj.type === "player");
+  const ammunition = getPlayerAmmunition(player, objects);
+  if (player) objectIds.add(player.id);
+  if (ammunition) objectIds.add(ammunition.id);
+  const keptObjects = objects.filter(obj => objectIds.has(obj.id));
+
+  const blockIds = new Set(gameScreens.flatMap(screen => (screen.tiles ?? []).flat()));
+  const keptBlocks = blocks.filter(block => blockIds.has(block.id));
+
+  // Animation tables are only packed for the types the engine animates
+  const spriteIds = new Set<string>();
+  keptBlocks.forEach(block => {
+    if (block.sprite) spriteIds.add(block.sprite.id);
+  });
+  keptObjects.forEach(obj => {
+    spriteIds.add(obj.spriteId);
+    if (!ANIMATED_TYPES.includes(obj.type)) return;
+    ANIMATION_ACTIONS.forEach(action => {
+      const id = obj.animations?.[action];
+      if (id) spriteIds.add(id);
+    });
+  });
+
+  const keptSprites: Sprite[] = [];
+  const spriteAliases = new Map<string, string>();
+  const byBytes = new Map<string, Sprite>();
+  const merged: StrippedAsset[] = [];
+  sprites.filter(sprite => spriteIds.has(sprite.id)).forEach(sprite => {
+    const key = packSpriteData(sprite).join(",");
+    const same = byBytes.get(key);
+    if (same) {
+      spriteAliases.set(sprite.id, same.id);
+      merged.push({ kind: "sprite", name: sprite.name, mergedInto: same.name });
+      return;
+    }
+    byBytes.set(key, sprite);
+    keptSprites.push(sprite);
+  });
+
+  const unused = <T extends { id: string; name: string }>(kind: StrippedAsset["kind"], all: T[], kept: T[]) =>
+    all.filter(item => !kept.includes(item)).map(item => ({ kind, name: item.name }));
+  const stripped: StrippedAsset[] = [
+    ...unused("screen", screens.filter(screen => screen.type === "game"), gameScreens),
+    ...unused("object", objects, keptObjects),
+    ...unused("block", blocks, keptBlocks),
+    ...unused("sprite", sprites.filter(sprite => !spriteIds.has(sprite.id)), []),
+    ...merged,
+  ];
+
+  return { screens: gameScreens, blocks: keptBlocks, objects: keptObjects, sprites: keptSprites, spriteAliases, stripped };
+}
+
+// One line per asset left out
+export function formatStrippedAssets(stripped: StrippedAsset[]): string {
+  return stripped
+    .map(({ kind, name, mergedInto }) =>
+      `${kind.padEnd(7)} ${name}${mergedInto !== undefined ? ` (same as ${mergedInto})` : ""}`
+    )
+    .join("\n");
+}
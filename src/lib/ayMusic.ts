@@ -0,0 +1,219 @@
+// AY-3-8912 music for 128K export
+// Tunes are written as text, one line of notes per AY channel:
+//   "C4:2 E4 G4 -:2 C#5"  note name + octave, "-" for a rest, ":n" rows long
+// They are packed as [note, rows] pairs per channel, ending in MUSIC_LOOP, and
+// played once per 50Hz interrupt by the player generated here
+import { bytesToAsmDefb, bytesToAsmDefw } from "./binaryPacker";
+import type { MusicTrack } from "@/types/spectrum";
+
+// 128K AY clock (half the 3.5469MHz CPU clock)
+const AY_CLOCK = 1773400;
+
+// Notes C1..B7; note 0 is a rest
+const LOWEST_OCTAVE = 1;
+const OCTAVES = 7;
+const NOTE_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const FLATS: Record<string, string> = { Db: "C#", Eb: "D#", Gb: "F#", Ab: "G#", Bb: "A#" };
+
+export const AY_CHANNELS = 3;
+export const MUSIC_LOOP = 0xff;
+export const REST = 0;
+
+// Tempo is frames per row; 6 gives 8.3 rows a second
+export const DEFAULT_MUSIC_TEMPO = 6;
+
+// Volume a note starts at and decays to, one step per frame
+const ATTACK_VOLUME = 15;
+const SUSTAIN_VOLUME = 10;
+
+// AY tone period of a note index (1 = C1)
+function notePeriod(note: number): number {
+  const frequency = 440 * Math.pow(2, (note - 1 + LOWEST_OCTAVE * 12 - 57) / 12);
+  return Math.round(AY_CLOCK / (16 * frequency));
+}
+
+// Note index of a name like "C#4" or "Bb3"
+function parseNote(name: string, context: string): number {
+  const match = /^([A-Ga-g])([#b]?)(\d)$/.exec(name);
+  if (!match) {
+    throw new Error(`${context}: "${name}" isn't a note (expected e.g. C4, F#3, Bb5 or - for a rest)`);
+  }
+  const letter = match[1].toUpperCase() + match[2];
+  const semitone = NOTE_NAMES.indexOf(FLATS[letter] ?? letter);
+  const octave = Number(match[3]);
+  if (semitone < 0 || octave < LOWEST_OCTAVE || octave >= LOWEST_OCTAVE + OCTAVES) {
+    throw new Error(`${context}: note "${name}" is outside C${LOWEST_OCTAVE}..B${LOWEST_OCTAVE + OCTAVES - 1}`);
+  }
+  return (octave - LOWEST_OCTAVE) * 12 + semitone + 1;
+}
+
+// [note, rows] pairs of one channel, then MUSIC_LOOP
+// An empty channel is one silent row so the player always has something to read
+export function packMusicChannel(text: string, context: string): number[] {
+  const bytes: number[] = [];
+  for (const token of text.trim().split(/\s+/).filter(Boolean)) {
+    const [name, length = "1"] = token.split(":");
+    const rows = Number(length);
+    if (!Number.isInteger(rows) || rows < 1 || rows > 255) {
+      throw new Error(`${context}: "${token}" must last 1 to 255 rows`);
+    }
+    bytes.push(name === "-" ? REST : parseNote(name, context), rows);
+  }
+  if (bytes.length === 0) bytes.push(REST, 1);
+  bytes.push(MUSIC_LOOP);
+  return bytes;
+}
+
+/**
+ * Generate the music page source: one note stream per channel
+ * Labels MusicChannel0..2 are what the player starts each channel from
+ */
+export function generateMusicAsm(track: MusicTrack, origin: number): string {
+  let asm = "; ===== MUSIC =====\n";
+  asm += "; Per channel: [note, rows] pairs (note 0 = rest), 0xFF loops\n\n";
+  asm += `    org ${origin}\n`;
+  for (let channel = 0; channel < AY_CHANNELS; channel++) {
+    const bytes = packMusicChannel(track.channels[channel] ?? "", `Music channel ${channel + 1}`);
+    asm += "\n" + bytesToAsmDefb(bytes, `MusicChannel${channel}`);
+  }
+  return asm;
+}
+
+/**
+ * Generate the player: PlayMusic runs once per interrupt with the music
+ * page paged in; channelStarts are the MusicChannel addresses in that page
+ */
+export function generateMusicPlayerAsm(tempo: number, channelStarts: number[]): string {
+  const periods = Array.from({ length: OCTAVES * 12 }, (_, i) => notePeriod(i + 1));
+
+  let asm = "; ===== AY MUSIC PLAYER =====\n";
+  asm += `MUSIC_TEMPO      equ ${Math.max(1, Math.min(255, Math.round(tempo)))}  ; Frames per row\n`;
+  asm += `ATTACK_VOLUME    equ ${ATTACK_VOLUME}\n`;
+  asm += `SUSTAIN_VOLUME   equ ${SUSTAIN_VOLUME}\n`;
+  asm += `MUSIC_LOOP       equ 0x${MUSIC_LOOP.toString(16).toUpperCase()}\n`;
+  asm += "AY_REGISTER      equ 0xFFFD\n";
+  asm += "AY_DATA_HIGH     equ 0xBF    ; Data port 0xBFFD\n";
+  asm += "AY_MIXER_TONES   equ 0x38    ; Tone on A, B and C, noise off\n";
+  asm += `
+; Step the tune by one frame: a new row every MUSIC_TEMPO frames, volumes every frame
+PlayMusic:
+    ld hl,MusicTick
+    dec (hl)
+    jr nz,MusicDecay
+    ld (hl),MUSIC_TEMPO
+    ld hl,MusicState
+    ld c,0                      ; Tone register of the channel: 0, 2, 4
+MusicNextRow:
+    push hl
+    inc hl
+    inc hl
+    dec (hl)                    ; Rows left of the current note
+    jr nz,MusicRowDone
+    dec hl
+    ld d,(hl)
+    dec hl
+    ld e,(hl)                   ; DE = next event
+    ld a,(de)
+    cp MUSIC_LOOP
+    jr nz,MusicEvent
+    push hl
+    ld hl,MusicStarts
+    ld b,0
+    add hl,bc
+    ld e,(hl)
+    inc hl
+    ld d,(hl)
+    pop hl
+    ld a,(de)
+MusicEvent:
+    inc de
+    push af
+    ld a,(de)                   ; Rows
+    inc de
+    ld (hl),e
+    inc hl
+    ld (hl),d
+    inc hl
+    ld (hl),a
+    inc hl
+    pop af
+    and a
+    jr z,MusicSetNote           ; Rest: volume 0
+    push hl
+    ld l,a
+    ld h,0
+    add hl,hl
+    ld de,NotePeriods-2
+    add hl,de
+    ld e,(hl)
+    inc hl
+    ld d,(hl)
+    ld a,c
+    call AYWrite                ; Fine tone
+    inc a
+    ld e,d
+    call AYWrite                ; Coarse tone
+    pop hl
+    ld a,ATTACK_VOLUME
+MusicSetNote:
+    ld (hl),a
+MusicRowDone:
+    pop hl
+    ld de,4
+    add hl,de
+    inc c
+    inc c
+    ld a,c
+    cp 6
+    jr c,MusicNextRow
+
+MusicDecay:
+    ld hl,MusicState+3
+    ld c,8                      ; Volume registers 8, 9, 10
+MusicVolume:
+    ld a,(hl)
+    cp SUSTAIN_VOLUME+1
+    jr c,MusicSetVolume
+    dec a
+    ld (hl),a
+MusicSetVolume:
+    ld e,a
+    ld a,c
+    call AYWrite
+    inc hl
+    inc hl
+    inc hl
+    inc hl
+    inc c
+    ld a,c
+    cp 11
+    jr c,MusicVolume
+    ld a,7
+    ld e,AY_MIXER_TONES
+    jp AYWrite
+
+; Write E to AY register A (BC kept)
+AYWrite:
+    push bc
+    ld bc,AY_REGISTER
+    out (c),a
+    ld b,AY_DATA_HIGH
+    out (c),e
+    pop bc
+    ret
+
+MusicTick:      defb 1
+; Per channel: next event (word), rows left, volume
+MusicState:
+`;
+  for (const start of channelStarts) {
+    asm += `    defw ${start}\n    defb 1,0\n`;
+  }
+  asm += "MusicStarts:\n";
+  for (const start of channelStarts) {
+    asm += `    defw ${start}\n`;
+  }
+  asm += "; AY tone periods of notes C1..B7\n";
+  asm += bytesToAsmDefw(periods, "NotePeriods", 12);
+  return asm;
+}
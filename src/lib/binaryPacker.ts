@@ -54,7 +54,7 @@ export function bytesToAsmDefb(bytes: number[], label: string, bytesPerLine = 16
     const slice = bytes.slice(i, i + bytesPerLine);
     chunks.push(`    defb ${slice.map(n => n.toString()).join(",")}`);
   }
-  return `${label}:\n${chunks.join("\n")}\n`;
+  return `${label ? `${label}:\n` : ""}${chunks.join("\n")}\n`;
 }
 
 // Convert bytes to assembly defw lines (for 16-bit words)
@@ -64,7 +64,7 @@ export function bytesToAsmDefw(words: number[], label: string, wordsPerLine = 8)
     const slice = words.slice(i, i + wordsPerLine);
     chunks.push(`    defw ${slice.map(n => n.toString()).join(",")}`);
   }
-  return `${label}:\n${chunks.join("\n")}\n`;
+  return `${label ? `${label}:\n` : ""}${chunks.join("\n")}\n`;
 }
 
 // Fixed-point conversion (pixels/frame * 4 for 1/4 pixel resolution)
@@ -85,7 +85,7 @@ export function directionToByte(direction: "left" | "right" | "up" | "down"): nu
   }
 }
 
-// Block type enum mapping
+// Block type enum mapping (editor values map to these in propertySchema)
 export enum BlockType {
   SOLID = 0,
   DEADLY = 1,
@@ -96,7 +96,7 @@ export enum BlockType {
   LADDER = 6,
 }
 
-// Object type enum mapping
+// Object type enum mapping (editor values map to these in propertySchema)
 export enum ObjectTypeEnum {
   PLAYER = 0,
   ENEMY = 1,
@@ -106,32 +106,3 @@ export enum ObjectTypeEnum {
   MOVING_PLATFORM = 5,
   AMMUNITION = 6,
 }
-
-// Get block type enum from string
-export function getBlockTypeEnum(type: string): number {
-  const typeMap: Record<string, number> = {
-    "solid": BlockType.SOLID,
-    "deadly": BlockType.DEADLY,
-    "conveyor": BlockType.CONVEYOR,
-    "crumbling": BlockType.CRUMBLING,
-    "sinking": BlockType.SINKING,
-    "ice": BlockType.ICE,
-    "slippery": BlockType.ICE,
-    "ladder": BlockType.LADDER,
-  };
-  return typeMap[type.toLowerCase()] ?? BlockType.SOLID;
-}
-
-// Get object type enum from string
-export function getObjectTypeEnum(type: string): number {
-  const typeMap: Record<string, number> = {
-    "player": ObjectTypeEnum.PLAYER,
-    "enemy": ObjectTypeEnum.ENEMY,
-    "collectible": ObjectTypeEnum.COLLECTIBLE,
-    "door": ObjectTypeEnum.DOOR,
-    "exit": ObjectTypeEnum.EXIT,
-    "moving_platform": ObjectTypeEnum.MOVING_PLATFORM,
-    "ammunition": ObjectTypeEnum.AMMUNITION,
-  };
-  return typeMap[type.toLowerCase()] ?? ObjectTypeEnum.COLLECTIBLE;
-}
@@ -1,16 +1,9 @@
 // Block definition packing for ZX Spectrum export
-import { BinaryPacker, getBlockTypeEnum, floatToFixed8, directionToByte } from "./binaryPacker";
+import { BinaryPacker } from "./binaryPacker";
+import { BLOCK_PROPERTIES, getBlockTypeCode, packProperties } from "./propertySchema";
 import { Block } from "@/types/spectrum";
-
-// Block property flags (bitfield)
-const BLOCK_FLAG_HAS_SPEED = 1 << 0;
-const BLOCK_FLAG_HAS_DIRECTION = 1 << 1;
-const BLOCK_FLAG_HAS_CRUMBLE_TIME = 1 << 2;
-const BLOCK_FLAG_HAS_RESPAWN_TIME = 1 << 3;
-const BLOCK_FLAG_HAS_FRICTION = 1 << 4;
-const BLOCK_FLAG_HAS_DEPTH = 1 << 5;
-const BLOCK_FLAG_HAS_CLIMB_SPEED = 1 << 6;
-const BLOCK_FLAG_PASS_THROUGH = 1 << 7;
+import { encodeAttribute, getFrameAttributes } from "./spriteAttributes";
+import { DEFAULT_BLOCK_PROPERTIES } from "./blockPhysics";
 
 export interface PackedBlockDef {
   spriteId: number;      // Index to sprite bank
@@ -28,66 +21,15 @@ export function packBlockDefinition(block: Block, spriteIndexMap: Map<string, nu
   packer.writeByte(spriteIndex);
   
   // Byte 1: type enum
-  const typeEnum = getBlockTypeEnum(block.type);
-  packer.writeByte(typeEnum);
-  
-  // Byte 2: property flags
-  let flags = 0;
-  const properties: number[] = [];
-  
-  // Check which properties this block type has
-  if (block.type === "conveyor" && block.properties) {
-    if (typeof block.properties.speed === "number") {
-      flags |= BLOCK_FLAG_HAS_SPEED;
-      properties.push(floatToFixed8(block.properties.speed));
-    }
-    if (block.properties.direction) {
-      flags |= BLOCK_FLAG_HAS_DIRECTION;
-      properties.push(directionToByte(block.properties.direction as "left" | "right" | "up" | "down"));
-    }
-  }
-  
-  if (block.type === "crumbling" && block.properties) {
-    if (typeof block.properties.crumbleTime === "number") {
-      flags |= BLOCK_FLAG_HAS_CRUMBLE_TIME;
-      properties.push(Math.round(block.properties.crumbleTime * 12)); // Convert seconds to frames (12fps)
-    }
-    if (typeof block.properties.respawnTime === "number") {
-      flags |= BLOCK_FLAG_HAS_RESPAWN_TIME;
-      // Store as word (16-bit) for longer respawn times
-      const respawnFrames = Math.round(block.properties.respawnTime * 12);
-      properties.push(respawnFrames & 0xff, (respawnFrames >> 8) & 0xff);
-    }
-  }
-  
-  if (block.type === "sinking" && block.properties) {
-    if (typeof block.properties.sinkingSpeed === "number") {
-      flags |= BLOCK_FLAG_HAS_SPEED;
-      properties.push(floatToFixed8(block.properties.sinkingSpeed));
-    }
-    if (typeof block.properties.sinkingDepth === "number") {
-      flags |= BLOCK_FLAG_HAS_DEPTH;
-      properties.push(Math.round(block.properties.sinkingDepth));
-    }
-  }
-  
-  if (block.type === "ice" && block.properties) {
-    if (typeof block.properties.frictionCoefficient === "number") {
-      flags |= BLOCK_FLAG_HAS_FRICTION;
-      // Store friction as 0-255 (multiply by 256)
-      properties.push(Math.round(block.properties.frictionCoefficient * 256));
-    }
-  }
+  packer.writeByte(getBlockTypeCode(block.type));
   
-  if (block.type === "ladder" && block.properties) {
-    if (typeof block.properties.climbSpeed === "number") {
-      flags |= BLOCK_FLAG_HAS_CLIMB_SPEED;
-      properties.push(floatToFixed8(block.properties.climbSpeed));
-    }
-    if (block.properties.passThroughAllowed) {
-      flags |= BLOCK_FLAG_PASS_THROUGH;
-    }
-  }
+  // Byte 2: property flags, from the block property schema
+  // Ladders let the player through unless it's switched off
+  const { flags, bytes: properties } = packProperties(
+    BLOCK_PROPERTIES, block.type,
+    { passThroughAllowed: DEFAULT_BLOCK_PROPERTIES.passThroughAllowed, ...block.properties },
+    `Block "${block.name}"`
+  );
   
   packer.writeByte(flags);
   
@@ -97,7 +39,14 @@ export function packBlockDefinition(block: Block, spriteIndexMap: Map<string, nu
   return packer.getBytes();
 }
 
-// Pack all block definitions into a bank
+// Attribute byte of a block tile: the top-left 8x8 cell of its sprite's first frame
+export function packBlockAttribute(block: Block): number {
+  const [w, h] = (block.sprite?.size || "8x8").split("x").map(Number);
+  const [[cell]] = getFrameAttributes(block.sprite?.frames[0], w || 8, h || 8);
+  return encodeAttribute(cell);
+}
+
+// Pack all block definitions into a bank, followed by one attribute byte per block
 export function packBlockBank(blocks: Block[], spriteIndexMap: Map<string, number>): Uint8Array {
   const packer = new BinaryPacker();
   
@@ -110,6 +59,11 @@ export function packBlockBank(blocks: Block[], spriteIndexMap: Map<string, numbe
     packer.writeBytes(blockBytes);
   }
   
+  // Attribute table, indexed by block
+  for (const block of blocks) {
+    packer.writeByte(packBlockAttribute(block));
+  }
+  
   return packer.toUint8Array();
 }
 
@@ -118,7 +72,7 @@ export function generateBlockBankAsm(blocks: Block[], spriteIndexMap: Map<string
   const bytes = Array.from(packBlockBank(blocks, spriteIndexMap));
   
   let asm = "; Block Definition Bank\n";
-  asm += "; Format: [count] [block0_data] [block1_data] ...\n";
+  asm += "; Format: [count] [block0_data] [block1_data] ... [attributes]\n";
   asm += `; Total blocks: ${blocks.length}\n\n`;
   
   asm += "BlockBank:\n";
@@ -133,5 +87,11 @@ export function generateBlockBankAsm(blocks: Block[], spriteIndexMap: Map<string
     offset += blockBytes.length;
   }
   
+  asm += "\n; Block attributes (FLASH, BRIGHT, PAPER, INK), one per block\n";
+  asm += "BlockAttrs:\n";
+  if (blocks.length > 0) {
+    asm += `    defb ${blocks.map(packBlockAttribute).join(",")}\n`;
+  }
+  
   return asm;
 }
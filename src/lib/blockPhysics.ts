@@ -0,0 +1,137 @@
+// Block physics shared by the Level Designer playtest and the engine
+// Properties are used in their packed units (12fps frames, quarter pixels), so
+// both runtimes round them the same way; the engine's block routines follow
+// these rules pixel for pixel
+import { BLOCK_PROPERTIES, CONVEYOR_DIRECTION_OPTIONS, getPropertyField } from "./propertySchema";
+import type { Block, BlockType } from "@/types/spectrum";
+
+// Properties of a block that doesn't set them, as the Block Designer shows them
+export const DEFAULT_BLOCK_PROPERTIES = {
+  crumbleTime: 1,
+  sinkingSpeed: 1,
+  sinkingDepth: 8,
+  direction: "right",
+  speed: 2,
+  frictionCoefficient: 0.5,
+  climbSpeed: 2,
+  passThroughAllowed: true,
+} satisfies Block["properties"];
+
+// Broken crumbling blocks remembered on a screen at once
+export const MAX_CRUMBLES = 16;
+
+// Slide speed on ice, in 1/16 pixels per frame
+export const SLIDE_SCALE = 16;
+
+type NumericBlockProperty = "crumbleTime" | "respawnTime" | "sinkingSpeed" | "sinkingDepth" |
+  "speed" | "frictionCoefficient" | "climbSpeed";
+
+// Packed value of a numeric block property, or of its default
+export function getPackedBlockValue(properties: Block["properties"], key: NumericBlockProperty): number {
+  const field = getPropertyField(BLOCK_PROPERTIES, key);
+  const value = properties[key] ?? (key === "respawnTime" ? 0 : DEFAULT_BLOCK_PROPERTIES[key]);
+  return Math.round(value * (field.scale ?? 1));
+}
+
+// Packed code of a conveyor direction: 1 = right, 255 = left
+export function getConveyorDirectionCode(direction: string = DEFAULT_BLOCK_PROPERTIES.direction): number {
+  return CONVEYOR_DIRECTION_OPTIONS.find(option => option.value === direction)?.code ?? 1;
+}
+
+export interface BlockPhysics {
+  type: BlockType;
+  push: number;           // Conveyor: pixels per frame, negative to the left
+  crumbleFrames: number;  // Crumbling: frames stood on before it breaks
+  respawnFrames: number;  // Crumbling: frames until it's back, 0 = never
+  sinkStep: number;       // Sinking: quarter pixels per frame
+  sinkDepth: number;      // Sinking: pixels the player sinks in
+  grip: number;           // Ice: 255 = full grip, lower slides further
+  climbStep: number;      // Ladder: pixels per frame
+  passThrough: boolean;   // Ladder: the player falls through unless climbing
+}
+
+// Pixels per frame for a speed in quarter pixels, at least one
+function quarterPixels(value: number): number {
+  return Math.max(1, value >> 2);
+}
+
+export function getBlockPhysics(block: Block): BlockPhysics {
+  const properties = block.properties ?? {};
+  const push = quarterPixels(getPackedBlockValue(properties, "speed"));
+  return {
+    type: block.type,
+    push: getConveyorDirectionCode(properties.direction) === 1 ? push : -push,
+    crumbleFrames: getPackedBlockValue(properties, "crumbleTime"),
+    respawnFrames: getPackedBlockValue(properties, "respawnTime"),
+    sinkStep: Math.max(1, getPackedBlockValue(properties, "sinkingSpeed")),
+    sinkDepth: getPackedBlockValue(properties, "sinkingDepth"),
+    grip: getPackedBlockValue(properties, "frictionCoefficient"),
+    climbStep: quarterPixels(getPackedBlockValue(properties, "climbSpeed")),
+    passThrough: properties.passThroughAllowed ?? DEFAULT_BLOCK_PROPERTIES.passThroughAllowed,
+  };
+}
+
+// Blocks the player stands on: every type but deadly, and ladders only when
+// they don't let the player through
+export function isLandable(physics: BlockPhysics): boolean {
+  if (physics.type === "deadly") return false;
+  return physics.type !== "ladder" || !physics.passThrough;
+}
+
+// Blocks enemies can't walk into
+export function isSolid(type: BlockType): boolean {
+  return type !== "deadly" && type !== "ladder";
+}
+
+// Quarter pixels sunk into a sinking block after one more frame on it
+export function sinkInto(sunk: number, physics: BlockPhysics): number {
+  return Math.min(sunk + physics.sinkStep, physics.sinkDepth * 4);
+}
+
+// One frame of sliding on ice with no walk key held: pixels moved, and the slide left
+export function slideOnIce(slide: number, grip: number): { move: number; slide: number } {
+  const speed = Math.abs(slide);
+  const sign = Math.sign(slide);
+  return {
+    move: sign * ((speed + SLIDE_SCALE / 2) >> 4),
+    slide: sign * ((speed * (255 - grip)) >> 8),
+  };
+}
+
+// Climb up (-1) or down (1) by up to `step` pixels, one pixel at a time: up while the
+// feet are on a ladder, down while there is ladder under them
+// footY is the row under the player's feet; returns where it ends up
+export function climbLadder(footY: number, direction: -1 | 1, step: number, isLadderAt: (y: number) => boolean): number {
+  for (let i = 0; i < step; i++) {
+    if (!isLadderAt(direction < 0 ? footY - 1 : footY)) break;
+    footY += direction;
+  }
+  return footY;
+}
+
+export interface CrumbleState {
+  stood: number;   // Frames stood on
+  timer: number;   // Broken: frames until it's back, 0 = never
+  gone: boolean;
+}
+
+// One more frame stood on a crumbling block; true when it breaks
+export function standOnCrumble(state: CrumbleState, physics: BlockPhysics): boolean {
+  if (state.gone) return false;
+  state.stood++;
+  if (state.stood < physics.crumbleFrames) return false;
+  state.gone = true;
+  state.timer = physics.respawnFrames;
+  return true;
+}
+
+// One frame of a broken block waiting to come back; true when it's back
+// Its last frame waits while the player is in its cell
+export function respawnCrumble(state: CrumbleState, occupied: boolean): boolean {
+  if (!state.gone || state.timer === 0 || (state.timer === 1 && occupied)) return false;
+  state.timer--;
+  if (state.timer > 0) return false;
+  state.gone = false;
+  state.stood = 0;
+  return true;
+}
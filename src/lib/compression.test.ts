@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import { compressBytes, generateUnpackAsm, MIN_MATCH } from "./compression";
+import { assemble } from "./z80Assembler";
+import { Z80 } from "./z80Cpu";
+
+const PACKED = 0x4000;
+const OUTPUT = 0x8000;
+const SENTINEL = 0xa5;
+
+// Unpack the stream on the Z80 with the engine's routine; the output and DE after it
+function unpackOnZ80(packed: number[], length: number): { output: number[]; end: number; after: number } {
+  const { bytes, origin } = assemble(`
+    org 0xf000
+    ld hl,${PACKED}
+    ld de,${OUTPUT}
+    call Unpack
+    halt
+${generateUnpackAsm()}`);
+  const memory = new Uint8Array(65536);
+  memory.set(bytes, origin);
+  memory.set(packed, PACKED);
+  memory.fill(SENTINEL, OUTPUT, OUTPUT + length + 1);
+  const cpu = new Z80({
+    read: address => memory[address],
+    write: (address, value) => { memory[address] = value; },
+    portIn: () => 0xff,
+    portOut: () => {},
+  });
+  cpu.reset();
+  cpu.pc = origin;
+  cpu.sp = 0xff00;
+  for (let steps = 0; !cpu.halted && steps < 1_000_000; steps++) cpu.step();
+  expect(cpu.halted).toBe(true);
+  return { output: Array.from(memory.slice(OUTPUT, OUTPUT + length)), end: cpu.de, after: memory[OUTPUT + length] };
+}
+
+// Bytes from a fixed-seed LCG, so literal runs don't pack
+function noise(length: number, seed = 1): number[] {
+  return Array.from({ length }, () => (seed = (seed * 1103515245 + 12345) >>> 0) >>> 24);
+}
+
+// A screen-like bank: a patterned bitmap with repeats near and far, then flat attributes
+function screen(): number[] {
+  const tile = noise(32, 7);
+  const bitmap = Array.from({ length: 6144 }, (_, index) => (index % 700 < 300 ? tile[index % 32] : index & 0xff));
+  return [...bitmap, ...new Array(768).fill(0x38)];
+}
+
+describe("compressBytes", () => {
+  it.each([
+    ["nothing", []],
+    ["fewer bytes than a match", [1, 2, 3]],
+    ["a long run", new Array(1000).fill(0x55)],
+    ["literals past one token", noise(300)],
+    ["a match at the far end", [...noise(200), ...noise(MIN_MATCH + 40, 3), ...noise(150, 9), ...noise(MIN_MATCH + 40, 3)]],
+    ["a screen", screen()],
+  ])("unpacks %s with the Z80 Unpack routine", (_, data) => {
+    const packed = compressBytes(data);
+    const { output, end, after } = unpackOnZ80(packed, data.length);
+    expect(output).toEqual(data);
+    expect(end).toBe(OUTPUT + data.length);
+    expect(after).toBe(SENTINEL);
+  });
+
+  it("packs runs and repeats smaller than the input", () => {
+    expect(compressBytes(new Array(1000).fill(0)).length).toBeLessThan(30);
+    expect(compressBytes(screen()).length).toBeLessThan(6912 / 2);
+  });
+});
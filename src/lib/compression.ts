@@ -0,0 +1,109 @@
+// LZ compression for exported banks, and the Z80 routine that unpacks them
+// A packed stream is a run of tokens: 1-127 is that many literal bytes, which
+// follow it; 128 + n copies n + MIN_MATCH bytes from the offset word after it,
+// counted back from the end of the output so far (offset 1 repeats the last
+// byte, so runs pack too); 0 ends the stream
+
+export const MIN_MATCH = 4;
+const MAX_MATCH = 127 + MIN_MATCH;
+const MAX_LITERALS = 127;
+const MAX_OFFSET = 0xffff;
+const END_TOKEN = 0;
+// Earlier positions tried for each match, latest first
+const MAX_CANDIDATES = 64;
+
+// Pack bytes into a stream for Unpack, taking the longest match at each step
+export function compressBytes(data: ArrayLike<number>): number[] {
+  const packed: number[] = [];
+  const literals: number[] = [];
+  const positions = new Map<number, number[]>(); // MIN_MATCH bytes -> where they start
+  const keyAt = (index: number) =>
+    ((data[index] << 24) | (data[index + 1] << 16) | (data[index + 2] << 8) | data[index + 3]) >>> 0;
+  const remember = (index: number) => {
+    if (index + MIN_MATCH > data.length) return;
+    const key = keyAt(index);
+    const starts = positions.get(key);
+    if (starts) starts.push(index);
+    else positions.set(key, [index]);
+  };
+  const flushLiterals = () => {
+    for (let start = 0; start < literals.length; start += MAX_LITERALS) {
+      const run = literals.slice(start, start + MAX_LITERALS);
+      packed.push(run.length, ...run);
+    }
+    literals.length = 0;
+  };
+
+  let index = 0;
+  while (index < data.length) {
+    let bestLength = 0;
+    let bestOffset = 0;
+    const starts = index + MIN_MATCH <= data.length ? positions.get(keyAt(index)) ?? [] : [];
+    for (let i = starts.length - 1; i >= Math.max(0, starts.length - MAX_CANDIDATES); i--) {
+      const from = starts[i];
+      if (index - from > MAX_OFFSET) break;
+      let length = 0;
+      while (length < MAX_MATCH && index + length < data.length && data[from + length] === data[index + length]) {
+        length++;
+      }
+      if (length > bestLength) {
+        bestLength = length;
+        bestOffset = index - from;
+        if (length === MAX_MATCH) break;
+      }
+    }
+
+    if (bestLength >= MIN_MATCH) {
+      flushLiterals();
+      packed.push(0x80 | (bestLength - MIN_MATCH), bestOffset & 0xff, bestOffset >> 8);
+      for (let i = 0; i < bestLength; i++) remember(index + i);
+      index += bestLength;
+    } else {
+      literals.push(data[index]);
+      remember(index);
+      index++;
+    }
+  }
+  flushLiterals();
+  packed.push(END_TOKEN);
+  return packed;
+}
+
+/**
+ * Generate Unpack: HL = packed stream, DE = where it unpacks to
+ * AF and BC are not kept; HL and DE end past the stream and the output
+ */
+export function generateUnpackAsm(): string {
+  return `
+LZ_MIN_MATCH     equ ${MIN_MATCH}
+
+; Unpack the LZ stream at HL to DE (compression.ts)
+Unpack:
+    ld a,(hl)
+    inc hl
+    and a
+    ret z                       ; End of the stream
+    jp m,UnpackMatch
+    ld c,a                      ; Literal bytes
+    ld b,0
+    ldir
+    jr Unpack
+UnpackMatch:
+    and 0x7F
+    add a,LZ_MIN_MATCH
+    ld c,(hl)                   ; Offset back from the output
+    inc hl
+    ld b,(hl)
+    inc hl
+    push hl
+    ld h,d
+    ld l,e
+    or a                        ; Clear carry
+    sbc hl,bc
+    ld c,a
+    ld b,0
+    ldir                        ; Byte by byte, so a match may overlap its copy
+    pop hl
+    jr Unpack
+`;
+}
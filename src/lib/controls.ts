@@ -0,0 +1,66 @@
+// Controls shared by the engine, the emulator and the Level Designer playtest
+// The engine reads the controls once a frame from the input method the player
+// picks on the controls screen: the keyboard (keys can be redefined there), a
+// Kempston joystick, or the Sinclair and Cursor joysticks, which press number
+// keys. A joystick has no jump button, so its fire button jumps as well as fires
+import type { SchemaOption } from "./propertySchema";
+
+export type Control = "right" | "left" | "down" | "up" | "fire" | "jump";
+export type ControlState = Partial<Record<Control, boolean>>;
+
+// Bit order of the engine's controls byte; the first five are the Kempston port's
+export const CONTROLS: readonly Control[] = ["right", "left", "down", "up", "fire", "jump"];
+
+export type InputMethod = "keys" | "kempston" | "sinclair1" | "sinclair2" | "cursor";
+
+export const INPUT_METHOD_OPTIONS: readonly SchemaOption<InputMethod>[] = [
+  { value: "keys", label: "Keyboard", code: 0 },
+  { value: "kempston", label: "Kempston", code: 1 },
+  { value: "sinclair1", label: "Sinclair 1", code: 2 },
+  { value: "sinclair2", label: "Sinclair 2", code: 3 },
+  { value: "cursor", label: "Cursor", code: 4 },
+];
+
+// Keys the key joysticks press (SPECTRUM_KEYBOARD_MAP names)
+export const JOYSTICK_KEYS: Record<"sinclair1" | "sinclair2" | "cursor", Record<Exclude<Control, "jump">, string>> = {
+  sinclair1: { right: "7", left: "6", down: "8", up: "9", fire: "0" },
+  sinclair2: { right: "2", left: "1", down: "3", up: "4", fire: "5" },
+  cursor: { right: "8", left: "5", down: "6", up: "7", fire: "0" },
+};
+
+// Player keys of an object that doesn't set them
+export const DEFAULT_CONTROL_KEYS: Record<Control, string> = {
+  right: "w", left: "q", down: "k", up: "o", fire: "m", jump: "p",
+};
+
+// Standard gamepad layout: d-pad buttons, A jumps, B and X fire, and the left stick
+const PAD_UP = 12;
+const PAD_DOWN = 13;
+const PAD_LEFT = 14;
+const PAD_RIGHT = 15;
+const PAD_JUMP = 0;
+const PAD_FIRE = [1, 2];
+const STICK_DEAD_ZONE = 0.5;
+
+// Controls held on the first connected gamepad (browser Gamepad API)
+export function readGamepadControls(): ControlState {
+  const pads = typeof navigator !== "undefined" && navigator.getGamepads ? navigator.getGamepads() : [];
+  const pad = Array.from(pads).find(p => p?.connected);
+  if (!pad) return {};
+  const pressed = (button: number) => !!pad.buttons[button]?.pressed;
+  const [x = 0, y = 0] = pad.axes;
+  return {
+    right: pressed(PAD_RIGHT) || x > STICK_DEAD_ZONE,
+    left: pressed(PAD_LEFT) || x < -STICK_DEAD_ZONE,
+    down: pressed(PAD_DOWN) || y > STICK_DEAD_ZONE,
+    up: pressed(PAD_UP) || y < -STICK_DEAD_ZONE,
+    fire: PAD_FIRE.some(pressed),
+    jump: pressed(PAD_JUMP),
+  };
+}
+
+// Kempston port byte for the controls held, a bit set for each; jumping is the fire button
+export function toKempston(controls: ControlState): number {
+  return CONTROLS.slice(0, 5).reduce((bits, control, bit) =>
+    controls[control] || (control === "fire" && controls.jump) ? bits | (1 << bit) : bits, 0);
+}
@@ -0,0 +1,33 @@
+// Doors shared by the Level Designer playtest and the engine
+// A placed door takes the player to its target screen when they touch it, or when
+// they press up at it; once through, the player has to step off every door before
+// another one takes them, so they don't bounce straight back through the door
+// they come out at. The engine's door routines follow these rules pixel for pixel
+import type { GameObject } from "@/types/spectrum";
+
+// Pixels per arrival tile
+const TILE_PIXELS = 8;
+
+// Properties of a door that doesn't set them
+export const DEFAULT_DOOR_ACTIVATION: NonNullable<GameObject["properties"]["doorActivation"]> = "touch";
+
+// True when the player touching a door (with its placed properties) goes through it
+export function opensDoor(properties: GameObject["properties"], upHeld: boolean): boolean {
+  if (!properties.targetScreen) return false;
+  return (properties.doorActivation ?? DEFAULT_DOOR_ACTIVATION) === "touch" || upHeld;
+}
+
+// Where the player comes out of a door: at its arrival tile, kept on the screen,
+// or where they went in when it has none
+export function getDoorArrival(
+  properties: GameObject["properties"],
+  playerX: number,
+  playerY: number,
+  maxX: number,
+  maxY: number
+): { x: number; y: number } {
+  return {
+    x: properties.arrivalX === undefined ? playerX : Math.min(properties.arrivalX * TILE_PIXELS, maxX),
+    y: properties.arrivalY === undefined ? playerY : Math.min(properties.arrivalY * TILE_PIXELS, maxY),
+  };
+}
@@ -0,0 +1,4853 @@
+// Z80 game engine source for ZX Spectrum export
+// The engine is plain assembly text: exportGameFlowToTAP assembles it together
+// with the data banks, and exportGameFlowToASM writes the same source out
+import { getKeyMapping } from "./spectrumKeyboardMap";
+import { EMPTY_TILE, NO_SCREEN, SCREEN_LINK_DIRECTIONS } from "./screenPacker";
+import { ObjectTypeEnum } from "./binaryPacker";
+import {
+  AI_BEHAVIOR_OPTIONS, BLOCK_PROPERTIES, BLOCK_TYPE_OPTIONS, DOOR_ACTIVATION_OPTIONS, EXIT_ACTIVATION_OPTIONS, INSTANCE_PROPERTIES, OBJECT_PROPERTIES, PATROL_TYPE_OPTIONS,
+  PLATFORM_TYPE_OPTIONS, REPEAT_TYPE_OPTIONS, getPropertyField, getPropertySizes, type PropertyField, type SchemaOption,
+} from "./propertySchema";
+import { SOUND_EVENT_OPTIONS, SOUND_WAVE_NOISE, NO_SOUND } from "./soundPacker";
+import { NO_LEVEL } from "./levelPacker";
+import { MAX_CRUMBLES, SLIDE_SCALE, getConveyorDirectionCode, getPackedBlockValue } from "./blockPhysics";
+import {
+  DEFAULT_PLATFORM_RANGE, DEFAULT_PLATFORM_SPEED, PLATFORM_TOP, ROPE_HOLD_FRAMES, ROPE_SWING, ROPE_SWING_STEPS,
+} from "./platformMotion";
+import { CONTROLS, DEFAULT_CONTROL_KEYS, INPUT_METHOD_OPTIONS, JOYSTICK_KEYS, type Control } from "./controls";
+import { ANIMATION_ACTIONS, ANIMATION_TICKS } from "./animations";
+import { NO_ANIMATION, NO_SPRITE } from "./objectPacker";
+import { generateUnpackAsm } from "./compression";
+import {
+  DEFAULT_ENEMY_HEALTH, DEFAULT_MAX_SHOTS, DEFAULT_PROJECTILE_DAMAGE, DEFAULT_PROJECTILE_RANGE, DEFAULT_PROJECTILE_SPEED,
+  MAX_SHOTS,
+} from "./projectiles";
+
+export interface GameEngineConfig {
+  codeStart: number;        // Load address of the CODE block
+  playerObject: number;     // Object bank index of the player (255 = none)
+  shotObject: number;       // Object bank index of the ammunition the player fires (255 = none)
+  playerStartX: number;     // Pixels, used when the first screen has no player placed
+  playerStartY: number;
+  keyLeft?: string;         // SPECTRUM_KEYBOARD_MAP names
+  keyRight?: string;
+  keyJump?: string;
+  keyUp?: string;           // Climbing ladders
+  keyDown?: string;
+  keyFire?: string;
+  startEnergy?: number;     // Player energy at the start (default 100)
+  lives?: number;           // Lives at the start (default 3)
+  showScore?: boolean;      // HUD contents (default both shown)
+  showEnergy?: boolean;
+  hudRows?: number;         // Character rows at the bottom kept for the HUD (default 2)
+  maxShots?: number;        // Player shots on screen at once (default 3)
+  banked?: boolean;         // 128K: sprites and screens in RAM pages (memory128.ts)
+  interruptTable?: number;  // IM 2 vector table (257 bytes, 256-byte aligned); by default just after CodeEnd
+  music?: boolean;          // 128K: the frame interrupt plays the music (PlayMusicPaged, memory128.ts)
+  packed?: boolean;         // Screens, menu pictures and the 48K sprite bank are LZ packed (compression.ts)
+  menu?: FlowMenuConfig;    // Title, pages and marquee from the game flow (none = straight into the game)
+}
+
+// The menu a game flow compiles to; pictures are PictureTable indexes,
+// levels LevelTable indexes
+export interface FlowMenuConfig {
+  title?: number;           // Shown under the marquee while waiting to start
+  gameOver?: number;        // Shown with the final score when the last life is lost
+  controls?: number;        // Shown with the input methods to pick from and keys to redefine
+  autoShow: number[];       // Shown one after another, until a key, once the game has loaded
+  keys: { key: string; picture?: number; level?: number }[];  // Access keys: a page until a key, or a level to start at
+  marquee: string;          // Scrolls along the bottom row of the title
+}
+
+// Vertical movement per frame while jumping (12fps Manic Miner style arc)
+const JUMP_TRAJECTORY = [-4, -4, -3, -3, -2, -2, -1, -1, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4];
+
+// 50Hz frame interrupts per logic frame: 12.5 logic frames a second, the playtest's 12fps
+const FRAME_TICKS = 4;
+
+// The game draws into a back buffer laid out like the display file (pixels then
+// attributes) 0x2000 above it, between the BASIC area and the stack under the
+// CODE block; PresentFrame copies what changed to the screen
+const SCREEN_BASE = 0x4000;
+const BUFFER_BASE = 0x6000;
+
+// Sprites on screen at once, and the background each one covers
+// (largest sprite is 32x16: 4 bytes + 1 for the shift spill, 16 rows)
+const MAX_ACTORS = 16;
+const ACTOR_BUFFER_SIZE = 5 * 16;
+
+// Collectables remembered as taken per level, so they stay gone when the player comes back
+const MAX_COLLECTED = 64;
+
+// HUD rows at the bottom of the screen; the play area is the rows above
+export const DEFAULT_HUD_ROWS = 2;
+export const MAX_HUD_ROWS = 4;
+
+// HUD line layout (columns): "SCORE 00000", up to 8 lives icons, energy bar on the right
+const SCORE_COLUMN = 0;
+const SCORE_DIGITS_COLUMN = 6;
+const LIVES_COLUMN = 12;
+const MAX_LIVES_SHOWN = 8;
+const ENERGY_BAR_PIXELS = 64;
+
+// Glyphs the engine prints on the HUD and the menu marquee, in HudFont order:
+// digits first so a digit is its own glyph index (ROM font shapes; the game can't rely on the ROM being there)
+const HUD_FONT: [string, number[]][] = [
+  ["0", [0x00, 0x3c, 0x46, 0x4a, 0x52, 0x62, 0x3c, 0x00]],
+  ["1", [0x00, 0x18, 0x28, 0x08, 0x08, 0x08, 0x3e, 0x00]],
+  ["2", [0x00, 0x3c, 0x42, 0x02, 0x3c, 0x40, 0x7e, 0x00]],
+  ["3", [0x00, 0x3c, 0x42, 0x0c, 0x02, 0x42, 0x3c, 0x00]],
+  ["4", [0x00, 0x08, 0x18, 0x28, 0x48, 0x7e, 0x08, 0x00]],
+  ["5", [0x00, 0x7e, 0x40, 0x7c, 0x02, 0x42, 0x3c, 0x00]],
+  ["6", [0x00, 0x3c, 0x40, 0x7c, 0x42, 0x42, 0x3c, 0x00]],
+  ["7", [0x00, 0x7e, 0x02, 0x04, 0x08, 0x10, 0x10, 0x00]],
+  ["8", [0x00, 0x3c, 0x42, 0x3c, 0x42, 0x42, 0x3c, 0x00]],
+  ["9", [0x00, 0x3c, 0x42, 0x42, 0x3e, 0x02, 0x3c, 0x00]],
+  [" ", [0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00]],
+  ["A", [0x00, 0x3c, 0x42, 0x42, 0x7e, 0x42, 0x42, 0x00]],
+  ["B", [0x00, 0x7c, 0x42, 0x7c, 0x42, 0x42, 0x7c, 0x00]],
+  ["C", [0x00, 0x3c, 0x42, 0x40, 0x40, 0x42, 0x3c, 0x00]],
+  ["D", [0x00, 0x78, 0x44, 0x42, 0x42, 0x44, 0x78, 0x00]],
+  ["E", [0x00, 0x7e, 0x40, 0x7c, 0x40, 0x40, 0x7e, 0x00]],
+  ["F", [0x00, 0x7e, 0x40, 0x7c, 0x40, 0x40, 0x40, 0x00]],
+  ["G", [0x00, 0x3c, 0x42, 0x40, 0x4e, 0x42, 0x3c, 0x00]],
+  ["H", [0x00, 0x42, 0x42, 0x7e, 0x42, 0x42, 0x42, 0x00]],
+  ["I", [0x00, 0x3e, 0x08, 0x08, 0x08, 0x08, 0x3e, 0x00]],
+  ["J", [0x00, 0x02, 0x02, 0x02, 0x42, 0x42, 0x3c, 0x00]],
+  ["K", [0x00, 0x44, 0x48, 0x70, 0x48, 0x44, 0x42, 0x00]],
+  ["L", [0x00, 0x40, 0x40, 0x40, 0x40, 0x40, 0x7e, 0x00]],
+  ["M", [0x00, 0x42, 0x66, 0x5a, 0x42, 0x42, 0x42, 0x00]],
+  ["N", [0x00, 0x42, 0x62, 0x52, 0x4a, 0x46, 0x42, 0x00]],
+  ["O", [0x00, 0x3c, 0x42, 0x42, 0x42, 0x42, 0x3c, 0x00]],
+  ["P", [0x00, 0x7c, 0x42, 0x42, 0x7c, 0x40, 0x40, 0x00]],
+  ["Q", [0x00, 0x3c, 0x42, 0x42, 0x52, 0x4a, 0x3c, 0x00]],
+  ["R", [0x00, 0x7c, 0x42, 0x42, 0x7c, 0x44, 0x42, 0x00]],
+  ["S", [0x00, 0x3c, 0x40, 0x3c, 0x02, 0x42, 0x3c, 0x00]],
+  ["T", [0x00, 0xfe, 0x10, 0x10, 0x10, 0x10, 0x10, 0x00]],
+  ["U", [0x00, 0x42, 0x42, 0x42, 0x42, 0x42, 0x3c, 0x00]],
+  ["V", [0x00, 0x42, 0x42, 0x42, 0x42, 0x24, 0x18, 0x00]],
+  ["W", [0x00, 0x42, 0x42, 0x42, 0x42, 0x5a, 0x24, 0x00]],
+  ["X", [0x00, 0x42, 0x24, 0x18, 0x18, 0x24, 0x42, 0x00]],
+  ["Y", [0x00, 0x82, 0x44, 0x28, 0x10, 0x10, 0x10, 0x00]],
+  ["Z", [0x00, 0x7e, 0x04, 0x08, 0x10, 0x20, 0x7e, 0x00]],
+  ["!", [0x00, 0x10, 0x10, 0x10, 0x10, 0x00, 0x10, 0x00]],
+  ["?", [0x00, 0x3c, 0x42, 0x04, 0x08, 0x00, 0x08, 0x00]],
+  [".", [0x00, 0x00, 0x00, 0x00, 0x00, 0x18, 0x18, 0x00]],
+  [",", [0x00, 0x00, 0x00, 0x00, 0x00, 0x08, 0x08, 0x10]],
+  [":", [0x00, 0x00, 0x00, 0x10, 0x00, 0x00, 0x10, 0x00]],
+  ["-", [0x00, 0x00, 0x00, 0x00, 0x3e, 0x00, 0x00, 0x00]],
+  ["'", [0x00, 0x08, 0x08, 0x00, 0x00, 0x00, 0x00, 0x00]],
+  ["/", [0x00, 0x00, 0x02, 0x04, 0x08, 0x10, 0x20, 0x00]],
+  ["(", [0x00, 0x04, 0x08, 0x08, 0x08, 0x08, 0x04, 0x00]],
+  [")", [0x00, 0x20, 0x10, 0x10, 0x10, 0x10, 0x20, 0x00]],
+  ["*", [0x00, 0x6c, 0xfe, 0xfe, 0x7c, 0x38, 0x10, 0x00]], // Lives icon
+];
+const TEXT_END = 255;
+
+// Frames the game over message stays up before the menu (~3 seconds)
+const GAME_OVER_FRAMES = 36;
+
+// Game flow menu: picture index for none, and spaces between marquee repeats
+const NO_PICTURE = 255;
+const MARQUEE_GAP = 4;
+
+// Box the controls screen prints its options in (character cells)
+const CONTROLS_ROW = 8;
+const CONTROLS_COLUMN = 8;
+const CONTROLS_WIDTH = 16;
+
+// Equates for enum options ("left-right" -> PATROL_LEFT_RIGHT)
+function optionEquates(prefix: string, options: readonly SchemaOption[]): string {
+  return options.map(option =>
+    `${`${prefix}_${option.value.toUpperCase().replace(/-/g, "_")}`.padEnd(16)} equ ${option.code}\n`
+  ).join("");
+}
+
+// Equate for the flag bit of a schema property
+function bitEquate<K extends string>(name: string, schema: readonly PropertyField<K>[], key: K): string {
+  return `${name.padEnd(16)} equ ${getPropertyField(schema, key).bit}\n`;
+}
+
+// Resolve a key name to its port/bit, falling back to a default key
+function keyEquates(name: string, key: string | undefined, fallback: string): string {
+  const mapping = getKeyMapping(key) ?? getKeyMapping(fallback)!;
+  return `${name}_PORT     equ 0x${mapping.port.toString(16).toUpperCase()}  ; ${mapping.keyName}\n` +
+    `${name}_BIT      equ ${mapping.bit}\n`;
+}
+
+// Display file and attribute addresses of a character cell, on the screen or in the back buffer
+function cellAddress(row: number, column: number, base = SCREEN_BASE): string {
+  return `0x${(base + ((row & 0x18) << 8) + ((row & 7) << 5) + column).toString(16).toUpperCase()}`;
+}
+
+function attrAddress(row: number, column: number, base = SCREEN_BASE): string {
+  return `0x${(base + 0x1800 + row * 32 + column).toString(16).toUpperCase()}`;
+}
+
+// Text as HudFont glyph indexes, ending in TEXT_END
+function hudText(label: string, text: string): string {
+  const glyphs = [...text].map(char => {
+    const index = HUD_FONT.findIndex(([glyph]) => glyph === char);
+    if (index < 0) throw new Error(`HUD font has no glyph for "${char}"`);
+    return index;
+  });
+  return `${label.padEnd(20)}defb ${[...glyphs, TEXT_END].join(",")}  ; "${text}"\n`;
+}
+
+// Key table entry: half-row (port high byte) and key bit of a key, or of a default key
+function keyTableEntry(key: string | undefined, fallback: string): string {
+  const mapping = getKeyMapping(key) ?? getKeyMapping(fallback)!;
+  return `    defb 0x${(mapping.port >> 8).toString(16).toUpperCase()},${1 << mapping.bit}  ; ${mapping.keyName}\n`;
+}
+
+/**
+ * Generate the controls: ReadControls (once a frame) and the key tables of the
+ * input methods, with ShowControls when the game flow has a controls screen
+ * for the player to pick an input method and redefine the keys
+ */
+function generateControlsAsm(config: GameEngineConfig): string {
+  const playerKeys: Record<Control, string | undefined> = {
+    right: config.keyRight, left: config.keyLeft, down: config.keyDown,
+    up: config.keyUp, fire: config.keyFire, jump: config.keyJump,
+  };
+  const tableLabel = (method: string) => `${method[0].toUpperCase()}${method.slice(1)}Keys`;
+
+  let asm = `; ===== CONTROLS =====
+
+; Read the controls of the input method picked into Controls and A:
+; CTRL_* bits clear while held, as keyboard ports read
+ReadControls:
+    ld a,(InputMethod)
+    cp INPUT_KEMPSTON
+    jr z,ReadKempston
+    ld hl,(ControlKeys)
+    ld de,0x0100                ; D = control bit, E = controls held
+    ld b,CONTROL_COUNT
+ReadControlKey:
+    push bc
+    ld b,(hl)                   ; Half-row
+    ld c,254
+    inc hl
+    in a,(c)
+    and (hl)                    ; Key bit: Z while it's down
+    inc hl
+    jr nz,ControlKeyUp
+    ld a,e
+    or d
+    ld e,a
+ControlKeyUp:
+    sla d
+    pop bc
+    djnz ReadControlKey
+    ld a,e
+    jr ControlsRead
+ReadKempston:
+    in a,(KEMPSTON_PORT)        ; Bits set while held: right, left, down, up, fire
+    and 0x1F
+    bit CTRL_FIRE,a             ; No jump button: fire jumps too
+    jr z,ControlsRead
+    set CTRL_JUMP,a
+ControlsRead:
+    cpl
+    ld (Controls),a
+    ret
+`;
+
+  const menu = config.menu;
+  if (menu?.controls !== undefined) {
+    const methodKeys = getKeyMapping("1")!;
+    const lines = [
+      ...INPUT_METHOD_OPTIONS.map(({ label }, index) => `${index + 1} ${label.toUpperCase()}`),
+      `${INPUT_METHOD_OPTIONS.length + 1} REDEFINE KEYS`,
+    ];
+    const promptRow = CONTROLS_ROW + lines.length + 1;
+    const boxRows = promptRow - CONTROLS_ROW + 1;
+    const pad = (text: string) => text.padEnd(CONTROLS_WIDTH);
+
+    asm += `
+CONTROLS_ATTRS   equ ${attrAddress(CONTROLS_ROW, CONTROLS_COLUMN)}
+CONTROLS_ROWS    equ ${boxRows}
+CONTROLS_WIDTH   equ ${CONTROLS_WIDTH}
+PROMPT_PIXELS    equ ${cellAddress(promptRow, CONTROLS_COLUMN)}
+METHOD_KEYS_PORT equ 0x${methodKeys.port.toString(16).toUpperCase()}  ; 1 to ${INPUT_METHOD_OPTIONS.length}: the input methods in INPUT_* order
+${keyEquates("KEY_REDEFINE", String(lines.length), "6").trimEnd()}
+
+; The controls screen: its picture with the input methods over it until the
+; player picks one by number; the last number redefines the keys first
+ShowControls:
+    call ShowPicture
+    ld hl,CONTROLS_ATTRS        ; Box readable whatever the picture's colours
+    ld c,CONTROLS_ROWS
+ControlsBoxRow:
+    push hl
+    ld b,CONTROLS_WIDTH
+ControlsBoxCell:
+    ld (hl),DEFAULT_ATTR
+    inc l
+    djnz ControlsBoxCell
+    pop hl
+    ld de,32
+    add hl,de
+    dec c
+    jr nz,ControlsBoxRow
+${[...lines, "", ""].map((_, index) => `    ld hl,${cellAddress(CONTROLS_ROW + index, CONTROLS_COLUMN)}
+    ld de,ControlsText${index}
+    call PrintText
+`).join("")}    call WaitRelease
+ChooseInput:
+    ld bc,METHOD_KEYS_PORT
+    in a,(c)
+    cpl
+    and 0x1F
+    jr nz,InputChosen
+    ld bc,KEY_REDEFINE_PORT
+    in a,(c)
+    bit KEY_REDEFINE_BIT,a
+    jr nz,ChooseInput
+    call RedefineKeys
+    ld a,INPUT_KEYS
+    jr SetInputMethod
+InputChosen:
+    ld b,255                    ; Lowest number down -> its input method
+FindInput:
+    inc b
+    rrca
+    jr nc,FindInput
+    ld a,b
+SetInputMethod:
+    ld (InputMethod),a
+    add a,a
+    ld l,a
+    ld h,0
+    ld de,InputTables
+    add hl,de
+    ld a,(hl)
+    inc hl
+    ld h,(hl)
+    ld l,a
+    ld (ControlKeys),hl
+    jp WaitRelease
+
+; Ask for a key for each control in turn, into KeyTable
+RedefineKeys:
+    ld hl,KeyTable
+    ld de,ControlPrompts
+    ld b,CONTROL_COUNT
+RedefineKey:
+    push bc
+    push hl
+    ld hl,PROMPT_PIXELS
+    call PrintText              ; DE left on the prompt's TEXT_END
+    inc de
+    push de
+    call WaitRelease
+RedefineScan:
+    ld bc,0xFEFE                ; Every half-row, CAPS SHIFT to V first
+RedefineRow:
+    in a,(c)
+    cpl
+    and 0x1F
+    jr nz,RedefineFound
+    rlc b
+    jr c,RedefineRow
+    jr RedefineScan
+RedefineFound:
+    ld c,a
+    neg
+    and c                       ; Lowest key down on the half-row
+    pop de
+    pop hl
+    ld (hl),b
+    inc hl
+    ld (hl),a
+    inc hl
+    pop bc
+    djnz RedefineKey
+    jp WaitRelease
+
+`;
+    [...lines, "", ""].forEach((line, index) => {
+      asm += hudText(`ControlsText${index}:`, pad(line));
+    });
+    asm += "ControlPrompts:     ; One per control, KeyTable order\n";
+    CONTROLS.forEach(control => {
+      asm += hudText("", pad(`KEY FOR ${control.toUpperCase()}`));
+    });
+  }
+
+  asm += `
+InputMethod:        defb INPUT_KEYS
+ControlKeys:        defw KeyTable   ; Key table of the input method
+Controls:           defb 0xFF
+InputTables:        ; Key table per input method, INPUT_* order (none for Kempston)
+    defw ${INPUT_METHOD_OPTIONS.map(({ value }) => value === "keys" ? "KeyTable" : value === "kempston" ? "0" : tableLabel(value)).join(",")}
+KeyTable:           ; [half-row] [key bit] per control: ${CONTROLS.join(", ")}
+${CONTROLS.map(control => keyTableEntry(playerKeys[control], DEFAULT_CONTROL_KEYS[control])).join("")}`;
+  for (const [method, keys] of Object.entries(JOYSTICK_KEYS)) {
+    asm += `${tableLabel(method)}:${" ".repeat(Math.max(1, 19 - tableLabel(method).length))}; Fire jumps too\n`;
+    asm += CONTROLS.map(control => keyTableEntry(keys[control === "jump" ? "fire" : control], keys.fire)).join("");
+  }
+
+  return asm;
+}
+
+// Marquee text in the HUD font: letters upper case, anything it has no glyph for
+// a space, and a gap before the text comes round again
+function marqueeText(text: string): string {
+  const glyphs = [...text.toUpperCase()].map(char => HUD_FONT.some(([glyph]) => glyph === char) ? char : " ");
+  return hudText("MarqueeText:", `${glyphs.join("")}${" ".repeat(MARQUEE_GAP)}`);
+}
+
+/**
+ * Generate the game flow routines: Intro shows the auto-show pages once the game
+ * has loaded, then Menu shows the title with its marquee until SPACE or fire starts
+ * a game or an access key opens a page or starts at a level. Games end back at Menu
+ * Without a menu, Intro and Menu just start a new game
+ */
+function generateFlowAsm(menu: FlowMenuConfig | undefined, banked: boolean, packed: boolean): string {
+  let asm = "; ===== GAME FLOW =====\n";
+  if (!menu) {
+    return asm + `
+; No title or pages in the game flow: a game starts once loaded, and again once it ends
+Intro:
+Menu:
+    ld sp,(GameStack)
+    jp NewGame
+`;
+  }
+
+  const picture = (index: number | undefined) => index ?? NO_PICTURE;
+  asm += `NO_PICTURE       equ ${NO_PICTURE}\n`;
+  asm += `FLOW_TITLE       equ ${picture(menu.title)}\n`;
+  asm += `FLOW_GAME_OVER   equ ${picture(menu.gameOver)}\n`;
+  asm += `FLOW_CONTROLS    equ ${picture(menu.controls)}\n`;
+  asm += `MARQUEE_PIXELS   equ ${cellAddress(23, 0)}  ; Bottom row\n`;
+  asm += `MARQUEE_ATTRS    equ ${attrAddress(23, 0)}\n`;
+  asm += keyEquates("KEY_START", undefined, "space");
+
+  asm += `
+; Show the pages the game flow puts up once loaded, then the menu
+Intro:
+    ld hl,IntroPages
+IntroLoop:
+    ld a,(hl)
+    cp NO_PICTURE
+    jr z,Menu
+    push hl
+    call ShowPage
+    pop hl
+    inc hl
+    jr IntroLoop
+
+; The title until SPACE or fire starts a game, or an access key opens its page or
+; starts a game at its level; games come back here once they end
+Menu:
+    ld sp,(GameStack)
+    xor a
+    ld (BorderColour),a
+    out (254),a
+${menu.title === undefined ? "    call ClearScreen\n" : "    ld a,FLOW_TITLE\n    call ShowPicture\n"}`;
+  if (menu.marquee) {
+    asm += `    ld hl,MARQUEE_ATTRS         ; Marquee row readable whatever the title's colours
+    ld de,MARQUEE_ATTRS+1
+    ld bc,31
+    ld (hl),DEFAULT_ATTR
+    ldir
+    ld hl,MarqueeText
+    ld (MarqueePos),hl
+`;
+  }
+  asm += `    call WaitRelease
+MenuLoop:
+${menu.marquee ? "    call DrawMarquee\n" : ""}    call FrameDelay
+    ld hl,MenuKeys
+MenuKeyLoop:
+    ld a,(hl)                   ; Half-row (port high byte), 0 after the last key
+    and a
+    jr z,MenuStart
+    ld b,a
+    ld c,254
+    inc hl
+    in a,(c)
+    and (hl)                    ; Key bit: Z while it's down
+    inc hl
+    jr z,MenuKeyPressed
+    inc hl
+    inc hl
+    jr MenuKeyLoop
+MenuKeyPressed:
+    ld a,(hl)                   ; Page, NO_PICTURE for a level
+    inc hl
+    cp NO_PICTURE
+    jr z,MenuKeyLevel
+    call ShowPage
+    jr Menu
+MenuKeyLevel:
+    ld a,(hl)
+    jp NewGameAt
+MenuStart:
+    ld bc,KEY_START_PORT
+    in a,(c)
+    bit KEY_START_BIT,a
+    jp z,NewGame
+    call ReadControls           ; Or fire with the input method picked
+    bit CTRL_FIRE,a
+    jr nz,MenuLoop
+    jp NewGame
+
+; Show picture A until a key is pressed${menu.controls === undefined ? "" : "; the controls screen asks for an input method"}
+ShowPage:
+${menu.controls === undefined ? "" : "    cp FLOW_CONTROLS\n    jp z,ShowControls\n"}    call ShowPicture
+
+; Wait for every key to be let go, then for one to be pressed and let go
+WaitKey:
+    call WaitRelease
+WaitPress:
+    xor a                       ; All half-rows at once
+    in a,(254)
+    cpl
+    and 0x1F
+    jr z,WaitPress
+WaitRelease:
+    xor a
+    in a,(254)
+    cpl
+    and 0x1F
+    jr nz,WaitRelease
+    ret
+`;
+
+  if (menu.marquee) {
+    asm += `
+; Print a row of the marquee from MarqueePos, wrapping round its text, and
+; move it on a glyph for the next frame
+DrawMarquee:
+    ld de,(MarqueePos)
+    ld hl,MARQUEE_PIXELS
+    ld b,32
+DrawMarqueeGlyph:
+    ld a,(de)
+    cp TEXT_END
+    jr nz,PrintMarqueeGlyph
+    ld de,MarqueeText
+    ld a,(de)
+PrintMarqueeGlyph:
+    call PrintGlyph
+    inc de
+    djnz DrawMarqueeGlyph
+    ld hl,(MarqueePos)
+    inc hl
+    ld a,(hl)
+    cp TEXT_END
+    jr nz,MarqueeMoved
+    ld hl,MarqueeText
+MarqueeMoved:
+    ld (MarqueePos),hl
+    ret
+`;
+  }
+
+  asm += banked ? "\n; ShowPicture copies pictures out of their RAM pages (memory128.ts)\n" : `
+; ${packed ? "Unpack" : "Copy"} picture A from the picture bank to the display
+ShowPicture:
+    ld l,a
+    ld h,0
+    add hl,hl
+    ld de,PictureTable
+    add hl,de
+    ld a,(hl)
+    inc hl
+    ld h,(hl)
+    ld l,a
+    ld de,SCREEN_PIXELS
+${packed ? "    jp Unpack\n" : "    ld bc,6912\n    ldir\n    ret\n"}`;
+
+  asm += `
+IntroPages:         defb ${[...menu.autoShow, NO_PICTURE].join(",")}
+MenuKeys:           ; [half-row] [key bit] [page] [level] per access key
+`;
+  for (const { key, picture: page, level } of menu.keys) {
+    const mapping = getKeyMapping(key);
+    if (!mapping) continue;
+    asm += `    defb 0x${(mapping.port >> 8).toString(16).toUpperCase()},${1 << mapping.bit},${picture(page)},${level ?? 0}  ; ${mapping.keyName}\n`;
+  }
+  asm += "    defb 0\n";
+  if (menu.marquee) {
+    asm += marqueeText(menu.marquee);
+    asm += "MarqueePos:         defw MarqueeText\n";
+  }
+
+  return asm;
+}
+
+/**
+ * Generate the HUD routines: DrawHud (after every ClearBuffer), AddScore,
+ * DrawScore, DrawLives and DrawEnergy, each redrawing its part in the back
+ * buffer when the value changes
+ * Parts the settings hide, or all of them when no rows are kept, are just ret
+ */
+function generateHudAsm(config: GameEngineConfig, hudRows: number, startEnergy: number): string {
+  const hudRow = 24 - hudRows;
+  const showScore = hudRows > 0 && (config.showScore ?? true);
+  const showEnergy = hudRows > 0 && (config.showEnergy ?? true);
+
+  // Shift the energy right until the full bar fits in ENERGY_BAR_PIXELS
+  let energyShift = 0;
+  while (startEnergy >> energyShift > ENERGY_BAR_PIXELS) energyShift++;
+  const energyCells = Math.max(1, Math.ceil((startEnergy >> energyShift) / 8));
+
+  let asm = "; ===== HUD =====\n";
+  if (hudRows > 0) {
+    asm += `HUD_ROW          equ ${hudRow}\n`;
+    asm += `HUD_PIXELS       equ ${cellAddress(hudRow, 0, BUFFER_BASE)}  ; The first HUD row, in the back buffer\n`;
+    asm += `HUD_ATTRS        equ ${attrAddress(hudRow, 0, BUFFER_BASE)}\n`;
+    asm += "LIVES_ATTR       equ 0x42  ; BRIGHT red\n";
+    asm += "ENERGY_ATTR      equ 0x44  ; BRIGHT green\n";
+    asm += `SCORE_COLUMN     equ ${SCORE_COLUMN}\n`;
+    asm += `SCORE_DIGITS     equ ${SCORE_DIGITS_COLUMN}\n`;
+    asm += `LIVES_COLUMN     equ ${LIVES_COLUMN}\n`;
+    asm += `MAX_LIVES_SHOWN  equ ${MAX_LIVES_SHOWN}\n`;
+    asm += `GLYPH_SPACE      equ ${HUD_FONT.findIndex(([glyph]) => glyph === " ")}\n`;
+    asm += `GLYPH_LIFE       equ ${HUD_FONT.findIndex(([glyph]) => glyph === "*")}\n`;
+    asm += `ENERGY_CELLS     equ ${energyCells}\n`;
+    asm += "ENERGY_COLUMN    equ 32-ENERGY_CELLS\n";
+  }
+
+  asm += `
+; Colour the HUD and draw all of it
+DrawHud:
+`;
+  if (hudRows === 0) {
+    asm += "    ret                         ; No HUD rows kept\n";
+  } else {
+    asm += `    ld hl,HUD_ATTRS+LIVES_COLUMN
+    ld b,MAX_LIVES_SHOWN
+    ld a,LIVES_ATTR
+    call FillAttrs
+${showEnergy ? `    ld hl,HUD_ATTRS+ENERGY_COLUMN
+    ld b,ENERGY_CELLS
+    ld a,ENERGY_ATTR
+    call FillAttrs
+` : ""}${showScore ? `    ld hl,HUD_PIXELS+SCORE_COLUMN
+    ld de,ScoreText
+    call PrintText
+    call DrawScore
+` : ""}    call DrawLives
+    jp DrawEnergy
+
+; Set B attributes from HL to A
+FillAttrs:
+    ld (hl),a
+    inc l
+    djnz FillAttrs
+    ret
+
+; Show the HUD rows at the next PresentFrame (BC and IX kept)
+MarkHud:
+    push bc
+    ld bc,31                    ; Every column
+    ld de,HUD_ROW*256+23
+    call MarkDirty
+    pop bc
+    ret
+`;
+  }
+
+  asm += `
+; Add HL points to the score, up to 65535, and redraw it (IX kept)
+AddScore:
+    ld de,(Score)
+    add hl,de
+    jr nc,ScoreStored
+    ld hl,65535
+ScoreStored:
+    ld (Score),hl
+
+; Score as five digits (IX kept)
+DrawScore:
+`;
+  if (!showScore) {
+    asm += "    ret                         ; Score not shown\n";
+  } else {
+    asm += `    ld hl,(Score)
+    ld de,ScoreDigits
+    ld bc,-10000
+    call ScoreDigit
+    ld bc,-1000
+    call ScoreDigit
+    ld bc,-100
+    call ScoreDigit
+    ld bc,-10
+    call ScoreDigit
+    ld a,l
+    ld (de),a
+    ld hl,HUD_PIXELS+SCORE_DIGITS
+    ld de,ScoreDigits
+    call PrintText
+    jp MarkHud
+
+; Digit of HL for the power of ten -BC -> (DE), HL = the remainder
+ScoreDigit:
+    ld a,-1
+ScoreDigitLoop:
+    inc a
+    add hl,bc
+    jr c,ScoreDigitLoop
+    sbc hl,bc                   ; Went one too far: carry is clear, add it back
+    ld (de),a
+    inc de
+    ret
+`;
+  }
+
+  asm += `
+; One icon per life left, up to MAX_LIVES_SHOWN (IX kept)
+DrawLives:
+`;
+  if (hudRows === 0) {
+    asm += "    ret\n";
+  } else {
+    asm += `    ld a,(Lives)
+    cp MAX_LIVES_SHOWN+1
+    jr c,LivesCounted
+    ld a,MAX_LIVES_SHOWN
+LivesCounted:
+    ld c,a
+    ld b,MAX_LIVES_SHOWN
+    ld hl,HUD_PIXELS+LIVES_COLUMN
+DrawLifeSlot:
+    ld a,c
+    and a
+    ld a,GLYPH_SPACE
+    jr z,DrawLifeGlyph
+    dec c
+    ld a,GLYPH_LIFE
+DrawLifeGlyph:
+    call PrintGlyph
+    djnz DrawLifeSlot
+    jp MarkHud
+`;
+  }
+
+  asm += `
+; Energy bar, one pixel per ${1 << energyShift} energy (IX kept)
+DrawEnergy:
+`;
+  if (!showEnergy) {
+    asm += "    ret                         ; Energy not shown\n";
+  } else {
+    asm += "    ld a,(Energy)\n";
+    asm += "    srl a\n".repeat(energyShift);
+    asm += `    ld c,a                      ; C = pixels left to fill
+    ld b,ENERGY_CELLS
+    ld hl,HUD_PIXELS+ENERGY_COLUMN
+DrawEnergyCell:
+    ld a,c
+    cp 8
+    jr c,EnergyPartCell
+    sub 8
+    ld c,a
+    ld a,0xFF
+    jr EnergyCellBits
+EnergyPartCell:
+    push hl
+    ld hl,EnergyMasks
+    ld e,a
+    ld d,0
+    add hl,de
+    ld a,(hl)
+    pop hl
+    ld c,0
+EnergyCellBits:
+    ld e,a                      ; Bar in the middle four pixel lines
+    xor a
+    push hl
+    ld (hl),a
+    inc h
+    ld (hl),a
+    inc h
+    ld (hl),e
+    inc h
+    ld (hl),e
+    inc h
+    ld (hl),e
+    inc h
+    ld (hl),e
+    inc h
+    ld (hl),a
+    inc h
+    ld (hl),a
+    pop hl
+    inc l
+    djnz DrawEnergyCell
+    jp MarkHud
+
+EnergyMasks:
+    defb 0x00,0x80,0xC0,0xE0,0xF0,0xF8,0xFC,0xFE
+`;
+  }
+
+  asm += `
+; Print text at DE (glyph indexes, TEXT_END last) from the character cell at HL
+PrintText:
+    ld a,(de)
+    cp TEXT_END
+    ret z
+    call PrintGlyph
+    inc de
+    jr PrintText
+
+; Draw glyph A in the character cell at HL and step HL to the next column
+; BC and DE are kept
+PrintGlyph:
+    push bc
+    push de
+    push hl
+    ld l,a
+    ld h,0
+    add hl,hl
+    add hl,hl
+    add hl,hl
+    ld de,HudFont
+    add hl,de
+    ex de,hl                    ; DE = glyph
+    pop hl
+    push hl
+    ld b,8
+PrintGlyphLine:
+    ld a,(de)
+    ld (hl),a
+    inc de
+    inc h
+    djnz PrintGlyphLine
+    pop hl
+    inc l
+    pop de
+    pop bc
+    ret
+
+; ${HUD_FONT.map(([glyph]) => glyph).join("")}
+HudFont:
+${HUD_FONT.map(([, bytes]) => `    defb ${bytes.map(b => `0x${b.toString(16).toUpperCase().padStart(2, "0")}`).join(",")}\n`).join("")}`;
+  asm += hudText("ScoreText:", "SCORE");
+  asm += hudText("GameOverText:", "GAME OVER");
+  asm += `ScoreDigits:        defb 0,0,0,0,0,TEXT_END\n`;
+
+  return asm;
+}
+
+/**
+ * Generate the engine source
+ * Expects the data bank labels (SpriteBank, SpriteMetadataPtrs, SpritePixelPtrs,
+ * BlockBank, BlockAttrs, ObjectBank, AnimationBank, ScreenBank, SoundBank, SoundEvents) to be defined after it; a banked
+ * build defines the paging routines and ScreenTable/ScreenBuffer instead of ScreenBank
+ * Packed, ScreenBank is a pointer per packed screen, unpacked into ScreenBuffer,
+ * and on 48K SpriteBankPacked is unpacked to SpriteBank at Start
+ * Without config.interruptTable, FreeRam must follow the last bank and anything
+ * unpacked above it: the frame interrupt's table is built in the RAM there
+ */
+export function generateGameEngineAsm(config: GameEngineConfig): string {
+  const hudRows = Math.max(0, Math.min(MAX_HUD_ROWS, Math.round(config.hudRows ?? DEFAULT_HUD_ROWS)));
+  const startEnergy = Math.max(1, Math.min(255, Math.round(config.startEnergy ?? 100)));
+  const playRows = 24 - hudRows;
+  const maxShots = Math.max(1, Math.min(MAX_SHOTS, Math.round(config.maxShots ?? DEFAULT_MAX_SHOTS)));
+  let asm = "; ===== GAME ENGINE =====\n";
+  asm += "; Reads the packed data banks; tiles and sprites are drawn from the sprite bank\n\n";
+
+  asm += `    org ${config.codeStart}\n\n`;
+
+  asm += "; Constants\n";
+  asm += "SCREEN_PIXELS    equ 16384\n";
+  asm += "SCREEN_ATTRS     equ 22528\n";
+  asm += `BUFFER_PIXELS    equ 0x${BUFFER_BASE.toString(16).toUpperCase()}  ; Back buffer: SCREEN_PIXELS + 0x2000, same layout\n`;
+  asm += "BUFFER_ATTRS     equ BUFFER_PIXELS+6144\n";
+  asm += "DEFAULT_ATTR     equ 0x47  ; BRIGHT, white INK on black PAPER\n";
+  asm += `EMPTY_TILE       equ ${EMPTY_TILE}\n`;
+  asm += `NO_SCREEN        equ ${NO_SCREEN}\n`;
+  SCREEN_LINK_DIRECTIONS.forEach((direction, index) => {
+    asm += `LINK_${direction.toUpperCase().padEnd(11)} equ ${index}\n`;
+  });
+  asm += `SCREEN_HEADER    equ ${2 + SCREEN_LINK_DIRECTIONS.length}  ; Width, height, links\n`;
+  asm += optionEquates("BLOCK", BLOCK_TYPE_OPTIONS);
+  asm += "NO_BLOCK         equ 255   ; Block type of an empty tile, or one outside the play area\n";
+  asm += `OBJ_PLAYER       equ ${ObjectTypeEnum.PLAYER}\n`;
+  asm += `OBJ_ENEMY        equ ${ObjectTypeEnum.ENEMY}\n`;
+  asm += `OBJ_AMMUNITION   equ ${ObjectTypeEnum.AMMUNITION}\n`;
+  asm += `OBJ_COLLECTIBLE  equ ${ObjectTypeEnum.COLLECTIBLE}\n`;
+  asm += `OBJ_DOOR         equ ${ObjectTypeEnum.DOOR}\n`;
+  asm += `OBJ_EXIT         equ ${ObjectTypeEnum.EXIT}\n`;
+  asm += `OBJ_PLATFORM     equ ${ObjectTypeEnum.MOVING_PLATFORM}\n`;
+  asm += optionEquates("PATROL", PATROL_TYPE_OPTIONS);
+  asm += optionEquates("AI", AI_BEHAVIOR_OPTIONS);
+  asm += optionEquates("ACTIVATE", EXIT_ACTIVATION_OPTIONS);
+  asm += optionEquates("DOOR", DOOR_ACTIVATION_OPTIONS);
+  asm += optionEquates("PLATFORM", PLATFORM_TYPE_OPTIONS);
+  asm += optionEquates("REPEAT", REPEAT_TYPE_OPTIONS);
+  asm += `NO_LEVEL         equ ${NO_LEVEL}  ; Exit target: the next level in the game flow\n`;
+  asm += "NO_ARRIVAL       equ 255   ; Door arrival tile: where the player went in\n";
+  asm += "SPRITE_COUNT     equ (SpritePixelPtrs-SpriteMetadataPtrs)/2\n";
+  asm += `JUMP_FRAMES      equ ${JUMP_TRAJECTORY.length}\n`;
+  asm += "WALK_SPEED       equ 3\n";
+  asm += "FALL_SPEED       equ 4\n";
+  asm += `FRAME_TICKS      equ ${FRAME_TICKS}     ; Frame interrupts per logic frame\n`;
+  if (config.interruptTable !== undefined) {
+    asm += `IM2_TABLE        equ 0x${config.interruptTable.toString(16).toUpperCase()}\n`;
+    asm += "IM2_JUMP         equ (IM2_TABLE/256+1)*0x101  ; Every vector in the table points here\n";
+  } else {
+    asm += "IM2_JUMP         equ (FreeRam+256)/257*257  ; Every vector points here: the first address with equal bytes after the code\n";
+    asm += "IM2_TABLE        equ (IM2_JUMP&0xFF00)+256\n";
+  }
+  asm += "GUARD_RANGE      equ 48    ; Pixels from home a guard reacts to the player\n";
+  asm += "RANDOM_STEPS     equ 16    ; Moves between random direction changes (power of 2)\n";
+  asm += "HIT_COOLDOWN     equ 12    ; Frames the player can't be hurt again after a hit\n";
+  asm += `PLATFORM_SPEED   equ ${DEFAULT_PLATFORM_SPEED}     ; Pixels per frame of a platform that doesn't set it\n`;
+  asm += `PLATFORM_RANGE   equ ${DEFAULT_PLATFORM_RANGE}     ; Blocks of travel of a platform that doesn't set it\n`;
+  asm += `PLATFORM_TOP     equ ${PLATFORM_TOP}     ; Rows at the top of a platform the player lands on\n`;
+  asm += `ROPE_STEPS       equ ${ROPE_SWING_STEPS}    ; Swing positions of a rope (power of 2)\n`;
+  asm += `ROPE_HOLD        equ ${ROPE_HOLD_FRAMES}     ; Frames between grabbing and letting go of a rope\n`;
+  asm += `MAX_CRUMBLES     equ ${MAX_CRUMBLES}    ; Broken crumbling blocks remembered on a screen\n`;
+  asm += `SLIDE_SCALE      equ ${SLIDE_SCALE}    ; Slide on ice in 1/16 pixels per frame\n`;
+  asm += `ENEMY_HEALTH     equ ${DEFAULT_ENEMY_HEALTH}    ; Energy of an enemy that doesn't set it\n`;
+  asm += "; Projectile of ammunition that doesn't set it\n";
+  asm += `SHOT_SPEED       equ ${DEFAULT_PROJECTILE_SPEED}\n`;
+  asm += `SHOT_DAMAGE      equ ${DEFAULT_PROJECTILE_DAMAGE}\n`;
+  asm += `SHOT_RANGE       equ ${DEFAULT_PROJECTILE_RANGE}\n`;
+  asm += "; Packed properties of a block that doesn't set them\n";
+  asm += `CONVEYOR_SPEED   equ ${getPackedBlockValue({}, "speed")}\n`;
+  asm += `CONVEYOR_DIR     equ ${getConveyorDirectionCode()}    ; 1 = right, 255 = left\n`;
+  asm += `CRUMBLE_FRAMES   equ ${getPackedBlockValue({}, "crumbleTime")}\n`;
+  asm += `SINK_SPEED       equ ${getPackedBlockValue({}, "sinkingSpeed")}\n`;
+  asm += `SINK_DEPTH       equ ${getPackedBlockValue({}, "sinkingDepth")}\n`;
+  asm += `ICE_GRIP         equ ${getPackedBlockValue({}, "frictionCoefficient")}\n`;
+  asm += `CLIMB_SPEED      equ ${getPackedBlockValue({}, "climbSpeed")}\n`;
+  asm += `START_ENERGY     equ ${startEnergy}\n`;
+  asm += `START_LIVES      equ ${Math.max(1, Math.min(255, Math.round(config.lives ?? 3)))}\n`;
+  asm += `HUD_ROWS         equ ${hudRows}\n`;
+  asm += "PLAY_ROWS        equ 24-HUD_ROWS  ; Tile rows above the HUD\n";
+  asm += "PLAY_HEIGHT      equ PLAY_ROWS*8\n";
+  asm += `TEXT_END         equ ${TEXT_END}\n`;
+  asm += `GAME_OVER_FRAMES equ ${GAME_OVER_FRAMES}\n`;
+  asm += `GAME_OVER_TEXT   equ ${cellAddress(Math.floor(playRows / 2), 11, BUFFER_BASE)}  ; "GAME OVER" in the middle of the play area\n`;
+  asm += "SPEAKER          equ 0x10  ; Port 0xFE bit driving the beeper\n";
+  asm += `SOUND_WAVE_NOISE equ ${SOUND_WAVE_NOISE}\n`;
+  asm += `NO_SOUND         equ ${NO_SOUND}\n`;
+  asm += "SOUND_SIZE       equ 7     ; Wave, period, delta, half cycles\n";
+  SOUND_EVENT_OPTIONS.forEach(({ value }, index) => {
+    asm += `${`SFX_${value.toUpperCase()}`.padEnd(16)} equ ${index}\n`;
+  });
+  CONTROLS.forEach((control, bit) => {
+    asm += `${`CTRL_${control.toUpperCase()}`.padEnd(16)} equ ${bit}\n`;
+  });
+  asm += `CONTROL_COUNT    equ ${CONTROLS.length}\n`;
+  ANIMATION_ACTIONS.forEach((action, index) => {
+    asm += `${`ANIM_${action.replace(/[A-Z]/g, letter => `_${letter}`).toUpperCase()}`.padEnd(16)} equ ${index}\n`;
+  });
+  asm += `ANIMATION_TICKS  equ ${ANIMATION_TICKS}    ; A sprite steps a frame each time its speed adds up to this\n`;
+  asm += `NO_ANIMATION     equ ${NO_ANIMATION}\n`;
+  asm += `ANIMATION_ENTRY  equ ${1 + ANIMATION_ACTIONS.length}     ; Mirror bits and a sprite per action, after the object index\n`;
+  asm += `NO_SPRITE        equ ${NO_SPRITE}   ; Animation table: keep the sprite shown\n`;
+  asm += optionEquates("INPUT", INPUT_METHOD_OPTIONS);
+  asm += "KEMPSTON_PORT    equ 0x1F\n";
+  asm += `PLAYER_OBJECT    equ ${config.playerObject & 0xff}\n`;
+  asm += `SHOT_OBJECT      equ ${config.shotObject & 0xff}\n`;
+  asm += `MAX_SHOTS        equ ${maxShots}\n`;
+  asm += `PLAYER_START_X   equ ${config.playerStartX & 0xff}\n`;
+  asm += `PLAYER_START_Y   equ ${config.playerStartY & 0xff}\n`;
+  asm += `MAX_ACTORS       equ ${MAX_ACTORS}\n`;
+  asm += `ACTOR_BUFFER_SIZE equ ${ACTOR_BUFFER_SIZE}\n`;
+  asm += `MAX_COLLECTED    equ ${MAX_COLLECTED}\n`;
+  asm += "; Property flag bits of object and placed object records\n";
+  asm += bitEquate("OBJ_BIT_SPEED", OBJECT_PROPERTIES, "speed");
+  asm += bitEquate("OBJ_BIT_PATROL", OBJECT_PROPERTIES, "patrolType");
+  asm += bitEquate("OBJ_BIT_DAMAGE", OBJECT_PROPERTIES, "damage");
+  asm += bitEquate("OBJ_BIT_POINTS", OBJECT_PROPERTIES, "points");
+  asm += bitEquate("OBJ_BIT_REQUIRED", OBJECT_PROPERTIES, "requiredToExit");
+  asm += bitEquate("OBJ_BIT_AI", OBJECT_PROPERTIES, "aiBehavior");
+  asm += bitEquate("OBJ_BIT_HEALTH", OBJECT_PROPERTIES, "health");
+  asm += bitEquate("OBJ_BIT_SSPEED", OBJECT_PROPERTIES, "projectileSpeed");
+  asm += bitEquate("OBJ_BIT_SDAMAGE", OBJECT_PROPERTIES, "projectileDamage");
+  asm += bitEquate("OBJ_BIT_SRANGE", OBJECT_PROPERTIES, "projectileRange");
+  asm += bitEquate("OBJ_BIT_TARGET", OBJECT_PROPERTIES, "targetLevel");
+  asm += bitEquate("OBJ_BIT_ACTIVATE", OBJECT_PROPERTIES, "activationConditions");
+  asm += bitEquate("OBJ_BIT_DACTIVATE", OBJECT_PROPERTIES, "doorActivation");
+  asm += bitEquate("OBJ_BIT_PSPEED", OBJECT_PROPERTIES, "platformSpeed");
+  asm += bitEquate("OBJ_BIT_PRANGE", OBJECT_PROPERTIES, "platformRange");
+  asm += bitEquate("OBJ_BIT_PAUSE", OBJECT_PROPERTIES, "pauseAtEnds");
+  asm += bitEquate("OBJ_BIT_PTYPE", OBJECT_PROPERTIES, "platformType");
+  asm += bitEquate("OBJ_BIT_PDIR", OBJECT_PROPERTIES, "startDirection");
+  asm += bitEquate("OBJ_BIT_STOPS", OBJECT_PROPERTIES, "elevatorStops");
+  asm += bitEquate("OBJ_BIT_CARRY", OBJECT_PROPERTIES, "playerCarry");
+  asm += bitEquate("OBJ_BIT_REPEAT", OBJECT_PROPERTIES, "repeatType");
+  asm += bitEquate("INST_BIT_SPEED", INSTANCE_PROPERTIES, "speed");
+  asm += bitEquate("INST_BIT_DIR", INSTANCE_PROPERTIES, "startDirection");
+  asm += bitEquate("INST_BIT_PATROL", INSTANCE_PROPERTIES, "patrolType");
+  asm += bitEquate("INST_BIT_DAMAGE", INSTANCE_PROPERTIES, "damage");
+  asm += bitEquate("INST_BIT_POINTS", INSTANCE_PROPERTIES, "points");
+  asm += bitEquate("INST_BIT_AI", INSTANCE_PROPERTIES, "aiBehavior");
+  asm += bitEquate("INST_BIT_TARGET", INSTANCE_PROPERTIES, "targetLevel");
+  asm += bitEquate("INST_BIT_ACTIVATE", INSTANCE_PROPERTIES, "activationConditions");
+  asm += bitEquate("INST_BIT_DSCREEN", INSTANCE_PROPERTIES, "targetScreen");
+  asm += bitEquate("INST_BIT_ARRIVE_X", INSTANCE_PROPERTIES, "arrivalX");
+  asm += bitEquate("INST_BIT_ARRIVE_Y", INSTANCE_PROPERTIES, "arrivalY");
+  asm += bitEquate("INST_BIT_DACTIVATE", INSTANCE_PROPERTIES, "doorActivation");
+  asm += bitEquate("INST_BIT_PSPEED", INSTANCE_PROPERTIES, "platformSpeed");
+  asm += bitEquate("INST_BIT_PTYPE", INSTANCE_PROPERTIES, "platformType");
+  asm += bitEquate("INST_BIT_PRANGE", INSTANCE_PROPERTIES, "platformRange");
+  asm += bitEquate("INST_BIT_PAUSE", INSTANCE_PROPERTIES, "pauseAtEnds");
+  asm += bitEquate("INST_BIT_REPEAT", INSTANCE_PROPERTIES, "repeatType");
+  asm += bitEquate("INST_BIT_CARRY", INSTANCE_PROPERTIES, "playerCarry");
+  asm += bitEquate("BLOCK_BIT_SPEED", BLOCK_PROPERTIES, "speed");
+  asm += bitEquate("BLOCK_BIT_DIR", BLOCK_PROPERTIES, "direction");
+  asm += bitEquate("BLOCK_BIT_CRUMBLE", BLOCK_PROPERTIES, "crumbleTime");
+  asm += bitEquate("BLOCK_BIT_RESPAWN", BLOCK_PROPERTIES, "respawnTime");
+  asm += bitEquate("BLOCK_BIT_SINK", BLOCK_PROPERTIES, "sinkingSpeed");
+  asm += bitEquate("BLOCK_BIT_DEPTH", BLOCK_PROPERTIES, "sinkingDepth");
+  asm += bitEquate("BLOCK_BIT_GRIP", BLOCK_PROPERTIES, "frictionCoefficient");
+  asm += bitEquate("BLOCK_BIT_CLIMB", BLOCK_PROPERTIES, "climbSpeed");
+  asm += bitEquate("BLOCK_BIT_PASS", BLOCK_PROPERTIES, "passThroughAllowed");
+
+  asm += `
+; Actor record (one per sprite on screen)
+ACT_TYPE         equ 0     ; Object type enum
+ACT_X            equ 1     ; Pixels
+ACT_Y            equ 2
+ACT_WBYTES       equ 3     ; Sprite width in bytes
+ACT_HEIGHT       equ 4     ; Sprite height in pixels (0 = nothing to draw)
+ACT_FRAME        equ 5
+ACT_FRAMES       equ 6
+ACT_PIXELS       equ 7     ; Word: the sprite's frame table (GetSpriteFrames)
+ACT_DRAWN_ROWS   equ 9     ; Rows saved in the buffer (0 = not on screen)
+ACT_DRAWN_ADDR   equ 10    ; Word: display address it was drawn at
+ACT_DRAWN_COL    equ 12
+ACT_BUFFER       equ 13    ; Word: saved background
+ACT_OBJECT       equ 15    ; Object bank index
+ACT_SPRITE       equ 16
+ACT_WIDTH        equ 17    ; Pixels
+ACT_SPEED        equ 18    ; Pixels per move
+ACT_DX           equ 19    ; Heading: 1, 0 or 255 (-1)
+ACT_DY           equ 20
+ACT_PATROL       equ 21    ; PATROL_*
+ACT_AI           equ 22    ; AI_*
+ACT_DAMAGE       equ 23    ; Energy taken from the player on contact
+ACT_HOME_X       equ 24    ; Position it was placed at
+ACT_HOME_Y       equ 25
+ACT_TIMER        equ 26    ; Moves made, for circular and random movement
+ACT_INSTANCE     equ 27    ; Placed object index on its screen
+ACT_POINTS       equ 28    ; Word: score for a collectable, or pixels a shot can still fly
+ACT_REQUIRED     equ 30    ; Non-zero when the exits need it collected
+ACT_TARGET       equ 31    ; Exit: level it leads to, NO_LEVEL for the next one; door: screen, NO_SCREEN for none
+ACT_ACTIVATE     equ 32    ; Exit: ACTIVATE_*; door: DOOR_*
+ACT_PLATFORM     equ 33    ; Platform: PLATFORM_*
+ACT_RANGE        equ 34    ; Platform: blocks of travel, or the rope's length
+ACT_PAUSE        equ 35    ; Platform: frames it waits at the ends and stops
+ACT_WAIT         equ 36    ; Platform: frames left of the current wait
+ACT_TRAVEL       equ 37    ; Platform: pixels from home, or the rope's swing position
+ACT_RETURNING    equ 38    ; Platform: non-zero while heading back home
+ACT_REPEAT       equ 39    ; Platform: REPEAT_*
+ACT_CARRY        equ 40    ; Platform: non-zero when it carries the player
+ACT_STOPS        equ 41    ; Word: elevator stops, bit n for n blocks from home
+ACT_ENERGY       equ 43    ; Enemy: health left to the player's shots
+ACT_ARRIVE_X     equ 44    ; Door: tile the player comes out at, NO_ARRIVAL to stay put
+ACT_ARRIVE_Y     equ 45
+ACT_ANIMS        equ 46    ; Word: sprites of its object's animation set (AnimationBank), 0 for none
+ACT_ANIM_SPEED   equ 48    ; Sprite's frames per second
+ACT_ANIM_TIME    equ 49    ; Speed added up towards the next frame
+ACT_MIRROR       equ 50    ; 255 when drawn flipped left to right
+ACTOR_SIZE       equ 51
+
+; Crumbling block record (one per block stood on or broken on this screen)
+CRUMBLE_ADDR     equ 0     ; Word: tile map address (high byte 0 = free record)
+CRUMBLE_TILE     equ 2     ; Block it was
+CRUMBLE_STOOD    equ 3     ; Frames stood on
+CRUMBLE_TIMER    equ 4     ; Word: once broken, frames until it's back (0 = never)
+CRUMBLE_SIZE     equ 6
+
+; ===== INITIALIZATION =====
+Start:
+${config.banked ? "    call InitPaging             ; Sprite page in\n" : ""}${config.packed && !config.banked ? `    ld hl,SpriteBankPacked      ; Sprite bank out above the code
+    ld de,SpriteBank
+    call Unpack
+` : ""}    call InitInterrupts
+    ld (GameStack),sp           ; The menu comes back with this stack
+    jp Intro
+
+; Score and lives from the start, on the first level
+NewGame:
+    xor a
+
+; The same from level A
+NewGameAt:
+    ld hl,0
+    ld (Score),hl
+    ld hl,Lives
+    ld (hl),START_LIVES
+
+; Level A from its first screen, with full energy and nothing collected
+StartLevel:
+    ld (CurrentLevel),a
+    ld l,a                      ; LevelTable: [count] [first screen, required items] per level
+    ld h,0
+    add hl,hl
+    ld de,LevelTable+1
+    add hl,de
+    ld a,(hl)
+    ld (CurrentScreenIndex),a
+    inc hl
+    ld a,(hl)
+    ld (RequiredLeft),a
+    ld a,START_ENERGY
+    ld (Energy),a
+    xor a
+    ld (CollectedCount),a
+    ld (HitCooldown),a
+    ld (IsJumping),a
+    ld (OnGround),a
+    ld (BorderColour),a         ; Black border
+    out (254),a
+    call ClearBuffer
+
+    call RestoreBlocks
+    ld a,(CurrentScreenIndex)
+    call SelectScreen
+    call DrawTiles
+    call DrawHud
+    call LoadActors
+    call InitPlayer
+
+; ===== MAIN GAME LOOP =====
+GameLoop:
+    call ReadControls
+    ld hl,(Sink)                ; Sinking goes on only while standing on a sinking block
+    ld (Sank),hl
+    ld hl,0                     ; Platforms pick the player up again as they land on them
+    ld (Riding),hl
+    ld (Sink),hl
+    xor a                       ; Ice only slides the player while they're on it
+    ld (IceGrip),a
+    ld hl,(RopeActor)           ; Hanging on a rope: it moves the player, jump lets go
+    ld a,h
+    or l
+    jr z,CheckJumpKey
+    ld a,(RopeCooldown)
+    and a
+    jp nz,UpdateScreen
+    ld a,(Controls)
+    bit CTRL_JUMP,a
+    jp nz,UpdateScreen
+    call LetGoRope
+    jr StartJump
+
+    ; Jump key starts a jump when standing on something, or climbing
+CheckJumpKey:
+    ld a,(Controls)
+    bit CTRL_JUMP,a
+    jr nz,CheckClimb
+    ld a,(OnGround)
+    and a
+    jr z,CheckClimb
+StartJump:
+    ld a,1
+    ld (IsJumping),a
+    xor a
+    ld (JumpFrame),a
+    ld (OnGround),a
+    ld (Climbing),a
+    ld a,SFX_JUMP
+    call PlaySound
+    jr ProcessJump
+
+CheckClimb:
+    call ClimbLadder            ; On a ladder: no jump arc or gravity
+    jp c,CheckHorizontal
+
+ProcessJump:
+    ld a,(IsJumping)
+    and a
+    jr z,LandCheck
+    ld a,(JumpFrame)
+    cp JUMP_FRAMES
+    jr nc,EndJump
+    ld hl,JumpTrajectory        ; Y += JumpTrajectory[JumpFrame]
+    ld e,a
+    ld d,0
+    add hl,de
+    ld a,(PlayerY)
+    add a,(hl)
+    cp 192
+    jr c,JumpStored
+    ld a,LINK_UP                ; Left the top: flip up, else clamp
+    call GetScreenLink
+    cp NO_SCREEN
+    jr z,JumpTop
+    ld b,a
+    ld a,(PlayerMaxY)           ; Enter the screen above at its bottom
+    ld (PlayerY),a
+    ld a,b
+    call ChangeScreen
+    jr JumpNext
+JumpTop:
+    xor a
+JumpStored:
+    ld (PlayerY),a
+JumpNext:
+    ld hl,JumpFrame
+    inc (hl)
+    jp CheckHorizontal
+EndJump:
+    xor a
+    ld (IsJumping),a
+
+; Gravity: land on the block under the player's feet, else fall
+LandCheck:
+    call PlayerFoot
+    call BlockAt
+    call BlockLandable
+    jp nc,NoCollision
+    push af
+    ld a,(PlayerHeight)         ; Stand on top of the tile
+    ld c,a
+    ld a,b
+    and 0xF8
+    sub c
+    ld (PlayerY),a
+    ld a,1
+    ld (OnGround),a
+    pop af
+    cp BLOCK_CONVEYOR
+    jr z,OnConveyor
+    cp BLOCK_CRUMBLING
+    jr z,OnCrumbling
+    cp BLOCK_SINKING
+    jr z,OnSinking
+    cp BLOCK_ICE
+    jp nz,CheckHorizontal
+    ; Ice: the player slides on when the walk keys are let go
+    ld a,BLOCK_BIT_GRIP
+    call BlockProperty
+    jr nz,GripRead
+    ld a,ICE_GRIP
+GripRead:
+    ld (IceGrip),a
+    jp CheckHorizontal
+
+    ; Crumbling: UpdateBlocks counts the frames stood on it
+OnCrumbling:
+    ld (CrumbleAt),de
+    jp CheckHorizontal
+
+    ; Sinking: the player sinks a little further each frame, down to its depth
+OnSinking:
+    ld a,BLOCK_BIT_DEPTH
+    call BlockProperty
+    jr nz,SinkDepthRead
+    ld a,SINK_DEPTH
+SinkDepthRead:
+    ld c,a
+    ld a,BLOCK_BIT_SINK
+    call BlockProperty
+    jr nz,SinkSpeedRead
+    ld a,SINK_SPEED
+SinkSpeedRead:
+    and a
+    jr nz,SinkSpeed
+    inc a                       ; At least a quarter pixel per frame
+SinkSpeed:
+    ld e,a
+    ld d,0
+    ld hl,(Sank)
+    add hl,de
+    ex de,hl                    ; DE = quarter pixels sunk
+    ld l,c
+    ld h,0
+    add hl,hl
+    add hl,hl                   ; HL = depth in quarter pixels
+    and a
+    sbc hl,de
+    jr nc,SinkStored
+    add hl,de                   ; Sunk all the way
+    ex de,hl
+SinkStored:
+    ld (Sink),de
+    jp CheckHorizontal
+
+    ; Conveyor push: speed (1/4 pixels) and direction
+OnConveyor:
+    ld a,BLOCK_BIT_SPEED
+    call BlockProperty
+    jr nz,ConveyorSpeedRead
+    ld a,CONVEYOR_SPEED
+ConveyorSpeedRead:
+    srl a
+    srl a
+    jr nz,ConveyorSpeed
+    inc a                       ; At least one pixel per frame
+ConveyorSpeed:
+    ld c,a
+    ld a,BLOCK_BIT_DIR
+    call BlockProperty
+    jr nz,ConveyorDirRead
+    ld a,CONVEYOR_DIR
+ConveyorDirRead:
+    cp 1                        ; Direction: 1 = right, 255 = left
+    ld a,(PlayerX)
+    jr nz,ConveyorLeft
+    add a,c
+    jr ConveyorDone
+ConveyorLeft:
+    sub c
+ConveyorDone:
+    ld (PlayerX),a
+    jr CheckHorizontal
+
+NoCollision:
+    call FindPlatform
+    jp c,CheckHorizontal
+    xor a
+    ld (OnGround),a
+    ld a,(PlayerMaxY)
+    ld c,a
+    ld a,(PlayerY)
+    cp c
+    jr c,Falling
+    ld a,LINK_DOWN              ; Left the bottom: flip down
+    call GetScreenLink
+    cp NO_SCREEN
+    jr z,BottomFloor
+    ld b,a
+    xor a                       ; Enter the screen below at its top
+    ld (PlayerY),a
+    ld a,b
+    call ChangeScreen
+    jr CheckHorizontal
+BottomFloor:
+    ld a,c                      ; No screen below: the bottom acts as the floor
+    ld (PlayerY),a
+    ld a,1
+    ld (OnGround),a
+    jr CheckHorizontal
+Falling:
+    add a,FALL_SPEED
+    cp c
+    jr c,FallStored
+    ld a,c
+FallStored:
+    ld (PlayerY),a
+
+; ===== HORIZONTAL MOVEMENT =====
+CheckHorizontal:
+    ld a,(Controls)
+    bit CTRL_RIGHT,a
+    jr nz,CheckLeftKey
+    ld a,1                      ; Shots fly the way the player last walked
+    ld (Facing),a
+    ld a,WALK_SPEED*SLIDE_SCALE ; On ice the player slides on this way once the key is let go
+    ld (Slide),a
+    ld e,WALK_SPEED
+MoveRight:
+    ld a,(PlayerMaxX)
+    ld c,a
+    ld a,(PlayerX)
+    add a,e
+    jr c,ExitRight
+    cp c
+    jr c,StoreX
+    jr z,StoreX
+ExitRight:
+    ld a,LINK_RIGHT             ; Left the right edge: flip right, else wrap
+    call GetScreenLink
+    cp NO_SCREEN
+    jr z,WrapLeft
+    ld c,0                      ; Enter the next screen at its left edge
+    jr FlipHorizontal
+WrapLeft:
+    xor a
+    jr StoreX
+
+; No walk key: slide on over ice, slowing down by its grip
+SlideOnIce:
+    ld a,(IceGrip)
+    and a
+    jr nz,Sliding
+    ld (Slide),a                ; Anywhere else the player stops dead
+    jr UpdateScreen
+Sliding:
+    cpl                         ; 255 - grip of the slide is kept
+    ld e,a
+    ld a,(Slide)
+    ld d,a                      ; D = slide, its sign the way it goes
+    bit 7,a
+    jr z,SlideSpeed
+    neg
+SlideSpeed:
+    push af
+    call Multiply
+    pop af
+    add a,SLIDE_SCALE/2         ; Pixels moved: the speed rounded to whole pixels
+    rrca
+    rrca
+    rrca
+    rrca
+    and 0x0F
+    ld e,a
+    ld a,h                      ; Slide left for the next frame
+    bit 7,d
+    jr z,SlideStored
+    neg
+SlideStored:
+    ld (Slide),a
+    ld a,e
+    and a
+    jr z,UpdateScreen
+    bit 7,d
+    jr z,MoveRight
+    jr MoveLeft
+
+CheckLeftKey:
+    ld a,(Controls)
+    bit CTRL_LEFT,a
+    jr nz,SlideOnIce
+    ld a,255
+    ld (Facing),a
+    ld a,256-WALK_SPEED*SLIDE_SCALE
+    ld (Slide),a
+    ld e,WALK_SPEED
+MoveLeft:
+    ld a,(PlayerX)
+    sub e
+    jr nc,StoreX
+    ld a,LINK_LEFT              ; Left the left edge: flip left, else wrap
+    call GetScreenLink
+    cp NO_SCREEN
+    jr z,WrapRight
+    ld b,a
+    ld a,(PlayerMaxX)           ; Enter the previous screen at its right edge
+    ld c,a
+    ld a,b
+    jr FlipHorizontal
+WrapRight:
+    ld a,(PlayerMaxX)
+StoreX:
+    ld (PlayerX),a
+    jr UpdateScreen
+FlipHorizontal:
+    ld b,a
+    ld a,c
+    ld (PlayerX),a
+    ld a,b
+    call ChangeScreen
+
+; ===== DRAW =====
+UpdateScreen:
+    call CheckDeadly
+    call EraseActors
+    call UpdateBlocks
+    call UpdateActors
+    call GoThroughDoor
+    call UpdateShots
+    ld ix,(PlayerActor)         ; Move the player sprite (after a respawn too)
+    ld a,ixh
+    or ixl
+    jr z,PlayerMoved
+    ld a,(PlayerX)
+    ld (ix+ACT_X),a
+    ld hl,(Sink)                ; Sunk into a sinking block: drawn that much lower
+    srl h
+    rr l
+    srl h
+    rr l
+    ld a,(PlayerY)
+    add a,l
+    ld (ix+ACT_Y),a
+    call AnimatePlayer
+PlayerMoved:
+    call DrawActors
+
+    call FrameDelay
+    call PresentFrame
+    jp GameLoop
+
+; ===== SUBROUTINES =====
+
+; Clear the pixels and set every attribute to DEFAULT_ATTR
+ClearScreen:
+    ld hl,SCREEN_PIXELS
+
+; The same for the display file at HL: the screen or the back buffer
+ClearDisplay:
+    ld d,h
+    ld e,l
+    inc de
+    ld bc,6143
+    ld (hl),0
+    ldir
+    inc hl                      ; HL = the attributes, DE one on
+    inc de
+    ld bc,767
+    ld (hl),DEFAULT_ATTR
+    ldir
+    ret
+
+; Clear the back buffer, all of it shown at the next PresentFrame
+ClearBuffer:
+    ld hl,BUFFER_PIXELS
+    call ClearDisplay
+    ld bc,31                    ; Every column of every row
+    ld de,23
+    jp MarkDirty
+
+; Mark columns B to C of character rows D to E to be copied to the screen
+; at the next PresentFrame (IX kept)
+MarkDirty:
+    ld a,e
+    sub d
+    ret c
+    inc a
+    ld e,a                      ; E = rows
+    ld a,d
+    add a,a
+    ld hl,DirtyRows
+    add a,l
+    ld l,a
+    adc a,h
+    sub l
+    ld h,a                      ; HL = DirtyRows + row * 2
+MarkDirtyRow:
+    ld a,b
+    cp (hl)
+    jr nc,MarkDirtyLeft
+    ld (hl),a                   ; Further left
+MarkDirtyLeft:
+    inc hl
+    ld a,c
+    cp (hl)
+    jr c,MarkDirtyRight
+    ld (hl),a                   ; Further right
+MarkDirtyRight:
+    inc hl
+    dec e
+    jr nz,MarkDirtyRow
+    ret
+
+; Copy the back buffer's dirty strips to the screen, top to bottom to stay
+; ahead of the beam after the HALT, and mark them clean (IX kept)
+PresentFrame:
+    ld hl,DirtyRows
+    ld c,0                      ; Character row
+PresentRow:
+    ld a,(hl)                   ; Left column, then right: clean when left is past right
+    ld (hl),32
+    inc hl
+    ld b,(hl)
+    ld (hl),0
+    inc hl
+    push hl
+    push bc
+    ld e,a
+    ld a,b
+    sub e
+    jr c,PresentNext
+    inc a
+    ld b,a                      ; B = width
+    ld a,c                      ; Low byte of the strip's cell, pixels and attributes alike
+    and 7
+    rrca
+    rrca
+    rrca
+    or e
+    ld e,a
+    ld a,c
+    and 0x18                    ; Third of the screen
+    ld c,b
+    ld b,0                      ; BC = width
+    push af
+    rrca
+    rrca
+    rrca
+    or SCREEN_ATTRS >> 8
+    ld d,a
+    call PresentBytes           ; Attributes first, then the 8 pixel lines
+    pop af
+    or SCREEN_PIXELS >> 8
+    ld d,a
+    ld a,8
+PresentLine:
+    call PresentBytes
+    inc d
+    dec a
+    jr nz,PresentLine
+PresentNext:
+    pop bc
+    pop hl
+    inc c
+    ld a,c
+    cp 24
+    jr nz,PresentRow
+    ret
+
+; Copy BC bytes from the back buffer to the screen at DE (A, BC and DE kept)
+PresentBytes:
+    push bc
+    push de
+    ld h,d
+    ld l,e
+    set 5,h                     ; The same place in the back buffer, 0x2000 up
+    ldir
+    pop de
+    pop bc
+    ret
+
+; Flip to screen A, keeping the player's position and physics state
+; Where the player comes in is where they respawn after losing a life
+ChangeScreen:
+    push af
+    call SetRespawn
+    call RestoreBlocks
+    pop af
+    ld (CurrentScreenIndex),a
+    call SelectScreen
+    call ClearBuffer
+    call DrawTiles
+    call DrawHud
+    call LoadActors
+    ld hl,(PlayerActor)         ; Player placed on the new screen: UpdateScreen moves it
+    ld a,h
+    or l
+    ret nz
+    ld a,(PlayerX)              ; Otherwise bring the player along
+    ld b,a
+    ld a,(PlayerY)
+    ld c,a
+    ld a,PLAYER_OBJECT
+    cp 255
+    ret z
+    jp AddActor
+
+; Neighbour of the current screen in direction A (LINK_LEFT..LINK_DOWN) -> A
+; NO_SCREEN when there is none
+GetScreenLink:
+    ld hl,(CurrentScreen)
+    ld e,a
+    ld a,h
+    or l
+    ld a,NO_SCREEN
+    ret z
+    ld d,0
+    add hl,de
+    inc hl                      ; Skip width, height
+    inc hl
+    ld a,(hl)
+    ret
+
+${config.banked ? "; SelectScreen copies screens out of their RAM pages (memory128.ts)\n" : config.packed ? `; Select screen A: unpack it from the screen bank into ScreenBuffer
+SelectScreen:
+    ld l,a
+    ld h,0
+    add hl,hl
+    ld de,ScreenBank
+    add hl,de
+    ld a,(hl)
+    inc hl
+    ld h,(hl)
+    ld l,a
+    ld de,ScreenBuffer
+    call Unpack
+    ld hl,ScreenBuffer
+    ld (CurrentScreen),hl
+    ld de,SCREEN_HEADER         ; Skip width, height and links
+    add hl,de
+    ld (CurrentScreenTiles),hl
+    ret
+` : `; Select screen A from the screen bank
+SelectScreen:
+    ld l,a
+    ld h,0
+    add hl,hl
+    ld de,ScreenBank
+    add hl,de
+    ld e,(hl)                   ; Offset from ScreenBank
+    inc hl
+    ld d,(hl)
+    ld hl,ScreenBank
+    add hl,de
+    ld (CurrentScreen),hl
+    ld de,SCREEN_HEADER         ; Skip width, height and links
+    add hl,de
+    ld (CurrentScreenTiles),hl
+    ret
+`}
+; Tile under pixel (C = x, B = y) of the current 32-wide screen -> A, HL = its address
+GetTileAt:
+    ld hl,(CurrentScreenTiles)
+    ld a,h
+    or l
+    ld a,EMPTY_TILE
+    ret z
+    push de
+    ld a,b
+    and 0xF8                    ; Row * 8
+    ld e,a
+    ld d,0
+    ex de,hl
+    add hl,hl                   ; Row * 32
+    add hl,hl
+    add hl,de
+    ld a,c
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld e,a
+    ld d,0
+    add hl,de
+    ld a,(hl)
+    pop de
+    ret
+
+; Block definition A -> HL
+GetBlockAddress:
+    push bc
+    push de
+    ld b,a
+    ld c,2
+    ld hl,BlockBank+1           ; Skip block count
+    ld de,BlockPropertySizes
+    call SkipRecords
+    pop de
+    pop bc
+    ret
+
+; Object definition A -> HL
+GetObjectAddress:
+    push bc
+    push de
+    ld b,a
+    ld c,2
+    ld hl,ObjectBank+1          ; Skip object count
+    ld de,ObjectPropertySizes
+    call SkipRecords
+    pop de
+    pop bc
+    ret
+
+; Skip B variable length records starting at HL
+; C = offset of the flags byte, DE = property size for each flag bit
+; Each record is its header (up to and including flags) then the flagged properties
+SkipRecords:
+    ld a,b
+    and a
+    ret z
+SkipRecord:
+    push bc
+    ld b,0
+    add hl,bc                   ; HL -> flags
+    ld c,(hl)
+    inc hl
+    push de
+    ld b,8
+SkipProperty:
+    srl c
+    jr nc,NoProperty
+    ld a,(de)
+    add a,l
+    ld l,a
+    jr nc,NoProperty
+    inc h
+NoProperty:
+    inc de
+    djnz SkipProperty
+    pop de
+    pop bc
+    djnz SkipRecord
+    ret
+
+; Property for flag bit A of the record at HL -> HL, NZ when the flag is set
+; C = offset of the flags byte, DE = property size for each flag bit
+FindProperty:
+    push bc
+    push de
+    ld b,0
+    add hl,bc                   ; HL -> flags
+    ld c,(hl)
+    inc hl
+    ld b,a                      ; Skip the properties of the lower bits
+    inc b
+    jr FindPropertyNext
+FindPropertySkip:
+    srl c
+    jr nc,FindPropertyStep
+    ld a,(de)
+    add a,l
+    ld l,a
+    jr nc,FindPropertyStep
+    inc h
+FindPropertyStep:
+    inc de
+FindPropertyNext:
+    djnz FindPropertySkip
+    ld a,c
+    and 1
+    pop de
+    pop bc
+    ret
+
+; Property byte for flag bit A of the block record at HL -> A, NZ when present
+BlockProperty:
+    push hl
+    push bc
+    push de
+    ld c,2
+    ld de,BlockPropertySizes
+    jr RecordProperty
+
+; Property byte for flag bit A of the object record at HL -> A, NZ when present
+ObjectProperty:
+    push hl
+    push bc
+    push de
+    ld c,2
+    ld de,ObjectPropertySizes
+    jr RecordProperty
+
+; Property byte for flag bit A of the placed object record at HL -> A, NZ when present
+InstanceProperty:
+    push hl
+    push bc
+    push de
+    ld c,3
+    ld de,InstancePropertySizes
+RecordProperty:
+    call FindProperty
+    ld a,(hl)
+    pop de
+    pop bc
+    pop hl
+    ret
+
+; Property word for flag bit A of the block record at HL -> DE, NZ when present
+BlockPropertyWord:
+    push hl
+    push bc
+    ld c,2
+    ld de,BlockPropertySizes
+    jr RecordPropertyWord
+
+; Property word for flag bit A of the object record at HL -> DE, NZ when present
+ObjectPropertyWord:
+    push hl
+    push bc
+    ld c,2
+    ld de,ObjectPropertySizes
+    jr RecordPropertyWord
+
+; Property word for flag bit A of the placed object record at HL -> DE, NZ when present
+InstancePropertyWord:
+    push hl
+    push bc
+    ld c,3
+    ld de,InstancePropertySizes
+RecordPropertyWord:
+    call FindProperty
+    ld e,(hl)
+    inc hl
+    ld d,(hl)
+    pop bc
+    pop hl
+    ret
+
+; Sprite A metadata [index, width, height, frames, fps] -> HL
+GetSpriteMetadata:
+    ld hl,SpriteMetadataPtrs
+    jr SpritePointer
+
+; Sprite A frame table (a word per frame, offsets from SpriteBank) -> HL
+GetSpriteFrames:
+    ld hl,SpritePixelPtrs
+; Entry A of the offset table at HL -> SpriteBank + offset in HL: with a frame
+; table, frame A's pixel data
+SpritePointer:
+    push de
+    ld e,a
+    ld d,0
+    add hl,de
+    add hl,de
+    ld e,(hl)                   ; Offset from SpriteBank
+    inc hl
+    ld d,(hl)
+    ld hl,SpriteBank
+    add hl,de
+    pop de
+    ret
+
+; Back buffer address of pixel (C = x, B = y) -> HL
+PixelAddress:
+    ld a,b
+    rra
+    rra
+    rra
+    and 0x18
+    or BUFFER_PIXELS >> 8
+    ld h,a
+    ld a,b
+    and 7
+    or h
+    ld h,a
+    ld a,b
+    rla
+    rla
+    and 0xE0
+    ld l,a
+    ld a,c
+    rra
+    rra
+    rra
+    and 0x1F
+    or l
+    ld l,a
+    ret
+
+; Move HL down one pixel line in the back buffer
+NextLine:
+    inc h
+    ld a,h
+    and 7
+    ret nz
+    ld a,l
+    add a,32
+    ld l,a
+    ret c
+    ld a,h
+    sub 8
+    ld h,a
+    ret
+
+; ===== TILES =====
+
+; Draw every non-empty tile of the current screen above the HUD
+DrawTiles:
+    ld hl,(CurrentScreenTiles)
+    ld a,h
+    or l
+    ret z
+    ld c,0                      ; Row
+DrawTileRow:
+    ld b,0                      ; Column
+DrawTileColumn:
+    ld a,(hl)
+    inc hl
+    cp EMPTY_TILE
+    call nz,DrawTile
+    inc b
+    ld a,b
+    cp 32
+    jr nz,DrawTileColumn
+    inc c
+    ld a,c
+    cp PLAY_ROWS
+    jr nz,DrawTileRow
+    ret
+
+; Draw block A at column B, row C: the top-left 8x8 of its sprite's first frame
+; in the block's attribute colours, in the back buffer (the caller marks the cell)
+DrawTile:
+    push hl
+    push bc
+    push af
+    ld hl,BlockAttrs
+    ld e,a
+    ld d,0
+    add hl,de
+    ld e,(hl)                   ; Block attribute
+    ld l,c                      ; Attribute address BUFFER_ATTRS + row * 32 + column
+    ld h,0
+    add hl,hl
+    add hl,hl
+    add hl,hl
+    add hl,hl
+    add hl,hl
+    ld a,l
+    or b
+    ld l,a
+    ld a,h
+    add a,BUFFER_ATTRS >> 8
+    ld h,a
+    ld (hl),e
+    pop af
+    call GetBlockAddress
+    ld a,(hl)                   ; Block sprite
+    cp SPRITE_COUNT
+    jr nc,DrawTileDone
+    push af
+    call GetSpriteMetadata
+    inc hl
+    ld a,(hl)                   ; Width in pixels -> bytes per row
+    add a,7
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld (TileStride),a
+    pop af
+    call GetSpriteFrames
+    xor a
+    call SpritePointer
+    ex de,hl                    ; DE = frame 0 pixels
+    ld a,c                      ; Character cell address
+    and 0x18
+    or BUFFER_PIXELS >> 8
+    ld h,a
+    ld a,c
+    and 7
+    rrca
+    rrca
+    rrca
+    or b
+    ld l,a
+    ld b,8
+DrawTileLine:
+    ld a,(de)
+    ld (hl),a
+    inc h
+    ld a,(TileStride)           ; Next row of the sprite
+    add a,e
+    ld e,a
+    jr nc,DrawTileNext
+    inc d
+DrawTileNext:
+    djnz DrawTileLine
+DrawTileDone:
+    pop bc
+    pop hl
+    ret
+
+; ===== BLOCKS =====
+
+; Pixel under the player's feet at their centre: C = x, B = y
+PlayerFoot:
+    ld a,(PlayerHalfWidth)
+    ld c,a
+    ld a,(PlayerX)
+    add a,c
+    ld c,a
+    ld a,(PlayerHeight)
+    ld b,a
+    ld a,(PlayerY)
+    add a,b
+    ld b,a
+    ret
+
+; Block under pixel (C = x, B = y) -> A = its type, HL = its record, DE = the tile's address
+; A = NO_BLOCK for an empty tile or one outside the play area (BC kept)
+BlockAt:
+    ld a,b
+    cp PLAY_HEIGHT
+    jr nc,NoBlock
+    call GetTileAt
+    cp EMPTY_TILE
+    jr z,NoBlock
+    ex de,hl
+    call GetBlockAddress
+    inc hl                      ; Skip sprite index
+    ld a,(hl)
+    dec hl
+    ret
+NoBlock:
+    ld a,NO_BLOCK
+    ret
+
+; Carry when a block of type A (record HL) can be stood on: every type but deadly,
+; and ladders only when they don't let the player through (A kept)
+BlockLandable:
+    cp NO_BLOCK
+    jr z,NotLandable
+    cp BLOCK_DEADLY
+    jr z,NotLandable
+    cp BLOCK_LADDER
+    scf
+    ret nz
+    push af
+    ld a,BLOCK_BIT_PASS
+    call BlockProperty
+    jr nz,PassThrough
+    pop af
+    scf
+    ret
+PassThrough:
+    pop af
+NotLandable:
+    and a
+    ret
+
+; Z when the block under pixel (C = x, B = y) is a ladder, HL = its record (BC, DE kept)
+LadderAt:
+    push de
+    call BlockAt
+    pop de
+    cp BLOCK_LADDER
+    ret
+
+; Climb a ladder at the player's centre with the up and down keys, a pixel at a time:
+; up while their feet are on the ladder, down while there is ladder under them
+; Carry while climbing: they hang on the ladder, and the jump key works
+ClimbLadder:
+    call PlayerFoot
+    dec b
+    call LadderAt               ; Feet on a ladder
+    jr z,OnLadder
+    inc b
+    call LadderAt               ; Or one under them
+    jr z,OnLadder
+    xor a                       ; Off the ladder: walk and fall as normal
+    ld (Climbing),a
+    ret
+OnLadder:
+    ld a,BLOCK_BIT_CLIMB
+    call BlockProperty
+    jr nz,ClimbSpeedRead
+    ld a,CLIMB_SPEED
+ClimbSpeedRead:
+    srl a                       ; Quarter pixels -> pixels, at least one
+    srl a
+    jr nz,ClimbSpeed
+    inc a
+ClimbSpeed:
+    ld e,a                      ; E = pixels left to climb
+    ld d,0                      ; D = pixels climbed, down positive
+    call PlayerFoot
+    ld a,(Controls)
+    bit CTRL_UP,a
+    jr z,ClimbUp
+    bit CTRL_DOWN,a
+    jr nz,ClimbDone
+ClimbDown:
+    call LadderAt
+    jr nz,ClimbDone
+    inc b
+    inc d
+    dec e
+    jr nz,ClimbDown
+    jr ClimbDone
+ClimbUp:
+    dec b
+    call LadderAt
+    jr nz,ClimbDone
+    dec d
+    dec e
+    jr nz,ClimbUp
+ClimbDone:
+    ld a,d
+    and a
+    jr z,ClimbHeld
+    ld a,(PlayerY)
+    add a,d
+    ld (PlayerY),a
+    ld a,1
+    ld (Climbing),a
+ClimbHeld:
+    ld a,(Climbing)
+    and a
+    ret z
+    xor a
+    ld (IsJumping),a
+    inc a
+    ld (OnGround),a
+    scf
+    ret
+
+; Lose a life when the block under the player's feet, or at their middle, is deadly
+CheckDeadly:
+    call PlayerFoot
+    call BlockAt
+    cp BLOCK_DEADLY
+    jr z,TouchedDeadly
+    ld a,(PlayerHeight)
+    srl a
+    ld b,a
+    ld a,(PlayerY)
+    add a,b
+    ld b,a
+    call BlockAt
+    cp BLOCK_DEADLY
+    ret nz
+TouchedDeadly:
+    ld a,SFX_DEATH
+    call PlaySound
+    jp LoseLife
+
+; Crumble the block the player stands on, and bring broken blocks back once
+; their respawn time is up; called while the actors are off the screen
+UpdateBlocks:
+    ld hl,(CrumbleAt)
+    ld a,h
+    or l
+    call nz,CrumbleBlock
+    ld hl,0
+    ld (CrumbleAt),hl
+    ld ix,Crumbles
+    ld b,MAX_CRUMBLES
+RespawnLoop:
+    ld l,(ix+CRUMBLE_ADDR)
+    ld h,(ix+CRUMBLE_ADDR+1)
+    ld a,h
+    and a
+    jr z,RespawnNext            ; Free record
+    ld a,(hl)
+    cp EMPTY_TILE
+    jr nz,RespawnNext           ; Not broken yet
+    ld e,(ix+CRUMBLE_TIMER)
+    ld d,(ix+CRUMBLE_TIMER+1)
+    ld a,d
+    or e
+    jr z,RespawnNext            ; Gone for good
+    dec de
+    ld a,d
+    or e
+    jr z,RespawnDue
+    ld (ix+CRUMBLE_TIMER),e
+    ld (ix+CRUMBLE_TIMER+1),d
+    jr RespawnNext
+RespawnDue:
+    push bc
+    push hl
+    call TileCell
+    call PlayerInCell
+    pop hl
+    jr c,RespawnBlocked         ; The player is in the way: it waits for them to move
+    ld a,(ix+CRUMBLE_TILE)      ; Back whole: free the record
+    ld (hl),a
+    ld (ix+CRUMBLE_ADDR+1),0
+    call DrawTile
+    ld d,c                      ; Shown at the next PresentFrame
+    ld e,c
+    ld c,b
+    call MarkDirty
+RespawnBlocked:
+    pop bc
+RespawnNext:
+    ld de,CRUMBLE_SIZE
+    add ix,de
+    djnz RespawnLoop
+    ret
+
+; One more frame stood on the crumbling tile at HL: it breaks after its block's crumble time
+; A full Crumbles table leaves the tile whole
+CrumbleBlock:
+    ex de,hl                    ; DE = tile address
+    ld hl,0                     ; HL = first free record
+    ld ix,Crumbles
+    ld b,MAX_CRUMBLES
+FindCrumble:
+    ld a,(ix+CRUMBLE_ADDR+1)
+    and a
+    jr z,CrumbleFree
+    cp d
+    jr nz,CrumbleNext
+    ld a,(ix+CRUMBLE_ADDR)
+    cp e
+    jr z,CrumbleFound
+    jr CrumbleNext
+CrumbleFree:
+    ld a,h
+    or l
+    jr nz,CrumbleNext
+    push ix
+    pop hl
+CrumbleNext:
+    push de
+    ld de,CRUMBLE_SIZE
+    add ix,de
+    pop de
+    djnz FindCrumble
+    ld a,h
+    or l
+    ret z
+    push hl                     ; New record: stood on for the first time
+    pop ix
+    ld (ix+CRUMBLE_ADDR),e
+    ld (ix+CRUMBLE_ADDR+1),d
+    ld a,(de)
+    ld (ix+CRUMBLE_TILE),a
+    ld (ix+CRUMBLE_STOOD),0
+CrumbleFound:
+    ld a,(de)
+    cp EMPTY_TILE
+    ret z                       ; Already broken
+    inc (ix+CRUMBLE_STOOD)
+    call GetBlockAddress
+    ld a,BLOCK_BIT_CRUMBLE
+    call BlockProperty
+    jr nz,CrumbleTimeRead
+    ld a,CRUMBLE_FRAMES
+CrumbleTimeRead:
+    ld c,a
+    ld a,(ix+CRUMBLE_STOOD)
+    cp c
+    ret c
+    push de                     ; Broken: the tile goes until its respawn time is up
+    ld a,BLOCK_BIT_RESPAWN
+    call BlockPropertyWord
+    jr nz,RespawnRead
+    ld de,0
+RespawnRead:
+    ld (ix+CRUMBLE_TIMER),e
+    ld (ix+CRUMBLE_TIMER+1),d
+    pop hl
+    ld (hl),EMPTY_TILE
+; Clear the cell of the tile at HL of the current screen's tile map
+EraseTile:
+    ld de,(CurrentScreenTiles)
+    and a
+    sbc hl,de                   ; HL = row * 32 + column
+    push hl
+    ld de,BUFFER_ATTRS
+    add hl,de
+    ld (hl),DEFAULT_ATTR
+    pop hl
+    ld a,l                      ; Mark the cell: column B, row C
+    and 0x1F
+    ld b,a
+    ld c,a
+    push hl
+    add hl,hl
+    add hl,hl
+    add hl,hl
+    ld d,h
+    ld e,h
+    call MarkDirty
+    pop hl
+    ld a,h                      ; Character cell: the row's third of the screen, then row * 32 + column
+    add a,a
+    add a,a
+    add a,a
+    or BUFFER_PIXELS >> 8
+    ld h,a
+    ld b,8
+EraseTileLine:
+    ld (hl),0
+    inc h
+    djnz EraseTileLine
+    ret
+
+; Column B and row C of the tile at HL of the current screen's tile map
+TileCell:
+    ld de,(CurrentScreenTiles)
+    and a
+    sbc hl,de                   ; Row * 32 + column
+    ld a,l
+    and 0x1F
+    ld b,a
+    add hl,hl
+    add hl,hl
+    add hl,hl
+    ld c,h
+    ret
+
+; Carry when the player overlaps the cell at column B, row C (BC kept)
+PlayerInCell:
+    push bc
+    ld a,b
+    add a,a
+    add a,a
+    add a,a
+    ld c,a
+    ld e,8
+    ld a,(PlayerWidth)
+    ld d,a
+    ld a,(PlayerX)
+    call SpansOverlap
+    pop bc
+    ret nc
+    push bc
+    ld a,c
+    add a,a
+    add a,a
+    add a,a
+    ld c,a
+    ld a,(PlayerHeight)
+    ld d,a
+    ld a,(PlayerY)
+    call SpansOverlap
+    pop bc
+    ret
+
+; Put broken tiles back in the tile map and forget every crumbling block, before
+; the tile map is left (48K screens are played in place in the screen bank)
+RestoreBlocks:
+    ld hl,0
+    ld (CrumbleAt),hl
+    ld ix,Crumbles
+    ld b,MAX_CRUMBLES
+RestoreLoop:
+    ld l,(ix+CRUMBLE_ADDR)
+    ld h,(ix+CRUMBLE_ADDR+1)
+    ld a,h
+    and a
+    jr z,RestoreNext
+    ld a,(ix+CRUMBLE_TILE)
+    ld (hl),a
+    ld (ix+CRUMBLE_ADDR+1),0
+RestoreNext:
+    ld de,CRUMBLE_SIZE
+    add ix,de
+    djnz RestoreLoop
+    ret
+
+; A * E -> HL (BC, DE kept)
+Multiply:
+    push bc
+    push de
+    ld d,0
+    ld hl,0
+    ld b,8
+MultiplyBit:
+    add hl,hl
+    rla
+    jr nc,MultiplyNext
+    add hl,de
+MultiplyNext:
+    djnz MultiplyBit
+    pop de
+    pop bc
+    ret
+
+; ===== ACTORS =====
+
+; Create actors for the objects placed on the current screen
+; Collectables already taken on this level are left out
+LoadActors:
+    call ClearShots
+    ld a,1                      ; Doors wait for the player to step off any they start on
+    ld (DoorLock),a
+    ld ix,Actors
+    ld hl,ActorBuffers
+    ld (NextBuffer),hl
+    xor a
+    ld (ActorCount),a
+    ld (InstanceIndex),a
+    ld hl,0
+    ld (PlayerActor),hl
+    ld (RopeActor),hl           ; Ropes stay on their screen
+    ld hl,(CurrentScreen)
+    ld a,h
+    or l
+    ret z
+    ld e,(hl)                   ; Width
+    inc hl
+    ld b,(hl)                   ; Height
+    ld hl,(CurrentScreenTiles)
+    ld d,0
+    ld a,b
+    and a
+    jr z,TilesSkipped
+SkipTileRow:
+    add hl,de
+    djnz SkipTileRow
+TilesSkipped:
+    ld a,(hl)                   ; Placed object count
+    inc hl
+    and a
+    ret z
+    ld b,a
+PlacedObjectLoop:
+    push bc
+    push hl
+    call IsCollected
+    jr c,PlacedObjectDone
+    ld a,(hl)                   ; Object index, then tile X, tile Y
+    inc hl
+    ld b,(hl)
+    inc hl
+    ld c,(hl)
+    sla b
+    sla b
+    sla b
+    sla c
+    sla c
+    sla c
+    call AddActor
+    pop hl
+    push hl
+    call nc,ApplyOverrides
+PlacedObjectDone:
+    pop hl
+    ld bc,0x0103                ; Skip this instance (flags at offset 3)
+    ld de,InstancePropertySizes
+    call SkipRecords
+    ld a,(InstanceIndex)
+    inc a
+    ld (InstanceIndex),a
+    pop bc
+    djnz PlacedObjectLoop
+    ret
+
+; Carry when placed object InstanceIndex of the current screen was collected (HL kept)
+IsCollected:
+    ld a,(CollectedCount)
+    and a
+    ret z
+    push hl
+    ld b,a
+    ld a,(CurrentScreenIndex)
+    ld c,a
+    ld a,(InstanceIndex)
+    ld e,a
+    ld hl,CollectedItems        ; Screen, instance pairs
+IsCollectedLoop:
+    ld a,(hl)
+    inc hl
+    cp c
+    jr nz,IsCollectedNext
+    ld a,(hl)
+    cp e
+    jr z,IsCollectedFound
+IsCollectedNext:
+    inc hl
+    djnz IsCollectedLoop
+    pop hl
+    and a
+    ret
+IsCollectedFound:
+    pop hl
+    scf
+    ret
+
+; Add an actor for object A at pixel (B, C) in the slot at IX
+; Carry when there is no free slot
+AddActor:
+    ld e,a
+    ld a,(ActorCount)
+    cp MAX_ACTORS
+    ccf
+    ret c
+    inc a
+    ld (ActorCount),a
+    ld hl,(NextBuffer)
+    ld (ix+ACT_BUFFER),l
+    ld (ix+ACT_BUFFER+1),h
+    push de
+    ld de,ACTOR_BUFFER_SIZE
+    add hl,de
+    ld (NextBuffer),hl
+    pop de
+    ld a,e
+    call InitActor
+    ld a,(ix+ACT_TYPE)          ; First player on screen is the one we control
+    cp OBJ_PLAYER
+    jr nz,ActorAdded
+    ld hl,(PlayerActor)
+    ld a,h
+    or l
+    jr nz,ActorAdded
+    ld (PlayerActor),ix
+ActorAdded:
+    ld de,ACTOR_SIZE
+    add ix,de
+    and a
+    ret
+
+; Per-instance overrides from the placed object record at HL for the actor
+; just added (the slot before IX)
+ApplyOverrides:
+    push ix
+    ld de,-ACTOR_SIZE
+    add ix,de
+    ld a,(InstanceIndex)
+    ld (ix+ACT_INSTANCE),a
+    ld a,(ix+ACT_TYPE)
+    cp OBJ_PLATFORM
+    jr z,ApplyPlatformOverrides
+    cp OBJ_DOOR
+    jp z,ApplyDoorOverrides
+    ld a,INST_BIT_SPEED
+    call InstanceProperty
+    call nz,SetActorSpeed
+    ld a,INST_BIT_DIR
+    call InstanceProperty
+    jr z,DirectionApplied
+    ld (ix+ACT_DX),a
+    ld (ix+ACT_DY),a
+DirectionApplied:
+    ld a,INST_BIT_PATROL
+    call InstanceProperty
+    jr z,PatrolApplied
+    ld (ix+ACT_PATROL),a
+PatrolApplied:
+    ld a,INST_BIT_DAMAGE
+    call InstanceProperty
+    jr z,DamageApplied
+    ld (ix+ACT_DAMAGE),a
+DamageApplied:
+    ld a,INST_BIT_AI
+    call InstanceProperty
+    jr z,AIApplied
+    ld (ix+ACT_AI),a
+AIApplied:
+    ld a,INST_BIT_POINTS
+    call InstancePropertyWord
+    jr z,PointsApplied
+    ld (ix+ACT_POINTS),e
+    ld (ix+ACT_POINTS+1),d
+PointsApplied:
+    ld a,INST_BIT_TARGET
+    call InstanceProperty
+    jr z,TargetApplied
+    ld (ix+ACT_TARGET),a
+TargetApplied:
+    ld a,INST_BIT_ACTIVATE
+    call InstanceProperty
+    jr z,ActivationApplied
+    ld (ix+ACT_ACTIVATE),a
+ActivationApplied:
+    pop ix
+    ret
+
+; Platform overrides share the enemy and exit bits
+ApplyPlatformOverrides:
+    ld a,INST_BIT_PSPEED
+    call InstanceProperty
+    jr z,PlatformSpeedApplied
+    ld (ix+ACT_SPEED),a
+PlatformSpeedApplied:
+    ld a,INST_BIT_DIR
+    call InstanceProperty
+    jr z,PlatformDirApplied
+    ld (ix+ACT_DX),a
+    ld (ix+ACT_DY),a
+PlatformDirApplied:
+    ld a,INST_BIT_PTYPE
+    call InstanceProperty
+    jr z,PlatformTypeApplied
+    ld (ix+ACT_PLATFORM),a
+PlatformTypeApplied:
+    ld a,INST_BIT_PRANGE
+    call InstanceProperty
+    jr z,RangeApplied
+    ld (ix+ACT_RANGE),a
+RangeApplied:
+    ld a,INST_BIT_PAUSE
+    call InstanceProperty
+    jr z,PauseApplied
+    ld (ix+ACT_PAUSE),a
+PauseApplied:
+    ld a,INST_BIT_REPEAT
+    call InstanceProperty
+    jr z,RepeatApplied
+    ld (ix+ACT_REPEAT),a
+RepeatApplied:
+    ld a,INST_BIT_CARRY
+    call InstanceProperty
+    jr z,CarryApplied
+    ld (ix+ACT_CARRY),a
+CarryApplied:
+    call PlatformReady
+    pop ix
+    ret
+
+; Door overrides share the platform bits: where it leads and how it opens
+ApplyDoorOverrides:
+    ld a,INST_BIT_DSCREEN
+    call InstanceProperty
+    jr z,DoorScreenApplied
+    ld (ix+ACT_TARGET),a
+DoorScreenApplied:
+    ld a,INST_BIT_ARRIVE_X
+    call InstanceProperty
+    jr z,ArrivalXApplied
+    ld (ix+ACT_ARRIVE_X),a
+ArrivalXApplied:
+    ld a,INST_BIT_ARRIVE_Y
+    call InstanceProperty
+    jr z,ArrivalYApplied
+    ld (ix+ACT_ARRIVE_Y),a
+ArrivalYApplied:
+    ld a,INST_BIT_DACTIVATE
+    call InstanceProperty
+    jr z,DoorActivationApplied
+    ld (ix+ACT_ACTIVATE),a
+DoorActivationApplied:
+    pop ix
+    ret
+
+; Fill the actor at IX for object A at pixel (B, C)
+InitActor:
+    ld (ix+ACT_OBJECT),a
+    ld (ix+ACT_X),b
+    ld (ix+ACT_Y),c
+    ld (ix+ACT_HOME_X),b
+    ld (ix+ACT_HOME_Y),c
+    ld (ix+ACT_DRAWN_ROWS),0
+    ld (ix+ACT_HEIGHT),0
+    call FindAnimations
+    call GetObjectAddress
+    call InitBehaviour
+    inc hl
+    ld a,(hl)                   ; Type
+    ld (ix+ACT_TYPE),a
+    dec hl
+    ld a,(hl)                   ; Sprite index
+
+; Show sprite A on the actor at IX from its first frame
+SetActorSprite:
+    ld (ix+ACT_SPRITE),a
+    ld (ix+ACT_FRAME),0
+    cp SPRITE_COUNT
+    ret nc                      ; No sprite: actor stays invisible
+    push af
+    call GetSpriteMetadata
+    inc hl
+    ld a,(hl)                   ; Width
+    ld (ix+ACT_WIDTH),a
+    add a,7
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld (ix+ACT_WBYTES),a
+    inc hl
+    ld a,(hl)                   ; Height
+    ld (ix+ACT_HEIGHT),a
+    inc hl
+    ld a,(hl)                   ; Frames
+    ld (ix+ACT_FRAMES),a
+    inc hl
+    ld a,(hl)                   ; Animation speed
+    ld (ix+ACT_ANIM_SPEED),a
+    pop af
+    call GetSpriteFrames
+    ld (ix+ACT_PIXELS),l
+    ld (ix+ACT_PIXELS+1),h
+    ret
+
+; Point the actor at IX to the animation set of object A, if it has one (A kept)
+FindAnimations:
+    push de
+    ld hl,AnimationBank
+    ld de,ANIMATION_ENTRY
+    ld (ix+ACT_ANIM_TIME),0
+    ld (ix+ACT_MIRROR),0
+FindAnimationsLoop:
+    ld c,(hl)
+    inc hl
+    inc c                       ; NO_ANIMATION: the end of the table
+    jr z,NoAnimations
+    dec c
+    cp c
+    jr z,AnimationsFound
+    add hl,de
+    jr FindAnimationsLoop
+NoAnimations:
+    ld hl,0
+AnimationsFound:
+    ld (ix+ACT_ANIMS),l
+    ld (ix+ACT_ANIMS+1),h
+    pop de
+    ret
+
+; Show action A (ANIM_*) of the actor at IX from its animation set, and step its
+; frames at the sprite's speed; an action the set has no sprite for keeps the
+; sprite shown, its frame held
+AnimateActor:
+    ld l,(ix+ACT_ANIMS)
+    ld h,(ix+ACT_ANIMS+1)
+    ld c,a
+    ld a,h
+    or l
+    ret z                       ; No animation set
+    ld b,c
+    inc b
+    ld a,(hl)                   ; Mirror bits: bit n for action n
+MirrorBitLoop:
+    rrca
+    djnz MirrorBitLoop
+    sbc a,a                     ; 255 when mirrored
+    ld d,a
+    inc hl
+    add hl,bc                   ; B = 0: the action's sprite
+    ld a,(hl)
+    cp NO_SPRITE
+    ret z
+    cp (ix+ACT_SPRITE)
+    jr nz,AnimationChanged
+    ld a,d
+    cp (ix+ACT_MIRROR)
+    jr z,StepAnimation
+AnimationChanged:
+    ld (ix+ACT_MIRROR),d
+    ld (ix+ACT_ANIM_TIME),0
+    ld a,(hl)
+    jp SetActorSprite
+StepAnimation:
+    ld a,(ix+ACT_ANIM_TIME)
+    add a,(ix+ACT_ANIM_SPEED)
+    cp ANIMATION_TICKS
+    jr c,AnimationTimed
+    sub ANIMATION_TICKS
+    ld c,a
+    inc (ix+ACT_FRAME)
+    ld a,(ix+ACT_FRAME)
+    cp (ix+ACT_FRAMES)
+    ld a,c
+    jr c,AnimationTimed
+    ld (ix+ACT_FRAME),0
+AnimationTimed:
+    ld (ix+ACT_ANIM_TIME),a
+    ret
+
+; Animate the player at IX by how they move (animations.ts getPlayerAction):
+; climbing, then jumping or falling, firing, walking, and standing idle
+AnimatePlayer:
+    ld a,(Controls)
+    ld c,a
+    ld a,(Climbing)
+    and a
+    jr z,PlayerOffLadder
+    ld a,ANIM_MOVE_UP
+    bit CTRL_UP,c
+    jp z,AnimateActor
+    ld a,ANIM_MOVE_DOWN
+    bit CTRL_DOWN,c
+    jp z,AnimateActor
+    jr PlayerNotJumping
+PlayerOffLadder:
+    ld a,(OnGround)
+    ld hl,(RopeActor)
+    or h
+    or l
+    jr nz,PlayerNotJumping
+    ld a,ANIM_JUMP_RIGHT
+    jr FacingAction
+PlayerNotJumping:
+    ld a,ANIM_FIRE
+    bit CTRL_FIRE,c
+    jp z,AnimateActor
+    ld a,c
+    and 1<<CTRL_LEFT|1<<CTRL_RIGHT
+    cp 1<<CTRL_LEFT|1<<CTRL_RIGHT
+    ld a,ANIM_IDLE
+    jp z,AnimateActor           ; Neither held
+    ld a,ANIM_MOVE_RIGHT
+FacingAction:
+    ld hl,Facing                ; Right action in A: one less faces left
+    bit 7,(hl)
+    jp z,AnimateActor
+    dec a
+    jp AnimateActor
+
+; Animate the enemy at IX by how it moved from (C, B) this frame: sideways,
+; else up or down, else idle
+AnimateEnemy:
+    ld a,(ix+ACT_X)
+    cp c
+    ld a,ANIM_MOVE_LEFT
+    jp c,AnimateActor
+    ld a,ANIM_MOVE_RIGHT
+    jp nz,AnimateActor
+    ld a,(ix+ACT_Y)
+    cp b
+    ld a,ANIM_MOVE_UP
+    jp c,AnimateActor
+    ld a,ANIM_MOVE_DOWN
+    jp nz,AnimateActor
+    ld a,ANIM_IDLE
+    jp AnimateActor
+
+; Movement, damage, points, exit and door state and platform track of the actor at IX
+; from its object record at HL
+InitBehaviour:
+    ld (ix+ACT_SPEED),1
+    ld (ix+ACT_DX),1
+    ld (ix+ACT_DY),1
+    ld (ix+ACT_PATROL),PATROL_LEFT_RIGHT
+    ld (ix+ACT_AI),AI_PATROL
+    ld (ix+ACT_DAMAGE),0
+    ld (ix+ACT_TIMER),0
+    ld (ix+ACT_INSTANCE),255
+    ld (ix+ACT_POINTS),0
+    ld (ix+ACT_POINTS+1),0
+    ld (ix+ACT_REQUIRED),0
+    ld (ix+ACT_TARGET),NO_LEVEL
+    ld (ix+ACT_ACTIVATE),ACTIVATE_REQUIRED_ITEMS
+    ld (ix+ACT_ENERGY),ENEMY_HEALTH
+    inc hl                      ; Bits are shared between types: only read our own
+    ld b,(hl)                   ; Type
+    dec hl
+    ld a,b
+    cp OBJ_PLATFORM
+    jp z,InitPlatform
+    ld a,OBJ_BIT_SPEED
+    call ObjectProperty
+    call nz,SetActorSpeed
+    ld a,OBJ_BIT_PATROL
+    call ObjectProperty
+    jr z,PatrolLoaded
+    ld (ix+ACT_PATROL),a
+PatrolLoaded:
+    ld a,OBJ_BIT_DAMAGE
+    call ObjectProperty
+    jr z,DamageLoaded
+    ld (ix+ACT_DAMAGE),a
+DamageLoaded:
+    ld a,OBJ_BIT_AI
+    call ObjectProperty
+    jr z,AILoaded
+    ld (ix+ACT_AI),a
+AILoaded:
+    ld a,b
+    cp OBJ_ENEMY
+    jr z,InitEnemy
+    cp OBJ_AMMUNITION
+    jr z,InitAmmunition
+    cp OBJ_COLLECTIBLE
+    jr z,InitCollectable
+    cp OBJ_DOOR
+    jr z,InitDoor
+    cp OBJ_EXIT
+    ret nz
+    ld a,OBJ_BIT_TARGET
+    call ObjectProperty
+    jr z,TargetLoaded
+    ld (ix+ACT_TARGET),a
+TargetLoaded:
+    ld a,OBJ_BIT_ACTIVATE
+    call ObjectProperty
+    ret z
+    ld (ix+ACT_ACTIVATE),a
+    ret
+InitDoor:
+    ld (ix+ACT_TARGET),NO_SCREEN  ; Placed doors say where they lead
+    ld (ix+ACT_ACTIVATE),DOOR_TOUCH
+    ld (ix+ACT_ARRIVE_X),NO_ARRIVAL
+    ld (ix+ACT_ARRIVE_Y),NO_ARRIVAL
+    ld a,OBJ_BIT_DACTIVATE
+    call ObjectProperty
+    ret z
+    ld (ix+ACT_ACTIVATE),a
+    ret
+InitEnemy:
+    ld a,OBJ_BIT_HEALTH
+    call ObjectProperty
+    ret z
+    ld (ix+ACT_ENERGY),a
+    ret
+InitAmmunition:
+    ld (ix+ACT_SPEED),SHOT_SPEED
+    ld (ix+ACT_DAMAGE),SHOT_DAMAGE
+    ld a,OBJ_BIT_SSPEED
+    call ObjectProperty
+    jr z,ShotSpeedLoaded
+    ld (ix+ACT_SPEED),a
+ShotSpeedLoaded:
+    ld a,OBJ_BIT_SDAMAGE
+    call ObjectProperty
+    jr z,ShotDamageLoaded
+    ld (ix+ACT_DAMAGE),a
+ShotDamageLoaded:
+    ld a,OBJ_BIT_SRANGE
+    call ObjectPropertyWord
+    jr nz,ShotRangeLoaded
+    ld de,SHOT_RANGE
+ShotRangeLoaded:
+    ld (ix+ACT_POINTS),e
+    ld (ix+ACT_POINTS+1),d
+    ret
+InitCollectable:
+    ld a,OBJ_BIT_POINTS
+    call ObjectPropertyWord
+    jr z,PointsLoaded
+    ld (ix+ACT_POINTS),e
+    ld (ix+ACT_POINTS+1),d
+PointsLoaded:
+    ld a,OBJ_BIT_REQUIRED
+    call ObjectProperty
+    ret z
+    ld (ix+ACT_REQUIRED),1
+    ret
+
+; Track of a platform: defaults to a ping-pong horizontal mover that carries the player
+InitPlatform:
+    ld (ix+ACT_SPEED),PLATFORM_SPEED
+    ld (ix+ACT_PLATFORM),PLATFORM_HORIZONTAL
+    ld (ix+ACT_RANGE),PLATFORM_RANGE
+    ld (ix+ACT_PAUSE),0
+    ld (ix+ACT_WAIT),0
+    ld (ix+ACT_RETURNING),0
+    ld (ix+ACT_REPEAT),REPEAT_PING_PONG
+    ld (ix+ACT_CARRY),0
+    ld a,OBJ_BIT_PSPEED
+    call ObjectProperty
+    jr z,PlatformSpeedLoaded
+    ld (ix+ACT_SPEED),a
+PlatformSpeedLoaded:
+    ld a,OBJ_BIT_PRANGE
+    call ObjectProperty
+    jr z,RangeLoaded
+    ld (ix+ACT_RANGE),a
+RangeLoaded:
+    ld a,OBJ_BIT_PAUSE
+    call ObjectProperty
+    jr z,PauseLoaded
+    ld (ix+ACT_PAUSE),a
+PauseLoaded:
+    ld a,OBJ_BIT_PTYPE
+    call ObjectProperty
+    jr z,PlatformTypeLoaded
+    ld (ix+ACT_PLATFORM),a
+PlatformTypeLoaded:
+    ld a,OBJ_BIT_PDIR
+    call ObjectProperty
+    jr z,PlatformDirLoaded
+    ld (ix+ACT_DX),a
+    ld (ix+ACT_DY),a
+PlatformDirLoaded:
+    ld a,OBJ_BIT_REPEAT
+    call ObjectProperty
+    jr z,RepeatLoaded
+    ld (ix+ACT_REPEAT),a
+RepeatLoaded:
+    ld a,OBJ_BIT_CARRY          ; Flag only: no property byte
+    call ObjectProperty
+    jr z,CarryLoaded
+    ld (ix+ACT_CARRY),1
+CarryLoaded:
+    ld a,OBJ_BIT_STOPS
+    call ObjectPropertyWord
+    jr nz,StopsLoaded
+    ld de,0
+StopsLoaded:
+    ld (ix+ACT_STOPS),e
+    ld (ix+ACT_STOPS+1),d
+
+; Start the platform at IX at its home; only elevators stop on the way and a rope
+; heading left starts half a swing on
+PlatformReady:
+    ld (ix+ACT_TRAVEL),0
+    ld a,(ix+ACT_PLATFORM)
+    cp PLATFORM_ELEVATOR
+    jr z,StopsReady
+    ld (ix+ACT_STOPS),0
+    ld (ix+ACT_STOPS+1),0
+StopsReady:
+    cp PLATFORM_ROPE
+    ret nz
+    ld a,(ix+ACT_DX)            ; 255 (left) -> half a swing
+    and ROPE_STEPS/2
+    ld (ix+ACT_TRAVEL),a
+    ret
+
+; Actor speed from fixed point A (1/4 pixels), at least one pixel per move
+SetActorSpeed:
+    srl a
+    srl a
+    jr nz,SpeedStored
+    inc a
+SpeedStored:
+    ld (ix+ACT_SPEED),a
+    ret
+
+; Player physics state from the player actor
+; Call straight after LoadActors: IX is still the next free actor slot
+InitPlayer:
+    ld hl,(PlayerActor)
+    ld a,h
+    or l
+    jr nz,PlayerFound
+    ld a,PLAYER_OBJECT          ; Not placed on the first screen: add one
+    cp 255
+    jr z,NoPlayer
+    ld bc,PLAYER_START_X*256+PLAYER_START_Y
+    call AddActor
+    ld hl,(PlayerActor)
+    ld a,h
+    or l
+    jr z,NoPlayer
+PlayerFound:
+    push hl
+    pop ix
+    ld a,(ix+ACT_X)
+    ld (PlayerX),a
+    ld a,(ix+ACT_Y)
+    ld (PlayerY),a
+    call SetRespawn
+    ld a,(ix+ACT_HEIGHT)
+    and a
+    ret z                       ; No sprite: keep the 8x8 defaults
+    ld (PlayerHeight),a
+    ld c,a
+    ld a,PLAY_HEIGHT
+    sub c
+    ld (PlayerMaxY),a
+    ld a,(ix+ACT_WIDTH)
+    ld (PlayerWidth),a
+    ld c,a
+    srl a
+    ld (PlayerHalfWidth),a
+    xor a
+    sub c
+    ld (PlayerMaxX),a
+    ret
+NoPlayer:
+    ld a,PLAYER_START_X         ; Invisible 8x8 player
+    ld (PlayerX),a
+    ld a,PLAYER_START_Y
+    ld (PlayerY),a
+
+; The player's position is where they come back after losing a life
+SetRespawn:
+    ld a,(PlayerX)
+    ld (RespawnX),a
+    ld a,(PlayerY)
+    ld (RespawnY),a
+    ret
+
+; Take a life: respawn with full energy, or game over when none are left
+; Called from the actor loop, so IX is kept
+LoseLife:
+    ld hl,Lives
+    dec (hl)
+    call DrawLives
+    ld a,(Lives)
+    and a
+    jr z,GameOver
+    ld a,START_ENERGY
+    ld (Energy),a
+    call DrawEnergy
+    ld a,(RespawnX)
+    ld (PlayerX),a
+    ld a,(RespawnY)
+    ld (PlayerY),a
+    ld a,1                      ; Back at the respawn point: off doors before using one
+    ld (DoorLock),a
+    ld (DoorTouched),a
+    xor a
+    ld (IsJumping),a
+    ld (OnGround),a
+    ld (Climbing),a
+    ld (Slide),a
+    ld h,a
+    ld l,a
+    ld (RopeActor),hl
+    ld (Sink),hl
+    ret
+
+; Show the final score with GAME OVER, or the game flow's game over screen,
+; for a while, then go back to the menu
+GameOver:
+    ld sp,(GameStack)           ; Drop out of whatever called us
+    xor a
+    ld (BorderColour),a
+    out (254),a
+${config.menu?.gameOver === undefined ? `    call ClearBuffer
+    call DrawHud
+    ld hl,GAME_OVER_TEXT
+    ld de,GameOverText
+    call PrintText
+    call PresentFrame
+` : `    ld a,FLOW_GAME_OVER
+    call ShowPicture
+`}    ld b,GAME_OVER_FRAMES
+GameOverWait:
+    push bc
+    call FrameDelay
+    pop bc
+    djnz GameOverWait
+    jp Menu
+
+; ===== ACTORS UPDATE =====
+
+; Move enemies, pick up collectables and check exits against the player
+UpdateActors:
+    ld a,(HitCooldown)
+    and a
+    jr z,ActorsReady
+    dec a
+    ld (HitCooldown),a
+    jr nz,ActorsReady
+    ld (BorderColour),a         ; Recovered: black border again
+    out (254),a
+ActorsReady:
+    ld a,(RopeCooldown)
+    and a
+    jr z,RopeReady
+    dec a
+    ld (RopeCooldown),a
+RopeReady:
+    xor a                       ; UpdateDoor notes any door the player touches
+    ld (DoorTouched),a
+    ld a,(ActorCount)
+    and a
+    ret z
+    ld b,a
+    ld ix,Actors
+ActorLoop:
+    push bc
+    ld a,(ix+ACT_TYPE)          ; Ropes are drawn without a sprite
+    cp OBJ_PLATFORM
+    jr z,UpdatePlatform
+    ld a,(ix+ACT_HEIGHT)        ; No sprite, or collected: nothing to move or touch
+    and a
+    jr z,NextActor
+    ld a,(ix+ACT_TYPE)
+    cp OBJ_ENEMY
+    jr z,UpdateEnemy
+    cp OBJ_COLLECTIBLE
+    jr z,UpdateCollectable
+    cp OBJ_DOOR
+    jr z,UpdateDoor
+    cp OBJ_EXIT
+    call z,UpdateExit
+NextActor:
+    ld de,ACTOR_SIZE
+    add ix,de
+    pop bc
+    djnz ActorLoop
+    ret
+
+UpdateEnemy:
+    ld c,(ix+ACT_X)
+    ld b,(ix+ACT_Y)
+    push bc
+    call RunEnemyAI
+    pop bc
+    call AnimateEnemy
+    call TouchingPlayer
+    call c,HurtPlayer
+    jr NextActor
+
+UpdateCollectable:
+    call TouchingPlayer
+    call c,Collect
+    jr NextActor
+
+UpdatePlatform:
+    call MovePlatform
+    jr NextActor
+
+UpdateDoor:
+    call TouchingPlayer
+    call c,UseDoor
+    jr NextActor
+
+; Carry when the actor at IX overlaps the player
+TouchingPlayer:
+    ld a,(PlayerWidth)
+    ld d,a
+    ld e,(ix+ACT_WIDTH)
+    ld c,(ix+ACT_X)
+    ld a,(PlayerX)
+    call SpansOverlap
+    ret nc
+    ld a,(PlayerHeight)
+    ld d,a
+    ld e,(ix+ACT_HEIGHT)
+    ld c,(ix+ACT_Y)
+    ld a,(PlayerY)
+; Carry when the span A..A+D overlaps C..C+E
+SpansOverlap:
+    sub c
+    jr c,SpanBefore
+    cp e                        ; Starts inside the other span
+    ret
+SpanBefore:
+    neg
+    cp d                        ; The other span starts inside this one
+    ret
+
+; Take the damage of the enemy at IX from the player's energy
+HurtPlayer:
+    ld a,(HitCooldown)
+    and a
+    ret nz                      ; Still recovering from the last hit
+    ld c,(ix+ACT_DAMAGE)
+    ld a,c
+    and a
+    ret z
+    ld a,(Energy)
+    sub c
+    jr nc,EnergyStored
+    xor a
+EnergyStored:
+    ld (Energy),a
+    call DrawEnergy
+    ld a,HIT_COOLDOWN
+    ld (HitCooldown),a
+    ld a,2                      ; Red border while recovering
+    ld (BorderColour),a
+    out (254),a
+    ld a,(Energy)
+    and a
+    ret nz
+    ld a,SFX_DEATH
+    call PlaySound
+    jp LoseLife
+
+; ===== COLLECTABLES, DOORS AND EXITS =====
+
+; Pick up the collectable at IX: score its points and count it off if the exits need it
+Collect:
+    ld (ix+ACT_HEIGHT),0        ; Already erased this frame: no longer drawn or touched
+    call RecordCollected
+    ld l,(ix+ACT_POINTS)
+    ld h,(ix+ACT_POINTS+1)
+    call AddScore
+    ld a,(ix+ACT_REQUIRED)
+    and a
+    jr z,Collected
+    ld hl,RequiredLeft
+    ld a,(hl)
+    and a
+    jr z,Collected
+    dec (hl)
+Collected:
+    ld a,SFX_COLLECT
+    jp PlaySound
+
+; Remember the collectable at IX as taken, so it stays gone when the player comes back
+; A full list just lets it come back
+RecordCollected:
+    ld a,(CollectedCount)
+    cp MAX_COLLECTED
+    ret nc
+    ld l,a
+    inc a
+    ld (CollectedCount),a
+    ld h,0
+    add hl,hl
+    ld de,CollectedItems
+    add hl,de
+    ld a,(CurrentScreenIndex)
+    ld (hl),a
+    inc hl
+    ld a,(ix+ACT_INSTANCE)
+    ld (hl),a
+    ret
+
+; The player touches the door at IX: it takes them when it opens on contact, or
+; when up is pressed, and they've stepped off the last door they went through
+; GoThroughDoor takes them once the actor loop is done with this screen
+UseDoor:
+    ld a,1
+    ld (DoorTouched),a
+    ld a,(DoorLock)
+    and a
+    ret nz
+    ld a,(ix+ACT_TARGET)
+    cp NO_SCREEN
+    ret z
+    ld a,(ix+ACT_ACTIVATE)
+    cp DOOR_KEY
+    jr nz,DoorOpened
+    ld a,(Controls)
+    bit CTRL_UP,a
+    ret nz
+DoorOpened:
+    ld a,(ix+ACT_TARGET)
+    ld (DoorScreen),a
+    ld a,(ix+ACT_ARRIVE_X)
+    ld (DoorArriveX),a
+    ld a,(ix+ACT_ARRIVE_Y)
+    ld (DoorArriveY),a
+    ret
+
+; Take the player through the door UseDoor opened this frame: to its screen at its
+; arrival tile, kept on the screen, or where they went in
+; Off every door, the player can use one again
+GoThroughDoor:
+    ld a,(DoorTouched)
+    and a
+    jr nz,DoorsChecked
+    ld (DoorLock),a
+DoorsChecked:
+    ld a,(DoorScreen)
+    cp NO_SCREEN
+    ret z
+    ld b,a
+    ld a,NO_SCREEN
+    ld (DoorScreen),a
+    ld a,(PlayerMaxX)
+    ld c,a
+    ld a,(DoorArriveX)
+    ld hl,PlayerX
+    call ArriveAt
+    ld a,(PlayerMaxY)
+    ld c,a
+    ld a,(DoorArriveY)
+    ld hl,PlayerY
+    call ArriveAt
+    xor a                       ; Out of any jump, climb or slide
+    ld (IsJumping),a
+    ld (Climbing),a
+    ld (Slide),a
+    ld a,SFX_DOOR
+    call PlaySound
+    ld a,b
+    jp ChangeScreen
+
+; Store arrival tile A at (HL) in pixels, at most C; NO_ARRIVAL leaves it
+ArriveAt:
+    cp NO_ARRIVAL
+    ret z
+    add a,a
+    add a,a
+    add a,a
+    cp c
+    jr c,ArrivalStored
+    ld a,c
+ArrivalStored:
+    ld (hl),a
+    ret
+
+; Flash the exit at IX once it's open, and go to its level when the player touches it
+; Open means ACTIVATE_ALWAYS, or every required collectable of the level taken
+UpdateExit:
+    ld a,(ix+ACT_ACTIVATE)
+    cp ACTIVATE_ALWAYS
+    jr z,ExitOpen
+    ld a,(RequiredLeft)
+    and a
+    ret nz
+ExitOpen:
+    call FlashActor
+    call TouchingPlayer
+    ret nc
+    ld a,(ix+ACT_TARGET)
+    cp NO_LEVEL
+    jr nz,ExitToLevel
+    ld a,(LevelTable)           ; Next level in the game flow; after the last one
+    ld b,a                      ; the game is complete, back to the menu
+    ld a,(CurrentLevel)
+    inc a
+    cp b
+    jp nc,Menu
+ExitToLevel:
+    ld sp,(GameStack)           ; Drop out of the actor loop
+    jp StartLevel
+
+; Set FLASH on the attribute cells under the actor at IX
+; They are shown with the actor, which is redrawn every frame
+FlashActor:
+    ld a,(ix+ACT_Y)             ; HL = BUFFER_ATTRS + row * 32 + column
+    and 0xF8
+    ld l,a
+    ld h,0
+    add hl,hl
+    add hl,hl
+    ld a,(ix+ACT_X)
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld c,a
+    or l
+    ld l,a
+    ld de,BUFFER_ATTRS
+    add hl,de
+    ld a,(ix+ACT_X)             ; Columns covered, clipped at the right edge
+    and 7
+    add a,(ix+ACT_WIDTH)
+    add a,7
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld b,a
+    ld a,32
+    sub c
+    cp b
+    jr nc,FlashColumnsFit
+    ld b,a
+FlashColumnsFit:
+    ld a,(ix+ACT_Y)             ; Rows covered
+    and 7
+    add a,(ix+ACT_HEIGHT)
+    add a,7
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld c,a
+    ld de,32
+FlashRow:
+    push bc
+    push hl
+FlashCell:
+    set 7,(hl)
+    inc hl
+    djnz FlashCell
+    pop hl
+    add hl,de
+    pop bc
+    dec c
+    jr nz,FlashRow
+    ret
+
+; ===== PLATFORMS =====
+
+; Move the platform at IX along its track for a frame, carrying the player riding it
+MovePlatform:
+    ld a,(ix+ACT_PLATFORM)
+    cp PLATFORM_ROPE
+    jp z,UpdateRope
+    ld a,(ix+ACT_WAIT)
+    and a
+    jr z,PlatformMoves
+    dec (ix+ACT_WAIT)
+    ret
+PlatformMoves:
+    ld c,(ix+ACT_X)
+    ld b,(ix+ACT_Y)
+    push bc
+    ld b,(ix+ACT_SPEED)
+PlatformStep:
+    call StepPlatform
+    jr c,PlatformStopped
+    djnz PlatformStep
+PlatformStopped:
+    call PlacePlatform
+    pop bc
+    ld hl,(Riding)              ; Carry the player by as much as it moved
+    push ix
+    pop de
+    and a
+    sbc hl,de
+    ret nz
+    ld a,(ix+ACT_CARRY)
+    and a
+    ret z
+    ld a,(ix+ACT_X)
+    sub c
+    ld hl,PlayerX
+    add a,(hl)
+    ld (hl),a
+    ld a,(ix+ACT_Y)
+    sub b
+    ld hl,PlayerY
+    add a,(hl)
+    ld (hl),a
+    ret
+
+; Move the platform at IX one pixel along its track (B kept)
+; Carry when it reached an end or an elevator stop, and waits there
+StepPlatform:
+    ld a,(ix+ACT_RETURNING)
+    and a
+    jr z,StepOut
+    dec (ix+ACT_TRAVEL)
+    jr nz,CheckStop
+    ld (ix+ACT_RETURNING),0     ; Home: turn round
+    jr PlatformWaits
+StepOut:
+    inc (ix+ACT_TRAVEL)
+    ld a,(ix+ACT_RANGE)
+    add a,a
+    add a,a
+    add a,a
+    cp (ix+ACT_TRAVEL)
+    jr nz,CheckStop
+    ld a,(ix+ACT_REPEAT)
+    cp REPEAT_LOOP
+    jr nz,PlatformTurns
+    ld (ix+ACT_TRAVEL),0        ; Loop: back home, the player falls off
+    ld hl,0
+    ld (Riding),hl
+    jr PlatformWaits
+PlatformTurns:
+    ld (ix+ACT_RETURNING),1
+PlatformWaits:
+    ld a,(ix+ACT_PAUSE)
+    ld (ix+ACT_WAIT),a
+    scf
+    ret
+CheckStop:
+    ld a,(ix+ACT_TRAVEL)        ; A whole number of blocks from home...
+    and 7
+    ret nz
+    ld a,(ix+ACT_TRAVEL)
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld l,(ix+ACT_STOPS)         ; ...with its stop bit set
+    ld h,(ix+ACT_STOPS+1)
+CheckStopBit:
+    srl h
+    rr l
+    dec a
+    jr nz,CheckStopBit
+    ld a,l
+    rrca
+    ret nc
+    jr PlatformWaits
+
+; Put the platform at IX its travel from home, the way its start direction points
+PlacePlatform:
+    ld a,(ix+ACT_TRAVEL)
+    bit 7,(ix+ACT_DX)
+    jr z,PlaceForward
+    neg
+PlaceForward:
+    ld c,a
+    ld a,(ix+ACT_PLATFORM)
+    cp PLATFORM_HORIZONTAL
+    jr nz,PlaceVertical
+    ld a,(ix+ACT_HOME_X)
+    add a,c
+    ld (ix+ACT_X),a
+    ret
+PlaceVertical:
+    ld a,(ix+ACT_HOME_Y)
+    add a,c
+    ld (ix+ACT_Y),a
+    ret
+
+; Stand the player on a platform when their feet are in its top rows, centre over it
+; Carry when they landed: it becomes the platform they ride
+FindPlatform:
+    ld a,(PlayerHeight)
+    ld b,a
+    ld a,(PlayerY)
+    add a,b
+    ld b,a                      ; B = foot Y
+    ld a,(PlayerHalfWidth)
+    ld c,a
+    ld a,(PlayerX)
+    add a,c
+    ld c,a                      ; C = centre X
+    ld a,(ActorCount)
+    and a
+    ret z
+    ld d,a
+    ld ix,Actors
+FindPlatformLoop:
+    ld a,(ix+ACT_TYPE)
+    cp OBJ_PLATFORM
+    jr nz,FindPlatformNext
+    ld a,(ix+ACT_PLATFORM)
+    cp PLATFORM_ROPE
+    jr z,FindPlatformNext
+    ld a,c
+    sub (ix+ACT_X)
+    cp (ix+ACT_WIDTH)
+    jr nc,FindPlatformNext
+    ld a,b
+    sub (ix+ACT_Y)
+    cp PLATFORM_TOP
+    jr c,OnPlatform
+FindPlatformNext:
+    push de
+    ld de,ACTOR_SIZE
+    add ix,de
+    pop de
+    dec d
+    jr nz,FindPlatformLoop
+    and a
+    ret
+OnPlatform:
+    ld a,(PlayerHeight)
+    ld c,a
+    ld a,(ix+ACT_Y)
+    sub c
+    ld (PlayerY),a
+    ld a,1
+    ld (OnGround),a
+    ld (Riding),ix
+    scf
+    ret
+
+; ===== ROPES =====
+
+; Swing the rope at IX on, carrying the player holding it or letting them grab it
+UpdateRope:
+    ld a,(ix+ACT_TRAVEL)
+    add a,(ix+ACT_SPEED)
+    and ROPE_STEPS-1
+    ld (ix+ACT_TRAVEL),a
+    ld hl,(RopeActor)
+    push ix
+    pop de
+    and a
+    sbc hl,de
+    jr z,HoldRope
+    ld a,(ix+ACT_CARRY)         ; Grabbed when it can be, and the player is free
+    and a
+    ret z
+    ld a,(RopeCooldown)
+    and a
+    ret nz
+    ld hl,(RopeActor)
+    ld a,h
+    or l
+    ret nz
+    ld a,(ix+ACT_TRAVEL)
+    call RopeStart
+GrabRope:
+    call RopeStep
+    ret nc
+    ld a,(PlayerX)              ; First point inside the player's box
+    ld d,a
+    ld a,c
+    sub d
+    ld hl,PlayerWidth
+    cp (hl)
+    jr nc,GrabRope
+    ld a,(PlayerY)
+    ld d,a
+    ld a,b
+    sub d
+    ld hl,PlayerHeight
+    cp (hl)
+    jr nc,GrabRope
+    ld a,(RopeLeft)
+    ld (RopeHold),a
+    ld (RopeActor),ix
+    ld a,ROPE_HOLD
+    ld (RopeCooldown),a
+    xor a
+    ld (IsJumping),a
+    ld (OnGround),a
+    jr HangOnRope
+HoldRope:
+    ld a,(ix+ACT_TRAVEL)
+    call RopeStart
+HoldRopeStep:
+    call RopeStep
+    jr nc,DropRope              ; Held point is off the screen this swing
+    ld a,(RopeLeft)
+    ld hl,RopeHold
+    cp (hl)
+    jr nz,HoldRopeStep
+
+; Hang the player from the rope point (C = x, B = y), centred on it
+HangOnRope:
+    ld a,(PlayerHalfWidth)
+    ld d,a
+    ld a,c
+    sub d
+    jr nc,HangX
+    xor a
+HangX:
+    ld hl,PlayerMaxX
+    cp (hl)
+    jr c,HangXStored
+    ld a,(hl)
+HangXStored:
+    ld (PlayerX),a
+    ld a,b
+    ld (PlayerY),a
+    ret
+
+; Let go of the rope; it can't be grabbed again straight away
+LetGoRope:
+    ld a,ROPE_HOLD
+    ld (RopeCooldown),a
+DropRope:
+    ld hl,0
+    ld (RopeActor),hl
+    ret
+
+; Start walking down the rope at IX from its anchor, in swing position A
+RopeStart:
+    ld l,a
+    ld h,0
+    add hl,hl
+    add hl,hl
+    ld de,RopeSwing
+    add hl,de
+    ld e,(hl)
+    inc hl
+    ld d,(hl)
+    inc hl
+    ld (RopeDX),de
+    ld e,(hl)
+    inc hl
+    ld d,(hl)
+    ld (RopeDY),de
+    ld h,(ix+ACT_HOME_X)        ; Middle of the anchor pixel
+    ld l,128
+    ld (RopeX),hl
+    ld h,(ix+ACT_HOME_Y)
+    ld (RopeY),hl
+    ld a,(ix+ACT_RANGE)
+    add a,a
+    add a,a
+    add a,a
+    ld (RopeLeft),a
+    ret
+
+; Next rope point -> C = x, B = y
+; No carry at its end, or where it leaves the screen or the play area
+RopeStep:
+    ld a,(RopeLeft)
+    and a
+    ret z
+    dec a
+    ld (RopeLeft),a
+    ld hl,(RopeX)
+    ld de,(RopeDX)
+    add hl,de
+    sbc a,a                     ; Wrapped past an edge when the carry doesn't match DX's sign
+    xor d
+    rla
+    ccf
+    ret nc
+    ld (RopeX),hl
+    ld c,h
+    ld hl,(RopeY)
+    ld de,(RopeDY)
+    add hl,de
+    ld (RopeY),hl
+    ld a,h
+    ld b,a
+    cp PLAY_HEIGHT
+    ret
+
+; Draw the rope at IX by inverting its points, remembering the swing position
+DrawRope:
+    ld (ix+ACT_DRAWN_ROWS),1
+    ld a,(ix+ACT_TRAVEL)
+    ld (ix+ACT_DRAWN_COL),a
+    jr XorRope
+
+; Take the rope at IX off the screen by inverting the points it was drawn with
+EraseRope:
+    ld (ix+ACT_DRAWN_ROWS),0
+    ld a,(ix+ACT_DRAWN_COL)
+
+; Invert the pixels of the rope at IX in swing position A
+XorRope:
+    call RopeStart
+    ld hl,0xFFFF                ; Below the play area: never a rope point
+    ld (RopeLast),hl
+XorRopePoint:
+    call RopeStep
+    ret nc
+    ld hl,(RopeLast)            ; Points on the pixel before would invert it back
+    and a
+    sbc hl,bc
+    jr z,XorRopePoint
+    ld (RopeLast),bc
+    push bc
+    ld a,b                      ; Mark the point's cell
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld d,a
+    ld e,a
+    ld a,c
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld b,a
+    ld c,a
+    call MarkDirty
+    pop bc
+    call PixelAddress
+    ld a,c
+    and 7
+    inc a
+    ld b,a
+    ld a,1
+XorRopeBit:
+    rrca
+    djnz XorRopeBit
+    xor (hl)
+    ld (hl),a
+    jr XorRopePoint
+
+; Z when the actor at IX is a rope
+IsRope:
+    ld a,(ix+ACT_TYPE)
+    cp OBJ_PLATFORM
+    ret nz
+    ld a,(ix+ACT_PLATFORM)
+    cp PLATFORM_ROPE
+    ret
+
+; ===== SHOTS =====
+; Shots are actor records of the SHOT_OBJECT ammunition, each with its own
+; background buffer; a height of 0 is a free slot
+
+; Take every shot off the screen (it has just been cleared)
+ClearShots:
+    ld ix,Shots
+    ld hl,ShotBuffers
+    ld b,MAX_SHOTS
+ClearShotLoop:
+    ld (ix+ACT_HEIGHT),0
+    ld (ix+ACT_DRAWN_ROWS),0
+    ld (ix+ACT_BUFFER),l
+    ld (ix+ACT_BUFFER+1),h
+    ld de,ACTOR_BUFFER_SIZE
+    add hl,de
+    ld de,ACTOR_SIZE
+    add ix,de
+    djnz ClearShotLoop
+    ret
+
+; Fire when the fire key goes down, then fly every shot; called while the
+; actors are off the screen
+UpdateShots:
+    ld a,(Controls)
+    ld hl,FireHeld
+    bit CTRL_FIRE,a
+    jr z,FirePressed
+    ld (hl),0                   ; Let go: the next press fires again
+    jr FlyShots
+FirePressed:
+    ld a,(hl)
+    ld (hl),1
+    and a
+    call z,FireShot
+FlyShots:
+    ld ix,Shots
+    ld b,MAX_SHOTS
+FlyShotLoop:
+    push bc
+    ld a,(ix+ACT_HEIGHT)
+    and a
+    call nz,FlyShot
+    ld de,ACTOR_SIZE
+    add ix,de
+    pop bc
+    djnz FlyShotLoop
+    ret
+
+; A shot from the middle of the player's leading edge, the way they face, in the
+; first free slot; none when every slot is flying or it would start off the screen
+FireShot:
+    ld a,SHOT_OBJECT
+    cp 255
+    ret z
+    ld hl,(PlayerActor)
+    ld a,h
+    or l
+    ret z
+    ld ix,Shots
+    ld b,MAX_SHOTS
+    ld de,ACTOR_SIZE
+FindFreeShot:
+    ld a,(ix+ACT_HEIGHT)
+    and a
+    jr z,ShotSlotFound
+    add ix,de
+    djnz FindFreeShot
+    ret
+ShotSlotFound:
+    ld a,SHOT_OBJECT            ; Its sprite sets where it starts
+    call InitActor
+    ld a,(ix+ACT_HEIGHT)
+    and a
+    ret z                       ; Ammunition without a sprite
+    ld a,(PlayerHeight)         ; Y = player Y + (player height - shot height) / 2
+    sub (ix+ACT_HEIGHT)
+    sra a
+    ld hl,PlayerY
+    add a,(hl)
+    ld (ix+ACT_Y),a
+    ld a,(Facing)
+    ld (ix+ACT_DX),a
+    ld c,(ix+ACT_WIDTH)
+    xor a
+    sub c
+    ld e,a                      ; E = rightmost X
+    ld a,(PlayerX)
+    bit 7,(ix+ACT_DX)
+    jr nz,FireLeft
+    ld hl,PlayerWidth
+    add a,(hl)
+    jr c,ShotOff
+    jr FireX
+FireLeft:
+    sub c
+    jr c,ShotOff
+FireX:
+    cp e
+    jr z,ShotPlaced
+    jr nc,ShotOff
+ShotPlaced:
+    ld (ix+ACT_X),a
+    ld a,SFX_FIRE
+    jp PlaySound
+ShotOff:
+    ld (ix+ACT_HEIGHT),0
+    ret
+
+; Fly the shot at IX for a frame: it stops once it has gone its range, at the
+; screen edge, at a solid block or at the first enemy it hits
+FlyShot:
+    ld l,(ix+ACT_POINTS)        ; Pixels left to fly
+    ld h,(ix+ACT_POINTS+1)
+    ld e,(ix+ACT_SPEED)
+    ld d,0
+    and a
+    sbc hl,de
+    jr c,ShotDone
+    ld (ix+ACT_POINTS),l
+    ld (ix+ACT_POINTS+1),h
+    inc (ix+ACT_FRAME)          ; Animate through the ammunition sprite's frames
+    ld a,(ix+ACT_FRAME)
+    cp (ix+ACT_FRAMES)
+    jr c,ShotAnimated
+    ld (ix+ACT_FRAME),0
+ShotAnimated:
+    call StepActorX
+    jr c,ShotDone
+    ld a,(ix+ACT_HEIGHT)        ; Blocks stop it at the middle of its leading edge
+    srl a
+    add a,(ix+ACT_Y)
+    ld b,a
+    ld a,(ix+ACT_X)
+    bit 7,(ix+ACT_DX)
+    jr nz,ShotTip
+    add a,(ix+ACT_WIDTH)
+    dec a
+ShotTip:
+    ld c,a
+    call SolidAt
+    jr c,ShotDone
+    call ShotHitEnemy
+    ret nc
+ShotDone:
+    ld (ix+ACT_HEIGHT),0        ; Already erased this frame: no longer drawn
+    ret
+
+; The first enemy the shot at IX overlaps loses the shot's damage, and goes
+; when its health runs out (until the screen is loaded again)
+; Carry when the shot hit one; IX kept
+ShotHitEnemy:
+    ld a,(ix+ACT_X)
+    ld (ShotX),a
+    ld a,(ix+ACT_Y)
+    ld (ShotY),a
+    ld a,(ix+ACT_WIDTH)
+    ld (ShotWidth),a
+    ld a,(ix+ACT_HEIGHT)
+    ld (ShotHeight),a
+    ld a,(ix+ACT_DAMAGE)
+    ld (ShotDamage),a
+    ld a,(ActorCount)
+    and a
+    ret z
+    push ix
+    ld b,a
+    ld ix,Actors
+ShotEnemyLoop:
+    ld a,(ix+ACT_TYPE)
+    cp OBJ_ENEMY
+    jr nz,ShotEnemyNext
+    ld a,(ix+ACT_HEIGHT)
+    and a
+    jr z,ShotEnemyNext
+    push bc
+    call ShotTouching
+    pop bc
+    jr c,ShotEnemyHit
+ShotEnemyNext:
+    ld de,ACTOR_SIZE
+    add ix,de
+    djnz ShotEnemyLoop
+    pop ix
+    and a
+    ret
+ShotEnemyHit:
+    ld a,(ShotDamage)
+    ld c,a
+    ld a,(ix+ACT_ENERGY)
+    sub c
+    jr c,EnemyGone
+    jr z,EnemyGone
+    ld (ix+ACT_ENERGY),a
+    pop ix
+    scf
+    ret
+EnemyGone:
+    ld (ix+ACT_ENERGY),0
+    ld (ix+ACT_HEIGHT),0        ; Already erased this frame: no longer drawn or touched
+    pop ix
+    scf
+    ret
+
+; Carry when the shot in ShotX..ShotHeight overlaps the actor at IX
+ShotTouching:
+    ld a,(ShotWidth)
+    ld d,a
+    ld e,(ix+ACT_WIDTH)
+    ld c,(ix+ACT_X)
+    ld a,(ShotX)
+    call SpansOverlap
+    ret nc
+    ld a,(ShotHeight)
+    ld d,a
+    ld e,(ix+ACT_HEIGHT)
+    ld c,(ix+ACT_Y)
+    ld a,(ShotY)
+    jp SpansOverlap
+
+; ===== ENEMIES =====
+
+; Move the enemy at IX by its AI behaviour and patrol type
+RunEnemyAI:
+    inc (ix+ACT_TIMER)
+    ld a,(ix+ACT_AI)
+    cp AI_CHASE
+    jr z,ChasePlayer
+    cp AI_GUARD
+    jr z,GuardHome
+    cp AI_RANDOM
+    jr z,WanderRandom
+    ld a,(ix+ACT_PATROL)        ; AI_PATROL
+    cp PATROL_LEFT_RIGHT
+    jr z,PatrolHorizontal
+    cp PATROL_UP_DOWN
+    jp z,PatrolVertical
+    cp PATROL_CIRCULAR
+    jp z,PatrolCircle
+    ret                         ; PATROL_STATIONARY
+
+ChasePlayer:
+    ld a,(PlayerX)
+    ld b,a
+    ld a,(PlayerY)
+    ld c,a
+    jp MoveTowards
+
+; Chase the player while they are within GUARD_RANGE of home, else go back
+GuardHome:
+    ld a,(PlayerX)
+    sub (ix+ACT_HOME_X)
+    jr nc,GuardDistanceX
+    neg
+GuardDistanceX:
+    cp GUARD_RANGE
+    jr nc,ReturnHome
+    ld a,(PlayerY)
+    sub (ix+ACT_HOME_Y)
+    jr nc,GuardDistanceY
+    neg
+GuardDistanceY:
+    cp GUARD_RANGE
+    jr c,ChasePlayer
+ReturnHome:
+    ld b,(ix+ACT_HOME_X)
+    ld c,(ix+ACT_HOME_Y)
+    jp MoveTowards
+
+; Wander, picking a new heading every RANDOM_STEPS moves
+WanderRandom:
+    ld a,(ix+ACT_TIMER)
+    and RANDOM_STEPS-1
+    jr nz,Wander
+    call Random
+    and 3
+    call SetHeading
+Wander:
+    ld a,(ix+ACT_DX)
+    and a
+    call nz,PatrolHorizontal
+    ld a,(ix+ACT_DY)
+    and a
+    ret z
+    jr PatrolVertical
+
+; Walk along X, turning at walls, ledges and the screen edges
+PatrolHorizontal:
+    ld a,(ix+ACT_X)
+    ld (PatrolFrom),a
+    call StepActorX
+    jr c,TurnX
+    call ActorBlockedX
+    ret nc
+    ld a,(PatrolFrom)
+    ld (ix+ACT_X),a
+TurnX:
+    ld a,(ix+ACT_DX)
+    neg
+    ld (ix+ACT_DX),a
+    ret
+
+; Move along Y, turning at solid tiles and the screen edges
+PatrolVertical:
+    ld a,(ix+ACT_Y)
+    ld (PatrolFrom),a
+    call StepActorY
+    jr c,TurnY
+    call ActorBlockedY
+    ret nc
+    ld a,(PatrolFrom)
+    ld (ix+ACT_Y),a
+TurnY:
+    ld a,(ix+ACT_DY)
+    neg
+    ld (ix+ACT_DY),a
+    ret
+
+; Go round a square: right, down, left, up, 16 moves per side
+PatrolCircle:
+    ld a,(ix+ACT_TIMER)
+    rrca
+    rrca
+    rrca
+    rrca
+    and 3
+    call SetHeading
+    and a                       ; A = DY
+    jr z,StepActorX
+    jr StepActorY
+
+; DX, DY for heading A (0 right, 1 down, 2 left, 3 up) -> A = DY
+SetHeading:
+    add a,a
+    ld e,a
+    ld d,0
+    ld hl,Headings
+    add hl,de
+    ld a,(hl)
+    ld (ix+ACT_DX),a
+    inc hl
+    ld a,(hl)
+    ld (ix+ACT_DY),a
+    ret
+
+; Step the actor at IX towards pixel (B, C)
+MoveTowards:
+    ld d,b
+    ld a,(ix+ACT_X)
+    call StepTowards
+    ld (ix+ACT_X),a
+    ld d,c
+    ld a,(ix+ACT_Y)
+    call StepTowards
+    ld (ix+ACT_Y),a
+    ret
+
+; A moved towards D by up to the actor's speed -> A
+StepTowards:
+    cp d
+    ret z
+    jr c,StepTowardsUp
+    sub (ix+ACT_SPEED)
+    jr c,StepTowardsArrive
+    cp d
+    ret nc
+StepTowardsArrive:
+    ld a,d
+    ret
+StepTowardsUp:
+    add a,(ix+ACT_SPEED)
+    jr c,StepTowardsArrive
+    cp d
+    ret c
+    ld a,d
+    ret
+
+; X moved by the actor's speed along DX, kept on screen -> carry when it hit an edge
+StepActorX:
+    xor a
+    sub (ix+ACT_WIDTH)
+    ld e,a                      ; Rightmost X
+    ld d,(ix+ACT_DX)
+    ld a,(ix+ACT_X)
+    call StepAxis
+    ld (ix+ACT_X),a
+    ret
+
+; Y moved by the actor's speed along DY, kept above the HUD -> carry when it hit an edge
+StepActorY:
+    ld a,PLAY_HEIGHT
+    sub (ix+ACT_HEIGHT)
+    ld e,a                      ; Lowest Y
+    ld d,(ix+ACT_DY)
+    ld a,(ix+ACT_Y)
+    call StepAxis
+    ld (ix+ACT_Y),a
+    ret
+
+; A moved by the actor's speed, back when D is negative, within 0..E
+; -> A, carry when clamped
+StepAxis:
+    bit 7,d
+    jr nz,StepAxisBack
+    add a,(ix+ACT_SPEED)
+    jr c,StepAxisEnd
+    ld c,a
+    ld a,e
+    cp c
+    ret c                       ; Past the end: A = E
+    ld a,c
+    ret
+StepAxisEnd:
+    ld a,e
+    scf
+    ret
+StepAxisBack:
+    sub (ix+ACT_SPEED)
+    ret nc
+    xor a
+    scf
+    ret
+
+; Carry when the actor at IX walks into a wall or off the edge of a ledge
+ActorBlockedX:
+    ld a,(ix+ACT_X)             ; C = leading edge
+    bit 7,(ix+ACT_DX)
+    jr nz,LeadingEdgeX
+    add a,(ix+ACT_WIDTH)
+    dec a
+LeadingEdgeX:
+    ld c,a
+    ld a,(ix+ACT_Y)
+    add a,(ix+ACT_HEIGHT)
+    ld b,a
+    dec b
+    call SolidAt                ; Wall at foot level
+    ret c
+    inc b
+    call SolidAt                ; Ground ahead: keep walking
+    ccf
+    ret nc
+    ld a,(ix+ACT_WIDTH)         ; Standing on ground with none ahead: a ledge
+    srl a
+    add a,(ix+ACT_X)
+    ld c,a
+    jr SolidAt
+
+; Carry when the actor at IX moves into a solid tile above or below it
+ActorBlockedY:
+    ld a,(ix+ACT_WIDTH)
+    srl a
+    add a,(ix+ACT_X)
+    ld c,a
+    ld a,(ix+ACT_Y)
+    bit 7,(ix+ACT_DY)
+    jr nz,LeadingEdgeY
+    add a,(ix+ACT_HEIGHT)
+    dec a
+LeadingEdgeY:
+    ld b,a
+; Carry when the tile under pixel (C = x, B = y) is a block enemies can't walk into:
+; any but deadly blocks and ladders
+SolidAt:
+    push de
+    call BlockAt
+    pop de
+    cp NO_BLOCK
+    jr z,NotSolid
+    cp BLOCK_DEADLY
+    jr z,NotSolid
+    cp BLOCK_LADDER
+    jr z,NotSolid
+    scf
+    ret
+NotSolid:
+    and a
+    ret
+
+; Pseudo-random byte -> A
+Random:
+    ld a,(RandomSeed)
+    ld b,a
+    add a,a
+    add a,a
+    add a,b
+    inc a                       ; Seed * 5 + 1
+    ld (RandomSeed),a
+    ld b,a
+    ld a,r
+    xor b
+    ret
+
+; Restore the background under every actor and shot, last drawn first
+EraseActors:
+    ld ix,Shots+MAX_SHOTS*ACTOR_SIZE
+    ld b,MAX_SHOTS
+    ld de,-ACTOR_SIZE
+EraseShotLoop:
+    add ix,de
+    push bc
+    push de
+    call EraseActor
+    pop de
+    pop bc
+    djnz EraseShotLoop
+    ld a,(ActorCount)
+    and a
+    ret z
+    ld b,a
+    ld ix,Actors
+    ld de,ACTOR_SIZE
+FindLastActor:
+    add ix,de
+    djnz FindLastActor
+    ld b,a
+    ld de,-ACTOR_SIZE
+EraseActorLoop:
+    add ix,de
+    push bc
+    push de
+    call EraseActor
+    pop de
+    pop bc
+    djnz EraseActorLoop
+    ret
+
+; Draw every actor, then the shots over them
+DrawActors:
+    ld a,(ActorCount)
+    and a
+    jr z,DrawShots
+    ld b,a
+    ld ix,Actors
+DrawActorLoop:
+    push bc
+    call DrawActor
+    ld de,ACTOR_SIZE
+    add ix,de
+    pop bc
+    djnz DrawActorLoop
+DrawShots:
+    ld ix,Shots
+    ld b,MAX_SHOTS
+DrawShotLoop:
+    push bc
+    call DrawActor
+    ld de,ACTOR_SIZE
+    add ix,de
+    pop bc
+    djnz DrawShotLoop
+    ret
+
+; Copy the saved background of the actor at IX back to the back buffer
+EraseActor:
+    ld a,(ix+ACT_DRAWN_ROWS)
+    and a
+    ret z
+    call IsRope
+    jp z,EraseRope
+    call MarkActor
+    ld b,(ix+ACT_DRAWN_ROWS)
+    ld (ix+ACT_DRAWN_ROWS),0
+    ld l,(ix+ACT_DRAWN_ADDR)
+    ld h,(ix+ACT_DRAWN_ADDR+1)
+    ld e,(ix+ACT_BUFFER)
+    ld d,(ix+ACT_BUFFER+1)
+EraseRow:
+    push bc
+    push hl
+    ld b,(ix+ACT_WBYTES)
+    inc b
+    ld c,(ix+ACT_DRAWN_COL)
+EraseByte:
+    ld a,c
+    cp 32                       ; Clipped at the right edge
+    jr nc,EraseRowDone
+    ld a,(de)
+    ld (hl),a
+    inc de
+    inc l
+    inc c
+    djnz EraseByte
+EraseRowDone:
+    pop hl
+    call NextLine
+    pop bc
+    djnz EraseRow
+    ret
+
+; Draw the current frame of the actor at IX into the back buffer, saving the
+; background first. Sprites are shifted to any X position; pixel 0 is
+; transparent, so the sprite data doubles as its own mask (AND NOT mask OR pixels)
+DrawActor:
+    call IsRope
+    jp z,DrawRope
+    ld a,(ix+ACT_HEIGHT)
+    and a
+    ret z
+    ld a,(ix+ACT_Y)
+    cp PLAY_HEIGHT
+    ret nc
+    ld l,(ix+ACT_PIXELS)        ; Source = the frame's entry in the frame table
+    ld h,(ix+ACT_PIXELS+1)
+    ld a,(ix+ACT_FRAME)
+    call SpritePointer
+    ld (SpriteSource),hl
+    ld l,(ix+ACT_BUFFER)
+    ld h,(ix+ACT_BUFFER+1)
+    ld (BufferPointer),hl
+    ld b,(ix+ACT_Y)
+    ld c,(ix+ACT_X)
+    call PixelAddress
+    ld (ix+ACT_DRAWN_ADDR),l
+    ld (ix+ACT_DRAWN_ADDR+1),h
+    ld a,c
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    ld (ix+ACT_DRAWN_COL),a
+    ld a,c
+    and 7
+    ld (SpriteShift),a
+    ld a,PLAY_HEIGHT            ; Rows = min(height, PLAY_HEIGHT - y)
+    sub (ix+ACT_Y)
+    cp (ix+ACT_HEIGHT)
+    jr c,RowsClipped
+    ld a,(ix+ACT_HEIGHT)
+RowsClipped:
+    ld (ix+ACT_DRAWN_ROWS),a
+    ld b,a
+DrawRow:
+    push bc
+    push hl
+    ld de,RowBuffer             ; Copy the row plus a spill byte
+    ld hl,(SpriteSource)
+    ld c,(ix+ACT_WBYTES)
+    ld b,0
+    ld a,(ix+ACT_MIRROR)
+    and a
+    jr nz,MirrorRow
+    ldir
+    jr RowCopied
+MirrorRow:
+    add hl,bc                   ; Flipped: the last byte first, its bits reversed
+    push hl
+MirrorByte:
+    dec hl
+    ld a,(hl)
+    push bc
+    ld b,8
+MirrorBit:
+    rla
+    rr c
+    djnz MirrorBit
+    ld a,c
+    pop bc
+    ld (de),a
+    inc de
+    dec c
+    jr nz,MirrorByte
+    pop hl
+RowCopied:
+    ld (SpriteSource),hl
+    xor a
+    ld (de),a
+    ld a,(SpriteShift)
+    and a
+    jr z,RowShifted
+    ld c,a
+ShiftRow:
+    ld hl,RowBuffer
+    ld b,(ix+ACT_WBYTES)
+    inc b
+    and a                       ; Clear carry
+ShiftByte:
+    rr (hl)
+    inc hl
+    djnz ShiftByte
+    dec c
+    jr nz,ShiftRow
+RowShifted:
+    pop hl
+    push hl
+    ld de,RowBuffer
+    ld b,(ix+ACT_WBYTES)
+    inc b
+    ld c,(ix+ACT_DRAWN_COL)
+BlitByte:
+    ld a,c
+    cp 32                       ; Clipped at the right edge
+    jr nc,BlitRowDone
+    push hl
+    ld a,(hl)                   ; Save the background
+    ld hl,(BufferPointer)
+    ld (hl),a
+    inc hl
+    ld (BufferPointer),hl
+    pop hl
+    ld a,(de)                   ; Mask and draw
+    cpl
+    and (hl)
+    ex de,hl
+    or (hl)
+    ex de,hl
+    ld (hl),a
+    inc l
+    inc de
+    inc c
+    djnz BlitByte
+BlitRowDone:
+    pop hl
+    call NextLine
+    pop bc
+    djnz DrawRow
+
+; Mark the cells the actor at IX is drawn over (ACT_DRAWN_*) for PresentFrame
+MarkActor:
+    ld l,(ix+ACT_DRAWN_ADDR)
+    ld h,(ix+ACT_DRAWN_ADDR+1)
+    ld a,l                      ; Top row: the third of the screen, then L / 32
+    rlca
+    rlca
+    rlca
+    and 7
+    ld d,a
+    ld a,h
+    and 0x18
+    or d
+    ld d,a
+    ld a,h                      ; Bottom row: (pixel line + rows - 1) / 8 below it
+    and 7
+    add a,(ix+ACT_DRAWN_ROWS)
+    dec a
+    rrca
+    rrca
+    rrca
+    and 0x1F
+    add a,d
+    ld e,a
+    ld a,(ix+ACT_DRAWN_COL)
+    ld b,a
+    add a,(ix+ACT_WBYTES)       ; The spill byte too, clipped at the right edge
+    cp 32
+    jr c,MarkActorRight
+    ld a,31
+MarkActorRight:
+    ld c,a
+    jp MarkDirty
+
+${generateControlsAsm(config)}
+${generateFlowAsm(config.menu, !!config.banked, !!config.packed)}
+${generateHudAsm(config, hudRows, startEnergy)}${config.packed ? generateUnpackAsm() : ""}
+; ===== SOUND =====
+
+; Play the sound effect attached to event A (SFX_*), if any
+; The game waits while it plays; BC, DE, HL and IX are kept
+PlaySound:
+    push bc
+    push de
+    push hl
+    push ix
+    ld l,a
+    ld h,0
+    ld de,SoundEvents
+    add hl,de
+    ld a,(hl)
+    cp NO_SOUND
+    jr z,SoundDone
+    ld l,a
+    ld h,0
+    ld e,l
+    ld d,h
+    add hl,hl
+    add hl,hl
+    add hl,hl
+    and a
+    sbc hl,de                   ; 7 bytes per sound
+    ld de,SoundBank+1
+    add hl,de
+    ld a,(hl)
+    ld (SoundWave),a
+    inc hl
+    ld c,(hl)
+    inc hl
+    ld b,(hl)                   ; BC = period (8.8)
+    inc hl
+    ld e,(hl)
+    inc hl
+    ld d,(hl)                   ; DE = delta (8.8)
+    inc hl
+    ld a,(hl)
+    inc hl
+    ld h,(hl)
+    ld l,a
+    push hl
+    pop ix                      ; IX = half cycles
+    ld h,b
+    ld l,c
+    ld a,(BorderColour)
+    ld c,a                      ; C = port 0xFE value, speaker off
+SoundHalfCycle:
+    ld b,h                      ; Wait H delay units
+SoundDelay:
+    ex (sp),hl
+    ex (sp),hl
+    djnz SoundDelay
+    ld a,(SoundWave)
+    cp SOUND_WAVE_NOISE
+    jr z,SoundNoise
+    ld a,c
+    xor SPEAKER
+    jr SoundClick
+SoundNoise:
+    call Random
+    and SPEAKER
+    ld b,a
+    ld a,c
+    and 0xFF-SPEAKER
+    or b
+SoundClick:
+    ld c,a
+    out (254),a
+    add hl,de                   ; Sweep the pitch
+    dec ix
+    ld a,ixh
+    or ixl
+    jr nz,SoundHalfCycle
+    ld a,(BorderColour)         ; Speaker off
+    out (254),a
+SoundDone:
+    pop ix
+    pop hl
+    pop de
+    pop bc
+    ret
+
+; ===== FRAME INTERRUPT =====
+
+; IM 2 on the 50Hz frame interrupt: every vector in the table at IM2_TABLE
+; leads to IM2_JUMP, a jump to Interrupt
+InitInterrupts:
+    di
+    ld hl,IM2_TABLE
+    ld de,IM2_TABLE+1
+    ld bc,256
+    ld (hl),IM2_JUMP & 0xFF
+    ldir
+    ld a,0xC3                   ; jp Interrupt
+    ld (IM2_JUMP),a
+    ld hl,Interrupt
+    ld (IM2_JUMP+1),hl
+    ld a,IM2_TABLE >> 8
+    ld i,a
+    im 2
+    ei
+    ret
+
+; Count the frame for FrameDelay${config.music ? " and play a frame of the music" : ""}
+Interrupt:
+    push af
+    push hl
+    ld hl,FrameTicks
+    inc (hl)
+${config.music ? `    push bc
+    push de
+    call PlayMusicPaged
+    pop de
+    pop bc
+` : ""}    pop hl
+    pop af
+    ei
+    reti
+
+; Wait for the next logic frame, FRAME_TICKS frame interrupts after the last
+; one; it starts just after an interrupt, with the beam above the picture
+FrameDelay:
+    halt
+    ld a,(FrameTicks)
+    cp FRAME_TICKS
+    jr c,FrameDelay
+    xor a
+    ld (FrameTicks),a
+    ret
+
+; ===== RECORD LAYOUTS =====
+; Property bytes per flag bit (bit 0 first), from the property schema
+BlockPropertySizes:     ; speed/sinking speed, direction, crumble, respawn (word), friction, depth, climb, pass-through
+    defb ${getPropertySizes(BLOCK_PROPERTIES).join(",")}
+ObjectPropertySizes:    ; speed, jump height/target level/range, gravity/activation/pause, patrol/platform type,
+                        ; damage/direction, points/stops (word), required/carry, AI/repeat
+    defb ${getPropertySizes(OBJECT_PROPERTIES).join(",")}
+InstancePropertySizes:  ; speed, direction, patrol/platform type, damage/range, points (word), AI/pause,
+                        ; target level/repeat, activation/carry
+    defb ${getPropertySizes(INSTANCE_PROPERTIES).join(",")}
+
+; ===== ENGINE DATA =====
+JumpTrajectory:
+    defb ${JUMP_TRAJECTORY.join(",")}
+Headings:               ; DX, DY: right, down, left, up
+    defb 1,0,0,1,255,0,0,255
+RopeSwing:              ; DX, DY (8.8) from one rope point to the next, per swing position
+${ROPE_SWING.map(({ dx, dy }) => `${dx & 0xffff},${dy}`)
+  .reduce<string[]>((lines, pair, index) => {
+    if (index % 8 === 0) lines.push(pair);
+    else lines[lines.length - 1] += `,${pair}`;
+    return lines;
+  }, [])
+  .map(line => `    defw ${line}`)
+  .join("\n")}
+
+FrameTicks:         defb 0
+DirtyRows:          defs 24*2  ; Per character row: the first and last column PresentFrame copies
+PlayerX:            defb 0
+PlayerY:            defb 0
+PlayerHeight:       defb 8
+PlayerWidth:        defb 8
+PlayerHalfWidth:    defb 4
+PlayerMaxX:         defb 248
+PlayerMaxY:         defb PLAY_HEIGHT-8
+IsJumping:          defb 0
+JumpFrame:          defb 0
+OnGround:           defb 0
+Energy:             defb START_ENERGY
+Lives:              defb START_LIVES
+Score:              defw 0
+RespawnX:           defb 0
+RespawnY:           defb 0
+CurrentLevel:       defb 0
+CurrentScreenIndex: defb 0
+RequiredLeft:       defb 0      ; Required collectables still to take on this level
+CollectedCount:     defb 0
+InstanceIndex:      defb 0
+GameStack:          defw 0
+HitCooldown:        defb 0
+BorderColour:       defb 0
+SoundWave:          defb 0
+PatrolFrom:         defb 0
+RandomSeed:         defb 0
+Riding:             defw 0      ; Platform actor the player stands on this frame
+RopeActor:          defw 0      ; Rope actor the player hangs on
+RopeHold:           defb 0      ; Rope point held, as RopeLeft when it was reached
+RopeCooldown:       defb 0
+RopeLeft:           defb 0      ; Rope points still to walk
+RopeX:              defw 0      ; Rope point being walked (8.8)
+RopeY:              defw 0
+RopeDX:             defw 0
+RopeDY:             defw 0
+RopeLast:           defw 0      ; Rope pixel inverted last (C = x, B = y)
+Climbing:           defb 0      ; Non-zero while the player is on a ladder
+Slide:              defb 0      ; Signed, 1/16 pixels per frame: keeps the player going on ice
+IceGrip:            defb 0      ; Grip of the ice stood on this frame, 0 when not on ice
+Sink:               defw 0      ; Quarter pixels sunk into a sinking block this frame
+Sank:               defw 0      ; and last frame
+CrumbleAt:          defw 0      ; Crumbling tile stood on this frame (tile map address)
+Facing:             defb 1      ; 1 = right, 255 = left: the way shots fly
+FireHeld:           defb 0      ; Non-zero while the fire key is held down
+ShotX:              defb 0      ; Box and damage of the shot being flown
+ShotY:              defb 0
+ShotWidth:          defb 0
+ShotHeight:         defb 0
+ShotDamage:         defb 0
+DoorScreen:         defb NO_SCREEN  ; Screen of the door the player goes through this frame
+DoorArriveX:        defb 0
+DoorArriveY:        defb 0
+DoorTouched:        defb 0      ; Non-zero when the player touches a door this frame
+DoorLock:           defb 0      ; Non-zero until the player steps off the door they came out at
+PlayerActor:        defw 0
+CurrentScreen:      defw 0
+CurrentScreenTiles: defw 0
+ActorCount:         defb 0
+NextBuffer:         defw 0
+SpriteSource:       defw 0
+SpriteShift:        defb 0
+TileStride:         defb 0
+BufferPointer:      defw 0
+RowBuffer:          defs 5
+CollectedItems:     defs MAX_COLLECTED*2  ; Screen, placed object index of each taken collectable
+Actors:             defs MAX_ACTORS*ACTOR_SIZE
+Shots:              defs MAX_SHOTS*ACTOR_SIZE
+Crumbles:           defs MAX_CRUMBLES*CRUMBLE_SIZE
+ActorBuffers:       defs MAX_ACTORS*ACTOR_BUFFER_SIZE
+ShotBuffers:        defs MAX_SHOTS*ACTOR_BUFFER_SIZE
+`;
+
+  return asm;
+}
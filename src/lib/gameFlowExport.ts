@@ -1,31 +1,497 @@
-import { TAPGenerator } from "./tapGenerator";
-import { type Screen, type GameFlowScreen, type Level, type Block, type GameObject, type Sprite, SPECTRUM_COLORS } from "@/types/spectrum";
-import { packBlockBank, generateBlockBankAsm } from "./blockPacker";
+import { TAPGenerator, tapDebugLog } from "./tapGenerator";
+import { TZXGenerator } from "./tzxGenerator";
+import { SnapshotGenerator } from "./snapshotGenerator";
+import { type Screen, type GameFlowScreen, type GameProject, type Level, type Block, type GameObject, type Sprite, type MusicTrack, type TargetMachine, type SoundEffect, type SoundEvents, type GameSettings, SPECTRUM_COLORS } from "@/types/spectrum";
+import { packBlockBank, generateBlockBankAsm, packBlockAttribute } from "./blockPacker";
 import { packObjectBank, generateObjectBankAsm } from "./objectPacker";
-import { packScreenBank, generateScreenBankAsm } from "./screenPacker";
+import { packScreenBank, generateScreenBankAsm, generatePackedScreenBankAsm, packScreenRecords } from "./screenPacker";
 import { packSpriteBank, generateSpriteBankAsm, createSpriteIndexMap } from "./spritePacker";
-import { getKeyMapping } from "./spectrumKeyboardMap";
+import { packSoundBank, generateSoundBankAsm } from "./soundPacker";
+import { packLevelTable, generateLevelTableAsm, type GameLevel } from "./levelPacker";
+import { generateGameEngineAsm, type FlowMenuConfig, type GameEngineConfig } from "./gameEngineAsm";
+import { generateTurboLoaderAsm } from "./turboLoaderAsm";
+import { generateMusicAsm, generateMusicPlayerAsm, AY_CHANNELS } from "./ayMusic";
+import { getPlayerAmmunition } from "./projectiles";
+import {
+  PAGE_ORIGIN, PAGE_SIZE, SPRITE_PAGE, MUSIC_PAGE, MAIN_CODE_LIMIT, INTERRUPT_TABLE,
+  layoutScreenPages, generateScreenPageAsm, generateScreenTableAsm, generatePictureTableAsm, generatePagingAsm,
+} from "./memory128";
+import { bytesToAsmDefb } from "./binaryPacker";
+import { compressBytes, generateUnpackAsm } from "./compression";
+import { planMemory48, formatMemoryMap, RAM_END, type MemoryMap } from "./memoryMap";
+import { stripUnusedAssets, type ExportAssets, type StrippedAsset } from "./assetStripping";
+import { assemble, type AssemblyResult } from "./z80Assembler";
+import type { ExportOptions, ExportResult } from "./spectrumExport";
+import { DEFAULT_ATTRIBUTE, encodeAttribute, getFrameAttributes } from "./spriteAttributes";
+
+// Engine and data banks are loaded as one CODE block here
+const CODE_START = 32768;
+
+// Screens the menu shows as pictures; loading screens are only shown while loading
+const MENU_SCREEN_TYPES: Screen["type"][] = ["title", "instructions", "controls", "scoreboard", "gameover"];
+
+// What to build for, and project data beyond the screens and banks;
+// the defaults give a silent 48K TAP
+export interface GameBuildOptions {
+  machine?: TargetMachine;
+  music?: MusicTrack;       // 128K only
+  author?: string;          // TZX archive info
+  sounds?: SoundEffect[];   // Beeper effects and the events that play them
+  soundEvents?: SoundEvents;
+  settings?: GameSettings;  // Lives, energy and the HUD
+  optimizeSize?: boolean;   // LZ pack screens, menu pictures, the loading screen and the 48K sprite bank
+}
+
+// A 128K .asm is the main source, ending at "end Start", then a section per RAM page
+export const BANKED_ASM_NOTE = "Assembling the .asm stops at end Start with the main CODE block: assemble each RAM page section after it on its own";
+
+// The assembled game: the main CODE block and, on 128K, one block per RAM page
+interface GameBuild {
+  source: string;
+  code: AssemblyResult;
+  pages: { page: number; code: AssemblyResult }[];
+}
+
+// ID -> position in the bank
+function createIndexMap(items: { id: string }[]): Map<string, number> {
+  const map = new Map<string, number>();
+  items.forEach((item, index) => {
+    map.set(item.id, index);
+  });
+  return map;
+}
+
+// Playable entries of the Game Flow in flow order: each Level, or a single game screen
+function getGameLevels(sortedFlow: GameFlowScreen[], screens: Screen[], levels: Level[]): GameLevel[] {
+  const gameLevels: GameLevel[] = [];
+  for (const flow of sortedFlow) {
+    const level = levels.find(l => l.id === (flow.levelId ?? flow.screenId));
+    const screenIds = (level ? level.screenIds : [flow.screenId])
+      .filter(id => screens.find(s => s.id === id)?.type === "game");
+    if (screenIds.length === 0) continue;
+    gameLevels.push({
+      id: level?.id ?? flow.screenId,
+      name: level?.name ?? screens.find(s => s.id === flow.screenId)?.name ?? flow.screenId,
+      screenIds,
+    });
+  }
+  return gameLevels;
+}
+
+// Game screens referenced by the Game Flow, directly or through Levels, in flow order
+// Every screen of a Level is included so the engine can flip between them
+function getUsedGameScreens(sortedFlow: GameFlowScreen[], screens: Screen[], levels: Level[]): Screen[] {
+  const usedScreenIds = getGameLevels(sortedFlow, screens, levels).flatMap(level => level.screenIds);
+  return [...new Set(usedScreenIds)].map(id => screens.find(s => s.id === id)!);
+}
+
+// The game screens the flow leads to and the assets they reach (assetStripping.ts),
+// worked out once per export and passed to everything that packs the banks
+function getExportAssets(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[]
+): ExportAssets {
+  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+  return stripUnusedAssets(getUsedGameScreens(sortedFlow, screens, levels), screens, blocks, objects, sprites);
+}
+
+// The menu the Game Flow compiles to, and the screens it shows as pictures in
+// flow order: the first title screen is the title, the first game over screen
+// is shown when the game is lost, the first controls screen picks the input
+// method, and the other pages are shown on start (autoShow) or by their access
+// keys. A Level's access key starts the game there
+// Flows without a title, pages or level keys have no menu
+function getFlowMenu(
+  sortedFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[]
+): { menu?: FlowMenuConfig; pictures: Screen[] } {
+  const gameLevels = getGameLevels(sortedFlow, screens, levels);
+  const menu: FlowMenuConfig = { autoShow: [], keys: [], marquee: "" };
+  const pictures: Screen[] = [];
+  const scrollTexts: string[] = [];
+
+  for (const flow of sortedFlow) {
+    const screen = screens.find(s => s.id === flow.screenId);
+    if (screen?.type === "loading") continue;
+    if (flow.scrollText) {
+      scrollTexts.push(flow.accessKey ? `${flow.accessKey}: ${flow.scrollText}` : flow.scrollText);
+    }
+
+    if (!flow.levelId && screen && MENU_SCREEN_TYPES.includes(screen.type)) {
+      const picture = pictures.push(screen) - 1;
+      if (screen.type === "title" && menu.title === undefined) {
+        menu.title = picture;
+        continue;
+      }
+      if (screen.type === "gameover") menu.gameOver ??= picture;
+      if (screen.type === "controls") menu.controls ??= picture;
+      if (flow.autoShow) menu.autoShow.push(picture);
+      if (flow.accessKey) menu.keys.push({ key: flow.accessKey, picture });
+      continue;
+    }
+
+    const level = gameLevels.findIndex(l => l.id === (flow.levelId ?? flow.screenId));
+    if (flow.accessKey && level >= 0) menu.keys.push({ key: flow.accessKey, level });
+  }
+
+  if (pictures.length === 0 && menu.keys.length === 0) {
+    return { pictures };
+  }
+  menu.marquee = scrollTexts.join("    ");
+  return { menu, pictures };
+}
+
+// Menu pictures in SCR layout, with the table the 48K ShowPicture reads
+function generatePictureBankAsm(pictures: number[][], packed: boolean): string {
+  let asm = `; Picture bank: menu pictures in SCR layout, ${packed ? "LZ packed" : "6912 bytes each"}\n`;
+  asm += "PictureTable:\n";
+  pictures.forEach((_, index) => {
+    asm += `    defw Picture${index}Data\n`;
+  });
+  pictures.forEach((bytes, index) => {
+    asm += "\n" + bytesToAsmDefb(bytes, `Picture${index}Data`);
+  });
+  return asm;
+}
+
+// The sprite bank on its own: its pointers are offsets, so it runs wherever it's unpacked
+function assembleSpriteBank(sprites: Sprite[]): AssemblyResult {
+  return assemble("    org 0\n" + generateSpriteBankAsm(sprites));
+}
+
+// The loading screen LZ packed after a routine that unpacks it to the display
+// and returns to BASIC, loaded and run where the game's CODE goes next
+function assemblePackedLoadingScreen(scr: number[]): AssemblyResult {
+  let asm = `    org ${CODE_START}\n`;
+  asm += "    ld hl,LoadingScreen\n";
+  asm += "    ld de,16384\n";
+  asm += "    jp Unpack\n";
+  asm += generateUnpackAsm();
+  asm += "\n" + bytesToAsmDefb(compressBytes(scr), "LoadingScreen");
+  return assemble(asm);
+}
+
+// Engine settings: player object, start position, keys, the game settings and the menu
+function getEngineConfig(
+  gameScreens: Screen[],
+  objects: GameObject[],
+  settings?: GameSettings,
+  menu?: FlowMenuConfig
+): GameEngineConfig {
+  const firstGameScreen = gameScreens[0];
+
+  // Find player starting position from placedObjects
+  const playerObject = objects.find(obj => obj.type === "player");
+  const shotObject = getPlayerAmmunition(playerObject, objects);
+  const playerPlacement = firstGameScreen?.placedObjects?.find(po => {
+    const obj = objects.find(o => o.id === po.objectId);
+    return obj?.type === "player";
+  });
+
+  return {
+    codeStart: CODE_START,
+    playerObject: playerObject ? objects.indexOf(playerObject) : 255,
+    shotObject: shotObject ? objects.indexOf(shotObject) : 255,
+    playerStartX: playerPlacement ? playerPlacement.x * 8 : 128, // Convert tile to pixel coords
+    playerStartY: playerPlacement ? playerPlacement.y * 8 : 96,
+    keyLeft: playerObject?.properties.keyLeft,
+    keyRight: playerObject?.properties.keyRight,
+    keyJump: playerObject?.properties.keyJump,
+    keyUp: playerObject?.properties.keyUp,
+    keyDown: playerObject?.properties.keyDown,
+    keyFire: playerObject?.properties.keyFire,
+    startEnergy: settings?.startEnergy,
+    lives: settings?.lives,
+    showScore: settings?.showScore,
+    showEnergy: settings?.showEnergy,
+    hudRows: settings?.hudRows,
+    maxShots: settings?.maxShots,
+    menu,
+  };
+}
 
 /**
- * Export Game Flow to TAP file with binary data banks
- * Includes loading screens, title screens, and level data using compact binary encoding
+ * Build the complete assembly source for the game: engine and data banks
+ * The TAP export assembles this source, so the .asm export reassembles to the same bytes
+ * (codeStart moves it only to plan the memory of a game too big to assemble where it loads)
  */
-export function exportGameFlowToTAP(
-  gameFlow: GameFlowScreen[],
+function buildGameSource(
+  sortedFlow: GameFlowScreen[],
   screens: Screen[],
   levels: Level[],
   blocks: Block[],
   objects: GameObject[],
   sprites: Sprite[],
-  projectName: string
-): Blob {
-  const tap = new TAPGenerator();
+  assets: ExportAssets,
+  projectName: string,
+  options: GameBuildOptions = {},
+  codeStart = CODE_START
+): string {
+  // Only pack game screens the Game Flow / Levels lead to, and the assets they
+  // reach (assets); menu pictures are drawn from every asset
+  const gameScreens = assets.screens;
 
-  // Sort game flow by order
-  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+  // Build index maps for binary encoding
+  const spriteIndexMap = createSpriteIndexMap(assets.sprites, assets.spriteAliases);
+  const blockIndexMap = createIndexMap(assets.blocks);
+  const objectIndexMap = createIndexMap(assets.objects);
 
-  // Get all screens that have pixel data
-  const validFlowScreens = sortedFlow
+  const gameLevels = getGameLevels(sortedFlow, screens, levels);
+  const levelIndexMap = createIndexMap(gameLevels);
+  const { menu, pictures } = getFlowMenu(sortedFlow, screens, levels);
+  const packed = !!options.optimizeSize;
+  const spriteBank = packed ? assembleSpriteBank(assets.sprites) : undefined;
+  const screenRecords = packScreenRecords(gameScreens, blockIndexMap, objectIndexMap, assets.objects, levelIndexMap);
+
+  let asm = `; ${projectName} - ZX Spectrum Game\n`;
+  asm += `; Engine and binary data banks, loaded at ${CODE_START}\n\n`;
+
+  asm += generateGameEngineAsm({ ...getEngineConfig(gameScreens, assets.objects, options.settings, menu), codeStart, packed });
+  asm += "\n\n";
+  if (spriteBank) {
+    asm += "; Sprite bank, LZ packed: unpacked to SpriteBank above the code at Start\n";
+    asm += bytesToAsmDefb(compressBytes(spriteBank.bytes), "SpriteBankPacked");
+  } else {
+    asm += generateSpriteBankAsm(assets.sprites);
+  }
+  asm += "\n\n";
+  asm += generateBlockBankAsm(assets.blocks, spriteIndexMap);
+  asm += "\n\n";
+  asm += generateObjectBankAsm(assets.objects, spriteIndexMap, levelIndexMap);
+  asm += "\n\n";
+  asm += generateSoundBankAsm(options.sounds ?? [], options.soundEvents ?? {});
+  asm += "\n\n";
+  asm += generateLevelTableAsm(gameLevels, createIndexMap(gameScreens), gameScreens, assets.objects);
+  asm += "\n\n";
+  asm += packed
+    ? generatePackedScreenBankAsm(screenRecords.map(compressBytes), gameScreens.map(screen => screen.name))
+    : generateScreenBankAsm(gameScreens, blockIndexMap, objectIndexMap, assets.objects, levelIndexMap);
+  if (menu) {
+    const scrs = pictures.map(screen => encodeScreenToSCR(screen, blocks, objects, sprites));
+    asm += "\n\n";
+    asm += generatePictureBankAsm(packed ? scrs.map(compressBytes) : scrs, packed);
+  }
+  asm += "\nCodeEnd:\n";
+  if (spriteBank) {
+    asm += "\n; Unpacked above the code: the sprite bank, and the current screen\n";
+    asm += `${"SpriteBank".padEnd(20)} equ CodeEnd\n`;
+    for (const label of ["SpriteMetadataPtrs", "SpritePixelPtrs", "SpriteCollisionPtrs"]) {
+      asm += `${label.padEnd(20)} equ SpriteBank+${spriteBank.symbols.get(label) ?? 0}\n`;
+    }
+    asm += `${"ScreenBuffer".padEnd(20)} equ SpriteBank+${spriteBank.bytes.length}\n`;
+    asm += `${"FreeRam".padEnd(20)} equ ScreenBuffer+${Math.max(1, ...screenRecords.map(record => record.length))}`;
+  } else {
+    asm += `${"FreeRam".padEnd(20)} equ CodeEnd`;
+  }
+  asm += "  ; The frame interrupt's vector table is built above here\n";
+  asm += "    end Start\n";
+
+  return asm;
+}
+
+/**
+ * Build a 128K game: the engine, block and object banks in bank 2 as on 48K,
+ * with the sprite bank, screens and music assembled into RAM pages of their
+ * own (memory128.ts). The .asm holds the main source, then each page's source
+ */
+function buildBankedGame(
+  sortedFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  assets: ExportAssets,
+  projectName: string,
+  options: GameBuildOptions
+): GameBuild {
+  // A tune with every channel empty is no music: no interrupt, no music page
+  const track = options.music;
+  const music = track?.channels.some(notes => notes.trim()) ? track : undefined;
+  const gameScreens = assets.screens;
+  const spriteIndexMap = createSpriteIndexMap(assets.sprites, assets.spriteAliases);
+  const blockIndexMap = createIndexMap(assets.blocks);
+  const objectIndexMap = createIndexMap(assets.objects);
+  const gameLevels = getGameLevels(sortedFlow, screens, levels);
+  const levelIndexMap = createIndexMap(gameLevels);
+  const { menu, pictures } = getFlowMenu(sortedFlow, screens, levels);
+  // Packed, screens and pictures are unpacked out of their pages; the sprite page stays as it is
+  const packed = !!options.optimizeSize;
+  const pack = (bytes: ArrayLike<number>) => Uint8Array.from(packed ? compressBytes(bytes) : Array.from(bytes));
+
+  // Menu pictures go in the screen pages after the screens
+  const screenRecords = packScreenRecords(gameScreens, blockIndexMap, objectIndexMap, assets.objects, levelIndexMap);
+  const { pages: screenPages, placements: allPlacements } = layoutScreenPages([
+    ...screenRecords.map((bytes, index) => ({ label: `Screen${index}Data`, bytes: pack(bytes) })),
+    ...(menu ? pictures : []).map((screen, index) => ({
+      label: `Picture${index}Data`,
+      bytes: pack(encodeScreenToSCR(screen, blocks, objects, sprites)),
+    })),
+  ]);
+  const placements = allPlacements.slice(0, screenRecords.length);
+  const pageSources = [
+    {
+      page: SPRITE_PAGE,
+      source: `; ===== SPRITES (RAM page ${SPRITE_PAGE}) =====\n    org ${PAGE_ORIGIN}\n\n` + generateSpriteBankAsm(assets.sprites),
+    },
+    ...screenPages.map(page => ({ page: page.page, source: generateScreenPageAsm(page) })),
+  ];
+  if (music) {
+    pageSources.push({ page: MUSIC_PAGE, source: generateMusicAsm(music, PAGE_ORIGIN) });
+  }
+
+  const pages = pageSources.map(({ page, source }) => {
+    const code = assemble(source);
+    if (code.bytes.length > PAGE_SIZE) {
+      throw new Error(`RAM page ${page} holds ${PAGE_SIZE} bytes, its data is ${code.bytes.length}`);
+    }
+    return { page, code };
+  });
+  const spriteSymbols = pages[0].code.symbols;
+  const symbol = (symbols: Map<string, number>, label: string) => symbols.get(label) ?? PAGE_ORIGIN;
+
+  let asm = `; ${projectName} - ZX Spectrum Game (128K)\n`;
+  asm += `; Engine, block and object banks, loaded at ${CODE_START}; sprites, screens\n`;
+  asm += "; and music are in RAM pages. Assembling this file stops at end Start with the\n";
+  asm += "; main block: assemble each RAM page section after it on its own\n\n";
+
+  asm += generateGameEngineAsm({
+    ...getEngineConfig(gameScreens, assets.objects, options.settings, menu),
+    banked: true,
+    interruptTable: INTERRUPT_TABLE,
+    music: !!music,
+    packed,
+  });
+  asm += "\n\n";
+  asm += `; Sprite bank (RAM page ${SPRITE_PAGE})\n`;
+  for (const label of ["SpriteBank", "SpriteMetadataPtrs", "SpritePixelPtrs", "SpriteCollisionPtrs"]) {
+    asm += `${label.padEnd(20)} equ ${symbol(spriteSymbols, label)}\n`;
+  }
+  asm += "\n";
+  asm += generatePagingAsm(!!music, !!menu, packed);
+  if (music) {
+    const musicSymbols = pages[pages.length - 1].code.symbols;
+    const channelStarts = Array.from({ length: AY_CHANNELS }, (_, i) => symbol(musicSymbols, `MusicChannel${i}`));
+    asm += "\n\n";
+    asm += generateMusicPlayerAsm(music.tempo, channelStarts);
+  }
+  asm += "\n\n";
+  asm += generateBlockBankAsm(assets.blocks, spriteIndexMap);
+  asm += "\n\n";
+  asm += generateObjectBankAsm(assets.objects, spriteIndexMap, levelIndexMap);
+  asm += "\n\n";
+  asm += generateSoundBankAsm(options.sounds ?? [], options.soundEvents ?? {});
+  asm += "\n\n";
+  asm += generateLevelTableAsm(gameLevels, createIndexMap(gameScreens), gameScreens, assets.objects);
+  asm += "\n\n";
+  asm += generateScreenTableAsm(placements, Math.max(1, ...screenRecords.map(record => record.length)));
+  if (menu) {
+    asm += "\n";
+    asm += generatePictureTableAsm(allPlacements.slice(screenRecords.length));
+  }
+  asm += "\n    end Start\n";
+
+  const code = assemble(asm);
+  const codeEnd = code.origin + code.bytes.length;
+  if (codeEnd > MAIN_CODE_LIMIT) {
+    throw new Error(`The 128K engine and banks end at ${codeEnd}, past the interrupt table at ${MAIN_CODE_LIMIT}`);
+  }
+
+  const source = [
+    asm,
+    ...pageSources.map(({ page, source }) =>
+      `\n; ----- Assemble separately, load with RAM page ${page} at ${PAGE_ORIGIN} -----\n\n${source}`
+    ),
+  ].join("");
+
+  return { source, code, pages };
+}
+
+// The 48K game's source and memory map, and its code when it assembles
+// A game past the top of RAM has addresses that don't fit in a word or wrap
+// round, so it's planned from a copy assembled at 0 instead; one that fails there the same
+// way has an error of its own, and one that fails differently is past 64K
+function planGame48K(
+  sortedFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  assets: ExportAssets,
+  projectName: string,
+  options: GameBuildOptions
+): { source: string; code?: AssemblyResult; memoryMap: MemoryMap } {
+  const source = buildGameSource(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  try {
+    const code = assemble(source);
+    // Addresses wrap at 0xFFFF, so a CODE block past the top of RAM assembles
+    // with its later labels wrapped round to the bottom: plan it as one too big
+    const codeEnd = code.origin + code.bytes.length;
+    if (codeEnd > RAM_END) {
+      throw new Error(`The engine and banks run ${codeEnd - RAM_END} bytes past the top of RAM`);
+    }
+    return { source, code, memoryMap: planMemory48(code) };
+  } catch (error) {
+    let memoryMap: MemoryMap;
+    try {
+      const relocated = assemble(buildGameSource(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options, 0));
+      memoryMap = planMemory48(relocated, CODE_START);
+    } catch (relocatedError) {
+      if (String(relocatedError) === String(error)) throw error;
+      throw new Error(`The engine and banks come to more than 64K, and 48K has ${RAM_END - CODE_START} bytes for them`);
+    }
+    if (memoryMap.overflow === 0) throw error;
+    return { source, memoryMap };
+  }
+}
+
+// Assemble the 48K game, checking that it, what it unpacks and its interrupt
+// table fit under the top of RAM; one that doesn't would crash once loaded
+function assembleGame48K(
+  sortedFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  assets: ExportAssets,
+  projectName: string,
+  options: GameBuildOptions
+): { source: string; code: AssemblyResult } {
+  const { source, code, memoryMap } = planGame48K(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  if (!code || memoryMap.overflow > 0) {
+    throw new Error(`The game needs ${memoryMap.overflow} bytes more than the 48K RAM has:\n${formatMemoryMap(memoryMap)}`);
+  }
+  return { source, code };
+}
+
+// The game for the chosen machine; 48K is one CODE block and no pages
+function buildGame(
+  sortedFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  assets: ExportAssets,
+  projectName: string,
+  options: GameBuildOptions
+): GameBuild {
+  if (options.machine === "128k") {
+    return buildBankedGame(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  }
+  return { ...assembleGame48K(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options), pages: [] };
+}
+
+// Screens in flow order; a Level entry stands for its first screen
+function getFlowScreens(sortedFlow: GameFlowScreen[], screens: Screen[], levels: Level[]): Screen[] {
+  return sortedFlow
     .map(flow => {
       const screen = screens.find(s => s.id === flow.screenId);
       // For levels, find the level and get its first screen
@@ -38,1405 +504,365 @@ export function exportGameFlowToTAP(
       return screen;
     })
     .filter((screen): screen is Screen => !!screen);
+}
+
+/**
+ * Lay out the TAP: BASIC loader, loading screen and the assembled CODE block,
+ * then on 128K one CODE block per RAM page
+ * The build is returned too (undefined when the flow has no screens)
+ */
+function buildGameFlowTAP(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  assets: ExportAssets,
+  projectName: string,
+  options: GameBuildOptions = {}
+): { tap: TAPGenerator; build?: GameBuild } {
+  const tap = new TAPGenerator();
+
+  // Sort game flow by order
+  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+
+  // Get all screens that have pixel data
+  const validFlowScreens = getFlowScreens(sortedFlow, screens, levels);
 
   if (validFlowScreens.length === 0) {
-    return tap.toBlob();
+    return { tap };
   }
 
-  // Use first valid screen as loading screen
-  const loadingScreen = validFlowScreens[0];
-  const loadingScr = encodeScreenToSCR(loadingScreen, blocks, objects, sprites);
+  // Assemble engine + banks + background into one continuous block
+  const build = buildGame(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  const { code, pages } = build;
 
-  // Build index maps for binary encoding
-  const spriteIndexMap = createSpriteIndexMap(sprites);
-  const blockIndexMap = new Map<string, number>();
-  blocks.forEach((block, index) => {
-    blockIndexMap.set(block.id, index);
-  });
-  const objectIndexMap = new Map<string, number>();
-  objects.forEach((obj, index) => {
-    objectIndexMap.set(obj.id, index);
-  });
+  // The first flow screen is shown while the code loads (LOAD "" SCREEN$, or
+  // packed, LOAD "" CODE and a USR call to unpack it)
+  const loadingScreen = encodeScreenToSCR(validFlowScreens[0], blocks, objects, sprites);
+  const packedScreen = options.optimizeSize ? assemblePackedLoadingScreen(loadingScreen) : undefined;
+  if (pages.length > 0) {
+    tap.addBasicLoader128(pages.map(({ page }) => page), code.origin, packedScreen?.origin);
+  } else if (packedScreen) {
+    tap.addBasicLoaderWithPackedScreen(packedScreen.origin, code.origin);
+  } else {
+    tap.addBasicLoaderWithScreen(code.bytes.length, code.origin);
+  }
+  if (packedScreen) {
+    tap.addHeader(projectName, packedScreen.bytes.length, packedScreen.origin);
+    tap.addDataBlock(packedScreen.bytes);
+  } else {
+    tap.addHeader(projectName, 6912, 16384);
+    tap.addDataBlock(loadingScreen);
+  }
 
-  // Pack all data banks to binary format
-  const spriteBank = packSpriteBank(sprites);
-  const blockBank = packBlockBank(blocks, spriteIndexMap);
-  const objectBank = packObjectBank(objects, spriteIndexMap);
+  // Add single combined CODE block (engine + all data banks)
+  const codeName = "Level     ";
+  tap.addHeader(codeName, code.bytes.length, code.origin);
+  tap.addDataBlock(code.bytes);
 
-  // Only pack game screens that are actually used in the Game Flow / Levels
-  const usedScreenIds = new Set<string>();
-  for (const flow of sortedFlow) {
-    const directScreen = screens.find(s => s.id === flow.screenId);
-    if (directScreen) {
-      if (directScreen.type === "game") {
-        usedScreenIds.add(directScreen.id);
-      }
-    } else {
-      const level = levels.find(l => l.id === flow.screenId);
-      if (level) {
-        for (const sid of level.screenIds) {
-          usedScreenIds.add(sid);
-        }
-      }
-    }
+  // RAM pages, in the order the loader pages them in
+  for (const { page, code: pageCode } of pages) {
+    tap.addHeader(`Page ${page}`, pageCode.bytes.length, pageCode.origin);
+    tap.addDataBlock(pageCode.bytes);
   }
-  const gameScreens = screens.filter(s => s.type === "game" && usedScreenIds.has(s.id));
-  const screenBank = packScreenBank(gameScreens, blockIndexMap, objectIndexMap, objects);
-  
-  // For Phase 5a: use the first game/level screen as background and extract player starting position
-  const firstGameScreen = gameScreens[0];
-  const testBackgroundScr = firstGameScreen ? encodeScreenToSCR(firstGameScreen, blocks, objects, sprites) : loadingScr;
-  
-  // Find player starting position from placedObjects
-  const playerPlacement = firstGameScreen?.placedObjects?.find(po => {
-    const obj = objects.find(o => o.id === po.objectId);
-    return obj?.type === "player";
+
+  return { tap, build };
+}
+
+/**
+ * Lay out the TZX: archive info, then the BASIC loader, loading screen and
+ * turbo loader at standard speed, then the CODE block as a turbo data block
+ * The CODE block is the same as the TAP's; only the way it is loaded differs
+ * 128K builds load their pages from BASIC, so their TZX is the TAP at standard speed
+ */
+function buildGameFlowTZX(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  assets: ExportAssets,
+  projectName: string,
+  options: GameBuildOptions = {}
+): TZXGenerator {
+  const banked = options.machine === "128k";
+  const tzx = new TZXGenerator();
+  tzx.addArchiveInfo({
+    title: projectName,
+    author: options.author,
+    year: String(new Date().getFullYear()),
+    loader: banked ? "Standard" : "Turbo",
+    comment: "Made with ZX Spectrum Designer",
   });
-  const playerStartX = playerPlacement ? playerPlacement.x * 8 : 128; // Convert tile to pixel coords
-  const playerStartY = playerPlacement ? playerPlacement.y * 8 : 96;
-  // PHASE 5a: Position tracking with attribute visual feedback (FIXED - uses memory variables)
-  const engine = [
-    // Copy background screen to video memory
-    0x21, 0x00, 0x00,     // LD HL, bgScreenAddr (patched at indices 1-2)
-    0x11, 0x00, 0x40,     // LD DE, 0x4000
-    0x01, 0x00, 0x1B,     // LD BC, 6912
-    0xED, 0xB0,           // LDIR
-    
-    // Set border to black
-    0x3E, 0x00,           // LD A, 0
-    0xD3, 0xFE,           // OUT (254), A
-    
-    // Main loop (infinite) - main_loop starts at index 11
-    // Read keyboard (Q/W keys)
-    0x01, 0xFE, 0xFB,     // LD BC, 0xFBFE (port for Q/W/E/R/T row)
-    0xED, 0x78,           // IN A, (C) - read keyboard
-    0x47,                 // LD B, A - save key state in B
-    
-    // Load current player_x from memory
-    0x3A, 0x00, 0x00,     // LD A, (player_x_addr) - patched at indices 18-19
-    
-    // Check Q key (bit 0, inverted logic - 0 = pressed)
-    0xCB, 0x40,           // BIT 0, B (Q key)
-    0x20, 0x0D,           // JR NZ, +13 (skip move left, check W)
-    // Move left: player_x -= 3
-    0xD6, 0x03,           // SUB 3
-    0xFE, 0x00,           // CP 0 (check if wrapped negative)
-    0x30, 0x02,           // JR NC, +2 (skip wrap)
-    0x3E, 0xF8,           // LD A, 248 (wrap to right edge)
-    // Store updated player_x back to memory
-    0x32, 0x00, 0x00,     // LD (player_x_addr), A - patched at indices 31-32
-    0x18, 0x15,           // JR +21 (skip to visual feedback)
-    
-    // check_w: Check W key (bit 1)
-    0xCB, 0x48,           // BIT 1, B (W key)
-    0x20, 0x0B,           // JR NZ, +11 (skip move right, use current value)
-    // Move right: player_x += 3
-    0xC6, 0x03,           // ADD 3
-    0xFE, 0xF9,           // CP 249 (check if >= 249)
-    0x38, 0x02,           // JR C, +2 (skip wrap)
-    0x3E, 0x00,           // LD A, 0 (wrap to left edge)
-    // Store updated player_x back to memory
-    0x32, 0x00, 0x00,     // LD (player_x_addr), A - patched at indices 45-46
-    
-    // Visual feedback: calculate attribute address and draw bright white square
-    // Load player_x and player_y from memory
-    0x3A, 0x00, 0x00,     // LD A, (player_x_addr) - patched at indices 49-50
-    // Calculate tile_x = player_x / 8
-    0x0F,                 // RRCA (divide by 2)
-    0x0F,                 // RRCA
-    0x0F,                 // RRCA
-    0xE6, 0x1F,           // AND 0x1F (mask to 0-31)
-    0x5F,                 // LD E, A (tile_x in E)
-    
-    // Load player_y from memory
-    0x3A, 0x00, 0x00,     // LD A, (player_y_addr) - patched at indices 58-59
-    // Calculate tile_y = player_y / 8
-    0x0F,                 // RRCA
-    0x0F,                 // RRCA
-    0x0F,                 // RRCA
-    0xE6, 0x1F,           // AND 0x1F (mask to 0-31)
-    
-    // Calculate attribute offset: tile_y * 32 + tile_x
-    0x07,                 // RLCA (shift left)
-    0x07,                 // RLCA
-    0x07,                 // RLCA
-    0x07,                 // RLCA
-    0x07,                 // RLCA (tile_y * 32)
-    0x83,                 // ADD A, E (add tile_x)
-    0x5F,                 // LD E, A (offset in E)
-    0x16, 0x58,           // LD D, 0x58 (attribute base = 0x5800)
-    
-    // Write bright white attribute
-    0x3E, 0x47,           // LD A, 0x47 (BRIGHT 1, PAPER 0, INK 7)
-    0x12,                 // LD (DE), A
-    
-    // Delay loop (frame rate control)
-    0x06, 0x10,           // LD B, 16 (outer loop counter)
-    // outer_delay:
-    0x11, 0x00, 0x10,     // LD DE, 0x1000 (inner loop counter)
-    // inner_delay:
-    0x1B,                 // DEC DE
-    0x7A,                 // LD A, D
-    0xB3,                 // OR E
-    0x20, 0xFB,           // JR NZ, inner_delay (-5)
-    0x10, 0xF7,           // DJNZ outer_delay (-9)
-    
-    // Loop back to main loop
-    0x18, 0xB2,           // JR main_loop (back to index 11)
-    
-    // Memory variables (patched with starting position)
-    0x00,                 // player_x (patched)
-    0x00                  // player_y (patched)
-  ];
-  const engineSize = engine.length;
-
-  // Calculate memory layout - everything in one continuous block
-  const codeStart = 32768;
-  const spriteBankAddr = codeStart + engineSize;
-  const blockBankAddr = spriteBankAddr + spriteBank.length;
-  const objectBankAddr = blockBankAddr + blockBank.length;
-  const screenBankAddr = objectBankAddr + objectBank.length;
-  const bgScreenAddr = screenBankAddr + screenBank.length;
-  
-  // Patch bgScreenAddr into LD HL instruction at indices 1-2
-  const bgAddrLow = bgScreenAddr & 0xFF;
-  const bgAddrHigh = (bgScreenAddr >> 8) & 0xFF;
-  engine[1] = bgAddrLow;  // Low byte of LD HL address
-  engine[2] = bgAddrHigh; // High byte of LD HL address
-  
-  // Patch memory variable addresses
-  // player_x and player_y are the last 2 bytes of the engine
-  const playerXAddr = codeStart + engine.length - 2;
-  const playerYAddr = codeStart + engine.length - 1;
-  
-  // Patch all LD A, (player_x_addr) instructions (CORRECTED INDICES)
-  engine[22] = playerXAddr & 0xFF;  // First LD A, (player_x_addr) at index 21-23
-  engine[23] = (playerXAddr >> 8) & 0xFF;
-  engine[57] = playerXAddr & 0xFF;  // Second LD A, (player_x_addr) at index 56-58
-  engine[58] = (playerXAddr >> 8) & 0xFF;
-  
-  // Patch all LD (player_x_addr), A instructions (CORRECTED INDICES)
-  engine[37] = playerXAddr & 0xFF;  // First LD (player_x_addr), A at index 36-38
-  engine[38] = (playerXAddr >> 8) & 0xFF;
-  engine[54] = playerXAddr & 0xFF;  // Second LD (player_x_addr), A at index 53-55
-  engine[55] = (playerXAddr >> 8) & 0xFF;
-  
-  // Patch all LD A, (player_y_addr) instructions (CORRECTED INDICES)
-  engine[66] = playerYAddr & 0xFF;  // LD A, (player_y_addr) at index 65-67
-  engine[67] = (playerYAddr >> 8) & 0xFF;
-  
-  // Patch player starting position (last 2 bytes of engine)
-  engine[engine.length - 2] = playerStartX & 0xFF;
-  engine[engine.length - 1] = playerStartY & 0xFF;
-
-  // Combine all data into one continuous block
-  const combinedCode = [
-    ...engine,
-    ...Array.from(spriteBank),
-    ...Array.from(blockBank),
-    ...Array.from(objectBank),
-    ...Array.from(screenBank),
-    ...Array.from(testBackgroundScr)  // Use first game screen for Phase 3 testing
-  ];
 
-  // TAP debug logging is performed after building the BASIC program and TAP blocks below.
+  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+  const validFlowScreens = getFlowScreens(sortedFlow, screens, levels);
+  if (validFlowScreens.length === 0) {
+    return tzx;
+  }
 
-  // DIAGNOSTIC TEST: BASIC loader with CODE block (NO SCREEN$)
-  // This tests if adding CODE blocks breaks the TAP
-  tap.addBasicLoader(combinedCode.length, codeStart);
+  if (banked) {
+    const { tap } = buildGameFlowTAP(gameFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+    tzx.addTAP(tap.generate());
+    return tzx;
+  }
 
-  // SCREEN$ block disabled for diagnostic testing
-  // const loadingName = projectName.substring(0, 10).padEnd(10, " ");
-  // tap.addHeader(loadingName, 6912, 16384);
-  // tap.addDataBlock(loadingScr);
+  const { code } = assembleGame48K(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  const loader = assemble(generateTurboLoaderAsm({ target: code.origin, length: code.bytes.length }));
 
-  // Add single combined CODE block (engine + all data banks)
-  const codeName = "Level     ";
-  tap.addHeader(codeName, combinedCode.length, codeStart);
-  tap.addDataBlock(combinedCode);
+  // LOAD "" SCREEN$ and LOAD "" CODE fetch the screen and the turbo loader,
+  // and RANDOMIZE USR runs the loader instead of the game
+  const standard = new TAPGenerator();
+  const loadingScreen = encodeScreenToSCR(validFlowScreens[0], blocks, objects, sprites);
+  if (options.optimizeSize) {
+    const packedScreen = assemblePackedLoadingScreen(loadingScreen);
+    standard.addBasicLoaderWithPackedScreen(packedScreen.origin, loader.origin);
+    standard.addHeader(projectName, packedScreen.bytes.length, packedScreen.origin);
+    standard.addDataBlock(packedScreen.bytes);
+  } else {
+    standard.addBasicLoaderWithScreen(loader.bytes.length, loader.origin);
+    standard.addHeader(projectName, 6912, 16384);
+    standard.addDataBlock(loadingScreen);
+  }
+  standard.addHeader("Loader    ", loader.bytes.length, loader.origin);
+  standard.addDataBlock(loader.bytes);
 
-  console.log("[TAP DEBUG] Final TAP layout", {
-    blocksOrder: "PHASE 3 TEST: Border loop, then LDIR screen copy, then return to BASIC",
-    codeStart,
-    engineSize: engine.length,
-    engineContents: "Border loop + LDIR screen copy + Keyboard test (Q=red, W=green border)",
-    bgScreenAddr: `0x${bgScreenAddr.toString(16)} (patched at engine[17-18])`,
-    bgScreenDataSize: testBackgroundScr.length,
-    backgroundScreenUsed: firstGameScreen ? `Level screen: ${firstGameScreen.name}` : "Loading screen (fallback)",
-    spriteBankSize: spriteBank.length,
-    blockBankSize: blockBank.length,
-    objectBankSize: objectBank.length,
-    screenBankSize: screenBank.length,
-    combinedCodeLength: combinedCode.length,
-    headerLength: combinedCode.length,
-    tapDataLengthFlagPlusPayload: combinedCode.length + 1,
-    clearLine: 32767,
-  });
+  tzx.addTextDescription("Loader and loading screen");
+  tzx.addTAP(standard.generate());
+  tzx.addTextDescription("Game code (turbo)");
+  tzx.addTurboBlock([0xff, ...code.bytes]);
 
-  tap.debugDump();
+  return tzx;
+}
 
-  return tap.toBlob();
+/**
+ * Lay out a 48K snapshot: the loading screen in the display file, engine and
+ * banks at their load address, and the registers of a USR call to the engine
+ * Snapshots are always of the 48K build, whatever the export target
+ */
+function buildGameSnapshot(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  assets: ExportAssets,
+  projectName: string,
+  options: GameBuildOptions = {}
+): SnapshotGenerator {
+  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+  const validFlowScreens = getFlowScreens(sortedFlow, screens, levels);
+  if (validFlowScreens.length === 0) {
+    throw new Error("The Game Flow has no screens to export");
+  }
+
+  const { code } = assembleGame48K(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+
+  const snapshot = new SnapshotGenerator();
+  snapshot.load(16384, encodeScreenToSCR(validFlowScreens[0], blocks, objects, sprites));
+  snapshot.load(code.origin, code.bytes);
+
+  // Stack below the code as after CLEAR, with a return into the ROM's reset
+  // since there is no BASIC program to go back to
+  snapshot.registers.sp = code.origin;
+  snapshot.push(0x0000);
+  snapshot.registers.pc = code.symbols.get("Start") ?? code.origin;
+  snapshot.registers.border = 0;
+
+  return snapshot;
 }
 
 /**
- * Create Z80 game engine that reads binary data banks
- * This version reads from the binary tables instead of embedding SCR data
+ * Plan the 48K memory map of the game (memoryMap.ts), whether or not it fits
+ * Undefined when the Game Flow has no screens to build
  */
-function createBinaryGameEngine(
-  spriteBankAddr: number,
-  blockBankAddr: number,
-  objectBankAddr: number,
-  screenBankAddr: number,
-  bgScreenAddr: number,
-  targetScreen: Screen,
+export function planGameFlowMemory(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  projectName: string,
+  options: GameBuildOptions = {}
+): MemoryMap | undefined {
+  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+  if (getFlowScreens(sortedFlow, screens, levels).length === 0) {
+    return undefined;
+  }
+  const assets = getExportAssets(sortedFlow, screens, levels, blocks, objects, sprites);
+  return planGame48K(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options).memoryMap;
+}
+
+// The assets the export leaves out of the banks: unused, or the same as one kept
+export function getStrippedGameFlowAssets(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
   blocks: Block[],
   objects: GameObject[],
   sprites: Sprite[]
-): number[] {
-  const engine: number[] = [];
-
-  // ===== INITIALIZATION =====
-  
-  // Clear screen memory (pixel area)
-  engine.push(0x21, 0x00, 0x40);  // LD HL, 16384
-  engine.push(0x11, 0x01, 0x40);  // LD DE, 16385
-  engine.push(0x01, 0xff, 0x17);  // LD BC, 6143
-  engine.push(0x36, 0x00);        // LD (HL), 0
-  engine.push(0xed, 0xb0);        // LDIR
-
-  // Set attributes (white INK on black PAPER, BRIGHT)
-  engine.push(0x21, 0x00, 0x58);  // LD HL, 22528
-  engine.push(0x11, 0x01, 0x58);  // LD DE, 22529
-  engine.push(0x01, 0xff, 0x02);  // LD BC, 767
-  engine.push(0x36, 0x47);        // LD (HL), 71 (BRIGHT 1, PAPER 0, INK 7)
-  engine.push(0xed, 0xb0);        // LDIR
-
-  // Set border to black
-  engine.push(0x3e, 0x00);        // LD A, 0
-  engine.push(0xd3, 0xfe);        // OUT (254), A
-
-  // ===== RENDER SCREEN FROM BINARY DATA =====
-  
-  // Find target screen in screen bank
-  // For now, render first screen (screenId at offset 0)
-  // Screen bank format: pointer_table(2) + screen0_data
-  // Screen data: width(1) height(1) tiles[width*height] objects[]
-  
-  // Load screen bank address
-  engine.push(0x21);              // LD HL, screenBankAddr
-  const screenBankAddrIdx = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Skip pointer table (2 bytes) to get to first screen data
-  engine.push(0x23, 0x23);        // INC HL, INC HL
-  
-  // Read screen width (1 byte) into D
-  engine.push(0x56);              // LD D, (HL)
-  engine.push(0x23);              // INC HL
-  
-  // Read screen height (1 byte) into E
-  engine.push(0x5e);              // LD E, (HL)
-  engine.push(0x23);              // INC HL
-  
-  // Set tile count to 768 (32 * 24 = 0x0300) in BC
-  engine.push(0x01, 0x00, 0x03);  // LD BC, 768
-  
-  // Now HL points to first tile byte
-  // Tile format: flat array of 1-byte block indices
-  // Position (x, y) derived from index: x = index % 32, y = index / 32
-  
-  // Initialize tile position counter: D'E' will track current X,Y
-  engine.push(0xd9);              // EXX (switch to alternate registers)
-  engine.push(0x16, 0x00);        // LD D', 0 (tile X counter)
-  engine.push(0x1e, 0x00);        // LD E', 0 (tile Y counter)
-  engine.push(0xd9);              // EXX (back to main registers)
-  
-  // ===== TILE RENDERING LOOP =====
-  const tileLoopStart = 32768 + engine.length;
-  
-  // Check if BC == 0 (no more tiles)
-  engine.push(0x78);              // LD A, B
-  engine.push(0xb1);              // OR C
-  const jzToPlayerSetup = engine.length;
-  engine.push(0x28, 0x00);        // JR Z, player_setup (placeholder)
-  
-  // Read block index (1 byte) from current tile position
-  engine.push(0x7e);              // LD A, (HL)
-  engine.push(0x23);              // INC HL (advance to next tile)
-  
-  // Save tile counter BC and data pointer HL
-  engine.push(0xc5);              // PUSH BC
-  engine.push(0xe5);              // PUSH HL
-  
-  // Get current tile X,Y position from alternate registers
-  engine.push(0xd9);              // EXX
-  engine.push(0x7a);              // LD A, D' (tile X)
-  engine.push(0x47);              // LD B, A
-  engine.push(0x7b);              // LD A, E' (tile Y)
-  engine.push(0x4f);              // LD C, A
-  engine.push(0xd9);              // EXX
-  // Now B = tile X (0-31), C = tile Y (0-23)
-  
-  // Save block index in A to D register
-  engine.push(0x57);              // LD D, A
-  
-  // Extend block index from A (8-bit) to HL (16-bit)
-  engine.push(0x6f);              // LD L, A
-  engine.push(0x26, 0x00);        // LD H, 0
-  
-  // Look up block in block bank
-  // Block bank format: blockCount(2) + blocks[]
-  // Each block: type(1) spriteIndex(2) propsOffset(2) = 5 bytes per block
-  
-  // Calculate block address: blockBankAddr + 2 + (blockIndex * 5)
-  // First multiply HL by 5
-  engine.push(0x29);              // ADD HL, HL  (HL = blockIndex * 2)
-  engine.push(0x54);              // LD D, H
-  engine.push(0x5d);              // LD E, L     (DE = blockIndex * 2)
-  engine.push(0x29);              // ADD HL, HL  (HL = blockIndex * 4)
-  engine.push(0x19);              // ADD HL, DE  (HL = blockIndex * 5)
-  
-  // Add block bank base address + 2
-  engine.push(0x11);              // LD DE, blockBankAddr + 2
-  const blockBankAddrIdx = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x19);              // ADD HL, DE
-  
-  // Skip block type (1 byte)
-  engine.push(0x23);              // INC HL
-  
-  // Read sprite index into DE
-  engine.push(0x5e);              // LD E, (HL)
-  engine.push(0x23);              // INC HL
-  engine.push(0x56);              // LD D, (HL)
-  
-  // Look up sprite in sprite bank
-  // Sprite bank format: spriteCount(2) + sprites[]
-  // Each sprite: width(1) height(1) frameCount(2) frameDataOffset(2) collisionBox(4) = 10 bytes per sprite
-  
-  // Calculate sprite address: spriteBankAddr + 2 + (spriteIndex * 10)
-  engine.push(0xeb);              // EX DE, HL   (HL = spriteIndex)
-  
-  // Multiply by 10: HL * 8 + HL * 2
-  engine.push(0x29);              // ADD HL, HL  (HL * 2)
-  engine.push(0x54);              // LD D, H
-  engine.push(0x5d);              // LD E, L     (DE = spriteIndex * 2)
-  engine.push(0x29);              // ADD HL, HL  (HL * 4)
-  engine.push(0x29);              // ADD HL, HL  (HL * 8)
-  engine.push(0x19);              // ADD HL, DE  (HL * 10)
-  
-  // Add sprite bank base address + 2
-  engine.push(0x11);              // LD DE, spriteBankAddr + 2
-  const spriteBankAddrIdx = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x19);              // ADD HL, DE
-  
-  // Read sprite width
-  engine.push(0x7e);              // LD A, (HL)
-  engine.push(0x23);              // INC HL
-  engine.push(0x32);              // LD (spriteWidth), A
-  const spriteWidthAddr = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Read sprite height
-  engine.push(0x7e);              // LD A, (HL)
-  engine.push(0x23);              // INC HL
-  engine.push(0x32);              // LD (spriteHeight), A
-  const spriteHeightAddr = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Skip frame count (2 bytes)
-  engine.push(0x23, 0x23);        // INC HL, INC HL
-  
-  // Read frame data offset into HL
-  engine.push(0x5e);              // LD E, (HL)
-  engine.push(0x23);              // INC HL
-  engine.push(0x56);              // LD D, (HL)
-  engine.push(0xeb);              // EX DE, HL   (HL = frame data offset)
-  
-  // Add sprite bank base to get absolute address
-  engine.push(0x11);              // LD DE, spriteBankAddr
-  const spriteBankAddrIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x19);              // ADD HL, DE  (HL = frame pixel data)
-  
-  // Now render the 8x8 sprite at tile position
-  // Pop tile X, Y from stack (currently in D, E from earlier)
-  engine.push(0xd1);              // POP DE (restore original IX)
-  engine.push(0xd1);              // POP DE (now DE has correct IX value)
-  engine.push(0xdd, 0xe1);        // POP IX
-  engine.push(0xc1);              // POP BC
-  
-  // For simplicity, just draw a white 8x8 block at the tile position
-  // TODO: Implement proper sprite pixel rendering
-  // This is a placeholder that draws white blocks for non-empty tiles
-  
-  // Restore tile counter and data pointer
-  engine.push(0xe1);              // POP HL
-  engine.push(0xc1);              // POP BC
-  
-  // Advance tile position counter (X, Y)
-  engine.push(0xd9);              // EXX (switch to alternate registers)
-  engine.push(0x14);              // INC D' (increment X)
-  engine.push(0x7a);              // LD A, D' (check if X == 32)
-  engine.push(0xfe, 0x20);        // CP 32
-  const jrNoWrapX = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, no_wrap_x (placeholder)
-  
-  // Wrapped to next row - reset X to 0, increment Y
-  engine.push(0x16, 0x00);        // LD D', 0 (reset X)
-  engine.push(0x1c);              // INC E' (increment Y)
-  
-  const noWrapXPos = engine.length;
-  engine.push(0xd9);              // EXX (back to main registers)
-  
-  // Decrement tile counter
-  engine.push(0x0b);              // DEC BC
-  
-  // Loop back
-  let loopOffset = tileLoopStart - (32768 + engine.length + 2);
-  engine.push(0x18, loopOffset & 0xff);  // JR tile_loop
-  
-  // ===== PLAYER SETUP =====
-  const playerSetupPos = engine.length;
-  
-  // Clean up stack (tile counter and data pointer were already popped in loop)
-  
-  // Initialize player position
-  const playerXPixel = 128;
-  const playerYPixel = 152;  // Ground level (192 - 40 pixels from bottom)
-  
-  engine.push(0x3e, playerXPixel & 0xff);  // LD A, playerX
-  engine.push(0x32);              // LD (playerX), A
-  const playerXVarIdx = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  engine.push(0x3e, playerYPixel & 0xff);  // LD A, playerY
-  engine.push(0x32);              // LD (playerY), A
-  const playerYVarIdx = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Initialize isJumping to 0
-  engine.push(0xaf);              // XOR A
-  engine.push(0x32);              // LD (isJumping), A
-  const isJumpingVarIdx = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Initialize jumpFrameIndex to 0
-  engine.push(0x32);              // LD (jumpFrameIndex), A
-  const jumpFrameIdxVarIdx = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // ===== MAIN GAME LOOP =====
-  const gameLoopAddr = 32768 + engine.length;
-  
-  // Find player object to get key bindings
-  const playerObject = objects.find(obj => obj.type === "player");
-  const keyLeft = playerObject?.properties.keyLeft || "q";
-  const keyRight = playerObject?.properties.keyRight || "w";
-  const keyJump = playerObject?.properties.keyJump || "p";
-  
-  // Get Spectrum key mappings
-  const leftMapping = getKeyMapping(keyLeft);
-  const rightMapping = getKeyMapping(keyRight);
-  const jumpMapping = getKeyMapping(keyJump);
-  
-  // ===== CHECK JUMP KEY =====
-  
-  // Read jump key
-  engine.push(0x01);              // LD BC, port
-  engine.push((jumpMapping?.port || 0xDFFE) & 0xff);
-  engine.push(((jumpMapping?.port || 0xDFFE) >> 8) & 0xff);
-  engine.push(0xed, 0x78);        // IN A, (C)
-  
-  const jumpBit = jumpMapping?.bit || 0;
-  engine.push(0xcb, 0x47 + (jumpBit * 8));  // BIT n, A
-  const jrNoJumpPos = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, skip_jump_init (placeholder)
-  
-  // Jump key pressed - check if already jumping
-  engine.push(0x3a);              // LD A, (isJumping)
-  const isJumpingReadIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xa7);              // AND A
-  const jrAlreadyJumpingPos = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, skip_jump_init (placeholder)
-  
-  // Start jump - set isJumping = 1
-  engine.push(0x3e, 0x01);        // LD A, 1
-  engine.push(0x32);              // LD (isJumping), A
-  const isJumpingWriteIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Reset jumpFrameIndex to 0
-  engine.push(0xaf);              // XOR A
-  engine.push(0x32);              // LD (jumpFrameIndex), A
-  const jumpFrameIdxWriteIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  engine.push(0x3e, 0x04);        // LD A, 4
-  engine.push(0xd3, 0xfe);        // OUT (254), A (border green - jump started)
-  
-  // Skip jump initialization
-  const skipJumpInitPos = engine.length;
-  
-  // ===== PROCESS JUMP IF ACTIVE =====
-  
-  // Check if currently jumping
-  engine.push(0x3a);              // LD A, (isJumping)
-  const isJumpingReadIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xa7);              // AND A
-  const jrNotJumpingPos = engine.length;
-  engine.push(0x28, 0x00);        // JR Z, check_right_key (placeholder)
-  
-  // Read current jump frame index
-  engine.push(0x3a);              // LD A, (jumpFrameIndex)
-  const jumpFrameIdxReadIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Check if past trajectory (frame >= 18)
-  engine.push(0xfe, 0x12);        // CP 18
-  const jrPastTrajectoryPos = engine.length;
-  engine.push(0x30, 0x00);        // JR NC, land_check (placeholder)
-  
-  // Look up trajectory value
-  // HL = trajectory_table + jumpFrameIndex
-  engine.push(0x21);              // LD HL, trajectory_table
-  const trajectoryTableAddrIdx = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x5f);              // LD E, A
-  engine.push(0x16, 0x00);        // LD D, 0
-  engine.push(0x19);              // ADD HL, DE
-  
-  // Read trajectory offset (signed byte)
-  engine.push(0x7e);              // LD A, (HL)
-  engine.push(0x47);              // LD B, A (save trajectory)
-  
-  // Add to playerY
-  engine.push(0x3a);              // LD A, (playerY)
-  const playerYReadIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x80);              // ADD A, B
-  engine.push(0x32);              // LD (playerY), A
-  const playerYWriteIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Increment jump frame index
-  engine.push(0x3a);              // LD A, (jumpFrameIndex)
-  const jumpFrameIdxReadIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x3c);              // INC A
-  engine.push(0x32);              // LD (jumpFrameIndex), A
-  const jumpFrameIdxWriteIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  const jrToCheckRightPos = engine.length;
-  engine.push(0x18, 0x00);        // JR check_right_key (placeholder)
-  
-  // Land check - check collision with blocks or ground
-  const landCheckPos = engine.length;
-  
-  // Calculate player's foot position (Y + 8 pixels for sprite height)
-  engine.push(0x3a);              // LD A, (playerY)
-  const playerYReadIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xc6, 0x08);        // ADD A, 8 (foot position)
-  engine.push(0x47);              // LD B, A (save foot Y in B)
-  
-  // Convert to tile Y coordinate (divide by 8)
-  engine.push(0xcb, 0x3f);        // SRL A (divide by 2)
-  engine.push(0xcb, 0x3f);        // SRL A (divide by 4)
-  engine.push(0xcb, 0x3f);        // SRL A (divide by 8)
-  engine.push(0x4f);              // LD C, A (tile Y in C)
-  
-  // Get player X and convert to tile coordinate
-  engine.push(0x3a);              // LD A, (playerX)
-  const playerXReadIdx4 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xcb, 0x3f);        // SRL A (divide by 2)
-  engine.push(0xcb, 0x3f);        // SRL A (divide by 4)
-  engine.push(0xcb, 0x3f);        // SRL A (divide by 8)
-  engine.push(0x57);              // LD D, A (tile X in D)
-  
-  // Search through tile array for solid block at (D, C) position
-  // Load screen bank address
-  engine.push(0x21);              // LD HL, screenBankAddr
-  const screenBankAddrIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Skip to tile array: pointer(2) + width(1) + height(1) = 4 bytes
-  engine.push(0x01, 0x04, 0x00);  // LD BC, 4
-  engine.push(0x09);              // ADD HL, BC
-  
-  // Now HL points to first tile byte in flat array
-  // Calculate tile offset: offset = (tileY * 32) + tileX
-  // tileY is in C, tileX is in D
-  
-  // Calculate tileY * 32: shift left 5 times
-  engine.push(0x79);              // LD A, C (tile Y)
-  engine.push(0xcb, 0x27);        // SLA A (x2)
-  engine.push(0xcb, 0x27);        // SLA A (x4)
-  engine.push(0xcb, 0x27);        // SLA A (x8)
-  engine.push(0xcb, 0x27);        // SLA A (x16)
-  engine.push(0xcb, 0x27);        // SLA A (x32)
-  engine.push(0x5f);              // LD E, A
-  engine.push(0x16, 0x00);        // LD D, 0 (DE = tileY * 32)
-  
-  // Add tileX (in D originally, need to move)
-  engine.push(0x7a);              // LD A, D (tile X)
-  engine.push(0x83);              // ADD A, E
-  engine.push(0x5f);              // LD E, A
-  engine.push(0x30, 0x01);        // JR NC, skip_carry
-  engine.push(0x14);              // INC D (handle carry)
-  // skip_carry:
-  
-  // Add offset to base address
-  engine.push(0x19);              // ADD HL, DE (HL now points to tile at player position)
-  
-  // Read block index (1 byte) at this position
-  engine.push(0x7e);              // LD A, (HL)
-  engine.push(0x6f);              // LD L, A
-  engine.push(0x26, 0x00);        // LD H, 0 (HL = block index)
-  
-  // Calculate block address: blockBankAddr + 2 + (blockIndex * 5)
-  engine.push(0x29);              // ADD HL, HL (blockIndex * 2)
-  engine.push(0x54);              // LD D, H
-  engine.push(0x5d);              // LD E, L
-  engine.push(0x29);              // ADD HL, HL (blockIndex * 4)
-  engine.push(0x19);              // ADD HL, DE (blockIndex * 5)
-  
-  engine.push(0x11);              // LD DE, blockBankAddr + 2
-  const blockBankAddrIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x19);              // ADD HL, DE
-  
-  // Read block type (first byte at block address)
-  engine.push(0x7e);              // LD A, (HL)
-  engine.push(0x47);              // LD B, A (save block type in B)
-  
-  // Check if solid (type == 0)
-  engine.push(0xa7);              // AND A
-  const jrIsSolidPos = engine.length;
-  engine.push(0x28, 0x00);        // JR Z, land_on_block (placeholder)
-  
-  // Check if conveyor (type == 2)
-  engine.push(0xfe, 0x02);        // CP 2
-  const jrIsConveyorPos = engine.length;
-  engine.push(0x28, 0x00);        // JR Z, land_on_block (placeholder)
-  
-  // Not a landable block, fall through to ground check
-  const jrNotLandablePos = engine.length;
-  engine.push(0x18, 0x00);        // JR no_collision (placeholder)
-  
-  // Landable block found (solid or conveyor)!
-  const landOnBlockPos = engine.length;
-  
-  // Save block address (HL) for reading conveyor properties later
-  engine.push(0xe5);              // PUSH HL (save block address)
-  
-  // Calculate landing Y: tile Y * 8 (shift left 3 times)
-  engine.push(0x79);              // LD A, C (tile Y)
-  engine.push(0xcb, 0x27);        // SLA A
-  engine.push(0xcb, 0x27);        // SLA A
-  engine.push(0xcb, 0x27);        // SLA A (now A = tile Y * 8)
-  
-  // This is the top of the block, player stands on it
-  engine.push(0xd6, 0x08);        // SUB 8 (player Y = block top - sprite height)
-  engine.push(0x32);              // LD (playerY), A
-  const playerYWriteIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Stop jumping
-  engine.push(0xaf);              // XOR A
-  engine.push(0x32);              // LD (isJumping), A
-  const isJumpingWriteIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Check if this is a conveyor block (type == 2)
-  engine.push(0x78);              // LD A, B (block type)
-  engine.push(0xfe, 0x02);        // CP 2
-  const jrNotConveyorPos = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, skip_conveyor (placeholder)
-  
-  // It's a conveyor! Read properties and apply push
-  // Pop block address from stack (we pushed it earlier)
-  engine.push(0xe1);              // POP HL
-  
-  // HL points to block definition (byte 0 = spriteId, byte 1 = type, byte 2 = flags)
-  engine.push(0x23);              // INC HL (skip spriteId)
-  engine.push(0x23);              // INC HL (skip type)
-  engine.push(0x7e);              // LD A, (HL) (read flags)
-  engine.push(0x23);              // INC HL (now at properties)
-  
-  // Check if HAS_SPEED flag (bit 0) is set
-  engine.push(0xcb, 0x47);        // BIT 0, A
-  const jrNoConveyorSpeedPos = engine.length;
-  engine.push(0x28, 0x00);        // JR Z, no_conveyor_push (placeholder)
-  
-  // Read speed (first property byte, fixed8 format)
-  engine.push(0x7e);              // LD A, (HL) (speed)
-  engine.push(0x57);              // LD D, A (save speed in D)
-  engine.push(0x23);              // INC HL
-  
-  // Check if HAS_DIRECTION flag (bit 1) is set in flags (need to re-read flags)
-  engine.push(0x2b);              // DEC HL
-  engine.push(0x2b);              // DEC HL
-  engine.push(0x2b);              // DEC HL (back to flags)
-  engine.push(0x7e);              // LD A, (HL)
-  engine.push(0xcb, 0x4f);        // BIT 1, A
-  const jrNoConveyorDirPos = engine.length;
-  engine.push(0x28, 0x00);        // JR Z, no_conveyor_push (placeholder)
-  
-  // Read direction (second property byte after speed)
-  engine.push(0x23);              // INC HL (to properties)
-  engine.push(0x23);              // INC HL (skip speed)
-  engine.push(0x7e);              // LD A, (HL) (direction: 0xFF=left, 1=right)
-  
-  // Apply conveyor push to playerX
-  engine.push(0xfe, 0x01);        // CP 1 (check if right)
-  const jrConveyorLeftPos = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, conveyor_left (placeholder)
-  
-  // Conveyor pushing right
-  engine.push(0x3a);              // LD A, (playerX)
-  const playerXReadIdxConveyor1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x82);              // ADD A, D (add speed)
-  engine.push(0x32);              // LD (playerX), A
-  const playerXWriteIdxConveyor1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  const jrConveyorDonePos = engine.length;
-  engine.push(0x18, 0x00);        // JR conveyor_done (placeholder)
-  
-  // Conveyor pushing left
-  const conveyorLeftPos = engine.length;
-  engine.push(0x3a);              // LD A, (playerX)
-  const playerXReadIdxConveyor2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x92);              // SUB D (subtract speed)
-  engine.push(0x32);              // LD (playerX), A
-  const playerXWriteIdxConveyor2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  const conveyorDonePos = engine.length;
-  engine.push(0x3e, 0x06);        // LD A, 6
-  engine.push(0xd3, 0xfe);        // OUT (254), A (border yellow - on conveyor)
-  
-  const jrSkipConveyorPos = engine.length;
-  engine.push(0x18, 0x00);        // JR skip_conveyor (placeholder)
-  
-  // Not a conveyor or no push - just pop the saved block address
-  const noConveyorPushPos = engine.length;
-  engine.push(0xe1);              // POP HL (discard saved block address)
-  
-  // Skip conveyor logic
-  const skipConveyorPos = engine.length;
-  engine.push(0x3e, 0x03);        // LD A, 3
-  engine.push(0xd3, 0xfe);        // OUT (254), A (border magenta - landed on block)
-  
-  const jrToCheckRightPos2 = engine.length;
-  engine.push(0x18, 0x00);        // JR check_right_key (placeholder)
-  
-  // No collision found - check ground level
-  const noCollisionPos = engine.length;
-  
-  // Check if Y >= ground level
-  engine.push(0x78);              // LD A, B (foot Y from earlier)
-  engine.push(0xfe, (playerYPixel + 8) & 0xff);  // CP ground_level + 8
-  const jrStillAirbornePos = engine.length;
-  engine.push(0x38, 0x00);        // JR C, still_airborne (placeholder)
-  
-  // Reached ground - land
-  engine.push(0x3e, playerYPixel & 0xff);  // LD A, ground_level
-  engine.push(0x32);              // LD (playerY), A
-  const playerYWriteIdx5 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  engine.push(0xaf);              // XOR A
-  engine.push(0x32);              // LD (isJumping), A
-  const isJumpingWriteIdx3 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  engine.push(0x3e, 0x00);        // LD A, 0
-  engine.push(0xd3, 0xfe);        // OUT (254), A (border black - landed on ground)
-  
-  const jrToCheckRightPos3 = engine.length;
-  engine.push(0x18, 0x00);        // JR check_right_key (placeholder)
-  
-  // Still airborne - continue falling
-  const stillAirbornePos = engine.length;
-  engine.push(0x3a);              // LD A, (playerY)
-  const playerYReadIdx3 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xc6, 0x04);        // ADD A, 4 (fall faster)
-  engine.push(0x32);              // LD (playerY), A
-  const playerYWriteIdx3 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // ===== CHECK HORIZONTAL MOVEMENT =====
-  const checkRightKeyPos = engine.length;
-  
-  // Apply current horizontal velocity first
-  engine.push(0x3a);              // LD A, (playerVelX)
-  const playerVelXReadIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Check if velocity is zero
-  engine.push(0xa7);              // AND A
-  const jrNoVelocityPos = engine.length;
-  engine.push(0x28, 0x00);        // JR Z, check_keys (placeholder)
-  
-  // Check if velocity is positive (moving right)
-  engine.push(0xfe, 0x01);        // CP 1
-  const jrNotMovingRightPos = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, check_left_vel (placeholder)
-  
-  // Moving right - apply velocity
-  engine.push(0x3a);              // LD A, (playerX)
-  const playerXReadIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xc6, 0x03);        // ADD A, 3 (velocity in pixels/frame)
-  
-  // Check right boundary (248 = 256 - 8 for sprite width)
-  engine.push(0xfe, 0xf8);        // CP 248
-  const jrNoWrapRightPos = engine.length;
-  engine.push(0x38, 0x00);        // JR C, no_wrap_right (placeholder)
-  
-  // Wrapped off right edge - wrap to left (X = 0)
-  engine.push(0x3e, 0x00);        // LD A, 0
-  
-  const noWrapRightPos = engine.length;
-  engine.push(0x32);              // LD (playerX), A
-  const playerXWriteIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  const jrCheckKeysPos = engine.length;
-  engine.push(0x18, 0x00);        // JR check_keys (placeholder)
-  
-  // Check if moving left
-  const checkLeftVelPos = engine.length;
-  engine.push(0x3a);              // LD A, (playerVelX)
-  const playerVelXReadIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xfe, 0xff);        // CP 255 (-1 as unsigned byte)
-  const jrCheckKeysPos2 = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, check_keys (placeholder)
-  
-  // Moving left - apply velocity
-  engine.push(0x3a);              // LD A, (playerX)
-  const playerXReadIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xd6, 0x03);        // SUB 3 (velocity in pixels/frame)
-  
-  // Check left boundary (wrapped if A > 248, since SUB caused underflow)
-  engine.push(0xfe, 0xf8);        // CP 248
-  const jrNoWrapLeftPos = engine.length;
-  engine.push(0x38, 0x00);        // JR C, no_wrap_left (placeholder)
-  
-  // Wrapped off left edge - wrap to right (X = 248)
-  engine.push(0x3e, 0xf8);        // LD A, 248
-  
-  const noWrapLeftPos = engine.length;
-  engine.push(0x32);              // LD (playerX), A
-  const playerXWriteIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Now check keyboard input to update velocity
-  const checkKeysPos = engine.length;
-  
-  // Read keyboard for right key
-  engine.push(0x01);              // LD BC, port
-  engine.push((rightMapping?.port || 0xFBFE) & 0xff);
-  engine.push(((rightMapping?.port || 0xFBFE) >> 8) & 0xff);
-  engine.push(0xed, 0x78);        // IN A, (C)
-  
-  // Check right key
-  const rightBit = rightMapping?.bit || 1;
-  engine.push(0xcb, 0x47 + (rightBit * 8));  // BIT n, A
-  const jrNoRightPos = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, check_left (placeholder)
-  
-  // Right key pressed - set velocity to right (1)
-  engine.push(0x3e, 0x01);        // LD A, 1
-  engine.push(0x32);              // LD (playerVelX), A
-  const playerVelXWriteIdx1 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x3e, 0x02);        // LD A, 2
-  engine.push(0xd3, 0xfe);        // OUT (254), A (border red)
-  
-  const jrToDrawPos = engine.length;
-  engine.push(0x18, 0x00);        // JR draw_player (placeholder)
-  
-  
-  // Check left key
-  const checkLeftPos = engine.length;
-  
-  // Read keyboard for left key (may be different port)
-  engine.push(0x01);              // LD BC, port
-  engine.push((leftMapping?.port || 0xFBFE) & 0xff);
-  engine.push(((leftMapping?.port || 0xFBFE) >> 8) & 0xff);
-  engine.push(0xed, 0x78);        // IN A, (C)
-  
-  const leftBit = leftMapping?.bit || 0;
-  engine.push(0xcb, 0x47 + (leftBit * 8));  // BIT n, A
-  const jrNoLeftPos = engine.length;
-  engine.push(0x20, 0x00);        // JR NZ, check_no_key (placeholder)
-  
-  // Left key pressed - set velocity to left (-1)
-  engine.push(0x3e, 0xff);        // LD A, 255 (-1 as unsigned byte)
-  engine.push(0x32);              // LD (playerVelX), A
-  const playerVelXWriteIdx2 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x3e, 0x05);        // LD A, 5
-  engine.push(0xd3, 0xfe);        // OUT (254), A (border cyan)
-  
-  const jrToDrawPos2 = engine.length;
-  engine.push(0x18, 0x00);        // JR draw_player (placeholder)
-  
-  // No keys pressed - set velocity to zero
-  const checkNoKeyPos = engine.length;
-  engine.push(0xaf);              // XOR A (A = 0)
-  engine.push(0x32);              // LD (playerVelX), A
-  const playerVelXWriteIdx3 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Draw player at current position
-  const noKeyPos = engine.length;
-  const drawPlayerPos = engine.length;
-  
-  // Load player X position
-  engine.push(0x3a);              // LD A, (playerX)
-  const playerXReadIdx3 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0x4f);              // LD C, A (save X in C)
-  
-  // Load player Y position (dynamic)
-  engine.push(0x3a);              // LD A, (playerY)
-  const playerYReadIdx4 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  
-  // Calculate screen address for Y position
-  engine.push(0xe6, 0xc0);        // AND 192
-  engine.push(0xcb, 0x3f);        // SRL A
-  engine.push(0xcb, 0x3f);        // SRL A
-  engine.push(0xcb, 0x3f);        // SRL A
-  engine.push(0x67);              // LD H, A
-  
-  engine.push(0x3a);              // LD A, (playerY)
-  const playerYReadIdx5 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xe6, 0x07);        // AND 7
-  engine.push(0xb4);              // OR H
-  engine.push(0xc6, 0x40);        // ADD A, 64
-  engine.push(0x67);              // LD H, A
-  
-  engine.push(0x3a);              // LD A, (playerY)
-  const playerYReadIdx6 = engine.length;
-  engine.push(0x00, 0x00);        // Placeholder
-  engine.push(0xe6, 0x38);        // AND 56
-  engine.push(0xcb, 0x27);        // SLA A
-  engine.push(0xcb, 0x27);        // SLA A
-  engine.push(0x6f);              // LD L, A
-  
-  engine.push(0x79);              // LD A, C (X)
-  engine.push(0xcb, 0x3f);        // SRL A
-  engine.push(0xcb, 0x3f);        // SRL A
-  engine.push(0xcb, 0x3f);        // SRL A
-  engine.push(0x85);              // ADD A, L
-  engine.push(0x6f);              // LD L, A
-  
-  // Draw white pixel
-  engine.push(0x36, 0xff);        // LD (HL), 255
-  
-  // Small delay
-  engine.push(0x06, 0x1e);        // LD B, 30
-  const delayLoopPos = engine.length;
-  engine.push(0x10, 0xfe);        // DJNZ -2
-  
-  // Loop back to game loop
-  const gameLoopOffset = gameLoopAddr - (32768 + engine.length + 2);
-  engine.push(0x18, gameLoopOffset & 0xff);  // JR game_loop
-  
-  // ===== DATA AREA =====
-  
-  // Manic Miner jump trajectory table (18 frames)
-  const trajectoryTableAddr = 32768 + engine.length;
-  const jumpTrajectory = [
-    -4, -4, -3, -3, -2, -2, -1, -1, 0, 0,  // Ascent
-    1, 1, 2, 2, 3, 3, 4, 4                 // Descent
-  ];
-  jumpTrajectory.forEach(offset => {
-    engine.push(offset < 0 ? 256 + offset : offset);  // Convert to unsigned byte
-  });
-  
-  // Player X variable
-  const playerXVarAddr = 32768 + engine.length;
-  engine.push(playerXPixel & 0xff);
-  
-  // Player Y variable
-  const playerYVarAddr = 32768 + engine.length;
-  engine.push(playerYPixel & 0xff);
-  
-  // IsJumping variable
-  const isJumpingVarAddr = 32768 + engine.length;
-  engine.push(0x00);
-  
-  // JumpFrameIndex variable
-  const jumpFrameIdxVarAddr = 32768 + engine.length;
-  engine.push(0x00);
-  
-  // Player velocity X variable (-1 = left, 0 = stationary, 1 = right)
-  const playerVelXVarAddr = 32768 + engine.length;
-  engine.push(0x00);
-  
-  // Sprite width variable
-  const spriteWidthVarAddr = 32768 + engine.length;
-  engine.push(0x08);
-  
-  // Sprite height variable
-  const spriteHeightVarAddr = 32768 + engine.length;
-  engine.push(0x08);
-  
-  // ===== PATCH ALL ADDRESS PLACEHOLDERS =====
-  
-  // Patch screen bank address
-  engine[screenBankAddrIdx] = screenBankAddr & 0xff;
-  engine[screenBankAddrIdx + 1] = (screenBankAddr >> 8) & 0xff;
-  
-  // Patch block bank address
-  const blockBankWithOffset = blockBankAddr + 2;
-  engine[blockBankAddrIdx] = blockBankWithOffset & 0xff;
-  engine[blockBankAddrIdx + 1] = (blockBankWithOffset >> 8) & 0xff;
-  
-  // Patch sprite bank addresses
-  const spriteBankWithOffset = spriteBankAddr + 2;
-  engine[spriteBankAddrIdx] = spriteBankWithOffset & 0xff;
-  engine[spriteBankAddrIdx + 1] = (spriteBankWithOffset >> 8) & 0xff;
-  
-  engine[spriteBankAddrIdx2] = spriteBankAddr & 0xff;
-  engine[spriteBankAddrIdx2 + 1] = (spriteBankAddr >> 8) & 0xff;
-  
-  // Patch sprite width/height addresses
-  engine[spriteWidthAddr] = spriteWidthVarAddr & 0xff;
-  engine[spriteWidthAddr + 1] = (spriteWidthVarAddr >> 8) & 0xff;
-  
-  engine[spriteHeightAddr] = spriteHeightVarAddr & 0xff;
-  engine[spriteHeightAddr + 1] = (spriteHeightVarAddr >> 8) & 0xff;
-  
-  // Patch screen bank address (collision detection)
-  engine[screenBankAddrIdx2] = screenBankAddr & 0xff;
-  engine[screenBankAddrIdx2 + 1] = (screenBankAddr >> 8) & 0xff;
-  
-  // Patch block bank address (collision detection)
-  const blockBankWithOffset2 = blockBankAddr + 2;
-  engine[blockBankAddrIdx2] = blockBankWithOffset2 & 0xff;
-  engine[blockBankAddrIdx2 + 1] = (blockBankWithOffset2 >> 8) & 0xff;
-  
-  // Patch trajectory table address
-  engine[trajectoryTableAddrIdx] = trajectoryTableAddr & 0xff;
-  engine[trajectoryTableAddrIdx + 1] = (trajectoryTableAddr >> 8) & 0xff;
-  
-  // Patch player X variable addresses
-  engine[playerXVarIdx] = playerXVarAddr & 0xff;
-  engine[playerXVarIdx + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXReadIdx1] = playerXVarAddr & 0xff;
-  engine[playerXReadIdx1 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXWriteIdx1] = playerXVarAddr & 0xff;
-  engine[playerXWriteIdx1 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXReadIdx2] = playerXVarAddr & 0xff;
-  engine[playerXReadIdx2 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXWriteIdx2] = playerXVarAddr & 0xff;
-  engine[playerXWriteIdx2 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXReadIdx3] = playerXVarAddr & 0xff;
-  engine[playerXReadIdx3 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXReadIdx4] = playerXVarAddr & 0xff;
-  engine[playerXReadIdx4 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXReadIdxConveyor1] = playerXVarAddr & 0xff;
-  engine[playerXReadIdxConveyor1 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXWriteIdxConveyor1] = playerXVarAddr & 0xff;
-  engine[playerXWriteIdxConveyor1 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXReadIdxConveyor2] = playerXVarAddr & 0xff;
-  engine[playerXReadIdxConveyor2 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  engine[playerXWriteIdxConveyor2] = playerXVarAddr & 0xff;
-  engine[playerXWriteIdxConveyor2 + 1] = (playerXVarAddr >> 8) & 0xff;
-  
-  // Patch player velocity X variable addresses
-  engine[playerVelXReadIdx1] = playerVelXVarAddr & 0xff;
-  engine[playerVelXReadIdx1 + 1] = (playerVelXVarAddr >> 8) & 0xff;
-  
-  engine[playerVelXReadIdx2] = playerVelXVarAddr & 0xff;
-  engine[playerVelXReadIdx2 + 1] = (playerVelXVarAddr >> 8) & 0xff;
-  
-  engine[playerVelXWriteIdx1] = playerVelXVarAddr & 0xff;
-  engine[playerVelXWriteIdx1 + 1] = (playerVelXVarAddr >> 8) & 0xff;
-  
-  engine[playerVelXWriteIdx2] = playerVelXVarAddr & 0xff;
-  engine[playerVelXWriteIdx2 + 1] = (playerVelXVarAddr >> 8) & 0xff;
-  
-  engine[playerVelXWriteIdx3] = playerVelXVarAddr & 0xff;
-  engine[playerVelXWriteIdx3 + 1] = (playerVelXVarAddr >> 8) & 0xff;
-  
-  // Patch player Y variable addresses
-  engine[playerYVarIdx] = playerYVarAddr & 0xff;
-  engine[playerYVarIdx + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYReadIdx1] = playerYVarAddr & 0xff;
-  engine[playerYReadIdx1 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYWriteIdx1] = playerYVarAddr & 0xff;
-  engine[playerYWriteIdx1 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYReadIdx2] = playerYVarAddr & 0xff;
-  engine[playerYReadIdx2 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYWriteIdx2] = playerYVarAddr & 0xff;
-  engine[playerYWriteIdx2 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYReadIdx3] = playerYVarAddr & 0xff;
-  engine[playerYReadIdx3 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYWriteIdx3] = playerYVarAddr & 0xff;
-  engine[playerYWriteIdx3 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYReadIdx4] = playerYVarAddr & 0xff;
-  engine[playerYReadIdx4 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYReadIdx5] = playerYVarAddr & 0xff;
-  engine[playerYReadIdx5 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYWriteIdx5] = playerYVarAddr & 0xff;
-  engine[playerYWriteIdx5 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  engine[playerYReadIdx6] = playerYVarAddr & 0xff;
-  engine[playerYReadIdx6 + 1] = (playerYVarAddr >> 8) & 0xff;
-  
-  // Patch isJumping variable addresses
-  engine[isJumpingVarIdx] = isJumpingVarAddr & 0xff;
-  engine[isJumpingVarIdx + 1] = (isJumpingVarAddr >> 8) & 0xff;
-  
-  engine[isJumpingReadIdx1] = isJumpingVarAddr & 0xff;
-  engine[isJumpingReadIdx1 + 1] = (isJumpingVarAddr >> 8) & 0xff;
-  
-  engine[isJumpingWriteIdx1] = isJumpingVarAddr & 0xff;
-  engine[isJumpingWriteIdx1 + 1] = (isJumpingVarAddr >> 8) & 0xff;
-  
-  engine[isJumpingReadIdx2] = isJumpingVarAddr & 0xff;
-  engine[isJumpingReadIdx2 + 1] = (isJumpingVarAddr >> 8) & 0xff;
-  
-  engine[isJumpingWriteIdx2] = isJumpingVarAddr & 0xff;
-  engine[isJumpingWriteIdx2 + 1] = (isJumpingVarAddr >> 8) & 0xff;
-  
-  engine[isJumpingWriteIdx3] = isJumpingVarAddr & 0xff;
-  engine[isJumpingWriteIdx3 + 1] = (isJumpingVarAddr >> 8) & 0xff;
-  
-  // Patch jumpFrameIndex variable addresses
-  engine[jumpFrameIdxVarIdx] = jumpFrameIdxVarAddr & 0xff;
-  engine[jumpFrameIdxVarIdx + 1] = (jumpFrameIdxVarAddr >> 8) & 0xff;
-  
-  engine[jumpFrameIdxWriteIdx1] = jumpFrameIdxVarAddr & 0xff;
-  engine[jumpFrameIdxWriteIdx1 + 1] = (jumpFrameIdxVarAddr >> 8) & 0xff;
-  
-  engine[jumpFrameIdxReadIdx1] = jumpFrameIdxVarAddr & 0xff;
-  engine[jumpFrameIdxReadIdx1 + 1] = (jumpFrameIdxVarAddr >> 8) & 0xff;
-  
-  engine[jumpFrameIdxReadIdx2] = jumpFrameIdxVarAddr & 0xff;
-  engine[jumpFrameIdxReadIdx2 + 1] = (jumpFrameIdxVarAddr >> 8) & 0xff;
-  
-  engine[jumpFrameIdxWriteIdx2] = jumpFrameIdxVarAddr & 0xff;
-  engine[jumpFrameIdxWriteIdx2 + 1] = (jumpFrameIdxVarAddr >> 8) & 0xff;
-  
-  // Patch jump offsets
-  const skipJumpInitAddr = 32768 + skipJumpInitPos;
-  const checkRightKeyAddr = 32768 + checkRightKeyPos;
-  const landCheckAddr = 32768 + landCheckPos;
-  const noCollisionAddr = 32768 + noCollisionPos;
-  const stillAirborneAddr = 32768 + stillAirbornePos;
-  const checkLeftVelAddr = 32768 + checkLeftVelPos;
-  const checkKeysAddr = 32768 + checkKeysPos;
-  const noWrapRightAddr = 32768 + noWrapRightPos;
-  const noWrapLeftAddr = 32768 + noWrapLeftPos;
-  const checkLeftAddr = 32768 + checkLeftPos;
-  const checkNoKeyAddr = 32768 + checkNoKeyPos;
-  const drawPlayerAddr = 32768 + drawPlayerPos;
-  const noKeyAddr = 32768 + noKeyPos;
-  const playerSetupAddr = 32768 + playerSetupPos;
-  const landOnBlockAddr = 32768 + landOnBlockPos;
-  const skipConveyorAddr = 32768 + skipConveyorPos;
-  const noConveyorPushAddr = 32768 + noConveyorPushPos;
-  const conveyorLeftAddr = 32768 + conveyorLeftPos;
-  const conveyorDoneAddr = 32768 + conveyorDonePos;
-  
-  let disp = skipJumpInitAddr - (32768 + jrNoJumpPos + 2);
-  engine[jrNoJumpPos + 1] = disp & 0xff;
-  
-  disp = skipJumpInitAddr - (32768 + jrAlreadyJumpingPos + 2);
-  engine[jrAlreadyJumpingPos + 1] = disp & 0xff;
-  
-  disp = checkRightKeyAddr - (32768 + jrNotJumpingPos + 2);
-  engine[jrNotJumpingPos + 1] = disp & 0xff;
-  
-  disp = landCheckAddr - (32768 + jrPastTrajectoryPos + 2);
-  engine[jrPastTrajectoryPos + 1] = disp & 0xff;
-  
-  disp = checkRightKeyAddr - (32768 + jrToCheckRightPos + 2);
-  engine[jrToCheckRightPos + 1] = disp & 0xff;
-  
-  // Conveyor landing jumps
-  disp = landOnBlockAddr - (32768 + jrIsSolidPos + 2);
-  engine[jrIsSolidPos + 1] = disp & 0xff;
-  
-  disp = landOnBlockAddr - (32768 + jrIsConveyorPos + 2);
-  engine[jrIsConveyorPos + 1] = disp & 0xff;
-  
-  disp = noCollisionAddr - (32768 + jrNotLandablePos + 2);
-  engine[jrNotLandablePos + 1] = disp & 0xff;
-  
-  disp = skipConveyorAddr - (32768 + jrNotConveyorPos + 2);
-  engine[jrNotConveyorPos + 1] = disp & 0xff;
-  
-  disp = noConveyorPushAddr - (32768 + jrNoConveyorSpeedPos + 2);
-  engine[jrNoConveyorSpeedPos + 1] = disp & 0xff;
-  
-  disp = noConveyorPushAddr - (32768 + jrNoConveyorDirPos + 2);
-  engine[jrNoConveyorDirPos + 1] = disp & 0xff;
-  
-  disp = conveyorLeftAddr - (32768 + jrConveyorLeftPos + 2);
-  engine[jrConveyorLeftPos + 1] = disp & 0xff;
-  
-  disp = conveyorDoneAddr - (32768 + jrConveyorDonePos + 2);
-  engine[jrConveyorDonePos + 1] = disp & 0xff;
-  
-  disp = skipConveyorAddr - (32768 + jrSkipConveyorPos + 2);
-  engine[jrSkipConveyorPos + 1] = disp & 0xff;
-  
-  disp = checkRightKeyAddr - (32768 + jrToCheckRightPos2 + 2);
-  engine[jrToCheckRightPos2 + 1] = disp & 0xff;
-  
-  disp = stillAirborneAddr - (32768 + jrStillAirbornePos + 2);
-  engine[jrStillAirbornePos + 1] = disp & 0xff;
-  
-  disp = checkRightKeyAddr - (32768 + jrToCheckRightPos3 + 2);
-  engine[jrToCheckRightPos3 + 1] = disp & 0xff;
-  
-  // Velocity persistence jumps
-  disp = checkKeysAddr - (32768 + jrNoVelocityPos + 2);
-  engine[jrNoVelocityPos + 1] = disp & 0xff;
-  
-  disp = checkLeftVelAddr - (32768 + jrNotMovingRightPos + 2);
-  engine[jrNotMovingRightPos + 1] = disp & 0xff;
-  
-  disp = checkKeysAddr - (32768 + jrCheckKeysPos + 2);
-  engine[jrCheckKeysPos + 1] = disp & 0xff;
-  
-  disp = checkKeysAddr - (32768 + jrCheckKeysPos2 + 2);
-  engine[jrCheckKeysPos2 + 1] = disp & 0xff;
-  
-  // Boundary wrapping jumps
-  disp = noWrapRightAddr - (32768 + jrNoWrapRightPos + 2);
-  engine[jrNoWrapRightPos + 1] = disp & 0xff;
-  
-  disp = noWrapLeftAddr - (32768 + jrNoWrapLeftPos + 2);
-  engine[jrNoWrapLeftPos + 1] = disp & 0xff;
-  
-  disp = checkLeftAddr - (32768 + jrNoRightPos + 2);
-  engine[jrNoRightPos + 1] = disp & 0xff;
-  
-  disp = drawPlayerAddr - (32768 + jrToDrawPos + 2);
-  engine[jrToDrawPos + 1] = disp & 0xff;
-  
-  disp = checkNoKeyAddr - (32768 + jrNoLeftPos + 2);
-  engine[jrNoLeftPos + 1] = disp & 0xff;
-  
-  disp = drawPlayerAddr - (32768 + jrToDrawPos2 + 2);
-  engine[jrToDrawPos2 + 1] = disp & 0xff;
-  
-  disp = playerSetupAddr - (32768 + jzToPlayerSetup + 2);
-  engine[jzToPlayerSetup + 1] = disp & 0xff;
-  
-  return engine;
+): StrippedAsset[] {
+  return getExportAssets(gameFlow, screens, levels, blocks, objects, sprites).stripped;
 }
 
 /**
- * Export assembly file (.asm) with all data banks
+ * Export Game Flow to TAP file with binary data banks
+ * Includes loading screens, title screens, and level data using compact binary encoding
  */
-export function exportGameFlowToASM(
+export function exportGameFlowToTAP(
   gameFlow: GameFlowScreen[],
   screens: Screen[],
   levels: Level[],
   blocks: Block[],
   objects: GameObject[],
   sprites: Sprite[],
-  projectName: string
-): string {
-  let asm = `; ${projectName} - ZX Spectrum Game Data\n`;
-  asm += `; Generated binary data banks\n\n`;
+  projectName: string,
+  options: GameBuildOptions = {}
+): Blob {
+  const assets = getExportAssets(gameFlow, screens, levels, blocks, objects, sprites);
+  const { tap, build } = buildGameFlowTAP(gameFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  if (!build) {
+    return tap.toBlob();
+  }
 
-  // Build index maps
-  const spriteIndexMap = createSpriteIndexMap(sprites);
-  const blockIndexMap = new Map<string, number>();
-  blocks.forEach((block, index) => {
-    blockIndexMap.set(block.id, index);
-  });
-  const objectIndexMap = new Map<string, number>();
-  objects.forEach((obj, index) => {
-    objectIndexMap.set(obj.id, index);
+  const { origin: codeStart, bytes: combinedCode, symbols } = build.code;
+  const address = (label: string) => symbols.get(label) ?? 0;
+  const spriteBank = symbols.has("SpriteBankPacked") ? "SpriteBankPacked" : "SpriteBank";
+  if (build.pages.length > 0) {
+    tapDebugLog("[TAP DEBUG] Final 128K TAP layout", {
+      codeStart,
+      combinedCodeLength: combinedCode.length,
+      pages: build.pages.map(({ page, code: pageCode }) => ({ page, length: pageCode.bytes.length })),
+    });
+    tap.debugDump();
+    return tap.toBlob();
+  }
+
+  tapDebugLog("[TAP DEBUG] Final TAP layout", {
+    codeStart,
+    engineSize: address(spriteBank) - codeStart,
+    spriteBankSize: address("BlockBank") - address(spriteBank),
+    blockBankSize: address("ObjectBank") - address("BlockBank"),
+    objectBankSize: address("SoundBank") - address("ObjectBank"),
+    soundBankSize: address("ScreenBank") - address("SoundBank"),
+    screenBankSize: codeStart + combinedCode.length - address("ScreenBank"),
+    combinedCodeLength: combinedCode.length,
+    clearLine: codeStart - 1,
   });
 
-  // Generate assembly for each bank
-  asm += generateSpriteBankAsm(sprites);
-  asm += "\n\n";
-  asm += generateBlockBankAsm(blocks, spriteIndexMap);
-  asm += "\n\n";
-  asm += generateObjectBankAsm(objects, spriteIndexMap);
-  asm += "\n\n";
-  asm += generateScreenBankAsm(screens, blockIndexMap, objectIndexMap, objects);
+  tap.debugDump();
 
-  return asm;
+  return tap.toBlob();
 }
 
 /**
- * Export combined binary file (.bin) with all data banks
+ * Export Game Flow to TZX file: the TAP's contents with the CODE block at
+ * turbo speed, plus title and author for emulators and tape archives
  */
-export function exportGameFlowToBIN(
+export function exportGameFlowToTZX(
   gameFlow: GameFlowScreen[],
   screens: Screen[],
   levels: Level[],
   blocks: Block[],
   objects: GameObject[],
   sprites: Sprite[],
-  projectName: string
+  projectName: string,
+  options: GameBuildOptions = {}
 ): Blob {
+  const assets = getExportAssets(gameFlow, screens, levels, blocks, objects, sprites);
+  return buildGameFlowTZX(gameFlow, screens, levels, blocks, objects, sprites, assets, projectName, options).toBlob();
+}
+
+/**
+ * Export Game Flow to a .sna snapshot that starts straight in the engine
+ */
+export function exportGameFlowToSNA(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  projectName: string,
+  options: GameBuildOptions = {}
+): Blob {
+  const assets = getExportAssets(gameFlow, screens, levels, blocks, objects, sprites);
+  const snapshot = buildGameSnapshot(gameFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  return new Blob([snapshot.generateSNA() as BlobPart], { type: "application/octet-stream" });
+}
+
+/**
+ * Export Game Flow to a compressed .z80 snapshot that starts straight in the engine
+ */
+export function exportGameFlowToZ80(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  projectName: string,
+  options: GameBuildOptions = {}
+): Blob {
+  const assets = getExportAssets(gameFlow, screens, levels, blocks, objects, sprites);
+  const snapshot = buildGameSnapshot(gameFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  return new Blob([snapshot.generateZ80() as BlobPart], { type: "application/octet-stream" });
+}
+
+/**
+ * Export assembly file (.asm) with the game engine and all data banks
+ * Assembling it at its org gives exactly the CODE block of the TAP export
+ * (on 128K, each section gives the CODE block of its RAM page)
+ */
+export function exportGameFlowToASM(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  projectName: string,
+  options: GameBuildOptions = {}
+): string {
+  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+  const assets = getExportAssets(sortedFlow, screens, levels, blocks, objects, sprites);
+  if (options.machine === "128k") {
+    return buildBankedGame(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options).source;
+  }
+  return buildGameSource(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+}
+
+// All data banks back to back: sprites, blocks, objects, sounds, levels, screens
+// The game screens and the assets they reach, as in the TAP; the level table's
+// screen numbers are positions in this screen bank
+function packGameBanks(
+  assets: ExportAssets,
+  gameLevels: GameLevel[],
+  options: GameBuildOptions = {}
+): Uint8Array {
   // Build index maps
-  const spriteIndexMap = createSpriteIndexMap(sprites);
-  const blockIndexMap = new Map<string, number>();
-  blocks.forEach((block, index) => {
-    blockIndexMap.set(block.id, index);
-  });
-  const objectIndexMap = new Map<string, number>();
-  objects.forEach((obj, index) => {
-    objectIndexMap.set(obj.id, index);
-  });
+  const gameScreens = assets.screens;
+  const spriteIndexMap = createSpriteIndexMap(assets.sprites, assets.spriteAliases);
+  const blockIndexMap = createIndexMap(assets.blocks);
+  const objectIndexMap = createIndexMap(assets.objects);
+  const levelIndexMap = createIndexMap(gameLevels);
 
   // Pack all banks
-  const spriteBank = packSpriteBank(sprites);
-  const blockBank = packBlockBank(blocks, spriteIndexMap);
-  const objectBank = packObjectBank(objects, spriteIndexMap);
-  const screenBank = packScreenBank(screens, blockIndexMap, objectIndexMap, objects);
+  const spriteBank = packSpriteBank(assets.sprites);
+  const blockBank = packBlockBank(assets.blocks, spriteIndexMap);
+  const objectBank = packObjectBank(assets.objects, spriteIndexMap, levelIndexMap);
+  const soundBank = packSoundBank(options.sounds ?? [], options.soundEvents ?? {});
+  const levelTable = packLevelTable(gameLevels, createIndexMap(gameScreens), gameScreens, assets.objects);
+  const screenBank = packScreenBank(gameScreens, blockIndexMap, objectIndexMap, assets.objects, levelIndexMap);
 
   // Combine all banks into one binary
-  const totalLength = spriteBank.length + blockBank.length + objectBank.length + screenBank.length;
+  const totalLength = spriteBank.length + blockBank.length + objectBank.length + soundBank.length +
+    levelTable.length + screenBank.length;
   const combined = new Uint8Array(totalLength);
   let offset = 0;
 
@@ -1449,9 +875,135 @@ export function exportGameFlowToBIN(
   combined.set(objectBank, offset);
   offset += objectBank.length;
 
+  combined.set(soundBank, offset);
+  offset += soundBank.length;
+
+  combined.set(levelTable, offset);
+  offset += levelTable.length;
+
   combined.set(screenBank, offset);
 
-  return new Blob([combined], { type: "application/octet-stream" });
+  return combined;
+}
+
+/**
+ * Export combined binary file (.bin) with all data banks
+ * Only for a game that builds: one too big for the machine fails here as the TAP would
+ */
+export function exportGameFlowToBIN(
+  gameFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  projectName: string,
+  options: GameBuildOptions = {}
+): Blob {
+  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+  const assets = getExportAssets(sortedFlow, screens, levels, blocks, objects, sprites);
+  if (getFlowScreens(sortedFlow, screens, levels).length > 0) {
+    buildGame(sortedFlow, screens, levels, blocks, objects, sprites, assets, projectName, options);
+  }
+  const gameLevels = getGameLevels(sortedFlow, screens, levels);
+  return new Blob([packGameBanks(assets, gameLevels, options) as BlobPart], { type: "application/octet-stream" });
+}
+
+// Each bank optimizeSize packs, as it is and packed; the 128K sprite page isn't packed
+function getCompressionStats(
+  sortedFlow: GameFlowScreen[],
+  screens: Screen[],
+  levels: Level[],
+  blocks: Block[],
+  objects: GameObject[],
+  sprites: Sprite[],
+  assets: ExportAssets,
+  machine?: TargetMachine
+): NonNullable<ExportResult["stats"]["compressed"]> {
+  const gameScreens = assets.screens;
+  const { menu, pictures } = getFlowMenu(sortedFlow, screens, levels);
+  const flowScreens = getFlowScreens(sortedFlow, screens, levels);
+  const compressed = (bank: string, records: ArrayLike<number>[]) => ({
+    bank,
+    size: records.reduce((total, record) => total + record.length, 0),
+    packedSize: records.reduce((total, record) => total + compressBytes(record).length, 0),
+  });
+
+  const stats = [];
+  if (machine !== "128k") {
+    stats.push(compressed("Sprite bank", [assembleSpriteBank(assets.sprites).bytes]));
+  }
+  stats.push(compressed("Screens", packScreenRecords(
+    gameScreens, createIndexMap(assets.blocks), createIndexMap(assets.objects), assets.objects,
+    createIndexMap(getGameLevels(sortedFlow, screens, levels))
+  )));
+  if (menu) {
+    stats.push(compressed("Menu pictures", pictures.map(screen => encodeScreenToSCR(screen, blocks, objects, sprites))));
+  }
+  if (flowScreens.length > 0) {
+    stats.push(compressed("Loading screen", [encodeScreenToSCR(flowScreens[0], blocks, objects, sprites)]));
+  }
+  return stats;
+}
+
+/**
+ * Export a whole project at once: TAP, TZX, snapshots, ASM, BIN and the size of each bank
+ * exportOptions.optimizeSize (by default the project's setting) packs the banks that can be
+ * Nothing here touches the DOM, so it also runs headless (src/cli/exportGame.ts)
+ */
+export function exportGameProject(project: GameProject, exportOptions: ExportOptions = {}): ExportResult {
+  const { gameFlow, screens, levels, blocks, objects, sprites, name, author, music, settings, sounds, soundEvents } = project;
+  const optimizeSize = exportOptions.optimizeSize ?? settings.optimizeSize;
+  const options: GameBuildOptions = { machine: settings.machine, music, author, sounds, soundEvents, settings, optimizeSize };
+  const sortedFlow = [...gameFlow].sort((a, b) => a.order - b.order);
+  const assets = getExportAssets(sortedFlow, screens, levels, blocks, objects, sprites);
+  const { tap, build } = buildGameFlowTAP(gameFlow, screens, levels, blocks, objects, sprites, assets, name, options);
+  const tzx = buildGameFlowTZX(gameFlow, screens, levels, blocks, objects, sprites, assets, name, options);
+  // Snapshots are of the 48K build, which a 128K game may well not fit
+  const banked = settings.machine === "128k";
+  const snapshot = build && !banked
+    ? buildGameSnapshot(gameFlow, screens, levels, blocks, objects, sprites, assets, name, options)
+    : undefined;
+
+  // Sizes of the banks as they are in the TAP's CODE block
+  const gameScreens = assets.screens;
+  const gameLevels = getGameLevels(sortedFlow, screens, levels);
+  const levelIndexMap = createIndexMap(gameLevels);
+  const spriteIndexMap = createSpriteIndexMap(assets.sprites, assets.spriteAliases);
+  const spriteBankSize = packSpriteBank(assets.sprites).length;
+  const blockBankSize = packBlockBank(assets.blocks, spriteIndexMap).length;
+  const objectBankSize = packObjectBank(assets.objects, spriteIndexMap, levelIndexMap).length;
+  const soundBankSize = packSoundBank(sounds, soundEvents).length;
+  const levelTableSize = packLevelTable(gameLevels, createIndexMap(gameScreens), gameScreens, assets.objects).length;
+  const screenBankSize = packScreenBank(
+    gameScreens, createIndexMap(assets.blocks), createIndexMap(assets.objects), assets.objects, levelIndexMap
+  ).length;
+
+  return {
+    tapBlob: tap.toBlob(),
+    tzxBlob: tzx.toBlob(),
+    snaData: snapshot?.generateSNA(),
+    z80Data: snapshot?.generateZ80(),
+    asmCode: build?.source ?? buildGameSource(sortedFlow, screens, levels, blocks, objects, sprites, assets, name, options),
+    binaryData: packGameBanks(assets, gameLevels, options),
+    stripped: assets.stripped,
+    memoryMap: build && build.pages.length === 0 ? planMemory48(build.code) : undefined,
+    stats: {
+      spriteBankSize,
+      blockBankSize,
+      objectBankSize,
+      soundBankSize,
+      levelTableSize,
+      screenBankSize,
+      codeSize: build?.code.bytes.length ?? 0,
+      snapshotsSkipped: build && banked ? "Snapshots are of the 48K build, and this game targets 128K" : undefined,
+      asmSections: banked ? BANKED_ASM_NOTE : undefined,
+      totalSize: spriteBankSize + blockBankSize + objectBankSize + soundBankSize + levelTableSize + screenBankSize,
+      compressed: optimizeSize
+        ? getCompressionStats(sortedFlow, screens, levels, blocks, objects, sprites, assets, settings.machine)
+        : undefined,
+    },
+  };
 }
 
 /**
@@ -1461,11 +1013,20 @@ export function exportGameFlowToBIN(
 function encodeScreenToSCR(screen: Screen, blocks: Block[], objects: GameObject[], sprites: Sprite[]): number[] {
   const scrData = new Array(6912).fill(0);
 
-  // Handle tile-based screens (game levels)
+  // Handle tile-based screens (game levels): drawn pixels are INK, colours come from attribute cells
   if (screen.tiles && !screen.pixels) {
-    const pixels: (typeof SPECTRUM_COLORS[0])[][] = Array.from({ length: 192 }, () => 
-      Array(256).fill(SPECTRUM_COLORS[0])
-    );
+    scrData.fill(encodeAttribute(DEFAULT_ATTRIBUTE), 6144);
+
+    const plot = (px: number, py: number) => {
+      if (px < 0 || px >= 256 || py < 0 || py >= 192) return;
+      const scanline = ((py & 0xC0) << 5) | ((py & 0x07) << 8) | ((py & 0x38) << 2) | (px >> 3);
+      scrData[scanline] |= 0x80 >> (px & 7);
+    };
+    const setAttribute = (cx: number, cy: number, attribute: number) => {
+      if (cx >= 0 && cx < 32 && cy >= 0 && cy < 24) {
+        scrData[6144 + cy * 32 + cx] = attribute;
+      }
+    };
 
     // Render tiles
     for (let ty = 0; ty < screen.tiles.length && ty < 24; ty++) {
@@ -1477,21 +1038,19 @@ function encodeScreenToSCR(screen: Screen, blocks: Block[], objects: GameObject[
         if (!block || !block.sprite.frames[0]) continue;
 
         const spritePixels = block.sprite.frames[0].pixels;
-        
+        setAttribute(tx, ty, packBlockAttribute(block));
+
         for (let sy = 0; sy < 8 && sy < spritePixels.length; sy++) {
           for (let sx = 0; sx < 8 && sx < spritePixels[sy].length; sx++) {
-            const py = ty * 8 + sy;
-            const px = tx * 8 + sx;
-            const colorIndex = spritePixels[sy][sx];
-            if (py < 192 && px < 256) {
-              pixels[py][px] = SPECTRUM_COLORS[colorIndex] || SPECTRUM_COLORS[0];
+            if (spritePixels[sy][sx] !== 0) {
+              plot(tx * 8 + sx, ty * 8 + sy);
             }
           }
         }
       }
     }
 
-    // Render placed objects
+    // Render placed objects, colouring the cells they draw into
     if (screen.placedObjects) {
       for (const placedObj of screen.placedObjects) {
         const gameObject = objects.find(o => o.id === placedObj.objectId);
@@ -1507,23 +1066,24 @@ function encodeScreenToSCR(screen: Screen, blocks: Block[], objects: GameObject[
         const objectSprite = sprites.find(s => s.id === spriteId);
         if (!objectSprite || !objectSprite.frames[0]) continue;
 
+        const [width, height] = objectSprite.size.split("x").map(Number);
         const objPixels = objectSprite.frames[0].pixels;
-        
+        const attributes = getFrameAttributes(objectSprite.frames[0], width, height);
+
         for (let sy = 0; sy < objPixels.length; sy++) {
           for (let sx = 0; sx < objPixels[sy].length; sx++) {
-            const py = placedObj.y * 8 + sy;
-            const px = placedObj.x * 8 + sx;
-            const colorIndex = objPixels[sy][sx];
-            
-            if (colorIndex !== 0 && py >= 0 && py < 192 && px >= 0 && px < 256) {
-              pixels[py][px] = SPECTRUM_COLORS[colorIndex] || SPECTRUM_COLORS[0];
+            if (objPixels[sy][sx] === 0) continue;
+            const cell = attributes[sy >> 3]?.[sx >> 3];
+            if (cell) {
+              setAttribute(placedObj.x + (sx >> 3), placedObj.y + (sy >> 3), encodeAttribute(cell));
             }
+            plot(placedObj.x * 8 + sx, placedObj.y * 8 + sy);
           }
         }
       }
     }
 
-    return encodePixelsToSCR(pixels);
+    return scrData;
   }
 
   if (!screen.pixels) return scrData;
@@ -1593,6 +1153,48 @@ export function downloadGameFlowTAP(blob: Blob, filename: string) {
   URL.revokeObjectURL(url);
 }
 
+/**
+ * Download helper for TZX files
+ */
+export function downloadGameFlowTZX(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".tzx") ? filename : `${filename}.tzx`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download helper for SNA snapshots
+ */
+export function downloadGameFlowSNA(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".sna") ? filename : `${filename}.sna`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Download helper for Z80 snapshots
+ */
+export function downloadGameFlowZ80(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename.endsWith(".z80") ? filename : `${filename}.z80`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Download helper for ASM files
  */
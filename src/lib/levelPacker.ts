@@ -0,0 +1,79 @@
+// Level table packing for ZX Spectrum export
+// A level is one playable entry of the game flow: a Level's screens, or a
+// single game screen. The engine starts each level on its first screen and
+// opens its exits once the required collectables on all its screens are taken
+import { BinaryPacker } from "./binaryPacker";
+import type { GameObject, Screen } from "@/types/spectrum";
+
+// Exit target for "the next level in the game flow"
+export const NO_LEVEL = 0xff;
+
+export interface GameLevel {
+  id: string;            // Level id, or the screen id of a single screen entry
+  name: string;
+  screenIds: string[];   // Game screens, first one first
+}
+
+// Collectables on the level's screens that must be taken before its exits open
+export function countRequiredItems(level: GameLevel, screens: Screen[], objects: GameObject[]): number {
+  return level.screenIds.reduce((count, screenId) => {
+    const placed = screens.find(s => s.id === screenId)?.placedObjects ?? [];
+    return count + placed.filter(po => {
+      const object = objects.find(o => o.id === po.objectId);
+      return object?.type === "collectable" && object.properties.requiredToExit;
+    }).length;
+  }, 0);
+}
+
+// Level record: [first screen] [required items]
+function packLevelRecord(
+  level: GameLevel,
+  screenIndexMap: Map<string, number>,
+  screens: Screen[],
+  objects: GameObject[]
+): number[] {
+  const required = countRequiredItems(level, screens, objects);
+  if (required > 255) {
+    throw new Error(`Level "${level.name}" has ${required} required items, at most 255 fit`);
+  }
+  return [screenIndexMap.get(level.screenIds[0]) ?? 0, required];
+}
+
+// Pack the level table: [count] [level0] [level1] ...
+export function packLevelTable(
+  levels: GameLevel[],
+  screenIndexMap: Map<string, number>,
+  screens: Screen[],
+  objects: GameObject[]
+): Uint8Array {
+  if (levels.length > NO_LEVEL) {
+    throw new Error(`At most ${NO_LEVEL} levels fit in the level table, got ${levels.length}`);
+  }
+  const packer = new BinaryPacker();
+  packer.writeByte(levels.length);
+  for (const level of levels) {
+    packer.writeBytes(packLevelRecord(level, screenIndexMap, screens, objects));
+  }
+  return packer.toUint8Array();
+}
+
+// Generate assembly code for the level table
+export function generateLevelTableAsm(
+  levels: GameLevel[],
+  screenIndexMap: Map<string, number>,
+  screens: Screen[],
+  objects: GameObject[]
+): string {
+  // Validates the table the same way the binary export does
+  packLevelTable(levels, screenIndexMap, screens, objects);
+
+  let asm = "; Level Table\n";
+  asm += "; Format: [count] [first screen, required items] per level, in game flow order\n\n";
+  asm += "LevelTable:\n";
+  asm += `    defb ${levels.length}  ; Number of levels\n`;
+  levels.forEach(level => {
+    const [firstScreen, required] = packLevelRecord(level, screenIndexMap, screens, objects);
+    asm += `    defb ${firstScreen},${required}  ; ${level.name}\n`;
+  });
+  return asm;
+}
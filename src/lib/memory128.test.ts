@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { gameProject } from "@/test/gameProject";
+import { exportGameProject } from "./gameFlowExport";
+import { layoutScreenPages, MUSIC_PAGE, PAGE_ORIGIN, PAGE_SIZE, SCREEN_PAGES, SPRITE_PAGE } from "./memory128";
+import { parseTAP, SpectrumEmulator, TSTATES_PER_FRAME } from "./spectrumEmulator";
+import { Z80 } from "./z80Cpu";
+
+const record = (label: string, length: number) => ({ label, bytes: new Uint8Array(length) });
+
+describe("layoutScreenPages", () => {
+  it("fills the screen pages in order, each record whole in one page", () => {
+    const { pages, placements } = layoutScreenPages([record("A", 10000), record("B", 7000), record("C", 500)]);
+    expect(pages.map(page => page.page)).toEqual(SCREEN_PAGES.slice(0, 2));
+    expect(placements).toEqual([
+      { page: SCREEN_PAGES[0], address: PAGE_ORIGIN, length: 10000 },
+      { page: SCREEN_PAGES[1], address: PAGE_ORIGIN, length: 7000 },
+      { page: SCREEN_PAGES[1], address: PAGE_ORIGIN + 7000, length: 500 },
+    ]);
+  });
+
+  it("fails when the screen pages are full", () => {
+    const records = SCREEN_PAGES.map((_, index) => record(`S${index}`, PAGE_SIZE)).concat(record("X", 1));
+    expect(() => layoutScreenPages(records)).toThrow(/don't fit in the 3 RAM pages/);
+  });
+});
+
+// A 128K machine without a ROM: bank 5 at 0x4000, bank 2 at 0x8000, and the page
+// selected through port 0x7FFD at 0xC000, with the AY register writes kept
+function machine128() {
+  const ram = new Uint8Array(0x10000);
+  const banks = Array.from({ length: 8 }, () => new Uint8Array(PAGE_SIZE));
+  const state = { page: 0, pagesSelected: new Set<number>(), ayWrites: 0 };
+  const cpu = new Z80({
+    read: address => (address >= PAGE_ORIGIN ? banks[state.page][address - PAGE_ORIGIN] : ram[address]),
+    write: (address, value) => {
+      if (address >= PAGE_ORIGIN) banks[state.page][address - PAGE_ORIGIN] = value;
+      else if (address >= 0x4000) ram[address] = value;
+    },
+    portIn: port => ((port & 1) === 0 ? 0xbf : 0xff),
+    portOut: (port, value) => {
+      if ((port & 0x8002) === 0) {
+        state.page = value & 7;
+        state.pagesSelected.add(state.page);
+      } else if ((port & 0xc002) === 0x8000) {
+        state.ayWrites++;
+      }
+    },
+  });
+  // IM 1 lands on an EI; RET at 0x38, as the ROM's interrupt routine would
+  ram.set([0xfb, 0xc9], 0x38);
+  return { cpu, ram, banks, state };
+}
+
+// Load the TAP as its BASIC loader does: the main CODE block where its header
+// says, then each further CODE block into the page the loader's OUT 32765 selects
+function loadTAP128(tap: Uint8Array, banks: Uint8Array[], ram: Uint8Array): { codeStart: number; pages: number[] } {
+  const blocks = parseTAP(tap);
+  // OUT 32765,n: the OUT token, the port, then the value's digits after the comma
+  const basic = blocks[1].data;
+  const pages: number[] = [];
+  basic.forEach((byte, index) => {
+    if (byte !== 0xdf) return;
+    const comma = basic.indexOf(0x2c, index);
+    const value = String.fromCharCode(...basic.slice(comma + 1, comma + 4)).match(/^\d+/);
+    if (value) pages.push(Number(value[0]) & 7);
+  });
+  const code = blocks.filter((block, index) => block.flag === 0 && block.data[0] === 3 && index > 1)
+    .map(header => ({ start: header.data[13] | (header.data[14] << 8), body: blocks[blocks.indexOf(header) + 1].data }));
+  const [screen, main, ...paged] = code;
+  ram.set(screen.body, screen.start);
+  ram.set(main.body, main.start);
+  paged.forEach(({ body }, index) => banks[pages[index]].set(body));
+  return { codeStart: main.start, pages };
+}
+
+describe("128K export", () => {
+  it("boots, pages in its banks, plays music under IM 2 and draws the same game as 48K", async () => {
+    const result = exportGameProject({ ...gameProject, settings: { ...gameProject.settings, machine: "128k" } });
+    const tap = new Uint8Array(await result.tapBlob.arrayBuffer());
+    const { cpu, ram, banks, state } = machine128();
+    const { codeStart, pages } = loadTAP128(tap, banks, ram);
+    // The loader loads the sprite page, a screen page and the music page, then pages 0 back in
+    expect(pages.slice(0, -1)).toEqual([SPRITE_PAGE, SCREEN_PAGES[0], MUSIC_PAGE]);
+    expect(pages[pages.length - 1]).toBe(0);
+
+    cpu.reset();
+    cpu.i = 0x3f;
+    cpu.im = 1;
+    cpu.iy = 0x5c3a;
+    cpu.sp = codeStart - 2;
+    cpu.pc = codeStart;
+    cpu.iff1 = cpu.iff2 = true;
+    const frames = 60;
+    for (let frame = 0; frame < frames; frame++) {
+      let tstates = cpu.interrupt();
+      while (tstates < TSTATES_PER_FRAME) tstates += cpu.step();
+    }
+    expect(cpu.im).toBe(2);
+    expect(state.page).toBe(SPRITE_PAGE);
+    expect([...state.pagesSelected]).toEqual(expect.arrayContaining([SPRITE_PAGE, SCREEN_PAGES[0], MUSIC_PAGE]));
+    expect(state.ayWrites).toBeGreaterThan(0);
+
+    // The same game built for 48K draws the same screen
+    const result48 = exportGameProject(gameProject);
+    const emulator = new SpectrumEmulator();
+    emulator.loadTAP(new Uint8Array(await result48.tapBlob.arrayBuffer()));
+    for (let frame = 0; frame < frames; frame++) emulator.runFrame();
+    expect(ram.slice(0x4000, 0x5800).some(byte => byte !== 0)).toBe(true);
+    expect(Array.from(ram.slice(0x4000, 0x5b00))).toEqual(Array.from(emulator.memory.slice(0x4000, 0x5b00)));
+  });
+});
@@ -0,0 +1,204 @@
+// 128K memory layout for ZX Spectrum export
+// Bank 2 (0x8000-0xBFFF) holds the engine with the block and object banks as
+// on 48K; the sprite bank, screens, menu pictures and music go in RAM pages
+// switched in at 0xC000 through port 0x7FFD. The sprite page stays in while the
+// game runs, screens and pictures are copied out of theirs when shown and the
+// frame interrupt pages the music's in and back out
+import { bytesToAsmDefb } from "./binaryPacker";
+
+export const PAGE_ORIGIN = 0xc000;
+export const PAGE_SIZE = 0x4000;
+export const SPRITE_PAGE = 1;
+export const SCREEN_PAGES = [3, 4, 6];
+export const MUSIC_PAGE = 0;
+// Page 7 is left alone: 128 BASIC keeps its workspace there while loading
+
+// The engine's IM 2 vector table (257 bytes) and the jump it leads to at
+// 0xBFBF, at the top of bank 2
+export const INTERRUPT_TABLE = 0xbe00;
+
+// Engine, block and object banks and buffers must end before the vector table
+export const MAIN_CODE_LIMIT = INTERRUPT_TABLE;
+
+export interface ScreenPlacement {
+  page: number;
+  address: number;
+  length: number;
+}
+
+export interface ScreenPage {
+  page: number;
+  screens: { label: string; bytes: Uint8Array }[];
+}
+
+// Fill the screen pages in order, each record (a screen, or a picture after
+// the screens) whole in one page
+export function layoutScreenPages(
+  records: { label: string; bytes: Uint8Array }[]
+): { pages: ScreenPage[]; placements: ScreenPlacement[] } {
+  const pages: ScreenPage[] = [];
+  const placements: ScreenPlacement[] = [];
+  let used = PAGE_SIZE;
+
+  records.forEach(({ label, bytes }) => {
+    if (used + bytes.length > PAGE_SIZE) {
+      if (pages.length === SCREEN_PAGES.length) {
+        throw new Error(`${records.length} screens and pictures don't fit in the ${SCREEN_PAGES.length} RAM pages for screens`);
+      }
+      pages.push({ page: SCREEN_PAGES[pages.length], screens: [] });
+      used = 0;
+    }
+    const page = pages[pages.length - 1];
+    page.screens.push({ label, bytes });
+    placements.push({ page: page.page, address: PAGE_ORIGIN + used, length: bytes.length });
+    used += bytes.length;
+  });
+
+  return { pages, placements };
+}
+
+// Source of one screen page: the records back to back at PAGE_ORIGIN
+export function generateScreenPageAsm(page: ScreenPage): string {
+  let asm = `; ===== SCREENS (RAM page ${page.page}) =====\n`;
+  asm += `    org ${PAGE_ORIGIN}\n`;
+  for (const { label, bytes } of page.screens) {
+    asm += "\n" + bytesToAsmDefb(Array.from(bytes), label);
+  }
+  return asm;
+}
+
+// Where each screen lives, and the buffer the current one is copied into
+// (bufferSize: the largest screen unpacked when they're packed)
+export function generateScreenTableAsm(
+  placements: ScreenPlacement[],
+  bufferSize = Math.max(1, ...placements.map(p => p.length))
+): string {
+  let asm = "; Screen table: [page] [address] [length] per screen\n";
+  asm += "ScreenTable:\n";
+  placements.forEach(({ page, address, length }, index) => {
+    asm += `    defb ${page}\n    defw ${address},${length}  ; Screen ${index}\n`;
+  });
+  asm += `ScreenBuffer:       defs ${bufferSize}\n`;
+  return asm;
+}
+
+// Where each menu picture lives, for ShowPicture
+export function generatePictureTableAsm(placements: ScreenPlacement[]): string {
+  let asm = "; Picture table: [page] [address] per menu picture\n";
+  asm += "PictureTable:\n";
+  placements.forEach(({ page, address }, index) => {
+    asm += `    defb ${page}\n    defw ${address}  ; Picture ${index}\n`;
+  });
+  return asm;
+}
+
+/**
+ * Generate the paging routines the 128K engine uses in place of the 48K ones:
+ * InitPaging (called at Start), PageIn and SelectScreen, ShowPicture when the
+ * game has a menu, and with music PlayMusicPaged, which the engine's frame
+ * interrupt calls to run PlayMusic (generateMusicPlayerAsm)
+ * Packed screens and pictures are unpacked out of their pages (the engine's Unpack)
+ */
+export function generatePagingAsm(music: boolean, pictures: boolean, packed = false): string {
+  let asm = "; ===== 128K PAGING =====\n";
+  asm += "BANK_PORT        equ 0x7FFD\n";
+  asm += "BANKM            equ 0x5B5C  ; System variable: last value written to BANK_PORT\n";
+  asm += "ROM_48K          equ 0x10    ; Keep the 48 BASIC ROM paged in\n";
+  asm += `SPRITE_PAGE      equ ${SPRITE_PAGE}\n`;
+  asm += `MUSIC_PAGE       equ ${MUSIC_PAGE}\n`;
+
+  asm += `
+; Page the sprite bank in
+InitPaging:
+    ld a,SPRITE_PAGE
+    jp PageIn
+
+; Page RAM page A in at 0xC000 (BC kept)
+PageIn:
+    or ROM_48K
+    ld (BANKM),a
+    push bc
+    ld bc,BANK_PORT
+    out (c),a
+    pop bc
+    ret
+
+; Select screen A: ${packed ? "unpack" : "copy"} its record out of its page into ScreenBuffer
+SelectScreen:
+    ld l,a
+    ld h,0
+    ld e,l
+    ld d,h
+    add hl,hl
+    add hl,hl
+    add hl,de                   ; 5 bytes per ScreenTable entry
+    ld de,ScreenTable
+    add hl,de
+    ld a,(hl)                   ; Page
+    inc hl
+    ld e,(hl)
+    inc hl
+    ld d,(hl)                   ; Address
+    inc hl
+    ld c,(hl)
+    inc hl
+    ld b,(hl)                   ; Length
+    call PageIn
+    ex de,hl
+    ld de,ScreenBuffer
+    ${packed ? "call Unpack" : "ldir"}
+    ld a,SPRITE_PAGE
+    call PageIn
+    ld hl,ScreenBuffer
+    ld (CurrentScreen),hl
+    ld de,SCREEN_HEADER         ; Skip width, height and links
+    add hl,de
+    ld (CurrentScreenTiles),hl
+    ret
+`;
+
+  if (pictures) {
+    asm += `
+; ${packed ? "Unpack" : "Copy"} picture A out of its page to the display
+ShowPicture:
+    ld l,a
+    ld h,0
+    ld e,l
+    ld d,h
+    add hl,hl
+    add hl,de                   ; 3 bytes per PictureTable entry
+    ld de,PictureTable
+    add hl,de
+    ld a,(hl)                   ; Page
+    inc hl
+    ld e,(hl)
+    inc hl
+    ld d,(hl)                   ; Address
+    call PageIn
+    ex de,hl
+    ld de,SCREEN_PIXELS
+${packed ? "    call Unpack\n" : "    ld bc,6912\n    ldir\n"}    ld a,SPRITE_PAGE
+    jp PageIn
+`;
+  }
+
+  if (music) {
+    asm += `
+; One frame of music with its page in, then the page before back
+; Called from the frame interrupt: AF, BC, DE and HL are not kept
+PlayMusicPaged:
+    ld a,(BANKM)
+    push af
+    ld a,MUSIC_PAGE
+    call PageIn
+    call PlayMusic
+    pop af
+    ld (BANKM),a
+    ld bc,BANK_PORT
+    out (c),a
+    ret
+`;
+  }
+
+  return asm;
+}
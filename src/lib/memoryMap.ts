@@ -0,0 +1,104 @@
+// 48K memory map of an exported game, from the labels of its assembled build
+// Below the CODE block the display, system variables and BASIC, the back
+// buffer and the stack under CLEAR 32767 are fixed; from the CODE block up the
+// engine, its variables and the data banks follow in the order buildGameSource
+// lays them out, then what the engine unpacks above them and the frame
+// interrupt's vector table, which must all end by the top of RAM
+import type { AssemblyResult } from "./z80Assembler";
+
+export const RAM_START = 0x4000;
+export const RAM_END = 0x10000;
+
+// What a region is for, which the export panel colours it by
+export type MemoryRegionKind = "system" | "buffer" | "stack" | "engine" | "variables" | "bank" | "unpacked" | "interrupt";
+
+export interface MemoryRegion {
+  name: string;
+  kind: MemoryRegionKind;
+  start: number;
+  size: number;
+}
+
+export interface MemoryMap {
+  regions: MemoryRegion[];  // In address order, from RAM_START
+  free: number;             // Bytes left at the top of RAM
+  overflow: number;         // Bytes past the top of RAM (0 when the game fits)
+}
+
+// Fixed below the CODE block (the back buffer is the engine's BUFFER_PIXELS)
+const FIXED_REGIONS: MemoryRegion[] = [
+  { name: "Display", kind: "system", start: 0x4000, size: 6912 },
+  { name: "System variables and BASIC", kind: "system", start: 0x5b00, size: 0x0500 },
+  { name: "Back buffer", kind: "buffer", start: 0x6000, size: 6912 },
+  { name: "Stack (CLEAR 32767)", kind: "stack", start: 0x7b00, size: 0x0500 },
+];
+
+// Labels that start each part of the CODE block, in the order they're laid out;
+// a part runs to the next label found, the last to CodeEnd
+const CODE_PARTS: { label: string; name: string; kind: MemoryRegionKind }[] = [
+  { label: "Start", name: "Engine", kind: "engine" },
+  { label: "FrameTicks", name: "Engine variables", kind: "variables" },
+  { label: "SpriteBankPacked", name: "Sprite bank (packed)", kind: "bank" },
+  { label: "SpriteBank", name: "Sprite bank", kind: "bank" },
+  { label: "BlockBank", name: "Block bank", kind: "bank" },
+  { label: "ObjectBank", name: "Object bank", kind: "bank" },
+  { label: "AnimationBank", name: "Animation bank", kind: "bank" },
+  { label: "SoundBank", name: "Sound bank", kind: "bank" },
+  { label: "LevelTable", name: "Level table", kind: "bank" },
+  { label: "ScreenBank", name: "Screen bank", kind: "bank" },
+  { label: "PictureTable", name: "Menu pictures", kind: "bank" },
+];
+
+// Lay out the 48K map of an assembled 48K build (buildGameSource), as loaded at
+// codeStart: a build too big to assemble there is planned from one assembled lower
+export function planMemory48(code: AssemblyResult, codeStart = code.origin): MemoryMap {
+  const symbols = new Map([...code.symbols].map(([label, value]) => [label, value - code.origin + codeStart]));
+  const origin = codeStart;
+  const codeEnd = symbols.get("CodeEnd") ?? origin + code.bytes.length;
+  const regions = [...FIXED_REGIONS];
+
+  // The engine starts the block even though Start is further in
+  const starts = CODE_PARTS
+    .map(part => ({ ...part, start: part.label === "Start" ? origin : symbols.get(part.label) }))
+    .filter((part): part is typeof part & { start: number } => part.start !== undefined && part.start < codeEnd)
+    .sort((a, b) => a.start - b.start);
+  starts.forEach(({ name, kind, start }, index) => {
+    const end = starts[index + 1]?.start ?? codeEnd;
+    if (end > start) regions.push({ name, kind, start, size: end - start });
+  });
+
+  // Unpacked by the engine above the code (optimizeSize)
+  const spriteBank = symbols.get("SpriteBank");
+  const screenBuffer = symbols.get("ScreenBuffer");
+  const freeRam = symbols.get("FreeRam") ?? codeEnd;
+  if (symbols.has("SpriteBankPacked") && spriteBank !== undefined && screenBuffer !== undefined) {
+    regions.push({ name: "Sprite bank (unpacked)", kind: "unpacked", start: spriteBank, size: screenBuffer - spriteBank });
+    regions.push({ name: "Screen buffer", kind: "unpacked", start: screenBuffer, size: freeRam - screenBuffer });
+  }
+
+  // The jump the vectors lead to at the first address above FreeRam with equal
+  // bytes, and the 257-byte vector table at the next 256-byte boundary
+  // (the engine's IM2_JUMP and IM2_TABLE)
+  const interruptJump = Math.floor((freeRam + 256) / 257) * 257;
+  const interruptEnd = Math.floor(interruptJump / 256) * 256 + 256 + 257;
+  regions.push({ name: "Interrupt table", kind: "interrupt", start: freeRam, size: interruptEnd - freeRam });
+
+  return {
+    regions,
+    free: Math.max(0, RAM_END - interruptEnd),
+    overflow: Math.max(0, interruptEnd - RAM_END),
+  };
+}
+
+const hex = (address: number) => `0x${address.toString(16).toUpperCase().padStart(4, "0")}`;
+
+// One line per region: addresses, size and name, then what's left or missing
+export function formatMemoryMap(map: MemoryMap): string {
+  const lines = map.regions.map(({ name, start, size }) =>
+    `${hex(start)}-${hex(start + size - 1)} ${String(size).padStart(6)}  ${name}`
+  );
+  lines.push(map.overflow > 0
+    ? `${map.overflow} bytes past the top of RAM`
+    : `${map.free} bytes free`);
+  return lines.join("\n");
+}
@@ -1,16 +1,12 @@
 // Object definition packing for ZX Spectrum export
-import { BinaryPacker, getObjectTypeEnum, floatToFixed8 } from "./binaryPacker";
+import { BinaryPacker } from "./binaryPacker";
+import { OBJECT_PROPERTIES, getObjectTypeCode, packProperties, resolvePackedValues } from "./propertySchema";
+import { ANIMATED_TYPES, ANIMATION_ACTIONS, resolveAnimation } from "./animations";
 import { GameObject } from "@/types/spectrum";
 
-// Object property flags (bitfield)
-const OBJ_FLAG_HAS_SPEED = 1 << 0;
-const OBJ_FLAG_HAS_JUMP_HEIGHT = 1 << 1;
-const OBJ_FLAG_HAS_GRAVITY = 1 << 2;
-const OBJ_FLAG_HAS_PATROL = 1 << 3;
-const OBJ_FLAG_HAS_DAMAGE = 1 << 4;
-const OBJ_FLAG_HAS_POINTS = 1 << 5;
-const OBJ_FLAG_REQUIRED_EXIT = 1 << 6;
-const OBJ_FLAG_HAS_AI = 1 << 7;
+// Animation table end marker, and the sprite of an action that keeps the one shown
+export const NO_ANIMATION = 255;
+export const NO_SPRITE = 255;
 
 export interface PackedObjectDef {
   spriteId: number;      // Index to sprite bank
@@ -20,7 +16,12 @@ export interface PackedObjectDef {
 }
 
 // Pack a single object definition
-export function packObjectDefinition(obj: GameObject, spriteIndexMap: Map<string, number>): number[] {
+// Exit target levels are packed as their position in levelIndexMap
+export function packObjectDefinition(
+  obj: GameObject,
+  spriteIndexMap: Map<string, number>,
+  levelIndexMap: Map<string, number> = new Map()
+): number[] {
   const packer = new BinaryPacker();
   
   // Byte 0: spriteId (index to sprite bank)
@@ -28,73 +29,15 @@ export function packObjectDefinition(obj: GameObject, spriteIndexMap: Map<string
   packer.writeByte(spriteIndex);
   
   // Byte 1: type enum
-  const typeEnum = getObjectTypeEnum(obj.type);
-  packer.writeByte(typeEnum);
+  packer.writeByte(getObjectTypeCode(obj.type));
   
-  // Byte 2: property flags
-  let flags = 0;
-  const properties: number[] = [];
-  
-  // Player-specific properties
-  if (obj.type === "player" && obj.properties) {
-    if (typeof obj.properties.speed === "number") {
-      flags |= OBJ_FLAG_HAS_SPEED;
-      properties.push(floatToFixed8(obj.properties.speed));
-    }
-    if (typeof obj.properties.jumpHeight === "number") {
-      flags |= OBJ_FLAG_HAS_JUMP_HEIGHT;
-      properties.push(Math.round(obj.properties.jumpHeight));
-    }
-    if (typeof obj.properties.gravity === "number") {
-      flags |= OBJ_FLAG_HAS_GRAVITY;
-      properties.push(floatToFixed8(obj.properties.gravity));
-    }
-  }
-  
-  // Enemy-specific properties
-  if (obj.type === "enemy" && obj.properties) {
-    if (typeof obj.properties.speed === "number") {
-      flags |= OBJ_FLAG_HAS_SPEED;
-      properties.push(floatToFixed8(obj.properties.speed));
-    }
-    if (obj.properties.patrolType) {
-      flags |= OBJ_FLAG_HAS_PATROL;
-      // Encode patrol type: 0=horizontal, 1=vertical, 2=circular
-      const patrolMap: Record<string, number> = {
-        "horizontal": 0,
-        "vertical": 1,
-        "circular": 2,
-      };
-      properties.push(patrolMap[obj.properties.patrolType] ?? 0);
-    }
-    if (typeof obj.properties.damage === "number") {
-      flags |= OBJ_FLAG_HAS_DAMAGE;
-      properties.push(Math.round(obj.properties.damage));
-    }
-    if (obj.properties.aiBehavior) {
-      flags |= OBJ_FLAG_HAS_AI;
-      // Encode AI behavior: 0=patrol, 1=chase, 2=guard
-      const aiMap: Record<string, number> = {
-        "patrol": 0,
-        "chase": 1,
-        "guard": 2,
-      };
-      properties.push(aiMap[obj.properties.aiBehavior] ?? 0);
-    }
-  }
-  
-  // Collectable-specific properties
-  if (obj.type === "collectable" && obj.properties) {
-    if (typeof obj.properties.points === "number") {
-      flags |= OBJ_FLAG_HAS_POINTS;
-      // Store as 16-bit word
-      const points = Math.round(obj.properties.points);
-      properties.push(points & 0xff, (points >> 8) & 0xff);
-    }
-    if (obj.properties.requiredToExit) {
-      flags |= OBJ_FLAG_REQUIRED_EXIT;
-    }
-  }
+  // Byte 2: property flags, from the object property schema
+  // Platforms carry the player unless it's switched off
+  const context = `Object "${obj.name}"`;
+  const { flags, bytes: properties } = packProperties(
+    OBJECT_PROPERTIES, obj.type,
+    resolvePackedValues({ playerCarry: true, ...obj.properties }, levelIndexMap, context), context
+  );
   
   packer.writeByte(flags);
   
@@ -104,8 +47,35 @@ export function packObjectDefinition(obj: GameObject, spriteIndexMap: Map<string
   return packer.getBytes();
 }
 
-// Pack all object definitions into a bank
-export function packObjectBank(objects: GameObject[], spriteIndexMap: Map<string, number>): Uint8Array {
+// Pack the animation sets: [object index] [mirror bits, bit n for action n]
+// [sprite per action, ANIMATION_ACTIONS order] for each object the engine
+// animates, then NO_ANIMATION
+export function packAnimationTable(
+  objects: GameObject[],
+  spriteIndexMap: Map<string, number>
+): number[] {
+  const bytes: number[] = [];
+  objects.forEach((obj, index) => {
+    if (!ANIMATED_TYPES.includes(obj.type)) return;
+    const sprites = ANIMATION_ACTIONS.map(action => {
+      const shown = resolveAnimation(obj, action);
+      const sprite = shown ? spriteIndexMap.get(shown.spriteId) : undefined;
+      return shown && sprite !== undefined ? { sprite, mirror: shown.mirror } : undefined;
+    });
+    if (sprites.every(entry => !entry)) return;
+    const mirrorBits = sprites.reduce((bits, entry, bit) => entry?.mirror ? bits | (1 << bit) : bits, 0);
+    bytes.push(index, mirrorBits, ...sprites.map(entry => entry?.sprite ?? NO_SPRITE));
+  });
+  bytes.push(NO_ANIMATION);
+  return bytes;
+}
+
+// Pack all object definitions into a bank, the animation table after them
+export function packObjectBank(
+  objects: GameObject[],
+  spriteIndexMap: Map<string, number>,
+  levelIndexMap: Map<string, number> = new Map()
+): Uint8Array {
   const packer = new BinaryPacker();
   
   // Header: number of objects
@@ -113,16 +83,22 @@ export function packObjectBank(objects: GameObject[], spriteIndexMap: Map<string
   
   // Pack each object definition
   for (const obj of objects) {
-    const objBytes = packObjectDefinition(obj, spriteIndexMap);
+    const objBytes = packObjectDefinition(obj, spriteIndexMap, levelIndexMap);
     packer.writeBytes(objBytes);
   }
+
+  packer.writeBytes(packAnimationTable(objects, spriteIndexMap));
   
   return packer.toUint8Array();
 }
 
 // Generate assembly code for object bank
-export function generateObjectBankAsm(objects: GameObject[], spriteIndexMap: Map<string, number>): string {
-  const bytes = Array.from(packObjectBank(objects, spriteIndexMap));
+export function generateObjectBankAsm(
+  objects: GameObject[],
+  spriteIndexMap: Map<string, number>,
+  levelIndexMap: Map<string, number> = new Map()
+): string {
+  const bytes = Array.from(packObjectBank(objects, spriteIndexMap, levelIndexMap));
   
   let asm = "; Object Definition Bank\n";
   asm += "; Format: [count] [obj0_data] [obj1_data] ...\n";
@@ -133,12 +109,21 @@ export function generateObjectBankAsm(objects: GameObject[], spriteIndexMap: Map
   
   let offset = 1;
   for (let i = 0; i < objects.length; i++) {
-    const objBytes = packObjectDefinition(objects[i], spriteIndexMap);
+    const objBytes = packObjectDefinition(objects[i], spriteIndexMap, levelIndexMap);
     asm += `; Object ${i}: ${objects[i].name} (${objects[i].type})\n`;
     asm += `Object${i}:\n`;
     asm += `    defb ${objBytes.join(",")}  ; spriteId, type, flags, properties...\n`;
     offset += objBytes.length;
   }
+
+  asm += "\n; Animation table: [object] [mirror bits] [sprite per action: ";
+  asm += `${ANIMATION_ACTIONS.join(", ")}], then ${NO_ANIMATION}\n`;
+  asm += "AnimationBank:\n";
+  const animations = packAnimationTable(objects, spriteIndexMap);
+  for (let i = 0; i + 1 < animations.length; i += 2 + ANIMATION_ACTIONS.length) {
+    asm += `    defb ${animations.slice(i, i + 2 + ANIMATION_ACTIONS.length).join(",")}  ; ${objects[animations[i]].name}\n`;
+  }
+  asm += `    defb ${NO_ANIMATION}\n`;
   
   return asm;
 }
@@ -0,0 +1,183 @@
+// Moving platform motion shared by the Level Designer playtest and the engine
+// The engine's MovePlatform and rope routines follow these rules pixel for
+// pixel, so a platform rides the same track in the playtest as in the game
+import { DIRECTION_OPTIONS, OBJECT_PROPERTIES, getPropertyField } from "./propertySchema";
+import type { GameObject, MovingPlatformType } from "@/types/spectrum";
+
+// Swing positions of a rope over one full swing, and its widest angle
+export const ROPE_SWING_STEPS = 64;
+const ROPE_MAX_ANGLE = (40 * Math.PI) / 180;
+
+// Frames after grabbing or letting go of a rope before the next grab or let go
+export const ROPE_HOLD_FRAMES = 6;
+
+// Pixels per block of platform range and elevator stops
+const BLOCK_PIXELS = 8;
+
+// Track of a platform whose object doesn't set one
+export const DEFAULT_PLATFORM_SPEED = 2;
+export const DEFAULT_PLATFORM_RANGE = 8;
+
+// Rows at the top of a platform the player lands on
+export const PLATFORM_TOP = 8;
+
+const PAUSE_FIELD = getPropertyField(OBJECT_PROPERTIES, "pauseAtEnds");
+
+// Step from one rope point to the next for each swing position, 8.8 fixed point
+// The rope is straight: it swings as a pendulum about its anchor
+export const ROPE_SWING: { dx: number; dy: number }[] = Array.from({ length: ROPE_SWING_STEPS }, (_, phase) => {
+  const angle = ROPE_MAX_ANGLE * Math.sin((2 * Math.PI * phase) / ROPE_SWING_STEPS);
+  return { dx: Math.round(Math.sin(angle) * 256), dy: Math.round(Math.cos(angle) * 256) };
+});
+
+// Start directions along a platform's axis; a rope takes its first swing left or right
+export function getPlatformDirectionOptions(type: MovingPlatformType) {
+  const axis = type === "horizontal" || type === "rope" ? ["left", "right"] : ["up", "down"];
+  return DIRECTION_OPTIONS.filter(option => axis.includes(option.value));
+}
+
+// The start direction on a platform's axis heading the same way as `direction`:
+// directions pack as a signed step, so left and up (or right and down) are one heading
+export function getPlatformDirection(
+  type: MovingPlatformType,
+  direction: GameObject["properties"]["startDirection"]
+): NonNullable<GameObject["properties"]["startDirection"]> {
+  const code = DIRECTION_OPTIONS.find(option => option.value === direction)?.code ?? 1;
+  const options = getPlatformDirectionOptions(type);
+  return (options.find(option => option.code === code) ?? options[1]).value;
+}
+
+export interface PlatformState {
+  type: MovingPlatformType;
+  homeX: number;         // Pixels: where it was placed, or the rope's anchor
+  homeY: number;
+  x: number;
+  y: number;
+  speed: number;         // Pixels per frame, or swing positions per frame for a rope
+  range: number;         // Pixels of travel, or the rope's length
+  pause: number;         // Frames waited at the ends and elevator stops
+  wait: number;          // Frames left of the current wait
+  travel: number;        // Pixels from home, or the rope's swing position
+  heading: 1 | -1;       // Start direction along its axis
+  returning: boolean;    // Ping-pong: heading back to its home
+  loop: boolean;         // Jumps back to its home from the far end
+  carry: boolean;        // Carries the player standing on it (ropes: can be grabbed)
+  stops: Set<number>;    // Elevator stops, in blocks from home
+}
+
+// What a frame of movement did to the platform
+export interface PlatformMove {
+  dx: number;            // Pixels moved, to carry a rider by
+  dy: number;
+  wrapped: boolean;      // Jumped back to its home: a rider falls off
+}
+
+// Platform at pixel (x, y) with the given (overridden) object properties
+export function createPlatform(properties: GameObject["properties"], x: number, y: number): PlatformState {
+  const type = properties.platformType ?? "horizontal";
+  const heading = properties.startDirection === "left" || properties.startDirection === "up" ? -1 : 1;
+  return {
+    type,
+    homeX: x,
+    homeY: y,
+    x,
+    y,
+    speed: properties.platformSpeed ?? DEFAULT_PLATFORM_SPEED,
+    range: (properties.platformRange ?? DEFAULT_PLATFORM_RANGE) * BLOCK_PIXELS,
+    pause: Math.round((properties.pauseAtEnds ?? 0) * (PAUSE_FIELD.scale ?? 1)),
+    wait: 0,
+    travel: type === "rope" && heading < 0 ? ROPE_SWING_STEPS / 2 : 0,
+    heading,
+    returning: false,
+    loop: properties.repeatType === "loop",
+    carry: properties.playerCarry !== false,
+    stops: new Set(type === "elevator" ? properties.elevatorStops ?? [] : []),
+  };
+}
+
+// One pixel along the track; true when the platform stops for this frame
+function stepPlatform(platform: PlatformState): boolean {
+  if (platform.returning) {
+    platform.travel--;
+    if (platform.travel === 0) {
+      platform.returning = false;
+      platform.wait = platform.pause;
+      return true;
+    }
+  } else {
+    platform.travel++;
+    if (platform.travel === platform.range) {
+      if (platform.loop) {
+        platform.travel = 0;
+      } else {
+        platform.returning = true;
+      }
+      platform.wait = platform.pause;
+      return true;
+    }
+  }
+  if (platform.travel % BLOCK_PIXELS === 0 && platform.stops.has(platform.travel / BLOCK_PIXELS)) {
+    platform.wait = platform.pause;
+    return true;
+  }
+  return false;
+}
+
+// Move a platform for one frame: wait out a pause, or travel up to its speed in pixels
+// A rope swings on instead
+export function movePlatform(platform: PlatformState): PlatformMove {
+  if (platform.type === "rope") {
+    platform.travel = (platform.travel + platform.speed) & (ROPE_SWING_STEPS - 1);
+    return { dx: 0, dy: 0, wrapped: false };
+  }
+  if (platform.wait > 0) {
+    platform.wait--;
+    return { dx: 0, dy: 0, wrapped: false };
+  }
+
+  const { x, y } = platform;
+  let wrapped = false;
+  for (let i = 0; i < platform.speed; i++) {
+    const stopped = stepPlatform(platform);
+    wrapped = stopped && platform.loop && platform.travel === 0;
+    if (stopped) break;
+  }
+
+  const offset = platform.travel * platform.heading;
+  if (platform.type === "horizontal") {
+    platform.x = (platform.homeX + offset) & 0xff;
+  } else {
+    platform.y = (platform.homeY + offset) & 0xff;
+  }
+  return { dx: platform.x - x, dy: platform.y - y, wrapped };
+}
+
+// Points of a rope from its anchor down, one pixel apart, in its current swing
+// position; the rope ends early where it leaves the play area
+export function getRopePoints(platform: PlatformState, playHeight: number): { x: number; y: number }[] {
+  const { dx, dy } = ROPE_SWING[platform.travel];
+  const points: { x: number; y: number }[] = [];
+  let x = platform.homeX * 256 + 128;
+  let y = platform.homeY * 256 + 128;
+  for (let i = 0; i < platform.range; i++) {
+    x += dx;
+    y += dy;
+    if (x < 0 || x > 0xffff || y >> 8 >= playHeight) break;
+    points.push({ x: x >> 8, y: y >> 8 });
+  }
+  return points;
+}
+
+// Index of the first rope point inside the player's box, -1 when they don't touch it
+export function findRopeGrab(
+  points: { x: number; y: number }[],
+  playerX: number,
+  playerY: number,
+  playerWidth: number,
+  playerHeight: number
+): number {
+  return points.findIndex(point =>
+    point.x - playerX >= 0 && point.x - playerX < playerWidth &&
+    point.y - playerY >= 0 && point.y - playerY < playerHeight
+  );
+}
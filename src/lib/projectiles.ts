@@ -0,0 +1,92 @@
+// Projectiles shared by the Level Designer playtest and the engine
+// A shot flies straight from the player the way they face until it has gone its
+// range, leaves the screen, or hits a solid block or an enemy; the engine's shot
+// routines follow these rules pixel for pixel
+import type { GameObject } from "@/types/spectrum";
+
+// Ammunition whose object doesn't set its projectile
+export const DEFAULT_PROJECTILE_SPEED = 8;
+export const DEFAULT_PROJECTILE_DAMAGE = 5;
+export const DEFAULT_PROJECTILE_RANGE = 100;
+
+// Energy of an enemy that doesn't set its health
+export const DEFAULT_ENEMY_HEALTH = 10;
+
+// Shots on screen at once
+export const DEFAULT_MAX_SHOTS = 3;
+export const MAX_SHOTS = 8;
+
+// Screen width in pixels
+const SCREEN_WIDTH = 256;
+
+export interface ShotState {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  heading: 1 | -1;
+  speed: number;     // Pixels per frame
+  damage: number;    // Energy taken from the enemy it hits
+  left: number;      // Pixels it can still fly
+  frame: number;
+}
+
+// The ammunition the player fires: the one set on them, else the first in the library
+export function getPlayerAmmunition(player: GameObject | undefined, objects: GameObject[]): GameObject | undefined {
+  const ammunition = objects.filter(obj => obj.type === "ammunition");
+  return ammunition.find(obj => obj.id === player?.properties.ammunition) ?? ammunition[0];
+}
+
+// Shot of `ammunition` (width x height) leaving the player's box at the middle of
+// its leading edge; null when that's off the screen
+export function createShot(
+  ammunition: GameObject["properties"],
+  width: number,
+  height: number,
+  playerX: number,
+  playerY: number,
+  playerWidth: number,
+  playerHeight: number,
+  facingLeft: boolean
+): ShotState | null {
+  const x = facingLeft ? playerX - width : playerX + playerWidth;
+  if (x < 0 || x > SCREEN_WIDTH - width) return null;
+  return {
+    x,
+    y: playerY + ((playerHeight - height) >> 1),
+    width,
+    height,
+    heading: facingLeft ? -1 : 1,
+    speed: ammunition.projectileSpeed ?? DEFAULT_PROJECTILE_SPEED,
+    damage: ammunition.projectileDamage ?? DEFAULT_PROJECTILE_DAMAGE,
+    left: ammunition.projectileRange ?? DEFAULT_PROJECTILE_RANGE,
+    frame: 0,
+  };
+}
+
+// Fly a shot for one frame; false when it has gone its range or left the screen
+export function moveShot(shot: ShotState, frames: number): boolean {
+  if (shot.left < shot.speed) return false;
+  shot.left -= shot.speed;
+  shot.x += shot.heading * shot.speed;
+  shot.frame = (shot.frame + 1) % Math.max(1, frames);
+  return shot.x >= 0 && shot.x <= SCREEN_WIDTH - shot.width;
+}
+
+// Pixel at the middle of a shot's leading edge, where it hits blocks
+export function getShotTip(shot: ShotState): { x: number; y: number } {
+  return {
+    x: shot.heading > 0 ? shot.x + shot.width - 1 : shot.x,
+    y: shot.y + (shot.height >> 1),
+  };
+}
+
+// True when a shot overlaps a box
+export function shotHits(shot: ShotState, x: number, y: number, width: number, height: number): boolean {
+  return shot.x < x + width && x < shot.x + shot.width && shot.y < y + height && y < shot.y + shot.height;
+}
+
+// Energy left to an enemy after a shot hits it; 0 takes it off the screen
+export function hitEnemy(health: number, shot: ShotState): number {
+  return Math.max(0, health - shot.damage);
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import {
+  BLOCK_PROPERTIES,
+  encodeProperty,
+  getPropertySizes,
+  INSTANCE_PROPERTIES,
+  OBJECT_PROPERTIES,
+  packElevatorStops,
+  packProperties,
+  PropertyField,
+  resolvePackedValues,
+} from "./propertySchema";
+
+describe("packProperties", () => {
+  it("packs the type's properties in bit order behind their flags", () => {
+    const { flags, bytes } = packProperties(OBJECT_PROPERTIES, "enemy", {
+      damage: 10, speed: 2, patrolType: "up-down", health: 5,
+    }, "Enemy");
+    expect(flags).toBe(0b11011);
+    expect(bytes).toEqual([8, 5, 1, 10]);
+  });
+
+  it("packs words little-endian and scaled values rounded", () => {
+    expect(packProperties(OBJECT_PROPERTIES, "collectable", { points: 1000, requiredToExit: true }, "Coin"))
+      .toEqual({ flags: 0b1100000, bytes: [0xe8, 0x03] });
+    expect(packProperties(BLOCK_PROPERTIES, "ice", { frictionCoefficient: 0.5 }, "Ice"))
+      .toEqual({ flags: 0b10000, bytes: [128] });
+  });
+
+  it("leaves out unset values, false flags, other types' properties and excluded fields", () => {
+    expect(packProperties(OBJECT_PROPERTIES, "collectable", { points: undefined, requiredToExit: false, speed: 3 }, "Coin"))
+      .toEqual({ flags: 0, bytes: [] });
+    expect(packProperties(INSTANCE_PROPERTIES, "enemy", { speed: 2, damage: 5 }, "Enemy", field => field.key !== "speed"))
+      .toEqual({ flags: 0b1000, bytes: [5] });
+  });
+
+  it.each([
+    ["enemy", { speed: 9 }, "Object: speed 9 is outside 1..8"],
+    ["enemy", { damage: 0 }, "Object: damage 0 is outside 1..50"],
+    ["player", { jumpHeight: 81 }, "Object: jumpHeight 81 is outside 16..80"],
+    ["collectable", { points: -10 }, "Object: points -10 is outside 0..1000"],
+    ["enemy", { speed: "fast" }, 'Object: speed must be a number, got "fast"'],
+    ["enemy", { speed: Number.NaN }, 'Object: speed must be a number, got "NaN"'],
+    ["enemy", { aiBehavior: "sneaky" }, 'Object: unknown aiBehavior "sneaky"'],
+  ])("rejects %s %o", (type, properties, message) => {
+    expect(() => packProperties(OBJECT_PROPERTIES, type, properties, "Object")).toThrow(message);
+  });
+
+  it("rejects values whose packed form doesn't fit the field", () => {
+    const field: PropertyField = { key: "wide", bit: 0, size: 1, scale: 4, min: 0, max: 100 };
+    expect(encodeProperty(field, 63.75, "Test")).toEqual([255]);
+    expect(() => encodeProperty(field, 64, "Test")).toThrow("Test: wide 64 doesn't fit in a byte");
+    expect(() => encodeProperty({ ...field, size: 2, scale: 1000 }, 66, "Test")).toThrow("doesn't fit in a word");
+  });
+});
+
+describe("schemas", () => {
+  it.each([
+    ["objects", OBJECT_PROPERTIES],
+    ["blocks", BLOCK_PROPERTIES],
+    ["placed objects", INSTANCE_PROPERTIES],
+  ])("give every flag bit of the %s one size", (_, schema: readonly PropertyField[]) => {
+    expect(getPropertySizes(schema)).toHaveLength(8);
+  });
+
+  it("rejects a bit packed at two sizes", () => {
+    expect(() => getPropertySizes([{ key: "a", bit: 3, size: 1 }, { key: "b", bit: 3, size: 2 }]))
+      .toThrow('Property "b" packs 2 bytes but bit 3 is 1 bytes');
+  });
+});
+
+describe("resolvePackedValues", () => {
+  it("swaps ids, stops and carry for the numbers they pack as", () => {
+    const levels = new Map([["l-1", 0], ["l-2", 1]]);
+    const screens = new Map([["s-9", 4]]);
+    expect(resolvePackedValues(
+      { targetLevel: "l-2", targetScreen: "s-9", elevatorStops: [2, 5], playerCarry: true }, levels, "Exit", screens
+    )).toEqual({ targetLevel: 1, targetScreen: 4, elevatorStops: 0b100100, playerCarry: 1 });
+  });
+
+  it("rejects unknown targets and stops out of range", () => {
+    expect(() => resolvePackedValues({ targetLevel: "l-x" }, new Map(), "Exit"))
+      .toThrow('Exit: target level "l-x" isn\'t a level in the game flow');
+    expect(() => resolvePackedValues({ targetScreen: "s-x" }, new Map(), "Door"))
+      .toThrow('Door: target screen "s-x" isn\'t a screen in the game');
+    expect(() => packElevatorStops([0], "Lift")).toThrow("Lift: elevator stop 0 is outside 1..15 blocks");
+    expect(() => packElevatorStops([16], "Lift")).toThrow("outside 1..15");
+  });
+});
@@ -0,0 +1,343 @@
+// Property schema for ZX Spectrum export
+// One declarative description of every packed object, block and placed object
+// property: its flag bit, encoding and valid range. The packers, the engine's
+// record layouts and the editors all read it, so a value the binary format
+// can't hold fails at export instead of being packed as something else
+import { BlockType as BlockTypeEnum, ObjectTypeEnum } from "./binaryPacker";
+import type { Block, BlockType, GameObject, ObjectType } from "@/types/spectrum";
+
+export interface SchemaOption<T extends string = string> {
+  value: T;
+  label: string;
+  code: number;           // Packed byte
+  description?: string;
+}
+
+export interface PropertyField<K extends string = string> {
+  key: K;
+  bit: number;                          // Flag bit in the record's flags byte
+  size: 0 | 1 | 2;                      // Packed bytes (0 = the flag alone, 2 = little-endian word)
+  scale?: number;                       // Numbers are packed as round(value * scale)
+  min?: number;                         // Valid range of the value as edited
+  max?: number;
+  step?: number;
+  options?: readonly SchemaOption[];    // Enum values, packed as their code
+  types?: readonly string[];            // Record types that have the property (all when omitted)
+}
+
+export type ObjectProperty = keyof GameObject["properties"];
+export type BlockProperty = keyof Block["properties"];
+
+// Options whose code is their position in the list
+function indexedOptions<T extends string>(options: [T, string][]): SchemaOption<T>[] {
+  return options.map(([value, label], code) => ({ value, label, code }));
+}
+
+// ===== ENUMS =====
+
+export const OBJECT_TYPE_OPTIONS: readonly SchemaOption<ObjectType>[] = [
+  { value: "player", label: "Player", code: ObjectTypeEnum.PLAYER },
+  { value: "enemy", label: "Enemy", code: ObjectTypeEnum.ENEMY },
+  { value: "ammunition", label: "Ammunition", code: ObjectTypeEnum.AMMUNITION },
+  { value: "collectable", label: "Collectable", code: ObjectTypeEnum.COLLECTIBLE },
+  { value: "door", label: "Door", code: ObjectTypeEnum.DOOR },
+  { value: "exit", label: "Exit", code: ObjectTypeEnum.EXIT },
+  { value: "moving-platform", label: "Moving Platform", code: ObjectTypeEnum.MOVING_PLATFORM },
+];
+
+export const BLOCK_TYPE_OPTIONS: readonly SchemaOption<BlockType>[] = [
+  { value: "solid", label: "Solid", code: BlockTypeEnum.SOLID, description: "Blocks movement" },
+  { value: "deadly", label: "Deadly", code: BlockTypeEnum.DEADLY, description: "Kills player on contact" },
+  { value: "crumbling", label: "Crumbling", code: BlockTypeEnum.CRUMBLING, description: "Breaks after standing" },
+  { value: "sinking", label: "Sinking", code: BlockTypeEnum.SINKING, description: "Sinks when stepped on" },
+  { value: "conveyor", label: "Conveyor", code: BlockTypeEnum.CONVEYOR, description: "Moves player" },
+  { value: "ice", label: "Ice / Slippery", code: BlockTypeEnum.ICE, description: "Low friction surface" },
+  { value: "ladder", label: "Ladder", code: BlockTypeEnum.LADDER, description: "Allows climbing" },
+];
+
+export const PATROL_TYPE_OPTIONS = indexedOptions<NonNullable<GameObject["properties"]["patrolType"]>>([
+  ["left-right", "Left-Right"],
+  ["up-down", "Up-Down"],
+  ["circular", "Circular"],
+  ["stationary", "Stationary"],
+]);
+
+export const AI_BEHAVIOR_OPTIONS = indexedOptions<NonNullable<GameObject["properties"]["aiBehavior"]>>([
+  ["patrol", "Patrol"],
+  ["chase", "Chase Player"],
+  ["guard", "Guard Area"],
+  ["random", "Random Movement"],
+]);
+
+export const PLATFORM_TYPE_OPTIONS = indexedOptions<NonNullable<GameObject["properties"]["platformType"]>>([
+  ["horizontal", "Horizontal Mover"],
+  ["vertical", "Vertical Mover"],
+  ["elevator", "Elevator"],
+  ["rope", "Rope"],
+]);
+
+export const REPEAT_TYPE_OPTIONS = indexedOptions<NonNullable<GameObject["properties"]["repeatType"]>>([
+  ["ping-pong", "Ping-Pong"],
+  ["loop", "Loop"],
+]);
+
+export const EXIT_ACTIVATION_OPTIONS = indexedOptions<NonNullable<GameObject["properties"]["activationConditions"]>>([
+  ["required-items", "All required items collected"],
+  ["always", "Always open"],
+]);
+
+export const DOOR_ACTIVATION_OPTIONS = indexedOptions<NonNullable<GameObject["properties"]["doorActivation"]>>([
+  ["touch", "Touching the door"],
+  ["key", "Pressing up at the door"],
+]);
+
+// Directions pack as a signed step: 1 = right/down, 255 (-1) = left/up
+export const DIRECTION_OPTIONS: readonly SchemaOption<"left" | "right" | "up" | "down">[] = [
+  { value: "left", label: "Left", code: 0xff },
+  { value: "right", label: "Right", code: 1 },
+  { value: "up", label: "Up", code: 0xff },
+  { value: "down", label: "Down", code: 1 },
+];
+
+export const CONVEYOR_DIRECTION_OPTIONS = DIRECTION_OPTIONS.filter(
+  option => option.value === "left" || option.value === "right"
+);
+
+// ===== RECORD PROPERTIES =====
+
+const SPEED: PropertyField<"speed"> = { key: "speed", bit: 0, size: 1, scale: 4, min: 1, max: 8, step: 1 };
+const PATROL_TYPE: PropertyField<"patrolType"> = { key: "patrolType", bit: 3, size: 1, options: PATROL_TYPE_OPTIONS };
+const DAMAGE: PropertyField<"damage"> = { key: "damage", bit: 4, size: 1, min: 1, max: 50, step: 1 };
+const POINTS: PropertyField<"points"> = { key: "points", bit: 5, size: 2, min: 0, max: 1000, step: 10 };
+const AI_BEHAVIOR: PropertyField<"aiBehavior"> = { key: "aiBehavior", bit: 7, size: 1, options: AI_BEHAVIOR_OPTIONS };
+// Exits: the target Level id is swapped for its index by the packer (resolvePackedValues)
+const TARGET_LEVEL: PropertyField<"targetLevel"> = { key: "targetLevel", bit: 1, size: 1, min: 0, max: 254 };
+const ACTIVATION: PropertyField<"activationConditions"> = { key: "activationConditions", bit: 2, size: 1, options: EXIT_ACTIVATION_OPTIONS };
+// Doors: the target Screen id is swapped for its index by the screen packer (resolvePackedValues)
+const DOOR_ACTIVATION: PropertyField<"doorActivation"> = { key: "doorActivation", bit: 2, size: 1, options: DOOR_ACTIVATION_OPTIONS };
+// Moving platforms: the pause is authored in ms and packed as 12fps frames; elevator
+// stops pack as a word with bit n set for a stop n blocks from the start (resolvePackedValues)
+const PLATFORM_SPEED: PropertyField<"platformSpeed"> = { key: "platformSpeed", bit: 0, size: 1, min: 1, max: 8, step: 1 };
+const PLATFORM_RANGE: PropertyField<"platformRange"> = { key: "platformRange", bit: 1, size: 1, min: 1, max: 16, step: 1 };
+const PAUSE_AT_ENDS: PropertyField<"pauseAtEnds"> = { key: "pauseAtEnds", bit: 2, size: 1, scale: 0.012, min: 0, max: 2000, step: 100 };
+const PLATFORM_TYPE: PropertyField<"platformType"> = { key: "platformType", bit: 3, size: 1, options: PLATFORM_TYPE_OPTIONS };
+const REPEAT_TYPE: PropertyField<"repeatType"> = { key: "repeatType", bit: 7, size: 1, options: REPEAT_TYPE_OPTIONS };
+const PLATFORM: readonly string[] = ["moving-platform"];
+const AMMUNITION: readonly string[] = ["ammunition"];
+const DOOR: readonly string[] = ["door"];
+
+// Object definitions: [sprite] [type] [flags] [properties in bit order]
+// Bits are shared between types whose properties have the same size
+export const OBJECT_PROPERTIES: readonly PropertyField<ObjectProperty>[] = [
+  { ...SPEED, types: ["player", "enemy"] },
+  { key: "jumpHeight", bit: 1, size: 1, min: 16, max: 80, step: 4, types: ["player"] },
+  { ...TARGET_LEVEL, types: ["exit"] },
+  { key: "gravity", bit: 2, size: 1, scale: 4, min: 1, max: 10, step: 1, types: ["player"] },
+  { ...ACTIVATION, types: ["exit"] },
+  { ...DOOR_ACTIVATION, types: DOOR },
+  { ...PATROL_TYPE, types: ["enemy"] },
+  { ...DAMAGE, types: ["enemy"] },
+  { ...POINTS, types: ["collectable"] },
+  { key: "requiredToExit", bit: 6, size: 0, types: ["collectable"] },
+  { ...AI_BEHAVIOR, types: ["enemy"] },
+  { key: "health", bit: 1, size: 1, min: 1, max: 100, step: 1, types: ["enemy"] },
+  { key: "projectileSpeed", bit: 1, size: 1, min: 1, max: 20, step: 1, types: AMMUNITION },
+  { key: "projectileDamage", bit: 4, size: 1, min: 1, max: 50, step: 1, types: AMMUNITION },
+  { key: "projectileRange", bit: 5, size: 2, min: 10, max: 500, step: 10, types: AMMUNITION },
+  { ...PLATFORM_SPEED, types: PLATFORM },
+  { ...PLATFORM_RANGE, types: PLATFORM },
+  { ...PAUSE_AT_ENDS, types: PLATFORM },
+  { ...PLATFORM_TYPE, types: PLATFORM },
+  { key: "startDirection", bit: 4, size: 1, options: DIRECTION_OPTIONS, types: PLATFORM },
+  { key: "elevatorStops", bit: 5, size: 2, min: 0, max: 0xfffe, types: PLATFORM },
+  { key: "playerCarry", bit: 6, size: 0, types: PLATFORM },
+  { ...REPEAT_TYPE, types: PLATFORM },
+];
+
+// Block definitions: [sprite] [type] [flags] [properties in bit order]
+// Times are authored in seconds and packed as 12fps frames
+export const BLOCK_PROPERTIES: readonly PropertyField<BlockProperty>[] = [
+  { key: "speed", bit: 0, size: 1, scale: 4, min: 1, max: 10, step: 1, types: ["conveyor"] },
+  { key: "sinkingSpeed", bit: 0, size: 1, scale: 4, min: 0.1, max: 31, step: 0.1, types: ["sinking"] },
+  { key: "direction", bit: 1, size: 1, options: CONVEYOR_DIRECTION_OPTIONS, types: ["conveyor"] },
+  { key: "crumbleTime", bit: 2, size: 1, scale: 12, min: 0.1, max: 21, step: 0.1, types: ["crumbling"] },
+  { key: "respawnTime", bit: 3, size: 2, scale: 12, min: 0, max: 600, step: 0.5, types: ["crumbling"] },
+  { key: "frictionCoefficient", bit: 4, size: 1, scale: 255, min: 0.1, max: 1, step: 0.05, types: ["ice"] },
+  { key: "sinkingDepth", bit: 5, size: 1, min: 1, max: 192, step: 1, types: ["sinking"] },
+  { key: "climbSpeed", bit: 6, size: 1, scale: 4, min: 0.5, max: 31, step: 0.5, types: ["ladder"] },
+  { key: "passThroughAllowed", bit: 7, size: 0, types: ["ladder"] },
+];
+
+// Placed object overrides: [object] [x] [y] [flags] [overrides in bit order]
+// Platforms and doors share the bits of the enemy and exit overrides; player carry packs as 0 or 1
+// Doors are only linked here: their target screen and arrival tile belong to each placed door
+export const INSTANCE_PROPERTIES: readonly PropertyField<ObjectProperty>[] = [
+  { ...SPEED, bit: 0, types: ["player", "enemy"] },
+  { ...PLATFORM_SPEED, bit: 0, types: PLATFORM },
+  { key: "targetScreen", bit: 0, size: 1, min: 0, max: 254, types: DOOR },
+  { key: "startDirection", bit: 1, size: 1, options: DIRECTION_OPTIONS },
+  { ...PATROL_TYPE, bit: 2, types: ["enemy"] },
+  { ...PLATFORM_TYPE, bit: 2, types: PLATFORM },
+  { key: "arrivalX", bit: 2, size: 1, min: 0, max: 31, step: 1, types: DOOR },
+  { ...DAMAGE, bit: 3, types: ["enemy"] },
+  { ...PLATFORM_RANGE, bit: 3, types: PLATFORM },
+  { key: "arrivalY", bit: 3, size: 1, min: 0, max: 23, step: 1, types: DOOR },
+  { ...POINTS, bit: 4, types: ["collectable"] },
+  { ...AI_BEHAVIOR, bit: 5, types: ["enemy"] },
+  { ...PAUSE_AT_ENDS, bit: 5, types: PLATFORM },
+  { ...DOOR_ACTIVATION, bit: 5, types: DOOR },
+  { ...TARGET_LEVEL, bit: 6, types: ["exit"] },
+  { ...REPEAT_TYPE, bit: 6, types: PLATFORM },
+  { ...ACTIVATION, bit: 7, types: ["exit"] },
+  { key: "playerCarry", bit: 7, size: 1, min: 0, max: 1, types: PLATFORM },
+];
+
+// ===== LOOKUPS =====
+
+// Packed code of an enum value, undefined when it isn't one of the options
+function findOptionCode(options: readonly SchemaOption[], value: unknown): number | undefined {
+  return options.find(o => o.value === value)?.code;
+}
+
+function listOptions(options: readonly SchemaOption[]): string {
+  return options.map(o => o.value).join(", ");
+}
+
+// Packed code of an enum value
+export function getOptionCode(options: readonly SchemaOption[], value: string, what: string): number {
+  const code = findOptionCode(options, value);
+  if (code === undefined) {
+    throw new Error(`Unknown ${what} "${value}" (expected ${listOptions(options)})`);
+  }
+  return code;
+}
+
+export function getObjectTypeCode(type: string): number {
+  return getOptionCode(OBJECT_TYPE_OPTIONS, type, "object type");
+}
+
+export function getBlockTypeCode(type: string): number {
+  return getOptionCode(BLOCK_TYPE_OPTIONS, type, "block type");
+}
+
+// Field for a property key (editors read ranges and options from it)
+export function getPropertyField<K extends string>(schema: readonly PropertyField<K>[], key: K): PropertyField<K> {
+  const field = schema.find(f => f.key === key);
+  if (!field) throw new Error(`No packed property "${key}"`);
+  return field;
+}
+
+// Packed bytes per flag bit (bit 0 first), the layout the engine skips records with
+export function getPropertySizes(schema: readonly PropertyField[]): number[] {
+  const sizes: (number | undefined)[] = new Array(8).fill(undefined);
+  for (const field of schema) {
+    const size = sizes[field.bit];
+    if (size !== undefined && size !== field.size) {
+      throw new Error(`Property "${field.key}" packs ${field.size} bytes but bit ${field.bit} is ${size} bytes`);
+    }
+    sizes[field.bit] = field.size;
+  }
+  return sizes.map(size => size ?? 0);
+}
+
+// Elevator stops as the elevatorStops word packs: bit n for a stop n blocks from the start
+export function packElevatorStops(stops: number[], context: string): number {
+  return stops.reduce((mask, stop) => {
+    if (!Number.isInteger(stop) || stop < 1 || stop > 15) {
+      throw new Error(`${context}: elevator stop ${stop} is outside 1..15 blocks`);
+    }
+    return mask | (1 << stop);
+  }, 0);
+}
+
+// Properties with the values the schema can't encode directly swapped for the
+// numbers they pack as: the target Level id for its index in the game's level
+// list, the target Screen id for its index in the screen bank, elevator stops for
+// their bit mask and player carry for 0 or 1
+export function resolvePackedValues(
+  properties: Partial<GameObject["properties"]>,
+  levelIndexMap: Map<string, number>,
+  context: string,
+  screenIndexMap: Map<string, number> = new Map()
+): Partial<Record<ObjectProperty, unknown>> {
+  const resolved: Partial<Record<ObjectProperty, unknown>> = { ...properties };
+  const { targetLevel, targetScreen, elevatorStops, playerCarry } = properties;
+  if (targetLevel) {
+    const index = levelIndexMap.get(targetLevel);
+    if (index === undefined) {
+      throw new Error(`${context}: target level "${targetLevel}" isn't a level in the game flow`);
+    }
+    resolved.targetLevel = index;
+  }
+  if (targetScreen) {
+    const index = screenIndexMap.get(targetScreen);
+    if (index === undefined) {
+      throw new Error(`${context}: target screen "${targetScreen}" isn't a screen in the game`);
+    }
+    resolved.targetScreen = index;
+  }
+  if (elevatorStops) {
+    resolved.elevatorStops = elevatorStops.length > 0 ? packElevatorStops(elevatorStops, context) : undefined;
+  }
+  if (playerCarry !== undefined) {
+    resolved.playerCarry = playerCarry ? 1 : 0;
+  }
+  return resolved;
+}
+
+// ===== PACKING =====
+
+// Encode one property value, throwing if it doesn't fit the field
+export function encodeProperty(field: PropertyField, value: unknown, context: string): number[] {
+  if (field.size === 0) return [];
+
+  let encoded: number;
+  if (field.options) {
+    const code = findOptionCode(field.options, value);
+    if (code === undefined) {
+      throw new Error(`${context}: unknown ${field.key} "${value}" (expected ${listOptions(field.options)})`);
+    }
+    encoded = code;
+  } else {
+    if (typeof value !== "number" || Number.isNaN(value)) {
+      throw new Error(`${context}: ${field.key} must be a number, got "${value}"`);
+    }
+    if ((field.min !== undefined && value < field.min) || (field.max !== undefined && value > field.max)) {
+      throw new Error(`${context}: ${field.key} ${value} is outside ${field.min ?? "-"}..${field.max ?? "-"}`);
+    }
+    encoded = Math.round(value * (field.scale ?? 1));
+  }
+
+  const limit = field.size === 2 ? 0xffff : 0xff;
+  if (encoded < 0 || encoded > limit) {
+    throw new Error(`${context}: ${field.key} ${value} doesn't fit in ${field.size === 2 ? "a word" : "a byte"}`);
+  }
+  return field.size === 2 ? [encoded & 0xff, (encoded >> 8) & 0xff] : [encoded];
+}
+
+// Flags byte and property bytes for a record
+// Properties are packed in bit order; `include` filters the fields present
+export function packProperties<K extends string>(
+  schema: readonly PropertyField<K>[],
+  type: string,
+  properties: Partial<Record<K, unknown>>,
+  context: string,
+  include: (field: PropertyField<K>) => boolean = () => true
+): { flags: number; bytes: number[] } {
+  let flags = 0;
+  const bytes: number[] = [];
+
+  const fields = schema
+    .filter(field => !field.types || field.types.includes(type))
+    .sort((a, b) => a.bit - b.bit);
+
+  for (const field of fields) {
+    const value = properties[field.key];
+    if (value === undefined || value === null || value === "" || !include(field)) continue;
+    if (field.size === 0 && !value) continue;
+    flags |= 1 << field.bit;
+    bytes.push(...encodeProperty(field, value, context));
+  }
+
+  return { flags, bytes };
+}
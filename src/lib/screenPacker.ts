@@ -1,19 +1,41 @@
 // Screen packing for ZX Spectrum export
-import { BinaryPacker } from "./binaryPacker";
-import { Screen, Block, GameObject, PlacedObject } from "@/types/spectrum";
+import { BinaryPacker, bytesToAsmDefb } from "./binaryPacker";
+import { INSTANCE_PROPERTIES, packProperties, resolvePackedValues } from "./propertySchema";
+import { Screen, Block, GameObject, PlacedObject, ScreenLinks } from "@/types/spectrum";
 
-// Instance override flags (bitfield)
-const INST_FLAG_OVERRIDE_SPEED = 1 << 0;
-const INST_FLAG_OVERRIDE_DIRECTION = 1 << 1;
-const INST_FLAG_OVERRIDE_PATROL = 1 << 2;
-const INST_FLAG_OVERRIDE_DAMAGE = 1 << 3;
-const INST_FLAG_OVERRIDE_POINTS = 1 << 4;
+// Tile value for cells with no block (block 0 is a real block)
+export const EMPTY_TILE = 0xff;
+
+// Link value for an edge with no neighbouring screen
+export const NO_SCREEN = 0xff;
+
+// Order of the link bytes after the screen dimensions
+export const SCREEN_LINK_DIRECTIONS: (keyof ScreenLinks)[] = ["left", "right", "up", "down"];
+
+// Build screen index map (position in the screen bank)
+function createScreenIndexMap(screens: Screen[]): Map<string, number> {
+  const map = new Map<string, number>();
+  screens.forEach((screen, index) => {
+    map.set(screen.id, index);
+  });
+  return map;
+}
+
+// Pack the flip-screen links (left, right, up, down) as screen bank indices
+function packScreenLinks(screen: Screen, screenIndexMap: Map<string, number>): number[] {
+  return SCREEN_LINK_DIRECTIONS.map(direction => {
+    const targetId = screen.links?.[direction];
+    return targetId ? screenIndexMap.get(targetId) ?? NO_SCREEN : NO_SCREEN;
+  });
+}
 
 // Pack a placed object instance
 function packPlacedObject(
   obj: PlacedObject,
   objectIndexMap: Map<string, number>,
-  defaultObject: GameObject | undefined
+  defaultObject: GameObject | undefined,
+  levelIndexMap: Map<string, number>,
+  screenIndexMap: Map<string, number>
 ): number[] {
   const packer = new BinaryPacker();
   
@@ -21,56 +43,41 @@ function packPlacedObject(
   const objIndex = objectIndexMap.get(obj.objectId) ?? 0;
   packer.writeByte(objIndex);
   
-  // Byte 1-2: x, y position (in pixels or tiles depending on your coordinate system)
-  packer.writeByte(Math.round(obj.x / 8)); // Convert to tile coordinates
-  packer.writeByte(Math.round(obj.y / 8));
+  // Byte 1-2: x, y position (placed objects are already in tile coordinates)
+  packer.writeByte(obj.x);
+  packer.writeByte(obj.y);
   
-  // Byte 3: override flags
-  let flags = 0;
-  const overrides: number[] = [];
-  
-  // Check if instance has property overrides compared to defaults
-  if (obj.propertyOverrides && defaultObject?.properties) {
-    if (obj.propertyOverrides.speed !== undefined && obj.propertyOverrides.speed !== defaultObject.properties.speed) {
-      flags |= INST_FLAG_OVERRIDE_SPEED;
-      const speedByte = Math.round((obj.propertyOverrides.speed as number) * 4); // Fixed point
-      overrides.push(speedByte & 0xff);
-    }
-    
-    if (obj.propertyOverrides.startDirection && obj.propertyOverrides.startDirection !== defaultObject.properties.startDirection) {
-      flags |= INST_FLAG_OVERRIDE_DIRECTION;
-      const dirByte = obj.propertyOverrides.startDirection === "left" || obj.propertyOverrides.startDirection === "up" ? 0xff : 0x01;
-      overrides.push(dirByte);
-    }
-    
-    if (obj.propertyOverrides.damage !== undefined && obj.propertyOverrides.damage !== defaultObject.properties.damage) {
-      flags |= INST_FLAG_OVERRIDE_DAMAGE;
-      overrides.push(Math.round(obj.propertyOverrides.damage as number) & 0xff);
-    }
-    
-    if (obj.propertyOverrides.points !== undefined && obj.propertyOverrides.points !== defaultObject.properties.points) {
-      flags |= INST_FLAG_OVERRIDE_POINTS;
-      const points = Math.round(obj.propertyOverrides.points as number);
-      overrides.push(points & 0xff, (points >> 8) & 0xff);
-    }
-  }
+  // Byte 3: override flags, for overrides that differ from the object's own properties
+  const overrides = obj.propertyOverrides;
+  const context = `Placed "${defaultObject?.name}"`;
+  const { flags, bytes: overrideBytes } = overrides && defaultObject?.properties
+    ? packProperties(
+        INSTANCE_PROPERTIES, defaultObject.type, resolvePackedValues(overrides, levelIndexMap, context, screenIndexMap), context,
+        field => overrides[field.key] !== defaultObject.properties[field.key]
+      )
+    : { flags: 0, bytes: [] };
   
   packer.writeByte(flags);
   
   // Bytes 4+: override values (only if flags set)
-  if (overrides.length > 0) {
-    packer.writeBytes(overrides);
+  if (overrideBytes.length > 0) {
+    packer.writeBytes(overrideBytes);
   }
   
   return packer.getBytes();
 }
 
-// Pack a screen (tilemap + placed objects)
+// Pack a screen (links + tilemap + placed objects)
+// Links to screens missing from screenIndexMap are packed as NO_SCREEN; door
+// target screens are packed as their position in screenIndexMap and exit target
+// levels as their position in levelIndexMap
 export function packScreen(
   screen: Screen,
   blockIndexMap: Map<string, number>,
   objectIndexMap: Map<string, number>,
-  objects: GameObject[]
+  objects: GameObject[],
+  screenIndexMap: Map<string, number> = new Map(),
+  levelIndexMap: Map<string, number> = new Map()
 ): Uint8Array {
   const packer = new BinaryPacker();
   
@@ -83,11 +90,14 @@ export function packScreen(
   packer.writeByte(tileWidth);
   packer.writeByte(tileHeight);
   
+  // Flip-screen links: left, right, up, down
+  packer.writeBytes(packScreenLinks(screen, screenIndexMap));
+  
   // Tilemap data (tileWidth * tileHeight tile indices)
   for (let y = 0; y < tileHeight; y++) {
     for (let x = 0; x < tileWidth; x++) {
       const blockId = screen.tiles?.[y]?.[x] || "";
-      const blockIndex = blockIndexMap.get(blockId) ?? 0;
+      const blockIndex = blockIndexMap.get(blockId) ?? EMPTY_TILE;
       packer.writeByte(blockIndex);
     }
   }
@@ -99,7 +109,7 @@ export function packScreen(
   // Pack each placed object
   for (const placedObj of placedObjects) {
     const defaultObject = objects.find(o => o.id === placedObj.objectId);
-    const objBytes = packPlacedObject(placedObj, objectIndexMap, defaultObject);
+    const objBytes = packPlacedObject(placedObj, objectIndexMap, defaultObject, levelIndexMap, screenIndexMap);
     packer.writeBytes(objBytes);
   }
   
@@ -111,9 +121,11 @@ export function packScreenBank(
   screens: Screen[],
   blockIndexMap: Map<string, number>,
   objectIndexMap: Map<string, number>,
-  objects: GameObject[]
+  objects: GameObject[],
+  levelIndexMap: Map<string, number> = new Map()
 ): Uint8Array {
   const packer = new BinaryPacker();
+  const screenIndexMap = createScreenIndexMap(screens);
   
   // Build pointer table and data
   const pointerTable: number[] = [];
@@ -126,7 +138,7 @@ export function packScreenBank(
     pointerTable.push(dataOffset & 0xff, (dataOffset >> 8) & 0xff);
     
     // Pack screen data
-    const screenData = packScreen(screen, blockIndexMap, objectIndexMap, objects);
+    const screenData = packScreen(screen, blockIndexMap, objectIndexMap, objects, screenIndexMap, levelIndexMap);
     screenDataArrays.push(screenData);
     dataOffset += screenData.length;
   }
@@ -142,15 +154,32 @@ export function packScreenBank(
   return packer.toUint8Array();
 }
 
+// Screens packed one record each, for 128K builds that spread them over RAM
+// pages instead of one bank; links still use positions in the whole list
+export function packScreenRecords(
+  screens: Screen[],
+  blockIndexMap: Map<string, number>,
+  objectIndexMap: Map<string, number>,
+  objects: GameObject[],
+  levelIndexMap: Map<string, number> = new Map()
+): Uint8Array[] {
+  const screenIndexMap = createScreenIndexMap(screens);
+  return screens.map(screen => packScreen(screen, blockIndexMap, objectIndexMap, objects, screenIndexMap, levelIndexMap));
+}
+
 // Generate assembly code for screen bank
 export function generateScreenBankAsm(
   screens: Screen[],
   blockIndexMap: Map<string, number>,
   objectIndexMap: Map<string, number>,
-  objects: GameObject[]
+  objects: GameObject[],
+  levelIndexMap: Map<string, number> = new Map()
 ): string {
+  const screenIndexMap = createScreenIndexMap(screens);
+  
   let asm = "; Screen Data Bank\n";
   asm += "; Format: [pointer_table] [screen0_data] [screen1_data] ...\n";
+  asm += "; Screen: [width] [height] [left] [right] [up] [down] [tilemap] [object_count] [objects]\n";
   asm += `; Total screens: ${screens.length}\n\n`;
   
   asm += "ScreenBank:\n";
@@ -159,7 +188,7 @@ export function generateScreenBankAsm(
   
   let dataOffset = screens.length * 2;
   for (let i = 0; i < screens.length; i++) {
-    const screenData = packScreen(screens[i], blockIndexMap, objectIndexMap, objects);
+    const screenData = packScreen(screens[i], blockIndexMap, objectIndexMap, objects, screenIndexMap, levelIndexMap);
     asm += `    defw Screen${i}Data - ScreenBank  ; Offset to screen ${i}\n`;
     dataOffset += screenData.length;
   }
@@ -167,7 +196,8 @@ export function generateScreenBankAsm(
   asm += "\n; Screen data\n";
   for (let i = 0; i < screens.length; i++) {
     const screen = screens[i];
-    const screenData = Array.from(packScreen(screen, blockIndexMap, objectIndexMap, objects));
+    const screenData = Array.from(packScreen(screen, blockIndexMap, objectIndexMap, objects, screenIndexMap, levelIndexMap));
+    const tilemapStart = 2 + SCREEN_LINK_DIRECTIONS.length;
 
     // Derive tile dimensions from the tiles array to match packScreen()
     const tileHeight = screen.tiles?.length ?? 0;
@@ -176,9 +206,10 @@ export function generateScreenBankAsm(
 
     asm += `\nScreen${i}Data:  ; ${screen.name}\n`;
     asm += `    defb ${tileWidth},${tileHeight}  ; Dimensions (tiles)\n`;
+    asm += `    defb ${screenData.slice(2, tilemapStart).join(",")}  ; Links: left, right, up, down\n`;
     
     // Write tilemap data in rows
-    const tilemapBytes = screenData.slice(2, 2 + tilemapSize);
+    const tilemapBytes = screenData.slice(tilemapStart, tilemapStart + tilemapSize);
     asm += `    ; Tilemap (${tileWidth}x${tileHeight} tiles)\n`;
     for (let row = 0; row < tileHeight; row++) {
       const rowStart = row * tileWidth;
@@ -187,13 +218,30 @@ export function generateScreenBankAsm(
     }
     
     // Write placed objects
-    const objectsCount = screenData[2 + tilemapSize];
+    const objectsCount = screenData[tilemapStart + tilemapSize];
     asm += `    defb ${objectsCount}  ; Number of placed objects\n`;
     if (objectsCount > 0) {
-      const objectsData = screenData.slice(2 + tilemapSize + 1);
+      const objectsData = screenData.slice(tilemapStart + tilemapSize + 1);
       asm += `    defb ${objectsData.join(",")}  ; Object instances\n`;
     }
   }
   
   return asm;
 }
+
+// Generate a packed screen bank: a pointer per screen to its record, LZ packed
+// (compressBytes); the engine unpacks the current one into ScreenBuffer
+export function generatePackedScreenBankAsm(packedScreens: number[][], names: string[]): string {
+  let asm = "; Screen Data Bank (packed)\n";
+  asm += "; Format: [pointer_table] [screen0_packed] [screen1_packed] ...\n";
+  asm += `; Total screens: ${packedScreens.length}\n\n`;
+
+  asm += "ScreenBank:\n";
+  packedScreens.forEach((_, index) => {
+    asm += `    defw Screen${index}Packed\n`;
+  });
+  packedScreens.forEach((bytes, index) => {
+    asm += `\n; ${names[index]}\n` + bytesToAsmDefb(bytes, `Screen${index}Packed`);
+  });
+  return asm;
+}
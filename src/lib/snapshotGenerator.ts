@@ -0,0 +1,121 @@
+// 48K snapshot formats for ZX Spectrum: .sna and .z80
+// A snapshot is the machine's RAM and registers, so it starts instantly in an
+// emulator instead of going through the tape loader
+
+// RAM starts after the 16K ROM
+export const RAM_START = 0x4000;
+const RAM_SIZE = 0xc000;
+
+// System variables pointer the ROM's IM 1 handler expects in IY
+const ROM_IY = 0x5c3a;
+
+export interface SnapshotRegisters {
+  pc: number;
+  sp: number;
+  iy: number;
+  i: number;
+  im: 0 | 1 | 2;
+  interruptsEnabled: boolean;
+  border: number;
+}
+
+function word(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+// .z80 block compression: runs of 5 or more equal bytes (2 or more for 0xED)
+// become ED ED count byte; the byte straight after a lone ED is always literal
+function compressZ80(data: Uint8Array): number[] {
+  const out: number[] = [];
+  let afterLoneED = false;
+  let i = 0;
+  while (i < data.length) {
+    const byte = data[i];
+    let run = 1;
+    while (i + run < data.length && data[i + run] === byte && run < 255) run++;
+
+    if (!afterLoneED && (run >= 5 || (byte === 0xed && run >= 2))) {
+      out.push(0xed, 0xed, run, byte);
+      i += run;
+      afterLoneED = false;
+    } else {
+      out.push(byte);
+      i++;
+      afterLoneED = byte === 0xed;
+    }
+  }
+  return out;
+}
+
+export class SnapshotGenerator {
+  private ram = new Uint8Array(RAM_SIZE);
+  registers: SnapshotRegisters = {
+    pc: 0,
+    sp: 0xff58,
+    iy: ROM_IY,
+    i: 0x3f,
+    im: 1,
+    interruptsEnabled: true,
+    border: 7,
+  };
+
+  // Copy bytes into RAM at an address (0x4000 = display file)
+  load(address: number, bytes: ArrayLike<number>) {
+    if (address < RAM_START || address + bytes.length > RAM_START + RAM_SIZE) {
+      throw new Error(`${bytes.length} bytes at ${address} don't fit in 48K RAM`);
+    }
+    this.ram.set(bytes, address - RAM_START);
+  }
+
+  // Push a word onto the stack, as CALL would
+  push(value: number) {
+    this.registers.sp = (this.registers.sp - 2) & 0xffff;
+    this.load(this.registers.sp, word(value));
+  }
+
+  // .sna: 27-byte header then RAM; PC is popped off the stack on load (RETN)
+  generateSNA(): Uint8Array {
+    const { pc, iy, i, im, interruptsEnabled, border } = this.registers;
+    const sp = (this.registers.sp - 2) & 0xffff;
+    const header = [
+      i,
+      ...word(0), ...word(0), ...word(0), ...word(0), // HL' DE' BC' AF'
+      ...word(0), ...word(0), ...word(0),             // HL DE BC
+      ...word(iy),
+      ...word(0),                                     // IX
+      interruptsEnabled ? 0x04 : 0x00,                // IFF2
+      0,                                              // R
+      ...word(0),                                     // AF
+      ...word(sp),
+      im,
+      border & 0x07,
+    ];
+    const snapshot = new Uint8Array(header.length + RAM_SIZE);
+    snapshot.set(header);
+    snapshot.set(this.ram, header.length);
+    snapshot.set(word(pc), header.length + sp - RAM_START);
+    return snapshot;
+  }
+
+  // .z80 version 1: 30-byte header then compressed RAM and an end marker
+  generateZ80(): Uint8Array {
+    const { pc, sp, iy, i, im, interruptsEnabled, border } = this.registers;
+    const header = [
+      0, 0,                                           // A F
+      ...word(0), ...word(0),                         // BC HL
+      ...word(pc),
+      ...word(sp),
+      i,
+      0,                                              // R
+      ((border & 0x07) << 1) | 0x20,                  // Border, RAM compressed
+      ...word(0), ...word(0), ...word(0), ...word(0), // DE BC' DE' HL'
+      0, 0,                                           // A' F'
+      ...word(iy),
+      ...word(0),                                     // IX
+      interruptsEnabled ? 1 : 0,
+      interruptsEnabled ? 1 : 0,
+      im,
+    ];
+    return new Uint8Array([...header, ...compressZ80(this.ram), 0x00, 0xed, 0xed, 0x00]);
+  }
+}
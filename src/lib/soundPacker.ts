@@ -0,0 +1,158 @@
+// Beeper sound effect packing for ZX Spectrum export
+// The engine's PlaySound routine clicks the speaker (bit 4 of port 0xFE) once
+// per half cycle, waiting `period` delay units in between and sweeping the
+// period by `delta` (8.8 fixed point) after every click. Everything here is
+// worked out against that loop's timing, so the preview sounds like the game
+import { BinaryPacker } from "./binaryPacker";
+import type { SoundEffect, SoundEvent, SoundEvents } from "@/types/spectrum";
+
+const CPU_CLOCK = 3500000;
+
+// T-states of one delay unit (ex (sp),hl x2 + djnz) and of the rest of the
+// half cycle loop, measured on the Z80 core
+const DELAY_UNIT_TSTATES = 51;
+const TONE_OVERHEAD_TSTATES = 113;
+const NOISE_OVERHEAD_TSTATES = 211;
+
+const MIN_PERIOD = 1;
+const MAX_PERIOD = 255;
+const MAX_HALF_CYCLES = 0xffff;
+
+export const SOUND_WAVE_TONE = 0;
+export const SOUND_WAVE_NOISE = 1;
+export const NO_SOUND = 255;
+
+// Pitch range the delay loop can reach, and the effect lengths the designer offers
+export const MIN_SOUND_PITCH = 140;
+export const MAX_SOUND_PITCH = 8000;
+export const MAX_SOUND_DURATION = 2000;
+
+// Engine events in the order of the SoundEvents table (SFX_* equates)
+export const SOUND_EVENT_OPTIONS: { value: SoundEvent; label: string; description: string }[] = [
+  { value: "jump", label: "Jump", description: "Player starts a jump" },
+  { value: "collect", label: "Collect", description: "Player picks up a collectable" },
+  { value: "death", label: "Death", description: "Player runs out of energy" },
+  { value: "fire", label: "Fire", description: "Player fires a projectile" },
+  { value: "door", label: "Door", description: "Player goes through a door" },
+];
+
+export interface PackedSoundEffect {
+  wave: number;          // SOUND_WAVE_*
+  period: number;        // Starting delay, 8.8 fixed point
+  delta: number;         // Added to the period every half cycle, signed 8.8
+  halfCycles: number;    // Speaker clicks before it stops
+}
+
+function overheadTStates(wave: SoundEffect["wave"]): number {
+  return wave === "noise" ? NOISE_OVERHEAD_TSTATES : TONE_OVERHEAD_TSTATES;
+}
+
+// Delay units giving a pitch in Hz, as 8.8 fixed point
+function pitchToPeriod(pitch: number, wave: SoundEffect["wave"]): number {
+  const halfCycle = CPU_CLOCK / (2 * Math.max(1, pitch));
+  const period = (halfCycle - overheadTStates(wave)) / DELAY_UNIT_TSTATES;
+  return Math.round(Math.max(MIN_PERIOD, Math.min(MAX_PERIOD, period)) * 256);
+}
+
+// Work out the loop parameters of an effect
+// The sweep is linear in the period; the click count makes the average half
+// cycle add up to the duration
+export function packSoundEffect(effect: SoundEffect): PackedSoundEffect {
+  const start = pitchToPeriod(effect.startPitch, effect.wave);
+  const end = pitchToPeriod(effect.endPitch, effect.wave);
+  const averageHalfCycle = DELAY_UNIT_TSTATES * ((start + end) / 512) + overheadTStates(effect.wave);
+  const durationTStates = (Math.max(1, effect.duration) / 1000) * CPU_CLOCK;
+  const halfCycles = Math.max(1, Math.min(MAX_HALF_CYCLES, Math.round(durationTStates / averageHalfCycle)));
+  const delta = halfCycles > 1 ? Math.trunc((end - start) / (halfCycles - 1)) : 0;
+
+  return {
+    wave: effect.wave === "noise" ? SOUND_WAVE_NOISE : SOUND_WAVE_TONE,
+    period: start,
+    delta,
+    halfCycles,
+  };
+}
+
+// Record bytes: [wave] [period (word)] [delta (word)] [half cycles (word)]
+function packSoundRecord(effect: SoundEffect): number[] {
+  const { wave, period, delta, halfCycles } = packSoundEffect(effect);
+  const packer = new BinaryPacker();
+  packer.writeByte(wave);
+  packer.writeWord(period);
+  packer.writeWord(delta & 0xffff);
+  packer.writeWord(halfCycles);
+  return packer.getBytes();
+}
+
+// Sound index played by each event, NO_SOUND when none is attached
+export function packSoundEvents(sounds: SoundEffect[], events: SoundEvents): number[] {
+  return SOUND_EVENT_OPTIONS.map(({ value }) => {
+    const index = sounds.findIndex(sound => sound.id === events[value]);
+    return index >= 0 ? index : NO_SOUND;
+  });
+}
+
+// Pack all effects into a bank, followed by the event table
+export function packSoundBank(sounds: SoundEffect[], events: SoundEvents): Uint8Array {
+  if (sounds.length > NO_SOUND) {
+    throw new Error(`At most ${NO_SOUND} sound effects fit in the sound bank, got ${sounds.length}`);
+  }
+  const packer = new BinaryPacker();
+  packer.writeByte(sounds.length);
+  for (const sound of sounds) {
+    packer.writeBytes(packSoundRecord(sound));
+  }
+  packer.writeBytes(packSoundEvents(sounds, events));
+  return packer.toUint8Array();
+}
+
+// Generate assembly code for sound bank
+export function generateSoundBankAsm(sounds: SoundEffect[], events: SoundEvents): string {
+  // Validates the count the same way the binary export does
+  packSoundBank(sounds, events);
+
+  let asm = "; Sound Effect Bank\n";
+  asm += "; Format: [count] [sound0_data] [sound1_data] ... [event table]\n";
+  asm += `; Total sounds: ${sounds.length}\n\n`;
+
+  asm += "SoundBank:\n";
+  asm += `    defb ${sounds.length}  ; Number of sounds\n\n`;
+
+  sounds.forEach((sound, i) => {
+    const { wave, period, delta, halfCycles } = packSoundEffect(sound);
+    asm += `; Sound ${i}: ${sound.name} (${sound.wave}, ${sound.startPitch}-${sound.endPitch}Hz, ${sound.duration}ms)\n`;
+    asm += `Sound${i}:\n`;
+    asm += `    defb ${wave}\n`;
+    asm += `    defw ${period},${delta & 0xffff},${halfCycles}  ; period, delta, half cycles\n`;
+  });
+
+  asm += `\n; Sound played on each event (${NO_SOUND} = none): ${SOUND_EVENT_OPTIONS.map(e => e.value).join(", ")}\n`;
+  asm += "SoundEvents:\n";
+  asm += `    defb ${packSoundEvents(sounds, events).join(",")}\n`;
+
+  return asm;
+}
+
+/**
+ * Render an effect as the engine plays it, for the in-browser preview
+ * Noise takes its random clicks from Math.random rather than the engine's generator
+ */
+export function renderSoundEffect(effect: SoundEffect, sampleRate: number): Float32Array {
+  const { period, delta, halfCycles } = packSoundEffect(effect);
+  const overhead = overheadTStates(effect.wave);
+  const samples: number[] = [];
+  let level = 1;
+  let time = 0;
+  let current = period;
+
+  for (let i = 0; i < halfCycles; i++) {
+    time += (DELAY_UNIT_TSTATES * (current >> 8) + overhead) / CPU_CLOCK;
+    while (samples.length < time * sampleRate) {
+      samples.push(level * 0.25);
+    }
+    level = effect.wave === "noise" ? (Math.random() < 0.5 ? 1 : -1) : -level;
+    current = (current + delta) & 0xffff;
+  }
+
+  return Float32Array.from(samples);
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { gameProject } from "@/test/gameProject";
+import { exportGameFlowToASM, exportGameProject } from "./gameFlowExport";
+import { parseTAP, SpectrumEmulator } from "./spectrumEmulator";
+import { setTapDebugLogging } from "./tapGenerator";
+import { assemble } from "./z80Assembler";
+
+setTapDebugLogging(false);
+
+describe("SpectrumEmulator", () => {
+  it("boots an exported TAP into a game that takes the controls", async () => {
+    const { gameFlow, screens, levels, blocks, objects, sprites, name, settings } = gameProject;
+    const tap = new Uint8Array(await exportGameProject(gameProject).tapBlob.arrayBuffer());
+    // The game's labels, from its source: the CODE block is what it assembles to
+    const game = assemble(exportGameFlowToASM(gameFlow, screens, levels, blocks, objects, sprites, name, { settings }));
+    expect(parseTAP(tap).at(-1)?.data).toEqual(game.bytes);
+
+    const emulator = new SpectrumEmulator();
+    const variable = (label: string) => emulator.memory[game.symbols.get(label)!];
+    const { entryPoint, loadedBlocks } = emulator.loadTAP(tap);
+    expect(entryPoint).toBe(game.origin);
+    expect(loadedBlocks).toEqual([
+      { name: "Test Game", start: 0x4000, length: 6912 },
+      { name: expect.any(String), start: game.origin, length: game.bytes.length },
+    ]);
+    // The loading screen is one colour, so every pixel is ink
+    expect(emulator.memory.slice(0x4000, 0x5800).every(byte => byte === 0xff)).toBe(true);
+
+    const run = (frames: number) => {
+      for (let frame = 0; frame < frames; frame++) emulator.runFrame();
+    };
+
+    // The first room: the player lands on the floor at row 22
+    run(50);
+    expect(emulator.stopped).toBe(false);
+    expect(variable("CurrentScreenIndex")).toBe(0);
+    const x = variable("PlayerX");
+    expect(variable("PlayerY")).toBe(22 * 8 - 16);
+    expect(emulator.memory.slice(0x4000, 0x5800).some(byte => byte !== 0xff)).toBe(true);
+
+    // W (right, by default) walks the player right, and they stop when it's let go
+    emulator.setKey("w", true);
+    run(40);
+    emulator.setKey("w", false);
+    const walked = variable("PlayerX");
+    expect(walked).toBeGreaterThan(x);
+    run(10);
+    expect(variable("PlayerX")).toBe(walked);
+    expect(emulator.stopped).toBe(false);
+  });
+});
@@ -0,0 +1,278 @@
+// 48K ZX Spectrum machine built around the Z80 core
+// Runs exported TAP files inside the studio without a ROM image:
+// tape blocks are fast-loaded straight into RAM and execution jumps
+// to the RANDOMIZE USR address found in the BASIC loader
+
+import { Z80, type Z80Bus } from "./z80Cpu";
+import { SPECTRUM_KEYBOARD_MAP } from "./spectrumKeyboardMap";
+
+// 48K timing: 224 T-states per line, 312 lines per frame
+export const TSTATES_PER_FRAME = 69888;
+export const FRAMES_PER_SECOND = 50;
+
+// Rendered frame size including a 32 pixel border on every side
+export const BORDER_SIZE = 32;
+export const DISPLAY_WIDTH = 256 + BORDER_SIZE * 2;
+export const DISPLAY_HEIGHT = 192 + BORDER_SIZE * 2;
+
+// Display palette as RGB triples: 8 normal colours then 8 BRIGHT colours
+const PALETTE: [number, number, number][] = [
+  [0x00, 0x00, 0x00], [0x00, 0x00, 0xd7], [0xd7, 0x00, 0x00], [0xd7, 0x00, 0xd7],
+  [0x00, 0xd7, 0x00], [0x00, 0xd7, 0xd7], [0xd7, 0xd7, 0x00], [0xd7, 0xd7, 0xd7],
+  [0x00, 0x00, 0x00], [0x00, 0x00, 0xff], [0xff, 0x00, 0x00], [0xff, 0x00, 0xff],
+  [0x00, 0xff, 0x00], [0x00, 0xff, 0xff], [0xff, 0xff, 0x00], [0xff, 0xff, 0xff],
+];
+
+// Replacement for the Sinclair ROM: the IM 1 handler at 0x0038 just re-enables
+// interrupts, and a program that returns lands on DI; HALT at 0x0000
+const STUB_ROM: Record<number, number[]> = {
+  0x0000: [0xf3, 0x76],       // DI; HALT
+  0x0038: [0xfb, 0xc9],       // EI; RET
+};
+
+// System variable IY points at when the real ROM is running
+const ROM_IY = 0x5c3a;
+
+// BASIC tokens the fast loader looks for
+const TOKEN_USR = 0xc0;
+const TOKEN_CLEAR = 0xfd;
+const NUMBER_MARKER = 0x0e;
+
+export interface TapeBlock {
+  flag: number;
+  data: number[]; // Payload without flag and checksum
+}
+
+export interface TapeLoadResult {
+  entryPoint: number;
+  stackTop: number;
+  loadedBlocks: { name: string; start: number; length: number }[];
+}
+
+// Split a TAP image into its blocks
+export function parseTAP(bytes: Uint8Array): TapeBlock[] {
+  const blocks: TapeBlock[] = [];
+  let offset = 0;
+  while (offset + 2 <= bytes.length) {
+    const length = bytes[offset] | (bytes[offset + 1] << 8);
+    const start = offset + 2;
+    if (length < 2 || start + length > bytes.length) break;
+    blocks.push({
+      flag: bytes[start],
+      data: Array.from(bytes.subarray(start + 1, start + length - 1)),
+    });
+    offset = start + length;
+  }
+  return blocks;
+}
+
+// Read the integer stored in the 5-byte form that follows a 0x0E marker
+function readBasicNumber(program: number[], markerIndex: number): number | null {
+  const bytes = program.slice(markerIndex + 1, markerIndex + 6);
+  if (bytes.length < 5) return null;
+  if (bytes[0] === 0) {
+    // Small integer form: 0, sign, low, high, 0
+    const value = bytes[2] | (bytes[3] << 8);
+    return bytes[1] === 0xff ? value - 65536 : value;
+  }
+  // Floating point form: exponent byte then 4-byte mantissa
+  const exponent = bytes[0] - 128;
+  const mantissa = ((bytes[1] | 0x80) * 0x1000000 + (bytes[2] << 16) + (bytes[3] << 8) + bytes[4]) / 0x100000000;
+  return Math.round(mantissa * Math.pow(2, exponent)) * (bytes[1] & 0x80 ? -1 : 1);
+}
+
+// Find the first number following a BASIC token (e.g. USR 32768)
+function findNumberAfterToken(program: number[], token: number): number | null {
+  const tokenIndex = program.indexOf(token);
+  if (tokenIndex < 0) return null;
+  const markerIndex = program.indexOf(NUMBER_MARKER, tokenIndex);
+  return markerIndex < 0 ? null : readBasicNumber(program, markerIndex);
+}
+
+// Port half-row index for each key map entry (0 = 0xFEFE ... 7 = 0x7FFE)
+function halfRowIndex(port: number): number {
+  const high = (port >> 8) & 0xff;
+  for (let row = 0; row < 8; row++) {
+    if ((high & (1 << row)) === 0) return row;
+  }
+  return 0;
+}
+
+export class SpectrumEmulator {
+  readonly memory = new Uint8Array(65536);
+  readonly cpu: Z80;
+  border = 7;
+  private keyRows = new Uint8Array(8).fill(0xff);
+  private kempston = 0;
+  private frameCount = 0;
+
+  constructor() {
+    const bus: Z80Bus = {
+      read: (address) => this.memory[address],
+      write: (address, value) => {
+        if (address >= 0x4000) this.memory[address] = value;
+      },
+      portIn: (port) => this.readPort(port),
+      portOut: (port, value) => this.writePort(port, value),
+    };
+    this.cpu = new Z80(bus);
+    this.reset();
+  }
+
+  reset(): void {
+    this.memory.fill(0);
+    for (const [address, code] of Object.entries(STUB_ROM)) {
+      this.memory.set(code, Number(address));
+    }
+    this.cpu.reset();
+    this.cpu.iy = ROM_IY;
+    this.cpu.i = 0x3f;
+    this.cpu.im = 1;
+    this.border = 7;
+    this.keyRows.fill(0xff);
+    this.kempston = 0;
+    this.frameCount = 0;
+  }
+
+  // True once the program has returned into the stub ROM with interrupts off
+  get stopped(): boolean {
+    return this.cpu.halted && !this.cpu.iff1;
+  }
+
+  // Fast-load every block of a TAP image and prepare the CPU to run it
+  loadTAP(bytes: Uint8Array): TapeLoadResult {
+    const blocks = parseTAP(bytes);
+    let entryPoint: number | null = null;
+    let clearAddress: number | null = null;
+    let firstCodeStart: number | null = null;
+    const loadedBlocks: TapeLoadResult["loadedBlocks"] = [];
+
+    for (let i = 0; i < blocks.length; i++) {
+      const header = blocks[i];
+      if (header.flag !== 0x00 || header.data.length < 17) continue;
+
+      const type = header.data[0];
+      const name = String.fromCharCode(...header.data.slice(1, 11)).trim();
+      const param1 = header.data[13] | (header.data[14] << 8);
+      const body = blocks[i + 1];
+      if (!body || body.flag !== 0xff) continue;
+      i++;
+
+      if (type === 0) {
+        // BASIC loader: pick up CLEAR and RANDOMIZE USR addresses
+        entryPoint = entryPoint ?? findNumberAfterToken(body.data, TOKEN_USR);
+        clearAddress = clearAddress ?? findNumberAfterToken(body.data, TOKEN_CLEAR);
+      } else if (type === 3) {
+        this.memory.set(body.data.slice(0, 0x10000 - param1), param1);
+        firstCodeStart = firstCodeStart ?? (param1 >= 0x5b00 ? param1 : null);
+        loadedBlocks.push({ name, start: param1, length: body.data.length });
+      }
+    }
+
+    const start = entryPoint ?? firstCodeStart;
+    if (start === null) {
+      throw new Error("Tape has no CODE block to run");
+    }
+
+    // Emulate CLEAR + USR: stack just below RAMTOP, returning into the stub ROM
+    const stackTop = (clearAddress ?? 0xff57) & 0xffff;
+    this.cpu.sp = stackTop;
+    this.cpu.sp = (this.cpu.sp - 2) & 0xffff;
+    this.memory[this.cpu.sp] = 0x00;
+    this.memory[this.cpu.sp + 1] = 0x00;
+    this.cpu.pc = start & 0xffff;
+    this.cpu.halted = false;
+    this.cpu.iff1 = this.cpu.iff2 = true;
+
+    return { entryPoint: start & 0xffff, stackTop, loadedBlocks };
+  }
+
+  // Run one 50Hz frame: interrupt at the top, then a frame's worth of T-states
+  runFrame(): void {
+    let tstates = 0;
+    let interruptTaken = false;
+    while (tstates < TSTATES_PER_FRAME) {
+      // The ULA holds INT low for the first 32 T-states of the frame
+      if (!interruptTaken && tstates < 32) {
+        const taken = this.cpu.interrupt();
+        if (taken > 0) {
+          interruptTaken = true;
+          tstates += taken;
+          continue;
+        }
+      }
+      tstates += this.cpu.step();
+    }
+    this.frameCount++;
+  }
+
+  // Press or release a key by its SPECTRUM_KEYBOARD_MAP name
+  setKey(key: string, pressed: boolean): void {
+    const mapping = SPECTRUM_KEYBOARD_MAP[key];
+    if (!mapping) return;
+    const row = halfRowIndex(mapping.port);
+    if (pressed) this.keyRows[row] &= ~(1 << mapping.bit);
+    else this.keyRows[row] |= 1 << mapping.bit;
+  }
+
+  releaseAllKeys(): void {
+    this.keyRows.fill(0xff);
+  }
+
+  // Kempston joystick state: bits 0-4 right, left, down, up, fire, set while held
+  setKempston(bits: number): void {
+    this.kempston = bits & 0x1f;
+  }
+
+  private readPort(port: number): number {
+    if ((port & 0x01) === 0) {
+      // ULA: each zero bit in the high byte selects a keyboard half-row
+      const high = (port >> 8) & 0xff;
+      let result = 0x1f;
+      for (let row = 0; row < 8; row++) {
+        if ((high & (1 << row)) === 0) result &= this.keyRows[row];
+      }
+      return result | 0xa0;
+    }
+    if ((port & 0xff) === 0x1f) {
+      // Kempston interface
+      return this.kempston;
+    }
+    return 0xff;
+  }
+
+  private writePort(port: number, value: number): void {
+    if ((port & 0x01) === 0) {
+      this.border = value & 0x07;
+    }
+  }
+
+  // Draw the display file, attributes and border into an RGBA buffer
+  renderFrame(pixels: Uint8ClampedArray): void {
+    const flashInvert = (this.frameCount & 0x10) !== 0;
+    const [br, bg, bb] = PALETTE[this.border];
+
+    for (let y = 0; y < DISPLAY_HEIGHT; y++) {
+      for (let x = 0; x < DISPLAY_WIDTH; x++) {
+        const sx = x - BORDER_SIZE;
+        const sy = y - BORDER_SIZE;
+        const out = (y * DISPLAY_WIDTH + x) * 4;
+        let r = br, g = bg, b = bb;
+
+        if (sx >= 0 && sx < 256 && sy >= 0 && sy < 192) {
+          const pixelAddress = 0x4000 | ((sy & 0xc0) << 5) | ((sy & 0x07) << 8) | ((sy & 0x38) << 2) | (sx >> 3);
+          const attr = this.memory[0x5800 + (sy >> 3) * 32 + (sx >> 3)];
+          let ink = (this.memory[pixelAddress] & (0x80 >> (sx & 7))) !== 0;
+          if (flashInvert && (attr & 0x80)) ink = !ink;
+          const bright = (attr & 0x40) ? 8 : 0;
+          [r, g, b] = PALETTE[(ink ? attr & 0x07 : (attr >> 3) & 0x07) + bright];
+        }
+
+        pixels[out] = r;
+        pixels[out + 1] = g;
+        pixels[out + 2] = b;
+        pixels[out + 3] = 255;
+      }
+    }
+  }
+}
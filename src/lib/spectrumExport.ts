@@ -7,22 +7,36 @@ import { packBlockBank, generateBlockBankAsm } from "./blockPacker";
 import { packObjectBank, generateObjectBankAsm } from "./objectPacker";
 import { packScreenBank, generateScreenBankAsm } from "./screenPacker";
 import { BinaryPacker } from "./binaryPacker";
+import type { MemoryMap } from "./memoryMap";
+import type { StrippedAsset } from "./assetStripping";
 
 export interface ExportOptions {
   generateAsm?: boolean;      // Generate .asm assembly files
   includeBinary?: boolean;     // Include binary data in TAP
-  optimizeSize?: boolean;      // Apply size optimizations
+  optimizeSize?: boolean;      // LZ pack the screen, sprite and SCR banks (game flow export only)
 }
 
 export interface ExportResult {
   tapBlob: Blob;
+  tzxBlob?: Blob;              // Game flow export only
+  snaData?: Uint8Array;        // Game flow export only
+  z80Data?: Uint8Array;        // Game flow export only
   asmCode?: string;
   binaryData?: Uint8Array;
+  memoryMap?: MemoryMap;       // Game flow export for 48K only
+  stripped?: StrippedAsset[];  // Assets the game flow export left out of the banks
   stats: {
+    spriteBankSize?: number;   // Game flow export only
     blockBankSize: number;
     objectBankSize: number;
+    soundBankSize?: number;    // Game flow export only
+    levelTableSize?: number;   // Game flow export only
     screenBankSize: number;
+    codeSize?: number;         // Engine and banks as one CODE block (game flow export only)
+    snapshotsSkipped?: string; // Why there are no SNA/Z80 snapshots (game flow export only)
+    asmSections?: string;      // How to assemble a 128K .asm's RAM page sections (game flow export only)
     totalSize: number;
+    compressed?: { bank: string; size: number; packedSize: number }[];  // Banks packed by optimizeSize
   };
 }
 
@@ -31,6 +45,7 @@ function buildIndexMaps(project: GameProject) {
   const spriteIndexMap = new Map<string, number>();
   const blockIndexMap = new Map<string, number>();
   const objectIndexMap = new Map<string, number>();
+  const levelIndexMap = new Map<string, number>();
   
   project.sprites?.forEach((sprite, idx) => {
     spriteIndexMap.set(sprite.id, idx);
@@ -44,7 +59,11 @@ function buildIndexMaps(project: GameProject) {
     objectIndexMap.set(obj.id, idx);
   });
   
-  return { spriteIndexMap, blockIndexMap, objectIndexMap };
+  project.levels?.forEach((level, idx) => {
+    levelIndexMap.set(level.id, idx);
+  });
+  
+  return { spriteIndexMap, blockIndexMap, objectIndexMap, levelIndexMap };
 }
 
 // Main export function
@@ -55,11 +74,11 @@ export function exportToSpectrum(
   const { generateAsm = false, includeBinary = true } = options;
   
   // Build index maps
-  const { spriteIndexMap, blockIndexMap, objectIndexMap } = buildIndexMaps(project);
+  const { spriteIndexMap, blockIndexMap, objectIndexMap, levelIndexMap } = buildIndexMaps(project);
   
   // Pack all data banks
   const blockBankData = packBlockBank(project.blocks || [], spriteIndexMap);
-  const objectBankData = packObjectBank(project.objects || [], spriteIndexMap);
+  const objectBankData = packObjectBank(project.objects || [], spriteIndexMap, levelIndexMap);
   
   // Get screens from levels (game flow sequence)
   const screens = project.screens || [];
@@ -67,7 +86,8 @@ export function exportToSpectrum(
     screens,
     blockIndexMap,
     objectIndexMap,
-    project.objects || []
+    project.objects || [],
+    levelIndexMap
   );
   
   // Calculate sizes
@@ -81,7 +101,7 @@ export function exportToSpectrum(
   // Generate assembly code if requested
   let asmCode: string | undefined;
   if (generateAsm) {
-    asmCode = generateFullAssembly(project, spriteIndexMap, blockIndexMap, objectIndexMap);
+    asmCode = generateFullAssembly(project, spriteIndexMap, blockIndexMap, objectIndexMap, levelIndexMap);
   }
   
   // Generate TAP file
@@ -131,7 +151,8 @@ function generateFullAssembly(
   project: GameProject,
   spriteIndexMap: Map<string, number>,
   blockIndexMap: Map<string, number>,
-  objectIndexMap: Map<string, number>
+  objectIndexMap: Map<string, number>,
+  levelIndexMap: Map<string, number>
 ): string {
   let asm = `; ZX Spectrum Game Export\n`;
   asm += `; Project: ${project.name}\n`;
@@ -144,7 +165,7 @@ function generateFullAssembly(
   asm += "\n";
   
   // Include object bank
-  asm += generateObjectBankAsm(project.objects || [], spriteIndexMap);
+  asm += generateObjectBankAsm(project.objects || [], spriteIndexMap, levelIndexMap);
   asm += "\n";
   
   // Include screen bank
@@ -152,7 +173,8 @@ function generateFullAssembly(
     project.screens || [],
     blockIndexMap,
     objectIndexMap,
-    project.objects || []
+    project.objects || [],
+    levelIndexMap
   );
   asm += "\n";
   
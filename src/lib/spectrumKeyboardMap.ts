@@ -16,12 +16,12 @@ export interface SpectrumKeyMapping {
  * Bit 0-4 indicate which key is pressed (0 = pressed, 1 = not pressed)
  */
 export const SPECTRUM_KEYBOARD_MAP: Record<string, SpectrumKeyMapping> = {
-  // Port 0xFBFE (half-row: CAPS SHIFT, Z, X, C, V)
-  'shift': { port: 0xFBFE, bit: 0, keyName: 'CAPS SHIFT' },
-  'z': { port: 0xFBFE, bit: 1, keyName: 'Z' },
-  'x': { port: 0xFBFE, bit: 2, keyName: 'X' },
-  'c': { port: 0xFBFE, bit: 3, keyName: 'C' },
-  'v': { port: 0xFBFE, bit: 4, keyName: 'V' },
+  // Port 0xFEFE (half-row: CAPS SHIFT, Z, X, C, V)
+  'shift': { port: 0xFEFE, bit: 0, keyName: 'CAPS SHIFT' },
+  'z': { port: 0xFEFE, bit: 1, keyName: 'Z' },
+  'x': { port: 0xFEFE, bit: 2, keyName: 'X' },
+  'c': { port: 0xFEFE, bit: 3, keyName: 'C' },
+  'v': { port: 0xFEFE, bit: 4, keyName: 'V' },
   
   // Port 0xFDFE (half-row: A, S, D, F, G)
   'a': { port: 0xFDFE, bit: 0, keyName: 'A' },
@@ -0,0 +1,94 @@
+// ZX Spectrum attribute cells for sprites and blocks
+// Each 8x8 pixel cell has one INK, one PAPER, BRIGHT and FLASH
+import { SPECTRUM_COLORS, type AttributeCell, type SpriteFrame } from "@/types/spectrum";
+
+export const ATTRIBUTE_CELL_SIZE = 8;
+
+// Bright white ink on black paper, matching the engine's cleared screen (0x47)
+export const DEFAULT_ATTRIBUTE: AttributeCell = { ink: 7, paper: 0, bright: true, flash: false };
+
+export interface AttributeClash {
+  col: number;
+  row: number;
+  colors: number[]; // SPECTRUM_COLORS indexes drawn in the cell
+}
+
+// Number of attribute cells covering a sprite (partial cells count as whole ones)
+export function getAttributeGridSize(width: number, height: number): { cols: number; rows: number } {
+  return {
+    cols: Math.ceil(width / ATTRIBUTE_CELL_SIZE),
+    rows: Math.ceil(height / ATTRIBUTE_CELL_SIZE),
+  };
+}
+
+// SPECTRUM_COLORS index of a cell's INK
+export function getInkColorIndex(cell: AttributeCell): number {
+  return cell.ink + (cell.bright ? 8 : 0);
+}
+
+// SPECTRUM_COLORS index of a cell's PAPER
+export function getPaperColorIndex(cell: AttributeCell): number {
+  return cell.paper + (cell.bright ? 8 : 0);
+}
+
+// Attribute byte: FLASH (bit 7), BRIGHT (bit 6), PAPER (bits 5-3), INK (bits 2-0)
+export function encodeAttribute(cell: AttributeCell): number {
+  return (cell.flash ? 0x80 : 0) | (cell.bright ? 0x40 : 0) | ((cell.paper & 7) << 3) | (cell.ink & 7);
+}
+
+// Distinct non-transparent colour indexes drawn in one cell, most used first
+function getCellColors(pixels: number[][], col: number, row: number): number[] {
+  const counts = new Map<number, number>();
+  for (let y = row * ATTRIBUTE_CELL_SIZE; y < (row + 1) * ATTRIBUTE_CELL_SIZE; y++) {
+    for (let x = col * ATTRIBUTE_CELL_SIZE; x < (col + 1) * ATTRIBUTE_CELL_SIZE; x++) {
+      const colorIndex = pixels[y]?.[x] ?? 0;
+      if (colorIndex !== 0) {
+        counts.set(colorIndex, (counts.get(colorIndex) ?? 0) + 1);
+      }
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .map(([colorIndex]) => colorIndex);
+}
+
+// Derive attributes from the pixel colours: the most used colour becomes INK on black PAPER
+export function deriveFrameAttributes(pixels: number[][], width: number, height: number): AttributeCell[][] {
+  const { cols, rows } = getAttributeGridSize(width, height);
+  return Array.from({ length: rows }, (_, row) =>
+    Array.from({ length: cols }, (_, col) => {
+      const [mainColor] = getCellColors(pixels, col, row);
+      if (mainColor === undefined) return { ...DEFAULT_ATTRIBUTE };
+      const color = SPECTRUM_COLORS[mainColor] ?? SPECTRUM_COLORS[7];
+      return { ink: color.ink, paper: 0, bright: color.bright, flash: false };
+    })
+  );
+}
+
+// Authored attributes of a frame, with any missing cells derived from its pixels
+export function getFrameAttributes(frame: SpriteFrame | undefined, width: number, height: number): AttributeCell[][] {
+  const derived = deriveFrameAttributes(frame?.pixels ?? [], width, height);
+  if (!frame?.attributes) return derived;
+  return derived.map((cells, row) => cells.map((cell, col) => frame.attributes?.[row]?.[col] ?? cell));
+}
+
+// Cells whose pixels cannot be shown with a single INK: more than one colour drawn,
+// or a colour that differs from the cell's authored INK
+export function findAttributeClashes(frame: SpriteFrame | undefined, width: number, height: number): AttributeClash[] {
+  if (!frame) return [];
+  const { cols, rows } = getAttributeGridSize(width, height);
+  const clashes: AttributeClash[] = [];
+
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      const colors = getCellColors(frame.pixels, col, row);
+      const authored = frame.attributes?.[row]?.[col];
+      const inkIndex = authored ? getInkColorIndex(authored) : colors[0];
+      if (colors.length > 1 || (colors.length === 1 && colors[0] !== inkIndex)) {
+        clashes.push({ col, row, colors });
+      }
+    }
+  }
+
+  return clashes;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import type { Sprite } from "@/types/spectrum";
+import { createSpriteIndexMap, generateSpriteBankAsm, packSpriteBank } from "./spritePacker";
+import { assemble } from "./z80Assembler";
+
+const frame = (on: (x: number, y: number) => boolean) => ({
+  pixels: Array.from({ length: 8 }, (_, y) => Array.from({ length: 8 }, (_, x) => (on(x, y) ? 7 : 0))),
+});
+const bar = frame(x => x < 4);
+const dot = frame((x, y) => x === y);
+const sprites: Sprite[] = [
+  { id: "a", name: "A", size: "8x8", frames: [bar, dot], animationSpeed: 4 },
+  { id: "b", name: "B", size: "8x8", frames: [dot, frame(() => true)], animationSpeed: 2 },
+];
+
+describe("sprite bank", () => {
+  it("packs the same bytes as its assembly source", () => {
+    const asm = assemble("    org 0\n" + generateSpriteBankAsm(sprites));
+    expect(Array.from(packSpriteBank(sprites))).toEqual(asm.bytes);
+  });
+
+  it("stores a frame shared by two sprites once, behind each sprite's frame table", () => {
+    const bank = packSpriteBank(sprites);
+    const word = (offset: number) => bank[offset] | (bank[offset + 1] << 8);
+    const frames = (index: number) => {
+      const table = word(2 * sprites.length + 2 * index);  // SpritePixelPtrs
+      return [word(table), word(table + 2)];
+    };
+    expect(frames(0)[1]).toBe(frames(1)[0]);
+    expect(Array.from(bank.slice(frames(0)[1], frames(0)[1] + 8))).toEqual([0x80, 0x40, 0x20, 0x10, 0x08, 0x04, 0x02, 0x01]);
+    // 3 pointer tables, 5-byte metadata, 2 frame tables, 3 distinct frames, 4-byte collision boxes
+    expect(bank.length).toBe(2 * 2 * 3 + 2 * 5 + 2 * 4 + 3 * 8 + 2 * 4);
+  });
+
+  it("points merged sprites at the one kept", () => {
+    const map = createSpriteIndexMap(sprites, new Map([["copy", "b"]]));
+    expect(map.get("copy")).toBe(1);
+  });
+});
@@ -1,4 +1,7 @@
 // Sprite packing for ZX Spectrum export
+// The bank holds what the engine draws with: no attribute cells, as sprites
+// take the colours of the cells they're drawn over (SCR screens read the
+// sprite's own cells through spriteAttributes.ts)
 import { BinaryPacker, bytesToAsmDefb, bytesToAsmDefw } from "./binaryPacker";
 import { Sprite } from "@/types/spectrum";
 
@@ -87,6 +90,40 @@ function packSprite(sprite: Sprite, spriteIndex: number): {
   return { pixelData, collisionData, metadata };
 }
 
+// A sprite's bytes in the bank apart from its index: sprites that pack the
+// same draw the same, so one can stand in for the other
+export function packSpriteData(sprite: Sprite): number[] {
+  const { pixelData, collisionData, metadata } = packSprite(sprite, 0);
+  return [...metadata.slice(1), ...pixelData, ...collisionData];
+}
+
+// Frame pixel data shared across the bank: each distinct frame once, and per
+// sprite the index of each of its frames in that pool
+function poolSpriteFrames(sprites: Sprite[]): {
+  frames: { pixels: number[]; sprite: Sprite; frame: number }[];
+  tables: number[][];
+} {
+  const frames: { pixels: number[]; sprite: Sprite; frame: number }[] = [];
+  const byBytes = new Map<string, number>();
+  const tables = sprites.map(sprite => {
+    const frameCount = sprite.frames?.length || 1;
+    const table: number[] = [];
+    for (let f = 0; f < frameCount; f++) {
+      const pixels = packSpritePixels(sprite, f);
+      const key = pixels.join(",");
+      let index = byBytes.get(key);
+      if (index === undefined) {
+        index = frames.length;
+        byBytes.set(key, index);
+        frames.push({ pixels, sprite, frame: f });
+      }
+      table.push(index);
+    }
+    return table;
+  });
+  return { frames, tables };
+}
+
 // Pack all sprites with pointer tables
 export function packSpriteBank(sprites: Sprite[]): Uint8Array {
   const packer = new BinaryPacker();
@@ -114,6 +151,8 @@ export function packSpriteBank(sprites: Sprite[]): Uint8Array {
   const pixelPtrs: number[] = [];
   const collisionPtrs: number[] = [];
   
+  const { frames, tables } = poolSpriteFrames(sprites);
+  
   // Calculate base offset (after all pointer tables)
   const ptrTableSize = sprites.length * 2 * 3; // 3 tables, 2 bytes per pointer
   let metadataOffset = ptrTableSize;
@@ -129,10 +168,15 @@ export function packSpriteBank(sprites: Sprite[]): Uint8Array {
   // Update pixel offset to start after metadata
   pixelOffset = metadataOffset;
   
-  // Second pass: calculate offsets for pixel data
-  for (const spriteData of spriteDataList) {
+  // Second pass: calculate offsets for the frame tables, then the shared frames
+  for (const table of tables) {
     pixelPtrs.push(pixelOffset & 0xff, (pixelOffset >> 8) & 0xff);
-    pixelOffset += spriteData.pixelData.length;
+    pixelOffset += table.length * 2;
+  }
+  const frameOffsets: number[] = [];
+  for (const frame of frames) {
+    frameOffsets.push(pixelOffset);
+    pixelOffset += frame.pixels.length;
   }
   
   // Update collision offset to start after pixels
@@ -154,9 +198,14 @@ export function packSpriteBank(sprites: Sprite[]): Uint8Array {
     packer.writeBytes(spriteData.metadata);
   }
   
-  // Write all pixel data
-  for (const spriteData of spriteDataList) {
-    packer.writeBytes(spriteData.pixelData);
+  // Write the frame tables, then each distinct frame's pixel data
+  for (const table of tables) {
+    for (const index of table) {
+      packer.writeBytes([frameOffsets[index] & 0xff, (frameOffsets[index] >> 8) & 0xff]);
+    }
+  }
+  for (const frame of frames) {
+    packer.writeBytes(frame.pixels);
   }
   
   // Write all collision data
@@ -170,7 +219,8 @@ export function packSpriteBank(sprites: Sprite[]): Uint8Array {
 // Generate assembly code for sprite bank
 export function generateSpriteBankAsm(sprites: Sprite[]): string {
   let asm = "; Sprite Data Bank\n";
-  asm += "; Format: [metadata_ptrs] [pixel_ptrs] [collision_ptrs] [metadata] [pixels] [collision]\n";
+  asm += "; Format: [metadata_ptrs] [pixel_ptrs] [collision_ptrs] [metadata] [frame_tables] [frames] [collision]\n";
+  asm += "; A sprite's pixel pointer leads to its frame table, a pointer per frame; identical frames are stored once\n";
   asm += `; Total sprites: ${sprites.length}\n\n`;
   
   asm += "SpriteBank:\n";
@@ -185,7 +235,7 @@ export function generateSpriteBankAsm(sprites: Sprite[]): string {
   asm += "\n; Pixel data pointer table\n";
   asm += "SpritePixelPtrs:\n";
   for (let i = 0; i < sprites.length; i++) {
-    asm += `    defw Sprite${i}Pixels - SpriteBank\n`;
+    asm += `    defw Sprite${i}Frames - SpriteBank\n`;
   }
   
   asm += "\n; Collision data pointer table\n";
@@ -205,21 +255,20 @@ export function generateSpriteBankAsm(sprites: Sprite[]): string {
     asm += `    defb ${i},${width},${height},${frameCount},${sprite.animationSpeed}  ; index, w, h, frames, fps\n`;
   }
   
-  // Pixel data section
-  asm += "\n; Sprite pixel data\n";
+  // Frame tables and the frames' pixel data, each distinct frame once
+  const { frames, tables } = poolSpriteFrames(sprites);
+  asm += "\n; Sprite frame tables\n";
   for (let i = 0; i < sprites.length; i++) {
-    const sprite = sprites[i];
-    const frameCount = sprite.frames?.length || 1;
-    const allPixelData: number[] = [];
-    
-    for (let f = 0; f < frameCount; f++) {
-      allPixelData.push(...packSpritePixels(sprite, f));
-    }
-    
-    asm += `\nSprite${i}Pixels:  ; ${sprite.name}\n`;
-    asm += bytesToAsmDefb(allPixelData, "");
+    asm += `\nSprite${i}Frames:  ; ${sprites[i].name}\n`;
+    asm += `    defw ${tables[i].map(index => `SpriteFrame${index} - SpriteBank`).join(",")}\n`;
   }
   
+  asm += "\n; Sprite pixel data\n";
+  frames.forEach(({ pixels, sprite, frame }, index) => {
+    asm += `\nSpriteFrame${index}:  ; ${sprite.name} frame ${frame}\n`;
+    asm += bytesToAsmDefb(pixels, "");
+  });
+  
   // Collision data section
   asm += "\n; Sprite collision boxes (offsetTop, offsetBottom, offsetLeft, offsetRight)\n";
   for (let i = 0; i < sprites.length; i++) {
@@ -234,10 +283,15 @@ export function generateSpriteBankAsm(sprites: Sprite[]): string {
 }
 
 // Create sprite index map for other packers to reference
-export function createSpriteIndexMap(sprites: Sprite[]): Map<string, number> {
+// aliases: sprite ID -> ID of the sprite in the bank that stands in for it
+export function createSpriteIndexMap(sprites: Sprite[], aliases: Map<string, string> = new Map()): Map<string, number> {
   const map = new Map<string, number>();
   sprites.forEach((sprite, index) => {
     map.set(sprite.id, index);
   });
+  aliases.forEach((keptId, id) => {
+    const index = map.get(keptId);
+    if (index !== undefined) map.set(id, index);
+  });
   return map;
 }
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { gameProject } from "@/test/gameProject";
+import { exportGameProject } from "./gameFlowExport";
+import { setTapDebugLogging, TAPGenerator } from "./tapGenerator";
+
+setTapDebugLogging(false);
+
+// The blocks of a TAP image, flag to checksum, checking each length fits the tape
+function tapBlocks(tap: ArrayLike<number>): number[][] {
+  const blocks: number[][] = [];
+  let offset = 0;
+  while (offset < tap.length) {
+    const length = tap[offset] | (tap[offset + 1] << 8);
+    expect(offset + 2 + length).toBeLessThanOrEqual(tap.length);
+    blocks.push(Array.from({ length }, (_, index) => tap[offset + 2 + index]));
+    offset += 2 + length;
+  }
+  return blocks;
+}
+
+const xor = (bytes: number[]) => bytes.reduce((sum, byte) => sum ^ byte, 0);
+
+// Every block passes the ROM's XOR check, and every header is followed by a
+// data block of the length it gives
+function expectLoadable(blocks: number[][]) {
+  blocks.forEach(block => expect(xor(block)).toBe(0));
+  blocks.forEach((block, index) => {
+    if (block[0] !== 0x00) return;
+    expect(block).toHaveLength(19);
+    const next = blocks[index + 1];
+    expect(next[0]).toBe(0xff);
+    expect(next.length - 2).toBe(block[12] | (block[13] << 8));
+  });
+}
+
+describe("TAPGenerator", () => {
+  it("writes the length with the checksum counted and the XOR of flag and data after them", () => {
+    const tap = new TAPGenerator();
+    tap.addDataBlock([0x01, 0x02, 0xf0]);
+    expect(tap.generate()).toEqual([0x05, 0x00, 0xff, 0x01, 0x02, 0xf0, 0x0c]);
+  });
+
+  it("writes CODE headers with the length and start address", () => {
+    const tap = new TAPGenerator();
+    tap.addHeader("Game", 0x1234, 0x8000);
+    const [header] = tapBlocks(tap.generate());
+    expect(header.slice(0, 2)).toEqual([0x00, 0x03]);
+    expect(String.fromCharCode(...header.slice(2, 12))).toBe("Game      ");
+    expect(header.slice(12, 18)).toEqual([0x34, 0x12, 0x00, 0x80, 0x00, 0x80]);
+    expect(xor(header)).toBe(0);
+  });
+
+  it("writes BASIC loaders that autostart at line 10", () => {
+    const tap = new TAPGenerator();
+    tap.addBasicLoader128([1, 3], 32768);
+    const blocks = tapBlocks(tap.generate());
+    expectLoadable(blocks);
+    const [header] = blocks;
+    expect(header[1]).toBe(0x00);
+    expect(header[14] | (header[15] << 8)).toBe(10);
+  });
+});
+
+describe("exported tapes", () => {
+  it.each([
+    ["48K", {}],
+    ["48K packed", { optimizeSize: true }],
+    ["128K", { machine: "128k" as const }],
+  ])("load block by block on a %s build", async (_, settings) => {
+    const result = exportGameProject({ ...gameProject, settings: { ...gameProject.settings, ...settings } });
+    const blocks = tapBlocks(new Uint8Array(await result.tapBlob.arrayBuffer()));
+    expect(blocks.length).toBeGreaterThanOrEqual(4);
+    expect(blocks[0][1]).toBe(0x00); // The BASIC loader comes first
+    expectLoadable(blocks);
+  });
+});
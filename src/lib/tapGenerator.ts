@@ -1,6 +1,65 @@
 // TAP file format utilities for ZX Spectrum
 // TAP files contain blocks with: 2-byte length, flag byte, data, checksum
 
+// BASIC tokens used by the 128K loader
+const TOKEN_CLEAR = 0xfd;
+const TOKEN_LOAD = 0xef;
+const TOKEN_SCREEN = 0xaa;
+const TOKEN_CODE = 0xaf;
+const TOKEN_POKE = 0xf4;
+const TOKEN_OUT = 0xdf;
+const TOKEN_RANDOMIZE = 0xf9;
+const TOKEN_USR = 0xc0;
+
+// Byte dumps of the loaders and blocks, for chasing tapes that don't load;
+// on unless turned off (the headless export keeps its output to its report)
+let debugLogging = true;
+
+export function setTapDebugLogging(enabled: boolean): void {
+  debugLogging = enabled;
+}
+
+export function tapDebugLog(...args: unknown[]): void {
+  if (debugLogging) console.log(...args);
+}
+
+// A number as BASIC stores it: its digits, then 0x0E and the 5-byte integer form
+function basicNumber(value: number): number[] {
+  const digits = Array.from(String(value), digit => digit.charCodeAt(0));
+  return [...digits, 0x0e, 0x00, 0x00, value & 0xff, (value >> 8) & 0xff, 0x00];
+}
+
+// A tokenized BASIC line: number (big-endian), length (little-endian), body, ENTER
+function basicLine(lineNumber: number, body: number[]): number[] {
+  const length = body.length + 1;
+  return [(lineNumber >> 8) & 0xff, lineNumber & 0xff, length & 0xff, (length >> 8) & 0xff, ...body, 0x0d];
+}
+
+// LOAD "" followed by SCREEN$ or CODE
+function loadStatement(kind: number): number[] {
+  return [TOKEN_LOAD, 0x20, 0x22, 0x22, 0x20, kind];
+}
+
+// RANDOMIZE USR address
+function usrStatement(address: number): number[] {
+  return [TOKEN_RANDOMIZE, 0x20, TOKEN_USR, 0x20, ...basicNumber(address)];
+}
+
+// The loading screen: LOAD "" SCREEN$, or for a packed one at screenStart,
+// LOAD "" CODE and a USR call to the routine in front of it that unpacks it
+function screenStatement(screenStart?: number): number[] {
+  if (screenStart === undefined) return loadStatement(TOKEN_SCREEN);
+  return [...loadStatement(TOKEN_CODE), 0x3a, ...usrStatement(screenStart)];
+}
+
+// POKE BANKM,value: OUT 32765,value - page RAM page value & 7 in at 0xC000
+function pageStatement(value: number): number[] {
+  return [
+    TOKEN_POKE, 0x20, ...basicNumber(23388), 0x2c, ...basicNumber(value), 0x3a,
+    TOKEN_OUT, 0x20, ...basicNumber(32765), 0x2c, ...basicNumber(value),
+  ];
+}
+
 export class TAPGenerator {
   private data: number[] = [];
 
@@ -79,36 +138,36 @@ export class TAPGenerator {
     headerData.push((basicProgram.length >> 8) & 0xff);
     
     // Debug logging for comparison
-    console.log('[BASIC 3-LINE DEBUG] Total program bytes:', basicProgram.length);
-    console.log('[BASIC 3-LINE DEBUG] Full hex dump:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Total program bytes:', basicProgram.length);
+    tapDebugLog('[BASIC 3-LINE DEBUG] Full hex dump:', 
       basicProgram.map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
     
-    console.log('[BASIC 3-LINE DEBUG] Line 10 (CLEAR 32767) - bytes 0-17:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Line 10 (CLEAR 32767) - bytes 0-17:', 
       basicProgram.slice(0, 18).map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC 3-LINE DEBUG] Line 10 length field:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Line 10 length field:', 
       basicProgram[2] + (basicProgram[3] << 8), 'expected: 14'
     );
     
-    console.log('[BASIC 3-LINE DEBUG] Line 20 (LOAD CODE) - bytes 18-29:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Line 20 (LOAD CODE) - bytes 18-29:', 
       basicProgram.slice(18, 30).map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC 3-LINE DEBUG] Line 20 length field:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Line 20 length field:', 
       basicProgram[20] + (basicProgram[21] << 8), 'expected: 8'
     );
     
-    console.log('[BASIC 3-LINE DEBUG] Line 30 (RANDOMIZE USR) - bytes 30-48:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Line 30 (RANDOMIZE USR) - bytes 30-48:', 
       basicProgram.slice(30, 49).map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC 3-LINE DEBUG] Line 30 length field:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Line 30 length field:', 
       basicProgram[32] + (basicProgram[33] << 8), 'expected: 17'
     );
     
-    console.log('[BASIC 3-LINE DEBUG] Header bytes:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Header bytes:', 
       headerData.map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC 3-LINE DEBUG] Header program length fields:', 
+    tapDebugLog('[BASIC 3-LINE DEBUG] Header program length fields:', 
       headerData[12] + (headerData[13] << 8), 'should match:', basicProgram.length
     );
     
@@ -153,13 +212,15 @@ export class TAPGenerator {
     basicProgram[line30Start] = line30Length & 0xff;
     basicProgram[line30Start + 1] = (line30Length >> 8) & 0xff;
     
-    // Line 40: RANDOMIZE USR 32768
+    // Line 40: RANDOMIZE USR codeStart (32768 for the game, or a loader)
     basicProgram.push(0x00, 0x28);
     const line40Start = basicProgram.length;
     basicProgram.push(0x00, 0x00);
     basicProgram.push(0xf9, 0x20, 0xc0, 0x20);
-    basicProgram.push(0x33, 0x32, 0x37, 0x36, 0x38);
-    basicProgram.push(0x0e, 0x00, 0x00, 0x00, 0x80, 0x00);
+    for (const digit of String(codeStart)) {
+      basicProgram.push(digit.charCodeAt(0));
+    }
+    basicProgram.push(0x0e, 0x00, 0x00, codeStart & 0xff, (codeStart >> 8) & 0xff, 0x00);
     basicProgram.push(0x0d);
     const line40Length = basicProgram.length - line40Start - 2;
     basicProgram[line40Start] = line40Length & 0xff;
@@ -178,44 +239,44 @@ export class TAPGenerator {
     headerData.push((basicProgram.length >> 8) & 0xff);
     
     // Debug logging for byte-level verification
-    console.log('[BASIC WITH SCREEN DEBUG] Total program bytes:', basicProgram.length);
-    console.log('[BASIC WITH SCREEN DEBUG] Full hex dump:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Total program bytes:', basicProgram.length);
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Full hex dump:', 
       basicProgram.map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
     
     // Per-line breakdown with calculated lengths
-    console.log('[BASIC WITH SCREEN DEBUG] Line 10 (CLEAR 32767) - bytes 0-17:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Line 10 (CLEAR 32767) - bytes 0-17:', 
       basicProgram.slice(0, 18).map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC WITH SCREEN DEBUG] Line 10 length field:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Line 10 length field:', 
       basicProgram[2] + (basicProgram[3] << 8), 'expected: 14'
     );
     
-    console.log('[BASIC WITH SCREEN DEBUG] Line 20 (LOAD SCREEN$) - bytes 18-28:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Line 20 (LOAD SCREEN$) - bytes 18-28:', 
       basicProgram.slice(18, 29).map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC WITH SCREEN DEBUG] Line 20 length field:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Line 20 length field:', 
       basicProgram[20] + (basicProgram[21] << 8), 'expected: 7'
     );
     
-    console.log('[BASIC WITH SCREEN DEBUG] Line 30 (LOAD CODE) - bytes 29-39:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Line 30 (LOAD CODE) - bytes 29-39:', 
       basicProgram.slice(29, 40).map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC WITH SCREEN DEBUG] Line 30 length field:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Line 30 length field:', 
       basicProgram[31] + (basicProgram[32] << 8), 'expected: 7'
     );
     
-    console.log('[BASIC WITH SCREEN DEBUG] Line 40 (RANDOMIZE USR) - bytes 40-59:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Line 40 (RANDOMIZE USR) - bytes 40-59:', 
       basicProgram.slice(40, 60).map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC WITH SCREEN DEBUG] Line 40 length field:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Line 40 length field:', 
       basicProgram[42] + (basicProgram[43] << 8), 'expected: 16'
     );
     
-    console.log('[BASIC WITH SCREEN DEBUG] Header bytes:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Header bytes:', 
       headerData.map(b => b.toString(16).padStart(2,'0')).join(' ')
     );
-    console.log('[BASIC WITH SCREEN DEBUG] Header program length fields:', 
+    tapDebugLog('[BASIC WITH SCREEN DEBUG] Header program length fields:', 
       headerData[12] + (headerData[13] << 8), 'should match:', basicProgram.length
     );
     
@@ -223,6 +284,51 @@ export class TAPGenerator {
     this.addBlock([0xff, ...basicProgram]);
   }
 
+  // Add a BASIC loader for a packed loading screen: CLEAR, LOAD "" CODE and
+  // RANDOMIZE USR screenStart to show it, then LOAD "" CODE and RANDOMIZE USR codeStart
+  addBasicLoaderWithPackedScreen(screenStart: number, codeStart: number = 32768) {
+    this.addBasicProgram([
+      [TOKEN_CLEAR, 0x20, ...basicNumber(screenStart - 1)],
+      screenStatement(screenStart),
+      loadStatement(TOKEN_CODE),
+      usrStatement(codeStart),
+    ]);
+  }
+
+  // Add a 128K BASIC loader: loading screen, the main CODE block, then one CODE
+  // block per RAM page, each loaded with its page switched in at 0xC000
+  // (the 48 BASIC ROM stays selected: bit 4 of port 0x7FFD)
+  // A packed loading screen is loaded and unpacked at screenStart
+  addBasicLoader128(pages: number[], codeStart: number = 32768, screenStart?: number) {
+    this.addBasicProgram([
+      [TOKEN_CLEAR, 0x20, ...basicNumber(codeStart - 1)],
+      screenStatement(screenStart),
+      loadStatement(TOKEN_CODE),
+      ...pages.map(page => [...pageStatement(0x10 | page), 0x3a, ...loadStatement(TOKEN_CODE)]),
+      pageStatement(0x10),
+      usrStatement(codeStart),
+    ]);
+  }
+
+  // Add the "Loader" BASIC program of these lines, numbered 10, 20, ..., autostarting at 10
+  private addBasicProgram(lines: number[][]) {
+    const basicProgram = lines.flatMap((body, index) => basicLine((index + 1) * 10, body));
+
+    const headerData: number[] = [0x00, 0x00];
+    const filename = "Loader    ";
+    for (let i = 0; i < 10; i++) {
+      headerData.push(filename.charCodeAt(i));
+    }
+    headerData.push(basicProgram.length & 0xff);
+    headerData.push((basicProgram.length >> 8) & 0xff);
+    headerData.push(0x0a, 0x00);
+    headerData.push(basicProgram.length & 0xff);
+    headerData.push((basicProgram.length >> 8) & 0xff);
+
+    this.addBlock(headerData);
+    this.addBlock([0xff, ...basicProgram]);
+  }
+
   // Add a CODE header block (type 0x00)
   addHeader(filename: string, dataLength: number, autoStart: number = 32768) {
     const headerData: number[] = [
@@ -280,7 +386,7 @@ export class TAPGenerator {
 
   // Debug helper to inspect TAP structure and block offsets
   debugDump() {
-    console.log('=== TAP DEBUG DUMP ===');
+    tapDebugLog('=== TAP DEBUG DUMP ===');
     let offset = 0;
     let blockIndex = 0;
 
@@ -290,7 +396,7 @@ export class TAPGenerator {
       const blockEnd = blockStart + length; // includes checksum byte
 
       if (blockEnd > this.data.length) {
-        console.log(`Block ${blockIndex}: INVALID length beyond data (offset ${offset}, length ${length}, dataLen ${this.data.length})`);
+        tapDebugLog(`Block ${blockIndex}: INVALID length beyond data (offset ${offset}, length ${length}, dataLen ${this.data.length})`);
         break;
       }
 
@@ -304,19 +410,19 @@ export class TAPGenerator {
         computedChecksum ^= b;
       }
 
-      console.log(`Block ${blockIndex}:`);
-      console.log(`  Offset (including length bytes): ${offset}`);
-      console.log(`  Length (header value, incl. checksum): ${length}`);
-      console.log(`  Flag: 0x${flag.toString(16).padStart(2, '0')}`);
-      console.log(`  Payload bytes (flag + data): ${payload.length}`);
-      console.log(`  Stored checksum: 0x${storedChecksum.toString(16).padStart(2, '0')}`);
-      console.log(`  Computed checksum: 0x${computedChecksum.toString(16).padStart(2, '0')}`);
-      console.log('  First 16 bytes:', fullBlock
+      tapDebugLog(`Block ${blockIndex}:`);
+      tapDebugLog(`  Offset (including length bytes): ${offset}`);
+      tapDebugLog(`  Length (header value, incl. checksum): ${length}`);
+      tapDebugLog(`  Flag: 0x${flag.toString(16).padStart(2, '0')}`);
+      tapDebugLog(`  Payload bytes (flag + data): ${payload.length}`);
+      tapDebugLog(`  Stored checksum: 0x${storedChecksum.toString(16).padStart(2, '0')}`);
+      tapDebugLog(`  Computed checksum: 0x${computedChecksum.toString(16).padStart(2, '0')}`);
+      tapDebugLog('  First 16 bytes:', fullBlock
         .slice(0, 16)
         .map((b) => b.toString(16).padStart(2, '0'))
         .join(' ')
       );
-      console.log('  Last 16 bytes: ', fullBlock
+      tapDebugLog('  Last 16 bytes: ', fullBlock
         .slice(-16)
         .map((b) => b.toString(16).padStart(2, '0'))
         .join(' ')
@@ -326,7 +432,7 @@ export class TAPGenerator {
       blockIndex++;
     }
 
-    console.log('=== END TAP DEBUG DUMP ===');
+    tapDebugLog('=== END TAP DEBUG DUMP ===');
   }
 
   // Generate the final TAP file as Uint8Array
@@ -340,40 +446,6 @@ export class TAPGenerator {
   }
 }
 
-// Z80 Assembly helpers (for future game engine)
-export class Z80Assembler {
-  private code: number[] = [];
-
-  // LD A, n
-  ldA(value: number) {
-    this.code.push(0x3e, value & 0xff);
-    return this;
-  }
-
-  // LD HL, nn
-  ldHL(value: number) {
-    this.code.push(0x21, value & 0xff, (value >> 8) & 0xff);
-    return this;
-  }
-
-  // CALL nn
-  call(address: number) {
-    this.code.push(0xcd, address & 0xff, (address >> 8) & 0xff);
-    return this;
-  }
-
-  // RET
-  ret() {
-    this.code.push(0xc9);
-    return this;
-  }
-
-  // Get compiled code
-  getCode(): number[] {
-    return this.code;
-  }
-}
-
 // Convert sprite data to Spectrum screen format
 export function spriteToSpectrumFormat(
   pixels: number[][],
@@ -0,0 +1,186 @@
+// Z80 turbo loader source for TZX export
+// The BASIC loader fetches this at standard speed; it then loads the game's
+// CODE block from a turbo data block (ID 0x11) recorded with TURBO_TIMINGS
+import { TURBO_TIMINGS, type TurboTimings } from "./tzxGenerator";
+
+// The loader sits in the printer buffer, clear of the game's CODE block
+export const TURBO_LOADER_ORIGIN = 23296;
+
+// T-states of the edge routine's sampling loop and of the fixed work
+// around two edges (one bit) with EDGE_DELAY 1, measured on the Z80 core
+const SAMPLE_TSTATES = 59;
+const BIT_OVERHEAD_TSTATES = 218;
+
+export interface TurboLoaderConfig {
+  target: number;           // Load address of the CODE block
+  length: number;           // CODE block length, without flag and checksum
+  timings?: TurboTimings;
+}
+
+// Samples the bit loop counts between a zero and a one, from 0xB0 like the ROM
+function bitThreshold(timings: TurboTimings): number {
+  const midpoint = timings.zero + timings.one;
+  return 0xb0 + Math.floor((midpoint - BIT_OVERHEAD_TSTATES) / SAMPLE_TSTATES);
+}
+
+/**
+ * Generate the loader source
+ * A copy of the ROM's LD-BYTES (0x0556) with a shorter edge delay and bit
+ * threshold; on a tape error it stops with report R like the ROM would
+ */
+export function generateTurboLoaderAsm(config: TurboLoaderConfig): string {
+  const timings = config.timings ?? TURBO_TIMINGS;
+
+  return `; ===== TURBO LOADER =====
+; Loads the CODE block at turbo speed, then runs it
+
+    org ${TURBO_LOADER_ORIGIN}
+
+TARGET           equ ${config.target}
+LENGTH           equ ${config.length}
+EDGE_DELAY       equ 1     ; ROM: 0x16
+BIT_THRESHOLD    equ 0x${bitThreshold(timings).toString(16).toUpperCase()}  ; ROM: 0xCB
+SA_LD_RET        equ 0x053F  ; ROM: restore border, EI, check BREAK
+
+TurboStart:
+    ld ix,TARGET
+    ld de,LENGTH
+    ld a,0xFF              ; Data block flag
+    scf                    ; Load, not verify
+    call TurboLoad
+    jp c,TARGET
+    rst 8                  ; R Tape loading error
+    defb 0x1A
+
+; IX = address, DE = length, A = flag; carry set on success
+TurboLoad:
+    inc d
+    ex af,af'
+    dec d
+    di
+    ld a,0x0F
+    out (0xFE),a
+    ld hl,SA_LD_RET
+    push hl
+    in a,(0xFE)
+    rra
+    and 0x20
+    or 0x02
+    ld c,a
+    cp a
+LdBreak:
+    ret nz
+LdStart:
+    call LdEdge1
+    jr nc,LdBreak
+    ld hl,0x0415           ; Wait about a second for the tone to settle
+LdWait:
+    djnz LdWait
+    dec hl
+    ld a,h
+    or l
+    jr nz,LdWait
+    call LdEdge2
+    jr nc,LdBreak
+LdLeader:
+    ld b,0x9C
+    call LdEdge2
+    jr nc,LdBreak
+    ld a,0xC6
+    cp b
+    jr nc,LdStart
+    inc h
+    jr nz,LdLeader
+LdSync:
+    ld b,0xC9
+    call LdEdge1
+    jr nc,LdBreak
+    ld a,b
+    cp 0xD4
+    jr nc,LdSync
+    call LdEdge1
+    ret nc
+    ld a,c
+    xor 0x03
+    ld c,a
+    ld h,0x00
+    ld b,0xB0
+    jr LdMarker
+LdLoop:
+    ex af,af'
+    jr nz,LdFlag
+    jr nc,LdVerify
+    ld (ix+0),l
+    jr LdNext
+LdFlag:
+    rl c
+    xor l
+    ret nz
+    ld a,c
+    rra
+    ld c,a
+    inc de
+    jr LdDec
+LdVerify:
+    ld a,(ix+0)
+    xor l
+    ret nz
+LdNext:
+    inc ix
+LdDec:
+    dec de
+    ex af,af'
+    ld b,0xB2
+LdMarker:
+    ld l,0x01
+Ld8Bits:
+    call LdEdge2
+    ret nc
+    ld a,BIT_THRESHOLD
+LdBitCompare:
+    cp b
+    rl l
+    ld b,0xB0
+    jp nc,Ld8Bits
+    ld a,h
+    xor l
+    ld h,a
+    ld a,d
+    or e
+    jr nz,LdLoop
+    ld a,h
+    cp 0x01
+    ret
+
+; B counts samples until the EAR level changes; carry clear on timeout or BREAK
+LdEdge2:
+    call LdEdge1
+    ret nc
+LdEdge1:
+    ld a,EDGE_DELAY
+LdDelay:
+    dec a
+    jr nz,LdDelay
+    and a
+LdSample:
+    inc b
+    ret z
+    ld a,0x7F
+    in a,(0xFE)
+    rra
+    ret nc
+    xor c
+    and 0x20
+    jr z,LdSample
+    ld a,c
+    cpl
+    ld c,a
+    and 0x07
+    or 0x08
+    out (0xFE),a
+    scf
+    ret
+
+    end TurboStart
+`;
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { gameProject } from "@/test/gameProject";
+import { exportGameProject } from "./gameFlowExport";
+import { setTapDebugLogging } from "./tapGenerator";
+import { DEFAULT_PAUSE, TURBO_TIMINGS, TZXGenerator } from "./tzxGenerator";
+
+setTapDebugLogging(false);
+
+interface TZXBlock {
+  id: number;
+  data: number[];   // Flag to checksum for data blocks, the block body otherwise
+}
+
+const word = (bytes: ArrayLike<number>, offset: number) => bytes[offset] | (bytes[offset + 1] << 8);
+
+// The blocks after the TZX header, for the block IDs the generator writes
+function tzxBlocks(tzx: ArrayLike<number>): TZXBlock[] {
+  expect(String.fromCharCode(...Array.from(tzx).slice(0, 8))).toBe("ZXTape!\x1a");
+  const blocks: TZXBlock[] = [];
+  let offset = 10;
+  const take = (start: number, length: number) => Array.from({ length }, (_, index) => tzx[start + index]);
+  while (offset < tzx.length) {
+    const id = tzx[offset];
+    const body = offset + 1;
+    let start: number;
+    let length: number;
+    switch (id) {
+      case 0x10: start = body + 4; length = word(tzx, body + 2); break;
+      case 0x11: start = body + 18; length = word(tzx, body + 15) | (tzx[body + 17] << 16); break;
+      case 0x12: start = body; length = 4; break;
+      case 0x13: start = body + 1; length = tzx[body] * 2; break;
+      case 0x30: start = body + 1; length = tzx[body]; break;
+      case 0x32: start = body + 2; length = word(tzx, body); break;
+      default: throw new Error(`Unexpected TZX block 0x${id.toString(16)}`);
+    }
+    expect(start + length).toBeLessThanOrEqual(tzx.length);
+    blocks.push({ id, data: take(start, length) });
+    offset = start + length;
+  }
+  return blocks;
+}
+
+const xor = (bytes: number[]) => bytes.reduce((sum, byte) => sum ^ byte, 0);
+
+describe("TZXGenerator", () => {
+  it("appends the checksum to standard and turbo blocks", () => {
+    const tzx = new TZXGenerator();
+    tzx.addStandardBlock([0xff, 0x01, 0x02]);
+    tzx.addTurboBlock([0xff, 0x10, 0x20, 0x30]);
+    const [standard, turbo] = tzxBlocks(tzx.generate());
+    expect(standard).toEqual({ id: 0x10, data: [0xff, 0x01, 0x02, 0xfc] });
+    expect(turbo).toEqual({ id: 0x11, data: [0xff, 0x10, 0x20, 0x30, 0xff] });
+  });
+
+  it("writes the turbo timings and pause", () => {
+    const tzx = new TZXGenerator();
+    tzx.addTurboBlock([0xff], TURBO_TIMINGS, 500);
+    const bytes = tzx.generate().slice(10);
+    expect(bytes[0]).toBe(0x11);
+    expect([word(bytes, 1), word(bytes, 3), word(bytes, 5), word(bytes, 7), word(bytes, 9), word(bytes, 11)]).toEqual([
+      TURBO_TIMINGS.pilot, TURBO_TIMINGS.sync1, TURBO_TIMINGS.sync2, TURBO_TIMINGS.zero, TURBO_TIMINGS.one, TURBO_TIMINGS.pilotPulses,
+    ]);
+    expect(bytes[13]).toBe(8);
+    expect(word(bytes, 14)).toBe(500);
+  });
+
+  it("copies TAP blocks whole, checksum included", () => {
+    const tzx = new TZXGenerator();
+    tzx.addTAP([0x03, 0x00, 0xff, 0x42, 0xbd, 0x02, 0x00, 0xff, 0xff]);
+    const bytes = tzx.generate().slice(10);
+    expect(bytes.slice(0, 5)).toEqual([0x10, DEFAULT_PAUSE & 0xff, DEFAULT_PAUSE >> 8, 0x03, 0x00]);
+    expect(tzxBlocks(tzx.generate()).map(block => block.data)).toEqual([[0xff, 0x42, 0xbd], [0xff, 0xff]]);
+    expect(() => new TZXGenerator().addTAP([0x05, 0x00, 0xff])).toThrow("runs past the end of the tape");
+  });
+});
+
+describe("exported TZX", () => {
+  it.each([
+    ["48K", {}, 0x11],
+    ["48K packed", { optimizeSize: true }, 0x11],
+    ["128K", { machine: "128k" as const }, 0x10],
+  ])("holds data blocks that pass the XOR check on a %s build", async (_, settings, codeBlock) => {
+    const result = exportGameProject({ ...gameProject, settings: { ...gameProject.settings, ...settings } });
+    const blocks = tzxBlocks(new Uint8Array(await result.tzxBlob.arrayBuffer()));
+    const data = blocks.filter(block => block.id === 0x10 || block.id === 0x11);
+    expect(data.length).toBeGreaterThanOrEqual(4);
+    data.forEach(block => expect(xor(block.data)).toBe(0));
+    // The game code is the last block: turbo on 48K, standard speed on 128K
+    expect(data[data.length - 1].id).toBe(codeBlock);
+    expect(data[data.length - 1].data[0]).toBe(0xff);
+  });
+});
@@ -0,0 +1,185 @@
+// TZX file format utilities for ZX Spectrum
+// A TZX file is a signature followed by typed blocks: standard and turbo speed
+// data, raw tones and pulses, and descriptive text that emulators display
+
+// Pulse lengths in T-states (3.5MHz)
+export interface TurboTimings {
+  pilot: number;
+  sync1: number;
+  sync2: number;
+  zero: number;
+  one: number;
+  pilotPulses: number;
+}
+
+// The ROM saver's timings, as a standard speed block (ID 0x10) is played
+export const STANDARD_TIMINGS: TurboTimings = {
+  pilot: 2168,
+  sync1: 667,
+  sync2: 735,
+  zero: 855,
+  one: 1710,
+  pilotPulses: 3223,
+};
+
+// Roughly twice the standard bit rate; turboLoaderAsm.ts is tuned to these
+// The sync pulses are shorter than standard so the faster edge loop still
+// tells them apart from the pilot tone
+export const TURBO_TIMINGS: TurboTimings = {
+  pilot: 2168,
+  sync1: 400,
+  sync2: 400,
+  zero: 400,
+  one: 800,
+  pilotPulses: 3223,
+};
+
+// Pause after a block in milliseconds
+export const DEFAULT_PAUSE = 1000;
+
+// Archive info (ID 0x32) fields, in the order of their text IDs
+export interface ArchiveInfo {
+  title?: string;
+  publisher?: string;
+  author?: string;
+  year?: string;
+  language?: string;
+  type?: string;
+  price?: string;
+  loader?: string;
+  origin?: string;
+  comment?: string;
+}
+
+const ARCHIVE_INFO_IDS: Record<keyof ArchiveInfo, number> = {
+  title: 0x00,
+  publisher: 0x01,
+  author: 0x02,
+  year: 0x03,
+  language: 0x04,
+  type: 0x05,
+  price: 0x06,
+  loader: 0x07,
+  origin: 0x08,
+  comment: 0xff,
+};
+
+const TZX_SIGNATURE = "ZXTape!";
+const TZX_VERSION = [1, 20];
+
+// Block data with the XOR checksum the ROM loader verifies appended
+function withChecksum(blockData: number[]): number[] {
+  let checksum = 0;
+  for (const byte of blockData) {
+    checksum ^= byte;
+  }
+  return [...blockData, checksum];
+}
+
+// TZX text is plain ASCII, at most 255 characters
+function encodeText(text: string): number[] {
+  return Array.from(text.slice(0, 255), char => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code < 0x7f ? code : 0x3f; // "?"
+  });
+}
+
+function word(value: number): number[] {
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+export class TZXGenerator {
+  private data: number[] = [];
+
+  constructor() {
+    for (let i = 0; i < TZX_SIGNATURE.length; i++) {
+      this.data.push(TZX_SIGNATURE.charCodeAt(i));
+    }
+    this.data.push(0x1a, ...TZX_VERSION);
+  }
+
+  // Standard speed data block (ID 0x10): flag + data, checksum added here
+  addStandardBlock(blockData: number[], pause: number = DEFAULT_PAUSE) {
+    const bytes = withChecksum(blockData);
+    this.data.push(0x10, ...word(pause), ...word(bytes.length), ...bytes);
+  }
+
+  // Turbo speed data block (ID 0x11): flag + data, checksum added here
+  // Needs a custom loader; the ROM can only load standard timings
+  addTurboBlock(blockData: number[], timings: TurboTimings = TURBO_TIMINGS, pause: number = DEFAULT_PAUSE) {
+    const bytes = withChecksum(blockData);
+    this.data.push(
+      0x11,
+      ...word(timings.pilot),
+      ...word(timings.sync1),
+      ...word(timings.sync2),
+      ...word(timings.zero),
+      ...word(timings.one),
+      ...word(timings.pilotPulses),
+      8, // Bits used in the last byte
+      ...word(pause),
+      bytes.length & 0xff, (bytes.length >> 8) & 0xff, (bytes.length >> 16) & 0xff,
+      ...bytes
+    );
+  }
+
+  // Pure tone (ID 0x12): a run of identical pulses
+  addPureTone(pulseLength: number, pulseCount: number) {
+    this.data.push(0x12, ...word(pulseLength), ...word(pulseCount));
+  }
+
+  // Pulse sequence (ID 0x13): up to 255 pulses of individual lengths
+  addPulseSequence(pulseLengths: number[]) {
+    if (pulseLengths.length === 0 || pulseLengths.length > 255) {
+      throw new Error(`A pulse sequence holds 1 to 255 pulses, got ${pulseLengths.length}`);
+    }
+    this.data.push(0x13, pulseLengths.length, ...pulseLengths.flatMap(word));
+  }
+
+  // Text description (ID 0x30), shown by emulators as the tape plays
+  addTextDescription(text: string) {
+    const bytes = encodeText(text);
+    this.data.push(0x30, bytes.length, ...bytes);
+  }
+
+  // Archive info (ID 0x32): title, author and so on; empty fields are left out
+  addArchiveInfo(info: ArchiveInfo) {
+    const entries: number[] = [];
+    let count = 0;
+
+    for (const [key, id] of Object.entries(ARCHIVE_INFO_IDS) as [keyof ArchiveInfo, number][]) {
+      const text = info[key]?.trim();
+      if (!text) continue;
+      const bytes = encodeText(text);
+      entries.push(id, bytes.length, ...bytes);
+      count++;
+    }
+
+    if (count === 0) return;
+    this.data.push(0x32, ...word(entries.length + 1), count, ...entries);
+  }
+
+  // Copy every block of a TAP image as a standard speed block
+  addTAP(tapData: number[]) {
+    let offset = 0;
+    while (offset + 2 <= tapData.length) {
+      const length = tapData[offset] | (tapData[offset + 1] << 8);
+      const start = offset + 2;
+      if (start + length > tapData.length) {
+        throw new Error(`TAP block at offset ${offset} runs past the end of the tape`);
+      }
+      this.data.push(0x10, ...word(DEFAULT_PAUSE), ...word(length), ...tapData.slice(start, start + length));
+      offset = start + length;
+    }
+  }
+
+  // Generate the final TZX file
+  generate(): number[] {
+    return this.data;
+  }
+
+  // Create a downloadable blob
+  toBlob(): Blob {
+    return new Blob([new Uint8Array(this.data)], { type: "application/octet-stream" });
+  }
+}
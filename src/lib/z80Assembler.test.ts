@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import { assemble } from "./z80Assembler";
+
+const bytesOf = (source: string) => assemble(`    org 0x8000\n    ${source}\n`).bytes;
+
+describe("Z80 assembler encodings", () => {
+  it.each([
+    ["ld a,b", [0x78]],
+    ["ld (hl),a", [0x77]],
+    ["ld a,(ix+5)", [0xdd, 0x7e, 0x05]],
+    ["ld (iy-2),c", [0xfd, 0x71, 0xfe]],
+    ["ld (ix+1),h", [0xdd, 0x74, 0x01]],
+    ["ld l,(iy+0)", [0xfd, 0x6e, 0x00]],
+    ["ld (ix+3),0x42", [0xdd, 0x36, 0x03, 0x42]],
+    ["ld ixh,a", [0xdd, 0x67]],
+    ["ld a,iyl", [0xfd, 0x7d]],
+    ["ld ixl,ixh", [0xdd, 0x6c]],
+    ["ld ixh,5", [0xdd, 0x26, 0x05]],
+    ["ld hl,0x1234", [0x21, 0x34, 0x12]],
+    ["ld ix,(0x5c00)", [0xdd, 0x2a, 0x00, 0x5c]],
+    ["ld (0x5c00),de", [0xed, 0x53, 0x00, 0x5c]],
+    ["ld sp,iy", [0xfd, 0xf9]],
+    ["ld a,i", [0xed, 0x57]],
+    ["add ix,sp", [0xdd, 0x39]],
+    ["sbc hl,de", [0xed, 0x52]],
+    ["add a,(ix-1)", [0xdd, 0x86, 0xff]],
+    ["xor iyh", [0xfd, 0xac]],
+    ["inc (iy+7)", [0xfd, 0x34, 0x07]],
+    ["dec ixl", [0xdd, 0x2d]],
+    ["rl (ix+2)", [0xdd, 0xcb, 0x02, 0x16]],
+    ["rl (ix+2),c", [0xdd, 0xcb, 0x02, 0x11]],
+    ["sll b", [0xcb, 0x30]],
+    ["bit 3,(iy+4)", [0xfd, 0xcb, 0x04, 0x5e]],
+    ["set 7,(ix+0),a", [0xdd, 0xcb, 0x00, 0xff]],
+    ["res 0,(hl)", [0xcb, 0x86]],
+    ["in a,(0xfe)", [0xdb, 0xfe]],
+    ["in e,(c)", [0xed, 0x58]],
+    ["in (c)", [0xed, 0x70]],
+    ["in f,(c)", [0xed, 0x70]],
+    ["out (c),0", [0xed, 0x71]],
+    ["ex (sp),ix", [0xdd, 0xe3]],
+    ["jp (iy)", [0xfd, 0xe9]],
+    ["im 2", [0xed, 0x5e]],
+    ["rst 0x38", [0xff]],
+    ["otir", [0xed, 0xb3]],
+  ])("assembles %s", (source, expected) => {
+    expect(bytesOf(source)).toEqual(expected);
+  });
+
+  it("resolves forward references, equ and $", () => {
+    const { bytes, symbols } = assemble(`    org 0x8000
+Start:
+    jr Next
+    defw Last, $
+Next:
+    ld a,COUNT*2
+COUNT equ 3
+Last:
+    djnz Start
+`);
+    expect(bytes).toEqual([0x18, 0x04, 0x08, 0x80, 0x02, 0x80, 0x3e, 0x06, 0x10, 0xf6]);
+    expect(symbols.get("Next")).toBe(0x8006);
+  });
+});
+
+describe("Z80 assembler errors", () => {
+  it.each([
+    // Index halves with memory: the opcodes mean H or L there
+    "ld (ix+1),ixh",
+    "ld (iy+1),iyl",
+    "ld ixh,(hl)",
+    "ld iyl,(hl)",
+    "ld (hl),ixl",
+    "ld ixh,(ix+1)",
+    "ld iyh,(iy+0)",
+    // Index halves with H/L or the other index register
+    "ld ixh,h",
+    "ld l,iyl",
+    "ld ixh,iyl",
+    "ld (hl),(hl)",
+    "out (c),ixh",
+    "in ixl,(c)",
+    "rl ixh",
+    "rl (ix+0),ixh",
+    "set 1,(ix+0),iyl",
+    "bit 1,(ix+0),a",
+    "set 1,b,c",
+    "add ix,hl",
+    "ld a,(bc),1",
+  ])("rejects %s", (source) => {
+    expect(() => bytesOf(source)).toThrow(/Invalid instruction/);
+  });
+
+  it("reports jumps, displacements and values out of range", () => {
+    expect(() => assemble("    jr Far\n    defs 200\nFar:\n")).toThrow(/out of range/);
+    expect(() => bytesOf("ld a,(ix+128)")).toThrow(/Index displacement 128/);
+    expect(() => bytesOf("ld a,256")).toThrow(/does not fit in a byte/);
+    expect(() => bytesOf("ld a,Missing")).toThrow(/Undefined symbol "Missing"/);
+  });
+});
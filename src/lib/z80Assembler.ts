@@ -0,0 +1,730 @@
+// Two-pass Z80 assembler for building the game engine from assembly source
+// Supports labels, equ, org, defb/defw/defs/defm, expressions with $ and
+// forward references, the documented instruction set plus IXH/IXL/IYH/IYL
+// and SLL, and range checks on relative jumps and index displacements
+
+export interface AssembleOptions {
+  origin?: number;                    // Start address when the source has no org
+  symbols?: Record<string, number>;   // Externally defined symbols (e.g. bank addresses)
+}
+
+export interface AssemblyResult {
+  origin: number;                     // Address of the first emitted byte
+  bytes: number[];
+  symbols: Map<string, number>;
+}
+
+// r[] register codes; (HL) is 6
+const REG8: Record<string, number> = { b: 0, c: 1, d: 2, e: 3, h: 4, l: 5, a: 7 };
+
+// Index register halves: code plus the prefix that selects IX or IY
+const INDEX_HALVES: Record<string, { code: number; prefix: number }> = {
+  ixh: { code: 4, prefix: 0xdd },
+  ixl: { code: 5, prefix: 0xdd },
+  iyh: { code: 4, prefix: 0xfd },
+  iyl: { code: 5, prefix: 0xfd },
+};
+
+// rp[] register pair codes
+const REG16: Record<string, number> = { bc: 0, de: 1, hl: 2, sp: 3 };
+
+const INDEX_PREFIX: Record<string, number> = { ix: 0xdd, iy: 0xfd };
+
+// cc[] condition codes; JR only accepts the first four
+const CONDITIONS: Record<string, number> = { nz: 0, z: 1, nc: 2, c: 3, po: 4, pe: 5, p: 6, m: 7 };
+
+const ALU_OPS: Record<string, number> = { add: 0, adc: 1, sub: 2, sbc: 3, and: 4, xor: 5, or: 6, cp: 7 };
+
+const ROTATE_OPS: Record<string, number> = { rlc: 0, rrc: 1, rl: 2, rr: 3, sla: 4, sra: 5, sll: 6, sl1: 6, srl: 7 };
+
+const BIT_OPS: Record<string, number> = { bit: 0x40, res: 0x80, set: 0xc0 };
+
+// Instructions without operands
+const IMPLIED: Record<string, number[]> = {
+  nop: [0x00], halt: [0x76], di: [0xf3], ei: [0xfb], exx: [0xd9],
+  rlca: [0x07], rrca: [0x0f], rla: [0x17], rra: [0x1f],
+  daa: [0x27], cpl: [0x2f], scf: [0x37], ccf: [0x3f],
+  neg: [0xed, 0x44], retn: [0xed, 0x45], reti: [0xed, 0x4d],
+  rrd: [0xed, 0x67], rld: [0xed, 0x6f],
+  ldi: [0xed, 0xa0], cpi: [0xed, 0xa1], ini: [0xed, 0xa2], outi: [0xed, 0xa3],
+  ldd: [0xed, 0xa8], cpd: [0xed, 0xa9], ind: [0xed, 0xaa], outd: [0xed, 0xab],
+  ldir: [0xed, 0xb0], cpir: [0xed, 0xb1], inir: [0xed, 0xb2], otir: [0xed, 0xb3],
+  lddr: [0xed, 0xb8], cpdr: [0xed, 0xb9], indr: [0xed, 0xba], otdr: [0xed, 0xbb],
+};
+
+type Operand =
+  | { kind: "reg8"; code: number; prefix?: number }
+  | { kind: "reg16"; name: string }
+  | { kind: "special"; name: "i" | "r" }
+  | { kind: "indirect"; name: string }                      // (bc) (de) (hl) (sp) (c)
+  | { kind: "indexed"; prefix: number; displacement: string } // (ix+d) (iy+d)
+  | { kind: "memory"; expression: string }                  // (nn)
+  | { kind: "immediate"; expression: string; text: string };
+
+interface Context {
+  address: number;
+  line: number;
+  finalPass: boolean;
+  evaluate: (expression: string) => number;
+}
+
+// ===== EXPRESSIONS =====
+
+type Token = { type: "number" | "symbol" | "operator"; value: string | number };
+
+function tokenize(expression: string, line: number): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < expression.length) {
+    const ch = expression[i];
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+    const rest = expression.slice(i);
+    let match: RegExpMatchArray | null;
+    if ((match = rest.match(/^'(.)'/))) {
+      tokens.push({ type: "number", value: match[1].charCodeAt(0) });
+    } else if ((match = rest.match(/^(0x|\$|#)([0-9a-f]+)/i))) {
+      tokens.push({ type: "number", value: parseInt(match[2], 16) });
+    } else if ((match = rest.match(/^([0-9][0-9a-f]*)h\b/i))) {
+      tokens.push({ type: "number", value: parseInt(match[1], 16) });
+    } else if ((match = rest.match(/^(0b|%)([01]+)/i))) {
+      tokens.push({ type: "number", value: parseInt(match[2], 2) });
+    } else if ((match = rest.match(/^[0-9]+/))) {
+      tokens.push({ type: "number", value: parseInt(match[0], 10) });
+    } else if ((match = rest.match(/^[A-Za-z_.][\w.]*/))) {
+      tokens.push({ type: "symbol", value: match[0] });
+    } else if ((match = rest.match(/^\$/))) {
+      tokens.push({ type: "symbol", value: "$" });
+    } else if ((match = rest.match(/^(<<|>>|[-+*/%&|^~()])/))) {
+      tokens.push({ type: "operator", value: match[0] });
+    } else {
+      throw new Error(`Line ${line}: Unexpected character '${ch}' in expression "${expression}"`);
+    }
+    i += match[0].length;
+  }
+  return tokens;
+}
+
+// Recursive descent evaluator: | ^ & << >> + - * / % unary
+function evaluateExpression(expression: string, lookup: (name: string) => number, line: number): number {
+  const tokens = tokenize(expression, line);
+  let pos = 0;
+
+  const peek = () => tokens[pos];
+  const isOperator = (value: string) => peek()?.type === "operator" && peek().value === value;
+
+  const binary = (next: () => number, operators: string[]) => (): number => {
+    let left = next();
+    while (peek()?.type === "operator" && operators.includes(peek().value as string)) {
+      const op = tokens[pos++].value as string;
+      const right = next();
+      switch (op) {
+        case "|": left = left | right; break;
+        case "^": left = left ^ right; break;
+        case "&": left = left & right; break;
+        case "<<": left = left << right; break;
+        case ">>": left = left >> right; break;
+        case "+": left = left + right; break;
+        case "-": left = left - right; break;
+        case "*": left = left * right; break;
+        case "/":
+          if (right === 0) throw new Error(`Line ${line}: Division by zero in "${expression}"`);
+          left = Math.trunc(left / right);
+          break;
+        case "%":
+          if (right === 0) throw new Error(`Line ${line}: Division by zero in "${expression}"`);
+          left = left % right;
+          break;
+      }
+    }
+    return left;
+  };
+
+  const unary = (): number => {
+    if (isOperator("-")) { pos++; return -unary(); }
+    if (isOperator("+")) { pos++; return unary(); }
+    if (isOperator("~")) { pos++; return ~unary(); }
+    return primary();
+  };
+
+  const primary = (): number => {
+    const token = tokens[pos++];
+    if (!token) throw new Error(`Line ${line}: Incomplete expression "${expression}"`);
+    if (token.type === "number") return token.value as number;
+    if (token.type === "symbol") return lookup(token.value as string);
+    if (token.value === "(") {
+      const value = orExpr();
+      if (!isOperator(")")) throw new Error(`Line ${line}: Missing ')' in "${expression}"`);
+      pos++;
+      return value;
+    }
+    throw new Error(`Line ${line}: Unexpected '${token.value}' in "${expression}"`);
+  };
+
+  const mulExpr = binary(unary, ["*", "/", "%"]);
+  const addExpr = binary(mulExpr, ["+", "-"]);
+  const shiftExpr = binary(addExpr, ["<<", ">>"]);
+  const andExpr = binary(shiftExpr, ["&"]);
+  const xorExpr = binary(andExpr, ["^"]);
+  const orExpr = binary(xorExpr, ["|"]);
+
+  const value = orExpr();
+  if (pos < tokens.length) {
+    throw new Error(`Line ${line}: Unexpected '${tokens[pos].value}' in "${expression}"`);
+  }
+  return value;
+}
+
+// ===== SOURCE PARSING =====
+
+// Remove a trailing ; comment, ignoring semicolons inside quotes
+function stripComment(text: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"') {
+      quote = ch;
+    } else if (ch === "'" && text[i + 2] === "'") {
+      i += 2; // Character literal such as ';'
+    } else if (ch === ";") {
+      return text.slice(0, i);
+    }
+  }
+  return text;
+}
+
+// Split operands on commas outside quotes and parentheses
+function splitOperands(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"') {
+      quote = ch;
+    } else if (ch === "'" && text[i + 2] === "'") {
+      current += text.slice(i, i + 3);
+      i += 2;
+      continue;
+    } else if (ch === "(") {
+      depth++;
+    } else if (ch === ")") {
+      depth--;
+    } else if (ch === "," && depth === 0) {
+      parts.push(current.trim());
+      current = "";
+      continue;
+    }
+    current += ch;
+  }
+  if (current.trim() !== "") parts.push(current.trim());
+  return parts;
+}
+
+// True when the whole operand is wrapped in one pair of parentheses
+function isWrapped(text: string): boolean {
+  if (!text.startsWith("(") || !text.endsWith(")")) return false;
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    else if (text[i] === ")") depth--;
+    if (depth === 0 && i < text.length - 1) return false;
+  }
+  return true;
+}
+
+function parseOperand(text: string): Operand {
+  const lower = text.toLowerCase();
+  if (lower in REG8) return { kind: "reg8", code: REG8[lower] };
+  if (lower in INDEX_HALVES) return { kind: "reg8", ...INDEX_HALVES[lower] };
+  if (lower === "i" || lower === "r") return { kind: "special", name: lower };
+  if (lower in REG16 || lower in INDEX_PREFIX || lower === "af" || lower === "af'") {
+    return { kind: "reg16", name: lower };
+  }
+  if (isWrapped(text)) {
+    const inner = text.slice(1, -1).trim();
+    const innerLower = inner.toLowerCase();
+    if (["bc", "de", "hl", "sp", "c"].includes(innerLower)) return { kind: "indirect", name: innerLower };
+    const indexed = inner.match(/^(ix|iy)\s*([+-].*)?$/i);
+    if (indexed) {
+      return { kind: "indexed", prefix: INDEX_PREFIX[indexed[1].toLowerCase()], displacement: indexed[2] ?? "0" };
+    }
+    return { kind: "memory", expression: inner };
+  }
+  return { kind: "immediate", expression: text, text: lower };
+}
+
+// ===== INSTRUCTION ENCODING =====
+
+function byteValue(ctx: Context, expression: string): number {
+  const value = ctx.evaluate(expression);
+  if (ctx.finalPass && (value < -128 || value > 255)) {
+    throw new Error(`Line ${ctx.line}: Value ${value} does not fit in a byte`);
+  }
+  return value & 0xff;
+}
+
+function wordBytes(ctx: Context, expression: string): number[] {
+  const value = ctx.evaluate(expression);
+  if (ctx.finalPass && (value < -32768 || value > 65535)) {
+    throw new Error(`Line ${ctx.line}: Value ${value} does not fit in a word`);
+  }
+  return [value & 0xff, (value >> 8) & 0xff];
+}
+
+function displacement(ctx: Context, expression: string): number {
+  const value = ctx.evaluate(expression);
+  if (ctx.finalPass && (value < -128 || value > 127)) {
+    throw new Error(`Line ${ctx.line}: Index displacement ${value} out of range (-128..127)`);
+  }
+  return value & 0xff;
+}
+
+// Offset for JR/DJNZ, relative to the address after the 2-byte instruction
+function relativeOffset(ctx: Context, expression: string): number {
+  const target = ctx.evaluate(expression);
+  const offset = target - (ctx.address + 2);
+  if (ctx.finalPass && (offset < -128 || offset > 127)) {
+    throw new Error(`Line ${ctx.line}: Relative jump to ${expression} out of range (${offset} bytes)`);
+  }
+  return offset & 0xff;
+}
+
+// 8-bit operand usable wherever r[] is: registers, (HL) or (IX+d)
+function r8(op: Operand, ctx: Context): { code: number; prefix?: number; displacement?: number } | null {
+  if (op.kind === "reg8") return { code: op.code, prefix: op.prefix };
+  if (op.kind === "indirect" && op.name === "hl") return { code: 6 };
+  if (op.kind === "indexed") return { code: 6, prefix: op.prefix, displacement: displacement(ctx, op.displacement) };
+  return null;
+}
+
+// Emit prefix, opcode and (for indexed forms) the displacement byte
+function withIndex(operand: { prefix?: number; displacement?: number }, opcode: number, ...rest: number[]): number[] {
+  const bytes: number[] = [];
+  if (operand.prefix) bytes.push(operand.prefix);
+  bytes.push(opcode);
+  if (operand.displacement !== undefined) bytes.push(operand.displacement);
+  bytes.push(...rest);
+  return bytes;
+}
+
+// HL, IX or IY as a register pair: returns the prefix (0 for HL)
+function hlLike(op: Operand): number | null {
+  if (op.kind !== "reg16") return null;
+  if (op.name === "hl") return 0;
+  return INDEX_PREFIX[op.name] ?? null;
+}
+
+function pairCode(op: Operand, allowIndex: number): number | null {
+  if (op.kind !== "reg16") return null;
+  if (op.name in REG16) return REG16[op.name];
+  if (INDEX_PREFIX[op.name] !== undefined && INDEX_PREFIX[op.name] === allowIndex) return 2;
+  return null;
+}
+
+function encodeLD(dst: Operand, src: Operand, ctx: Context): number[] | null {
+  // LD r, r' / LD r, (HL) / LD (HL), r
+  const d8 = r8(dst, ctx);
+  const s8 = r8(src, ctx);
+  if (d8 && s8) {
+    if (d8.code === 6 && s8.code === 6) return null;
+    if (d8.prefix && s8.prefix && d8.prefix !== s8.prefix) return null;
+    // IXH/IXL/IYH/IYL never go to or from memory: with (HL) or (IX+d) the opcode means H or L
+    const isHalf = (op: Operand) => op.kind === "reg8" && op.prefix !== undefined;
+    if ((isHalf(dst) && s8.code === 6) || (isHalf(src) && d8.code === 6)) return null;
+    // H/L can't be mixed with IXH/IXL/IYH/IYL (with (IX+d) they mean H and L)
+    const indexed = d8.prefix ?? s8.prefix;
+    const isHL = (op: Operand, reg: { code: number; prefix?: number }) =>
+      op.kind === "reg8" && !reg.prefix && (reg.code === 4 || reg.code === 5);
+    if (indexed && d8.code !== 6 && s8.code !== 6 && (isHL(dst, d8) || isHL(src, s8))) return null;
+    const memory = d8.code === 6 ? d8 : s8.code === 6 ? s8 : { prefix: indexed };
+    return withIndex(memory, 0x40 | (d8.code << 3) | s8.code);
+  }
+  if (d8 && src.kind === "immediate") {
+    return withIndex(d8, 0x06 | (d8.code << 3), byteValue(ctx, src.expression));
+  }
+
+  const isA = dst.kind === "reg8" && dst.code === 7 && !dst.prefix;
+  const srcIsA = src.kind === "reg8" && src.code === 7 && !src.prefix;
+
+  if (isA && src.kind === "indirect" && src.name === "bc") return [0x0a];
+  if (isA && src.kind === "indirect" && src.name === "de") return [0x1a];
+  if (isA && src.kind === "memory") return [0x3a, ...wordBytes(ctx, src.expression)];
+  if (isA && src.kind === "special") return [0xed, src.name === "i" ? 0x57 : 0x5f];
+  if (srcIsA && dst.kind === "indirect" && dst.name === "bc") return [0x02];
+  if (srcIsA && dst.kind === "indirect" && dst.name === "de") return [0x12];
+  if (srcIsA && dst.kind === "memory") return [0x32, ...wordBytes(ctx, dst.expression)];
+  if (srcIsA && dst.kind === "special") return [0xed, dst.name === "i" ? 0x47 : 0x4f];
+
+  // 16-bit loads
+  if (dst.kind === "reg16" && dst.name === "sp") {
+    const prefix = hlLike(src);
+    if (prefix !== null) return prefix ? [prefix, 0xf9] : [0xf9];
+  }
+  const dstHL = hlLike(dst);
+  if (dstHL !== null) {
+    const prefix = dstHL ? [dstHL] : [];
+    if (src.kind === "immediate") return [...prefix, 0x21, ...wordBytes(ctx, src.expression)];
+    if (src.kind === "memory") return [...prefix, 0x2a, ...wordBytes(ctx, src.expression)];
+  }
+  const srcHL = hlLike(src);
+  if (srcHL !== null && dst.kind === "memory") {
+    return [...(srcHL ? [srcHL] : []), 0x22, ...wordBytes(ctx, dst.expression)];
+  }
+  if (dst.kind === "reg16" && dst.name in REG16) {
+    const p = REG16[dst.name];
+    if (src.kind === "immediate") return [0x01 | (p << 4), ...wordBytes(ctx, src.expression)];
+    if (src.kind === "memory") return [0xed, 0x4b | (p << 4), ...wordBytes(ctx, src.expression)];
+  }
+  if (src.kind === "reg16" && src.name in REG16 && dst.kind === "memory") {
+    return [0xed, 0x43 | (REG16[src.name] << 4), ...wordBytes(ctx, dst.expression)];
+  }
+  return null;
+}
+
+function encodeInstruction(mnemonic: string, ops: Operand[], ctx: Context): number[] | null {
+  if (mnemonic in IMPLIED) return ops.length === 0 ? IMPLIED[mnemonic] : null;
+
+  const [a, b] = ops;
+  const conditionOf = (op: Operand | undefined, jrOnly = false): number | null => {
+    if (!op) return null;
+    const name = op.kind === "reg8" && op.code === 1 && !op.prefix ? "c" : op.kind === "immediate" ? op.text : null;
+    if (name === null || !(name in CONDITIONS)) return null;
+    const code = CONDITIONS[name];
+    return jrOnly && code > 3 ? null : code;
+  };
+
+  switch (mnemonic) {
+    case "ld":
+      return ops.length === 2 ? encodeLD(a, b, ctx) : null;
+
+    case "add":
+    case "adc":
+    case "sbc": {
+      if (ops.length === 2) {
+        const prefix = hlLike(a);
+        if (prefix !== null && b.kind === "reg16") {
+          const p = pairCode(b, prefix || -1);
+          if (p === null || (b.name === "hl" && prefix)) return null;
+          if (mnemonic === "add") return prefix ? [prefix, 0x09 | (p << 4)] : [0x09 | (p << 4)];
+          if (prefix) return null;
+          return [0xed, (mnemonic === "adc" ? 0x4a : 0x42) | (p << 4)];
+        }
+      }
+      break;
+    }
+
+    case "inc":
+    case "dec": {
+      if (ops.length !== 1) return null;
+      const reg = r8(a, ctx);
+      if (reg) return withIndex(reg, (mnemonic === "inc" ? 0x04 : 0x05) | (reg.code << 3));
+      if (a.kind === "reg16") {
+        const prefix = INDEX_PREFIX[a.name];
+        const p = prefix ? 2 : REG16[a.name];
+        if (p === undefined) return null;
+        const opcode = (mnemonic === "inc" ? 0x03 : 0x0b) | (p << 4);
+        return prefix ? [prefix, opcode] : [opcode];
+      }
+      return null;
+    }
+
+    case "jp": {
+      if (ops.length === 1) {
+        if (a.kind === "indirect" && a.name === "hl") return [0xe9];
+        if (a.kind === "indexed" && ctx.evaluate(a.displacement) === 0) return [a.prefix, 0xe9];
+        if (a.kind === "immediate") return [0xc3, ...wordBytes(ctx, a.expression)];
+        return null;
+      }
+      const cc = conditionOf(a);
+      if (cc === null || b.kind !== "immediate") return null;
+      return [0xc2 | (cc << 3), ...wordBytes(ctx, b.expression)];
+    }
+
+    case "jr": {
+      if (ops.length === 1) return a.kind === "immediate" ? [0x18, relativeOffset(ctx, a.expression)] : null;
+      const cc = conditionOf(a, true);
+      if (cc === null || b.kind !== "immediate") return null;
+      return [0x20 | (cc << 3), relativeOffset(ctx, b.expression)];
+    }
+
+    case "djnz":
+      return ops.length === 1 && a.kind === "immediate" ? [0x10, relativeOffset(ctx, a.expression)] : null;
+
+    case "call": {
+      if (ops.length === 1) return a.kind === "immediate" ? [0xcd, ...wordBytes(ctx, a.expression)] : null;
+      const cc = conditionOf(a);
+      if (cc === null || b.kind !== "immediate") return null;
+      return [0xc4 | (cc << 3), ...wordBytes(ctx, b.expression)];
+    }
+
+    case "ret": {
+      if (ops.length === 0) return [0xc9];
+      const cc = conditionOf(a);
+      return cc === null ? null : [0xc0 | (cc << 3)];
+    }
+
+    case "rst": {
+      if (ops.length !== 1 || a.kind !== "immediate") return null;
+      const target = ctx.evaluate(a.expression);
+      if (ctx.finalPass && (target & ~0x38) !== 0) {
+        throw new Error(`Line ${ctx.line}: Invalid RST target ${target}`);
+      }
+      return [0xc7 | (target & 0x38)];
+    }
+
+    case "push":
+    case "pop": {
+      if (ops.length !== 1 || a.kind !== "reg16") return null;
+      const base = mnemonic === "push" ? 0xc5 : 0xc1;
+      if (a.name === "af") return [base | 0x30];
+      const prefix = INDEX_PREFIX[a.name];
+      if (prefix) return [prefix, base | 0x20];
+      const p = REG16[a.name];
+      return p === undefined || p === 3 ? null : [base | (p << 4)];
+    }
+
+    case "ex": {
+      if (ops.length !== 2) return null;
+      if (a.kind === "reg16" && a.name === "af" && b.kind === "reg16" && b.name === "af'") return [0x08];
+      if (a.kind === "reg16" && a.name === "de" && b.kind === "reg16" && b.name === "hl") return [0xeb];
+      if (a.kind === "indirect" && a.name === "sp") {
+        const prefix = hlLike(b);
+        if (prefix !== null) return prefix ? [prefix, 0xe3] : [0xe3];
+      }
+      return null;
+    }
+
+    case "in": {
+      // "in (c)" and "in f,(c)" only set the flags
+      const flagsOnly = ops.length === 1 ? a : a.kind === "immediate" && a.text === "f" ? b : null;
+      if (flagsOnly?.kind === "indirect" && flagsOnly.name === "c") return [0xed, 0x70];
+      if (ops.length !== 2 || a.kind !== "reg8" || a.prefix) return null;
+      if (b.kind === "indirect" && b.name === "c") return [0xed, 0x40 | (a.code << 3)];
+      if (a.code === 7 && b.kind === "memory") return [0xdb, byteValue(ctx, b.expression)];
+      return null;
+    }
+
+    case "out": {
+      if (ops.length !== 2) return null;
+      if (a.kind === "indirect" && a.name === "c") {
+        if (b.kind === "reg8" && !b.prefix) return [0xed, 0x41 | (b.code << 3)];
+        if (b.kind === "immediate" && ctx.evaluate(b.expression) === 0) return [0xed, 0x71];
+        return null;
+      }
+      if (a.kind === "memory" && b.kind === "reg8" && b.code === 7 && !b.prefix) {
+        return [0xd3, byteValue(ctx, a.expression)];
+      }
+      return null;
+    }
+
+    case "im": {
+      if (ops.length !== 1 || a.kind !== "immediate") return null;
+      const mode = ctx.evaluate(a.expression);
+      const opcodes = [0x46, 0x56, 0x5e];
+      if (ctx.finalPass && !(mode in opcodes)) throw new Error(`Line ${ctx.line}: Invalid interrupt mode ${mode}`);
+      return [0xed, opcodes[mode] ?? 0x46];
+    }
+  }
+
+  // ALU ops: "op r", "op a, r", "op n"
+  if (mnemonic in ALU_OPS) {
+    let operand = a;
+    if (ops.length === 2) {
+      if (!(a.kind === "reg8" && a.code === 7 && !a.prefix)) return null;
+      operand = b;
+    } else if (ops.length !== 1) {
+      return null;
+    }
+    const op = ALU_OPS[mnemonic];
+    const reg = r8(operand, ctx);
+    if (reg) return withIndex(reg, 0x80 | (op << 3) | reg.code);
+    if (operand.kind === "immediate") return [0xc6 | (op << 3), byteValue(ctx, operand.expression)];
+    return null;
+  }
+
+  // CB rotates/shifts: "op r" or undocumented "op (ix+d), r"
+  if (mnemonic in ROTATE_OPS) {
+    const op = ROTATE_OPS[mnemonic];
+    const reg = a ? r8(a, ctx) : null;
+    if (!reg || ops.length > 2 || reg.prefix && reg.code !== 6) return null;
+    if (reg.code === 6 && reg.prefix) {
+      if (ops.length === 2 && (b.kind !== "reg8" || b.prefix)) return null;
+      const copy = ops.length === 2 ? (b as { code: number }).code : 6;
+      return [reg.prefix, 0xcb, reg.displacement!, (op << 3) | copy];
+    }
+    return ops.length === 1 ? [0xcb, (op << 3) | reg.code] : null;
+  }
+
+  // BIT/RES/SET n, r
+  if (mnemonic in BIT_OPS) {
+    if (ops.length < 2 || ops.length > 3 || a.kind !== "immediate") return null;
+    const bitNumber = ctx.evaluate(a.expression);
+    if (ctx.finalPass && (bitNumber < 0 || bitNumber > 7)) {
+      throw new Error(`Line ${ctx.line}: Bit number ${bitNumber} out of range (0..7)`);
+    }
+    const reg = r8(b, ctx);
+    if (!reg || (reg.prefix && reg.code !== 6)) return null;
+    const opcode = BIT_OPS[mnemonic] | ((bitNumber & 7) << 3);
+    // The copy register of "res/set n, (ix+d), r" is a plain B, C, D, E, H, L or A
+    const copyTo = ops[2];
+    if (copyTo && (!reg.prefix || mnemonic === "bit" || copyTo.kind !== "reg8" || copyTo.prefix)) return null;
+    if (reg.prefix) {
+      const copy = copyTo ? (copyTo as { code: number }).code : 6;
+      return [reg.prefix, 0xcb, reg.displacement!, opcode | copy];
+    }
+    return [0xcb, opcode | reg.code];
+  }
+
+  return null;
+}
+
+// ===== DRIVER =====
+
+const MAX_RESOLVE_PASSES = 8;
+
+// Data directive operands: expressions and "strings"
+function dataBytes(operands: string[], ctx: Context): number[] {
+  const bytes: number[] = [];
+  for (const operand of operands) {
+    const str = operand.match(/^"(.*)"$/);
+    if (str) {
+      for (const ch of str[1]) bytes.push(ch.charCodeAt(0) & 0xff);
+    } else {
+      bytes.push(byteValue(ctx, operand));
+    }
+  }
+  return bytes;
+}
+
+export function assemble(source: string, options: AssembleOptions = {}): AssemblyResult {
+  const external = new Map(Object.entries(options.symbols ?? {}));
+  const symbols = new Map<string, number>();
+  const lines = source.split(/\r?\n/);
+  let output: number[] = [];
+  let origin: number | null = null;
+  let finalPass = false;
+
+  // Resolve passes repeat until every symbol settles (equ chains may refer
+  // forward), then a final pass emits code with all range checks enabled
+  for (let pass = 1; ; pass++) {
+    const firstPass = pass === 1;
+    const previous = new Map(symbols);
+    let address = options.origin ?? 0;
+    output = [];
+    origin = null;
+
+    const lookup = (line: number) => (name: string): number => {
+      if (name === "$") return address;
+      const value = symbols.get(name) ?? external.get(name);
+      if (value !== undefined) return value;
+      if (finalPass) throw new Error(`Line ${line}: Undefined symbol "${name}"`);
+      return 0;
+    };
+
+    const emit = (bytes: number[]) => {
+      if (origin === null) origin = address;
+      output.push(...bytes);
+      address = (address + bytes.length) & 0xffff;
+    };
+
+    // Labels must not move once the symbols have settled
+    const define = (name: string, value: number, line: number) => {
+      if (external.has(name)) throw new Error(`Line ${line}: Symbol "${name}" is already defined externally`);
+      if (firstPass) {
+        if (symbols.has(name)) throw new Error(`Line ${line}: Duplicate label "${name}"`);
+      } else if (finalPass && symbols.get(name) !== value) {
+        // Phase error: a size or org depended on a forward reference
+        throw new Error(`Line ${line}: Value of "${name}" changed between passes`);
+      }
+      symbols.set(name, value);
+    };
+
+    for (let index = 0; index < lines.length; index++) {
+      const lineNumber = index + 1;
+      let text = stripComment(lines[index]).trim();
+      if (!text) continue;
+
+      const ctx: Context = {
+        address,
+        line: lineNumber,
+        finalPass,
+        evaluate: (expression) => evaluateExpression(expression, lookup(lineNumber), lineNumber),
+      };
+
+      // "name equ value" / "name: equ value" / "name = value"
+      const equ = text.match(/^([A-Za-z_.][\w.]*):?\s+(?:equ\b|=)\s*(.+)$/i);
+      if (equ) {
+        define(equ[1], ctx.evaluate(equ[2]), lineNumber);
+        continue;
+      }
+
+      const label = text.match(/^([A-Za-z_.][\w.]*):/);
+      if (label) {
+        define(label[1], address, lineNumber);
+        text = text.slice(label[0].length).trim();
+        if (!text) continue;
+      }
+
+      const [, rawMnemonic, operandText = ""] = text.match(/^(\S+)\s*(.*)$/) ?? [];
+      const mnemonic = rawMnemonic.toLowerCase();
+      const operands = splitOperands(operandText);
+
+      switch (mnemonic) {
+        case "org": {
+          const target = ctx.evaluate(operands[0] ?? "") & 0xffff;
+          if (origin !== null) {
+            if (target < address) throw new Error(`Line ${lineNumber}: org ${target} is below the current address ${address}`);
+            output.push(...new Array(target - address).fill(0));
+          }
+          address = target;
+          continue;
+        }
+        case "end":
+          index = lines.length;
+          continue;
+        case "defb":
+        case "db":
+        case "defm":
+        case "dm":
+          emit(dataBytes(operands, ctx));
+          continue;
+        case "defw":
+        case "dw":
+          emit(operands.flatMap((operand) => wordBytes(ctx, operand)));
+          continue;
+        case "defs":
+        case "ds": {
+          const count = ctx.evaluate(operands[0] ?? "0");
+          if (count < 0) throw new Error(`Line ${lineNumber}: Negative defs size ${count}`);
+          const fill = operands[1] !== undefined ? byteValue(ctx, operands[1]) : 0;
+          emit(new Array(count).fill(fill));
+          continue;
+        }
+      }
+
+      const bytes = encodeInstruction(mnemonic, operands.map(parseOperand), ctx);
+      if (!bytes) {
+        throw new Error(`Line ${lineNumber}: Invalid instruction "${text}"`);
+      }
+      emit(bytes);
+    }
+
+    if (finalPass) break;
+    const settled = !firstPass && [...symbols].every(([name, value]) => previous.get(name) === value);
+    finalPass = settled || pass >= MAX_RESOLVE_PASSES;
+  }
+
+  return {
+    origin: origin ?? options.origin ?? 0,
+    bytes: output,
+    symbols,
+  };
+}
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { Z80 } from "./z80Cpu";
+
+// 64K of RAM, with IN returning the byte set in port
+function machine(code: number[], port = 0xff) {
+  const memory = new Uint8Array(65536);
+  memory.set(code, 0x8000);
+  const out: [number, number][] = [];
+  const cpu = new Z80({
+    read: address => memory[address],
+    write: (address, value) => { memory[address] = value; },
+    portIn: () => port,
+    portOut: (address, value) => { out.push([address, value]); },
+  });
+  cpu.reset();
+  cpu.pc = 0x8000;
+  return { cpu, memory, out };
+}
+
+// T-states of the first instruction of code
+function tstates(code: number[]): number {
+  const { cpu } = machine(code);
+  cpu.ix = cpu.iy = cpu.hl = 0x9000;
+  cpu.sp = 0xff00;
+  return cpu.step();
+}
+
+describe("Z80 timings", () => {
+  it.each([
+    ["ld a,(hl)", [0x7e], 7],
+    ["ld a,(ix+1)", [0xdd, 0x7e, 0x01], 19],
+    ["ld (iy+2),b", [0xfd, 0x70, 0x02], 19],
+    ["ld (ix+0),5", [0xdd, 0x36, 0x00, 0x05], 19],
+    ["add a,(iy-1)", [0xfd, 0x86, 0xff], 19],
+    ["inc (ix+3)", [0xdd, 0x34, 0x03], 23],
+    ["bit 0,(ix+0)", [0xdd, 0xcb, 0x00, 0x46], 20],
+    ["set 7,(iy+1)", [0xfd, 0xcb, 0x01, 0xfe], 23],
+    ["rl (ix+0),c", [0xdd, 0xcb, 0x00, 0x11], 23],
+    ["bit 0,(hl)", [0xcb, 0x46], 12],
+    ["ld ix,nn", [0xdd, 0x21, 0x00, 0x40], 14],
+    ["ld ixh,5", [0xdd, 0x26, 0x05], 11],
+    ["add ix,bc", [0xdd, 0x09], 15],
+    ["push iy", [0xfd, 0xe5], 15],
+    ["ex (sp),ix", [0xdd, 0xe3], 23],
+    ["jp (ix)", [0xdd, 0xe9], 8],
+  ])("%s takes its documented time", (_, code, expected) => {
+    expect(tstates(code as number[])).toBe(expected);
+  });
+});
+
+describe("Z80 block I/O flags", () => {
+  it("sets N from the byte read and P/V from k for INI", () => {
+    const { cpu, memory } = machine([0xed, 0xa2], 0x81);
+    cpu.bc = 0x0110;
+    cpu.hl = 0x9000;
+    expect(cpu.step()).toBe(16);
+    expect(memory[0x9000]).toBe(0x81);
+    expect(cpu.b).toBe(0);
+    expect(cpu.f).toBe(0x42);  // Z, N
+  });
+
+  it("sets H and C when the byte read plus C-1 carries for IND", () => {
+    const { cpu } = machine([0xed, 0xaa], 0xf0);
+    cpu.bc = 0x0320;
+    cpu.hl = 0x9000;
+    cpu.step();
+    expect(cpu.hl).toBe(0x8fff);
+    // k = 0xF0 + 0x1F = 0x10F: H, C; (k & 7) ^ B = 7 ^ 2 = 5, even: P/V; N from bit 7
+    expect(cpu.f).toBe(0x17);
+  });
+
+  it("takes k from the new L for OUTI", () => {
+    const { cpu, memory, out } = machine([0xed, 0xa3]);
+    memory[0x8010] = 0xf5;
+    cpu.bc = 0x03fe;
+    cpu.hl = 0x8010;
+    cpu.step();
+    expect(out).toEqual([[0x02fe, 0xf5]]);
+    // k = 0xF5 + 0x11 = 0x106: H, C; (k & 7) ^ B = 6 ^ 2 = 4, odd: no P/V
+    expect(cpu.f).toBe(0x13);
+  });
+
+  it("repeats OTIR until B is 0 with the same flags", () => {
+    const { cpu, memory } = machine([0xed, 0xb3]);
+    memory.set([0x01, 0x02], 0x9000);
+    cpu.bc = 0x02fe;
+    cpu.hl = 0x9000;
+    expect(cpu.step()).toBe(21);
+    expect(cpu.pc).toBe(0x8000);
+    expect(cpu.step()).toBe(16);
+    expect(cpu.b).toBe(0);
+    // k = 0x02 + 0x02 = 4; (k & 7) ^ B = 4, odd: no P/V; Z from B
+    expect(cpu.f).toBe(0x40);
+  });
+});
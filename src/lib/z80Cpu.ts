@@ -0,0 +1,839 @@
+// Z80 CPU core for the built-in ZX Spectrum emulator
+// Opcodes are decoded from their x/y/z/p/q bit fields (see "Decoding Z80 opcodes")
+// instead of a 256-entry table per prefix, which keeps the core compact
+
+export interface Z80Bus {
+  read(address: number): number;
+  write(address: number, value: number): void;
+  portIn(port: number): number;
+  portOut(port: number, value: number): void;
+}
+
+// Flag bits in the F register
+const FLAG_C = 0x01;
+const FLAG_N = 0x02;
+const FLAG_PV = 0x04;
+const FLAG_X = 0x08;
+const FLAG_H = 0x10;
+const FLAG_Y = 0x20;
+const FLAG_Z = 0x40;
+const FLAG_S = 0x80;
+
+// Precomputed sign/zero/undocumented-bit and parity flags for every byte value
+const SZ53 = new Uint8Array(256);
+const SZ53P = new Uint8Array(256);
+for (let i = 0; i < 256; i++) {
+  SZ53[i] = (i & (FLAG_S | FLAG_Y | FLAG_X)) | (i === 0 ? FLAG_Z : 0);
+  let parity = 0;
+  for (let bit = 0; bit < 8; bit++) parity ^= (i >> bit) & 1;
+  SZ53P[i] = SZ53[i] | (parity ? 0 : FLAG_PV);
+}
+
+// Interrupt modes selected by ED 46/56/5E (and their mirrors), indexed by y
+const IM_MODES = [0, 0, 1, 2, 0, 0, 1, 2];
+
+// Index register selector for DD/FD prefixed instructions
+const INDEX_HL = 0;
+const INDEX_IX = 1;
+const INDEX_IY = 2;
+
+export class Z80 {
+  // Main register set
+  a = 0xff;
+  f = 0xff;
+  b = 0;
+  c = 0;
+  d = 0;
+  e = 0;
+  h = 0;
+  l = 0;
+
+  // Alternate register set (AF', BC', DE', HL')
+  altA = 0;
+  altF = 0;
+  altB = 0;
+  altC = 0;
+  altD = 0;
+  altE = 0;
+  altH = 0;
+  altL = 0;
+
+  ix = 0xffff;
+  iy = 0xffff;
+  sp = 0xffff;
+  pc = 0;
+  i = 0;
+  r = 0;
+
+  iff1 = false;
+  iff2 = false;
+  im = 0;
+  halted = false;
+
+  // Set for one instruction after EI so the interrupt is not taken immediately
+  private eiDelay = false;
+
+  constructor(private bus: Z80Bus) {}
+
+  reset(): void {
+    this.a = this.f = 0xff;
+    this.b = this.c = this.d = this.e = this.h = this.l = 0;
+    this.altA = this.altF = this.altB = this.altC = this.altD = this.altE = this.altH = this.altL = 0;
+    this.ix = this.iy = this.sp = 0xffff;
+    this.pc = this.i = this.r = 0;
+    this.iff1 = this.iff2 = false;
+    this.im = 0;
+    this.halted = false;
+    this.eiDelay = false;
+  }
+
+  // ===== REGISTER PAIRS =====
+
+  get af(): number { return (this.a << 8) | this.f; }
+  set af(value: number) { this.a = (value >> 8) & 0xff; this.f = value & 0xff; }
+  get bc(): number { return (this.b << 8) | this.c; }
+  set bc(value: number) { this.b = (value >> 8) & 0xff; this.c = value & 0xff; }
+  get de(): number { return (this.d << 8) | this.e; }
+  set de(value: number) { this.d = (value >> 8) & 0xff; this.e = value & 0xff; }
+  get hl(): number { return (this.h << 8) | this.l; }
+  set hl(value: number) { this.h = (value >> 8) & 0xff; this.l = value & 0xff; }
+
+  // ===== EXECUTION =====
+
+  // Execute one instruction and return the T-states it took
+  step(): number {
+    this.eiDelay = false;
+    if (this.halted) {
+      // HALT keeps executing NOPs until an interrupt arrives
+      this.incrementR();
+      return 4;
+    }
+    return this.execute(this.fetchOpcode(), INDEX_HL);
+  }
+
+  // Raise a maskable interrupt; returns the T-states taken (0 if not accepted)
+  interrupt(): number {
+    if (!this.iff1 || this.eiDelay) return 0;
+    this.halted = false;
+    this.iff1 = this.iff2 = false;
+    this.incrementR();
+    this.push(this.pc);
+    if (this.im === 2) {
+      // The Spectrum data bus floats at 0xFF during the interrupt acknowledge
+      const vector = (this.i << 8) | 0xff;
+      this.pc = this.readWord(vector);
+      return 19;
+    }
+    this.pc = 0x0038;
+    return 13;
+  }
+
+  // ===== MEMORY HELPERS =====
+
+  private incrementR(): void {
+    this.r = (this.r & 0x80) | ((this.r + 1) & 0x7f);
+  }
+
+  private fetchOpcode(): number {
+    this.incrementR();
+    return this.fetch();
+  }
+
+  private fetch(): number {
+    const value = this.bus.read(this.pc);
+    this.pc = (this.pc + 1) & 0xffff;
+    return value;
+  }
+
+  private fetchWord(): number {
+    const low = this.fetch();
+    return low | (this.fetch() << 8);
+  }
+
+  private fetchDisplacement(): number {
+    const value = this.fetch();
+    return value < 128 ? value : value - 256;
+  }
+
+  private readWord(address: number): number {
+    return this.bus.read(address) | (this.bus.read((address + 1) & 0xffff) << 8);
+  }
+
+  private writeWord(address: number, value: number): void {
+    this.bus.write(address, value & 0xff);
+    this.bus.write((address + 1) & 0xffff, (value >> 8) & 0xff);
+  }
+
+  private push(value: number): void {
+    this.sp = (this.sp - 2) & 0xffff;
+    this.writeWord(this.sp, value);
+  }
+
+  private pop(): number {
+    const value = this.readWord(this.sp);
+    this.sp = (this.sp + 2) & 0xffff;
+    return value;
+  }
+
+  // ===== REGISTER TABLE ACCESS =====
+
+  private getIndex(index: number): number {
+    return index === INDEX_HL ? this.hl : index === INDEX_IX ? this.ix : this.iy;
+  }
+
+  private setIndex(index: number, value: number): void {
+    value &= 0xffff;
+    if (index === INDEX_HL) this.hl = value;
+    else if (index === INDEX_IX) this.ix = value;
+    else this.iy = value;
+  }
+
+  // r[] table: B, C, D, E, H, L, (HL), A - H/L become IXH/IXL or IYH/IYL under a prefix
+  private getReg(r: number, index: number): number {
+    switch (r) {
+      case 0: return this.b;
+      case 1: return this.c;
+      case 2: return this.d;
+      case 3: return this.e;
+      case 4: return index === INDEX_HL ? this.h : (this.getIndex(index) >> 8) & 0xff;
+      case 5: return index === INDEX_HL ? this.l : this.getIndex(index) & 0xff;
+      case 7: return this.a;
+      default: return 0;
+    }
+  }
+
+  private setReg(r: number, value: number, index: number): void {
+    value &= 0xff;
+    switch (r) {
+      case 0: this.b = value; break;
+      case 1: this.c = value; break;
+      case 2: this.d = value; break;
+      case 3: this.e = value; break;
+      case 4:
+        if (index === INDEX_HL) this.h = value;
+        else this.setIndex(index, (this.getIndex(index) & 0x00ff) | (value << 8));
+        break;
+      case 5:
+        if (index === INDEX_HL) this.l = value;
+        else this.setIndex(index, (this.getIndex(index) & 0xff00) | value);
+        break;
+      case 7: this.a = value; break;
+    }
+  }
+
+  // rp[] table: BC, DE, HL, SP
+  private getPair(p: number, index: number): number {
+    switch (p) {
+      case 0: return this.bc;
+      case 1: return this.de;
+      case 2: return this.getIndex(index);
+      default: return this.sp;
+    }
+  }
+
+  private setPair(p: number, value: number, index: number): void {
+    value &= 0xffff;
+    switch (p) {
+      case 0: this.bc = value; break;
+      case 1: this.de = value; break;
+      case 2: this.setIndex(index, value); break;
+      default: this.sp = value; break;
+    }
+  }
+
+  // rp2[] table: BC, DE, HL, AF
+  private getPair2(p: number, index: number): number {
+    return p === 3 ? this.af : this.getPair(p, index);
+  }
+
+  private setPair2(p: number, value: number, index: number): void {
+    if (p === 3) this.af = value & 0xffff;
+    else this.setPair(p, value, index);
+  }
+
+  // Address of the (HL) operand, fetching the displacement for (IX+d)/(IY+d)
+  private operandAddress(index: number): number {
+    if (index === INDEX_HL) return this.hl;
+    return (this.getIndex(index) + this.fetchDisplacement()) & 0xffff;
+  }
+
+  private condition(cc: number): boolean {
+    switch (cc) {
+      case 0: return (this.f & FLAG_Z) === 0;
+      case 1: return (this.f & FLAG_Z) !== 0;
+      case 2: return (this.f & FLAG_C) === 0;
+      case 3: return (this.f & FLAG_C) !== 0;
+      case 4: return (this.f & FLAG_PV) === 0;
+      case 5: return (this.f & FLAG_PV) !== 0;
+      case 6: return (this.f & FLAG_S) === 0;
+      default: return (this.f & FLAG_S) !== 0;
+    }
+  }
+
+  // ===== ALU =====
+
+  private alu(op: number, value: number): void {
+    const a = this.a;
+    let result: number;
+    switch (op) {
+      case 0: // ADD
+      case 1: { // ADC
+        const carry = op === 1 ? this.f & FLAG_C : 0;
+        result = a + value + carry;
+        this.a = result & 0xff;
+        this.f = SZ53[this.a] | ((a ^ value ^ result) & FLAG_H) |
+          ((~(a ^ value) & (a ^ result) & 0x80) ? FLAG_PV : 0) | ((result >> 8) & FLAG_C);
+        break;
+      }
+      case 2: // SUB
+      case 3: // SBC
+      case 7: { // CP
+        const carry = op === 3 ? this.f & FLAG_C : 0;
+        result = a - value - carry;
+        const flags = FLAG_N | ((a ^ value ^ result) & FLAG_H) |
+          (((a ^ value) & (a ^ result) & 0x80) ? FLAG_PV : 0) | ((result & 0x100) ? FLAG_C : 0);
+        if (op === 7) {
+          // CP takes the undocumented bits from the operand, not the result
+          this.f = flags | (SZ53[result & 0xff] & (FLAG_S | FLAG_Z)) | (value & (FLAG_X | FLAG_Y));
+        } else {
+          this.a = result & 0xff;
+          this.f = flags | SZ53[this.a];
+        }
+        break;
+      }
+      case 4: // AND
+        this.a = a & value;
+        this.f = SZ53P[this.a] | FLAG_H;
+        break;
+      case 5: // XOR
+        this.a = (a ^ value) & 0xff;
+        this.f = SZ53P[this.a];
+        break;
+      case 6: // OR
+        this.a = (a | value) & 0xff;
+        this.f = SZ53P[this.a];
+        break;
+    }
+  }
+
+  private inc8(value: number): number {
+    const result = (value + 1) & 0xff;
+    this.f = (this.f & FLAG_C) | SZ53[result] | (result === 0x80 ? FLAG_PV : 0) | ((result & 0x0f) === 0 ? FLAG_H : 0);
+    return result;
+  }
+
+  private dec8(value: number): number {
+    const result = (value - 1) & 0xff;
+    this.f = (this.f & FLAG_C) | FLAG_N | SZ53[result] | (result === 0x7f ? FLAG_PV : 0) | ((result & 0x0f) === 0x0f ? FLAG_H : 0);
+    return result;
+  }
+
+  private add16(left: number, right: number): number {
+    const result = left + right;
+    this.f = (this.f & (FLAG_S | FLAG_Z | FLAG_PV)) | ((result >> 8) & (FLAG_X | FLAG_Y)) |
+      (((left ^ right ^ result) >> 8) & FLAG_H) | ((result >> 16) & FLAG_C);
+    return result & 0xffff;
+  }
+
+  private adc16(left: number, right: number): number {
+    const result = left + right + (this.f & FLAG_C);
+    this.f = ((result >> 8) & (FLAG_S | FLAG_X | FLAG_Y)) | ((result & 0xffff) === 0 ? FLAG_Z : 0) |
+      (((left ^ right ^ result) >> 8) & FLAG_H) | ((~(left ^ right) & (left ^ result) & 0x8000) ? FLAG_PV : 0) |
+      ((result >> 16) & FLAG_C);
+    return result & 0xffff;
+  }
+
+  private sbc16(left: number, right: number): number {
+    const result = left - right - (this.f & FLAG_C);
+    this.f = FLAG_N | ((result >> 8) & (FLAG_S | FLAG_X | FLAG_Y)) | ((result & 0xffff) === 0 ? FLAG_Z : 0) |
+      (((left ^ right ^ result) >> 8) & FLAG_H) | (((left ^ right) & (left ^ result) & 0x8000) ? FLAG_PV : 0) |
+      ((result & 0x10000) ? FLAG_C : 0);
+    return result & 0xffff;
+  }
+
+  // CB-prefixed rotates and shifts: RLC, RRC, RL, RR, SLA, SRA, SLL, SRL
+  private rotate(op: number, value: number): number {
+    let result: number;
+    let carry: number;
+    switch (op) {
+      case 0: carry = value >> 7; result = (value << 1) | carry; break;
+      case 1: carry = value & 1; result = (value >> 1) | (carry << 7); break;
+      case 2: carry = value >> 7; result = (value << 1) | (this.f & FLAG_C); break;
+      case 3: carry = value & 1; result = (value >> 1) | ((this.f & FLAG_C) << 7); break;
+      case 4: carry = value >> 7; result = value << 1; break;
+      case 5: carry = value & 1; result = (value >> 1) | (value & 0x80); break;
+      case 6: carry = value >> 7; result = (value << 1) | 1; break;
+      default: carry = value & 1; result = value >> 1; break;
+    }
+    result &= 0xff;
+    this.f = SZ53P[result] | carry;
+    return result;
+  }
+
+  private bit(n: number, value: number): void {
+    const set = value & (1 << n);
+    this.f = (this.f & FLAG_C) | FLAG_H | (value & (FLAG_X | FLAG_Y)) |
+      (set ? 0 : FLAG_Z | FLAG_PV) | (n === 7 && set ? FLAG_S : 0);
+  }
+
+  private daa(): void {
+    let correction = 0;
+    let carry = this.f & FLAG_C;
+    const a = this.a;
+    if ((this.f & FLAG_H) || (a & 0x0f) > 9) correction |= 0x06;
+    if (carry || a > 0x99) {
+      correction |= 0x60;
+      carry = FLAG_C;
+    }
+    let halfCarry: boolean;
+    if (this.f & FLAG_N) {
+      halfCarry = (this.f & FLAG_H) !== 0 && (a & 0x0f) < 6;
+      this.a = (a - correction) & 0xff;
+    } else {
+      halfCarry = (a & 0x0f) > 9;
+      this.a = (a + correction) & 0xff;
+    }
+    this.f = SZ53P[this.a] | (halfCarry ? FLAG_H : 0) | (this.f & FLAG_N) | carry;
+  }
+
+  // ===== UNPREFIXED (AND DD/FD) OPCODES =====
+
+  // T-states are those of the unprefixed opcode: the DD/FD prefix adds its own 4,
+  // so the (IX+d) forms return their documented time less 4
+
+  private execute(op: number, index: number): number {
+    const x = op >> 6;
+    const y = (op >> 3) & 7;
+    const z = op & 7;
+    const p = y >> 1;
+    const q = y & 1;
+
+    if (x === 1) {
+      if (op === 0x76) {
+        this.halted = true;
+        return 4;
+      }
+      // LD r, r' - (HL) forms use the plain H/L for the other operand
+      if (y === 6) {
+        const address = this.operandAddress(index);
+        this.bus.write(address, this.getReg(z, INDEX_HL));
+        return index === INDEX_HL ? 7 : 15;
+      }
+      if (z === 6) {
+        const address = this.operandAddress(index);
+        this.setReg(y, this.bus.read(address), INDEX_HL);
+        return index === INDEX_HL ? 7 : 15;
+      }
+      this.setReg(y, this.getReg(z, index), index);
+      return 4;
+    }
+
+    if (x === 2) {
+      if (z === 6) {
+        this.alu(y, this.bus.read(this.operandAddress(index)));
+        return index === INDEX_HL ? 7 : 15;
+      }
+      this.alu(y, this.getReg(z, index));
+      return 4;
+    }
+
+    if (x === 0) {
+      switch (z) {
+        case 0:
+          switch (y) {
+            case 0: return 4; // NOP
+            case 1: { // EX AF, AF'
+              const a = this.a, f = this.f;
+              this.a = this.altA; this.f = this.altF;
+              this.altA = a; this.altF = f;
+              return 4;
+            }
+            case 2: { // DJNZ d
+              const offset = this.fetchDisplacement();
+              this.b = (this.b - 1) & 0xff;
+              if (this.b !== 0) {
+                this.pc = (this.pc + offset) & 0xffff;
+                return 13;
+              }
+              return 8;
+            }
+            case 3: { // JR d
+              const offset = this.fetchDisplacement();
+              this.pc = (this.pc + offset) & 0xffff;
+              return 12;
+            }
+            default: { // JR cc, d
+              const offset = this.fetchDisplacement();
+              if (this.condition(y - 4)) {
+                this.pc = (this.pc + offset) & 0xffff;
+                return 12;
+              }
+              return 7;
+            }
+          }
+        case 1:
+          if (q === 0) {
+            this.setPair(p, this.fetchWord(), index);
+            return 10;
+          }
+          this.setIndex(index, this.add16(this.getIndex(index), this.getPair(p, index)));
+          return 11;
+        case 2:
+          switch (y) {
+            case 0: this.bus.write(this.bc, this.a); return 7;
+            case 1: this.a = this.bus.read(this.bc); return 7;
+            case 2: this.bus.write(this.de, this.a); return 7;
+            case 3: this.a = this.bus.read(this.de); return 7;
+            case 4: this.writeWord(this.fetchWord(), this.getIndex(index)); return 16;
+            case 5: this.setIndex(index, this.readWord(this.fetchWord())); return 16;
+            case 6: this.bus.write(this.fetchWord(), this.a); return 13;
+            default: this.a = this.bus.read(this.fetchWord()); return 13;
+          }
+        case 3:
+          this.setPair(p, this.getPair(p, index) + (q === 0 ? 1 : -1), index);
+          return 6;
+        case 4:
+        case 5:
+          if (y === 6) {
+            const address = this.operandAddress(index);
+            const value = this.bus.read(address);
+            this.bus.write(address, z === 4 ? this.inc8(value) : this.dec8(value));
+            return index === INDEX_HL ? 11 : 19;
+          }
+          this.setReg(y, z === 4 ? this.inc8(this.getReg(y, index)) : this.dec8(this.getReg(y, index)), index);
+          return 4;
+        case 6:
+          if (y === 6) {
+            const address = this.operandAddress(index);
+            this.bus.write(address, this.fetch());
+            return index === INDEX_HL ? 10 : 15;
+          }
+          this.setReg(y, this.fetch(), index);
+          return 7;
+        default:
+          this.accumulatorOp(y);
+          return 4;
+      }
+    }
+
+    // x === 3
+    switch (z) {
+      case 0: // RET cc
+        if (this.condition(y)) {
+          this.pc = this.pop();
+          return 11;
+        }
+        return 5;
+      case 1:
+        if (q === 0) {
+          this.setPair2(p, this.pop(), index);
+          return 10;
+        }
+        switch (p) {
+          case 0: this.pc = this.pop(); return 10; // RET
+          case 1: this.exx(); return 4;
+          case 2: this.pc = this.getIndex(index); return 4; // JP (HL)
+          default: this.sp = this.getIndex(index); return 6; // LD SP, HL
+        }
+      case 2: { // JP cc, nn
+        const target = this.fetchWord();
+        if (this.condition(y)) this.pc = target;
+        return 10;
+      }
+      case 3:
+        switch (y) {
+          case 0: this.pc = this.fetchWord(); return 10;
+          case 1: return this.executeCB(index);
+          case 2: { // OUT (n), A
+            const port = this.fetch() | (this.a << 8);
+            this.bus.portOut(port, this.a);
+            return 11;
+          }
+          case 3: { // IN A, (n)
+            const port = this.fetch() | (this.a << 8);
+            this.a = this.bus.portIn(port);
+            return 11;
+          }
+          case 4: { // EX (SP), HL
+            const value = this.readWord(this.sp);
+            this.writeWord(this.sp, this.getIndex(index));
+            this.setIndex(index, value);
+            return 19;
+          }
+          case 5: { // EX DE, HL (never affected by DD/FD)
+            const de = this.de;
+            this.de = this.hl;
+            this.hl = de;
+            return 4;
+          }
+          case 6: this.iff1 = this.iff2 = false; return 4;
+          default:
+            this.iff1 = this.iff2 = true;
+            this.eiDelay = true;
+            return 4;
+        }
+      case 4: { // CALL cc, nn
+        const target = this.fetchWord();
+        if (this.condition(y)) {
+          this.push(this.pc);
+          this.pc = target;
+          return 17;
+        }
+        return 10;
+      }
+      case 5:
+        if (q === 0) {
+          this.push(this.getPair2(p, index));
+          return 11;
+        }
+        switch (p) {
+          case 0: { // CALL nn
+            const target = this.fetchWord();
+            this.push(this.pc);
+            this.pc = target;
+            return 17;
+          }
+          case 1: return 4 + this.execute(this.fetchOpcode(), INDEX_IX);
+          case 2: return this.executeED();
+          default: return 4 + this.execute(this.fetchOpcode(), INDEX_IY);
+        }
+      case 6:
+        this.alu(y, this.fetch());
+        return 7;
+      default: // RST y*8
+        this.push(this.pc);
+        this.pc = y * 8;
+        return 11;
+    }
+  }
+
+  private exx(): void {
+    let t = this.b; this.b = this.altB; this.altB = t;
+    t = this.c; this.c = this.altC; this.altC = t;
+    t = this.d; this.d = this.altD; this.altD = t;
+    t = this.e; this.e = this.altE; this.altE = t;
+    t = this.h; this.h = this.altH; this.altH = t;
+    t = this.l; this.l = this.altL; this.altL = t;
+  }
+
+  // RLCA, RRCA, RLA, RRA, DAA, CPL, SCF, CCF
+  private accumulatorOp(y: number): void {
+    const a = this.a;
+    const keep = this.f & (FLAG_S | FLAG_Z | FLAG_PV);
+    switch (y) {
+      case 0:
+        this.a = ((a << 1) | (a >> 7)) & 0xff;
+        this.f = keep | (this.a & (FLAG_X | FLAG_Y)) | (a >> 7);
+        break;
+      case 1:
+        this.a = ((a >> 1) | (a << 7)) & 0xff;
+        this.f = keep | (this.a & (FLAG_X | FLAG_Y)) | (a & 1);
+        break;
+      case 2:
+        this.a = ((a << 1) | (this.f & FLAG_C)) & 0xff;
+        this.f = keep | (this.a & (FLAG_X | FLAG_Y)) | (a >> 7);
+        break;
+      case 3:
+        this.a = ((a >> 1) | ((this.f & FLAG_C) << 7)) & 0xff;
+        this.f = keep | (this.a & (FLAG_X | FLAG_Y)) | (a & 1);
+        break;
+      case 4:
+        this.daa();
+        break;
+      case 5:
+        this.a = a ^ 0xff;
+        this.f = (this.f & (FLAG_S | FLAG_Z | FLAG_PV | FLAG_C)) | FLAG_H | FLAG_N | (this.a & (FLAG_X | FLAG_Y));
+        break;
+      case 6:
+        this.f = keep | (a & (FLAG_X | FLAG_Y)) | FLAG_C;
+        break;
+      default:
+        this.f = (keep | (a & (FLAG_X | FLAG_Y)) | ((this.f & FLAG_C) ? FLAG_H : FLAG_C));
+        break;
+    }
+  }
+
+  // ===== CB PREFIX =====
+
+  private executeCB(index: number): number {
+    if (index !== INDEX_HL) {
+      // DD CB d op / FD CB d op: the operand is always (IX+d), result may be copied to r[z]
+      const address = (this.getIndex(index) + this.fetchDisplacement()) & 0xffff;
+      const op = this.fetch();
+      const x = op >> 6, y = (op >> 3) & 7, z = op & 7;
+      const value = this.bus.read(address);
+      if (x === 1) {
+        this.bit(y, value);
+        this.f = (this.f & ~(FLAG_X | FLAG_Y)) | ((address >> 8) & (FLAG_X | FLAG_Y));
+        return 16;
+      }
+      const result = x === 0 ? this.rotate(y, value) : x === 2 ? value & ~(1 << y) : value | (1 << y);
+      this.bus.write(address, result);
+      if (z !== 6) this.setReg(z, result, INDEX_HL);
+      return 19;
+    }
+
+    const op = this.fetchOpcode();
+    const x = op >> 6, y = (op >> 3) & 7, z = op & 7;
+    if (z === 6) {
+      const address = this.hl;
+      const value = this.bus.read(address);
+      if (x === 1) {
+        this.bit(y, value);
+        return 12;
+      }
+      this.bus.write(address, x === 0 ? this.rotate(y, value) : x === 2 ? value & ~(1 << y) : value | (1 << y));
+      return 15;
+    }
+    const value = this.getReg(z, INDEX_HL);
+    if (x === 1) {
+      this.bit(y, value);
+      return 8;
+    }
+    this.setReg(z, x === 0 ? this.rotate(y, value) : x === 2 ? value & ~(1 << y) : value | (1 << y), INDEX_HL);
+    return 8;
+  }
+
+  // ===== ED PREFIX =====
+
+  private executeED(): number {
+    const op = this.fetchOpcode();
+    const x = op >> 6, y = (op >> 3) & 7, z = op & 7;
+    const p = y >> 1, q = y & 1;
+
+    if (x === 2 && z <= 3 && y >= 4) return this.blockOp(y, z);
+    if (x !== 1) return 8; // Undefined ED opcodes act as two NOPs
+
+    switch (z) {
+      case 0: { // IN r, (C)
+        const value = this.bus.portIn(this.bc);
+        if (y !== 6) this.setReg(y, value, INDEX_HL);
+        this.f = (this.f & FLAG_C) | SZ53P[value];
+        return 12;
+      }
+      case 1: // OUT (C), r
+        this.bus.portOut(this.bc, y === 6 ? 0 : this.getReg(y, INDEX_HL));
+        return 12;
+      case 2:
+        this.hl = q === 0 ? this.sbc16(this.hl, this.getPair(p, INDEX_HL)) : this.adc16(this.hl, this.getPair(p, INDEX_HL));
+        return 15;
+      case 3: {
+        const address = this.fetchWord();
+        if (q === 0) this.writeWord(address, this.getPair(p, INDEX_HL));
+        else this.setPair(p, this.readWord(address), INDEX_HL);
+        return 20;
+      }
+      case 4: { // NEG
+        const a = this.a;
+        this.a = 0;
+        this.alu(2, a);
+        return 8;
+      }
+      case 5: // RETN / RETI
+        this.iff1 = this.iff2;
+        this.pc = this.pop();
+        return 14;
+      case 6:
+        this.im = IM_MODES[y];
+        return 8;
+      default:
+        switch (y) {
+          case 0: this.i = this.a; return 9;
+          case 1: this.r = this.a; return 9;
+          case 2:
+            this.a = this.i;
+            this.f = (this.f & FLAG_C) | SZ53[this.a] | (this.iff2 ? FLAG_PV : 0);
+            return 9;
+          case 3:
+            this.a = this.r;
+            this.f = (this.f & FLAG_C) | SZ53[this.a] | (this.iff2 ? FLAG_PV : 0);
+            return 9;
+          case 4: { // RRD
+            const value = this.bus.read(this.hl);
+            this.bus.write(this.hl, ((this.a << 4) | (value >> 4)) & 0xff);
+            this.a = (this.a & 0xf0) | (value & 0x0f);
+            this.f = (this.f & FLAG_C) | SZ53P[this.a];
+            return 18;
+          }
+          case 5: { // RLD
+            const value = this.bus.read(this.hl);
+            this.bus.write(this.hl, ((value << 4) | (this.a & 0x0f)) & 0xff);
+            this.a = (this.a & 0xf0) | (value >> 4);
+            this.f = (this.f & FLAG_C) | SZ53P[this.a];
+            return 18;
+          }
+          default:
+            return 8;
+        }
+    }
+  }
+
+  // INI/OUTI family flags: S, Z, 5 and 3 from B, N from bit 7 of the byte moved,
+  // and H, C and P/V from k, the byte plus C±1 (IN) or the new L (OUT)
+  private blockIOFlags(value: number, k: number): void {
+    this.f = SZ53[this.b] | ((value & 0x80) ? FLAG_N : 0) | (k > 0xff ? FLAG_H | FLAG_C : 0) |
+      (SZ53P[(k & 7) ^ this.b] & FLAG_PV);
+  }
+
+  // LDI/CPI/INI/OUTI family: y selects I, D, IR, DR; z selects LD, CP, IN, OUT
+  private blockOp(y: number, z: number): number {
+    const step = (y & 1) === 0 ? 1 : -1;
+    const repeat = y >= 6;
+
+    switch (z) {
+      case 0: { // LDI, LDD, LDIR, LDDR
+        const value = this.bus.read(this.hl);
+        this.bus.write(this.de, value);
+        this.hl = (this.hl + step) & 0xffff;
+        this.de = (this.de + step) & 0xffff;
+        this.bc = (this.bc - 1) & 0xffff;
+        const n = (value + this.a) & 0xff;
+        this.f = (this.f & (FLAG_S | FLAG_Z | FLAG_C)) | (this.bc !== 0 ? FLAG_PV : 0) | (n & FLAG_X) | ((n & 0x02) << 4);
+        if (repeat && this.bc !== 0) {
+          this.pc = (this.pc - 2) & 0xffff;
+          return 21;
+        }
+        return 16;
+      }
+      case 1: { // CPI, CPD, CPIR, CPDR
+        const value = this.bus.read(this.hl);
+        const result = (this.a - value) & 0xff;
+        const halfCarry = (this.a ^ value ^ result) & FLAG_H;
+        this.hl = (this.hl + step) & 0xffff;
+        this.bc = (this.bc - 1) & 0xffff;
+        const n = (result - (halfCarry ? 1 : 0)) & 0xff;
+        this.f = (this.f & FLAG_C) | FLAG_N | (SZ53[result] & (FLAG_S | FLAG_Z)) | halfCarry |
+          (this.bc !== 0 ? FLAG_PV : 0) | (n & FLAG_X) | ((n & 0x02) << 4);
+        if (repeat && this.bc !== 0 && result !== 0) {
+          this.pc = (this.pc - 2) & 0xffff;
+          return 21;
+        }
+        return 16;
+      }
+      case 2: { // INI, IND, INIR, INDR
+        const value = this.bus.portIn(this.bc);
+        this.bus.write(this.hl, value);
+        this.hl = (this.hl + step) & 0xffff;
+        this.b = (this.b - 1) & 0xff;
+        this.blockIOFlags(value, value + ((this.c + step) & 0xff));
+        if (repeat && this.b !== 0) {
+          this.pc = (this.pc - 2) & 0xffff;
+          return 21;
+        }
+        return 16;
+      }
+      default: { // OUTI, OUTD, OTIR, OTDR
+        const value = this.bus.read(this.hl);
+        this.b = (this.b - 1) & 0xff;
+        this.bus.portOut(this.bc, value);
+        this.hl = (this.hl + step) & 0xffff;
+        this.blockIOFlags(value, value + this.l);
+        if (repeat && this.b !== 0) {
+          this.pc = (this.pc - 2) & 0xffff;
+          return 21;
+        }
+        return 16;
+      }
+    }
+  }
+}
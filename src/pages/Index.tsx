@@ -4,10 +4,12 @@ import { Toolbar } from "@/components/spectrum/Toolbar";
 import { SpriteEditor } from "@/components/spectrum/SpriteEditor";
 import { BlockDesigner } from "@/components/spectrum/BlockDesigner";
 import { ScreenDesigner } from "@/components/spectrum/ScreenDesigner";
-import { type Sprite, type Block, type Screen, type Level, type GameObject, type GameFlowScreen } from "@/types/spectrum";
+import { type Sprite, type Block, type Screen, type Level, type GameObject, type GameFlowScreen, type MusicTrack, type TargetMachine, type SoundEffect, type SoundEvents, type GameSettings } from "@/types/spectrum";
 import { ObjectLibrary } from "@/components/spectrum/ObjectLibrary";
 import { LevelDesigner } from "@/components/spectrum/LevelDesigner";
 import { GameFlowDesigner } from "@/components/spectrum/GameFlowDesigner";
+import { SoundDesigner } from "@/components/spectrum/SoundDesigner";
+import { SettingsEditor } from "@/components/spectrum/SettingsEditor";
 import { exportGameToTAP, downloadTAPFile } from "@/lib/tapExport";
 import { toast } from "sonner";
 import { useProjectState } from "@/contexts/ProjectStateContext";
@@ -23,6 +25,13 @@ const Index = () => {
   const handleLevelsChange = (levels: Level[]) => updateProject((prev) => ({ ...prev, levels }));
   const handleObjectsChange = (objects: GameObject[]) => updateProject((prev) => ({ ...prev, objects }));
   const handleGameFlowChange = (gameFlow: GameFlowScreen[]) => updateProject((prev) => ({ ...prev, gameFlow }));
+  const handleMachineChange = (machine: TargetMachine) => updateProject((prev) => ({ ...prev, settings: { ...prev.settings, machine } }));
+  const handleOptimizeSizeChange = (optimizeSize: boolean) => updateProject((prev) => ({ ...prev, settings: { ...prev.settings, optimizeSize } }));
+  const handleMusicChange = (music: MusicTrack) => updateProject((prev) => ({ ...prev, music }));
+  const handleSoundsChange = (sounds: SoundEffect[]) => updateProject((prev) => ({ ...prev, sounds }));
+  const handleSoundEventsChange = (soundEvents: SoundEvents) => updateProject((prev) => ({ ...prev, soundEvents }));
+  const handleSettingsChange = (settings: GameSettings) => updateProject((prev) => ({ ...prev, settings }));
+  const handleAuthorChange = (author: string) => updateProject((prev) => ({ ...prev, author: author || undefined }));
 
   const handleExportTAP = () => {
     if (project.screens.length === 0) {
@@ -51,17 +60,12 @@ const Index = () => {
         
         {activeTab === "sprites" && <SpriteEditor sprites={project.sprites} onSpritesChange={handleSpritesChange} />}
         {activeTab === "blocks" && <BlockDesigner sprites={project.sprites} blocks={project.blocks} onBlocksChange={handleBlocksChange} />}
-        {activeTab === "screens" && <ScreenDesigner blocks={project.blocks} objects={project.objects} sprites={project.sprites} screens={project.screens} onScreensChange={handleScreensChange} />}
-        {activeTab === "objects" && <ObjectLibrary objects={project.objects} sprites={project.sprites} onObjectsChange={handleObjectsChange} />}
-        {activeTab === "levels" && <LevelDesigner levels={project.levels} screens={project.screens} blocks={project.blocks} objects={project.objects} sprites={project.sprites} onLevelsChange={handleLevelsChange} />}
-        {activeTab === "gameflow" && <GameFlowDesigner screens={project.screens} blocks={project.blocks} levels={project.levels} objects={project.objects} sprites={project.sprites} gameFlow={project.gameFlow} onGameFlowChange={handleGameFlowChange} projectName={project.name} />}
-        {activeTab === "settings" && (
-          <div className="p-8 text-center text-muted-foreground">
-            <h2 className="text-2xl font-bold text-primary mb-2">Game Settings</h2>
-            <p>Configure lives, score, energy, and game rules</p>
-            <p className="text-sm mt-4">Coming soon...</p>
-          </div>
-        )}
+        {activeTab === "screens" && <ScreenDesigner blocks={project.blocks} objects={project.objects} sprites={project.sprites} screens={project.screens} levels={project.levels} onScreensChange={handleScreensChange} />}
+        {activeTab === "objects" && <ObjectLibrary objects={project.objects} sprites={project.sprites} levels={project.levels} onObjectsChange={handleObjectsChange} />}
+        {activeTab === "levels" && <LevelDesigner levels={project.levels} screens={project.screens} blocks={project.blocks} objects={project.objects} sprites={project.sprites} settings={project.settings} onLevelsChange={handleLevelsChange} onScreensChange={handleScreensChange} />}
+        {activeTab === "gameflow" && <GameFlowDesigner screens={project.screens} blocks={project.blocks} levels={project.levels} objects={project.objects} sprites={project.sprites} gameFlow={project.gameFlow} onGameFlowChange={handleGameFlowChange} projectName={project.name} projectAuthor={project.author} settings={project.settings} machine={project.settings.machine} music={project.music} sounds={project.sounds} soundEvents={project.soundEvents} onMachineChange={handleMachineChange} onOptimizeSizeChange={handleOptimizeSizeChange} onMusicChange={handleMusicChange} />}
+        {activeTab === "sound" && <SoundDesigner sounds={project.sounds} soundEvents={project.soundEvents} onSoundsChange={handleSoundsChange} onSoundEventsChange={handleSoundEventsChange} />}
+        {activeTab === "settings" && <SettingsEditor settings={project.settings} author={project.author} onSettingsChange={handleSettingsChange} onAuthorChange={handleAuthorChange} />}
       </div>
     </div>
   );
@@ -0,0 +1,58 @@
+// A small game for the tests: a loading screen, then one level of two linked
+// rooms with the player, a patrolling enemy and a key to collect
+import { SPECTRUM_COLORS, type Block, type GameObject, type GameProject, type Screen, type Sprite } from "@/types/spectrum";
+
+const grid = <T>(width: number, height: number, cell: (x: number, y: number) => T): T[][] =>
+  Array.from({ length: height }, (_, y) => Array.from({ length: width }, (_, x) => cell(x, y)));
+
+export const playerSprite: Sprite = {
+  id: "sp-player", name: "Player", size: "16x16", animationSpeed: 4,
+  frames: [{ pixels: grid(16, 16, x => (x > 3 && x < 12 ? 7 : 0)) }, { pixels: grid(16, 16, (x, y) => (y > 3 && y < 12 ? 7 : 0)) }],
+};
+export const enemySprite: Sprite = {
+  id: "sp-enemy", name: "Enemy", size: "16x16", animationSpeed: 4,
+  frames: [{ pixels: grid(16, 16, (x, y) => ((x + y) % 2 ? 2 : 0)) }],
+};
+const keySprite: Sprite = {
+  id: "sp-key", name: "Key", size: "8x8", animationSpeed: 4,
+  frames: [{ pixels: grid(8, 8, (x, y) => (x > 1 && x < 6 && y > 1 && y < 6 ? 6 : 0)) }],
+};
+const brickSprite: Sprite = {
+  id: "sp-brick", name: "Brick", size: "8x8", animationSpeed: 4,
+  frames: [{ pixels: grid(8, 8, (x, y) => (y === 0 || x === 0 ? 0 : 2)) }],
+};
+
+const blocks: Block[] = [{ id: "b-brick", name: "Brick", sprite: brickSprite, type: "solid", properties: {} }];
+
+const objects: GameObject[] = [
+  { id: "o-player", name: "Willy", type: "player", spriteId: "sp-player", properties: { speed: 2, jumpHeight: 20, gravity: 4 } },
+  { id: "o-enemy", name: "Robot", type: "enemy", spriteId: "sp-enemy", properties: { speed: 1, patrolType: "left-right", damage: 10, aiBehavior: "patrol" } },
+  { id: "o-key", name: "Key", type: "collectable", spriteId: "sp-key", properties: { points: 100, requiredToExit: true } },
+];
+
+// A floor, and a ledge over it
+const room = (floorRow: number) =>
+  grid(32, 24, (x, y) => (y === floorRow || (y === 15 && x > 10 && x < 16) ? "b-brick" : ""));
+
+const screens: Screen[] = [
+  { id: "s-load", name: "Loading", type: "loading", width: 256, height: 192, pixels: grid(256, 192, () => SPECTRUM_COLORS[1]) },
+  {
+    id: "s-1", name: "Room 1", type: "game", width: 256, height: 192, tiles: room(22), links: { right: "s-2" },
+    placedObjects: [
+      { id: "p1", objectId: "o-player", x: 4, y: 18, direction: "right" },
+      { id: "p2", objectId: "o-enemy", x: 20, y: 20, direction: "left" },
+      { id: "p3", objectId: "o-key", x: 12, y: 14, direction: "right" },
+    ],
+  },
+  { id: "s-2", name: "Room 2", type: "game", width: 256, height: 192, tiles: room(20), links: { left: "s-1" }, placedObjects: [] },
+];
+
+export const gameProject: GameProject = {
+  id: "test", name: "Test Game",
+  sprites: [playerSprite, enemySprite, keySprite, brickSprite], objects, blocks, screens,
+  levels: [{ id: "l-1", name: "Level 1", screenIds: ["s-1", "s-2"] }],
+  gameFlow: [{ screenId: "s-load", order: 0, autoShow: true }, { screenId: "s-1", levelId: "l-1", order: 1 }],
+  sounds: [], soundEvents: {},
+  music: { tempo: 4, channels: ["C4:2 E4 G4 -:2 C5", "C3:4 G2:4", ""] },
+  settings: { lives: 3, startEnergy: 100, showScore: true, showEnergy: true },
+};
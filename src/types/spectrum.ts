@@ -22,8 +22,17 @@ export type BlockType =
   | "ice"
   | "ladder";
 
+// One ZX Spectrum attribute cell (8x8 pixels): INK, PAPER, BRIGHT and FLASH
+export type AttributeCell = {
+  ink: number; // 0-7
+  paper: number; // 0-7
+  bright: boolean;
+  flash: boolean;
+};
+
 export type SpriteFrame = {
   pixels: number[][];
+  attributes?: AttributeCell[][]; // [cellRow][cellCol], derived from the pixels when not authored
 };
 
 export type Sprite = {
@@ -74,11 +83,13 @@ export type GameObject = {
     keyFire?: string;
     keyUp?: string;
     keyDown?: string;
+    ammunition?: string; // Ammunition object fired, the first in the library when missing
     
     // Enemy-specific properties
     patrolType?: "left-right" | "up-down" | "circular" | "stationary";
     damage?: number;
     aiBehavior?: "patrol" | "chase" | "guard" | "random";
+    health?: number; // Energy the player's shots take away before it goes
     
     // Ammunition properties
     projectileSpeed?: number;
@@ -89,13 +100,15 @@ export type GameObject = {
     points?: number;
     requiredToExit?: boolean;
     
-    // Door properties
-    targetRoom?: string;
-    targetFloor?: number;
+    // Door properties: each placed door sets its target screen and arrival tile
+    targetScreen?: string; // Screen id, no door when missing
+    arrivalX?: number; // Tile the player comes out at, where they were when missing
+    arrivalY?: number;
+    doorActivation?: "touch" | "key"; // On contact, or on the up key ("touch" when missing)
     
     // Exit properties
-    targetLevel?: string;
-    activationConditions?: string;
+    targetLevel?: string; // Level id, the next level in the game flow when missing
+    activationConditions?: "required-items" | "always";
     
     // Moving Platform properties
     platformType?: MovingPlatformType;
@@ -146,6 +159,14 @@ export type PlacedObject = {
   propertyOverrides?: Partial<GameObject["properties"]>; // Per-instance property overrides
 };
 
+// Flip-screen neighbours: the screen entered when the player leaves each edge
+export type ScreenLinks = {
+  left?: string; // screen ID
+  right?: string;
+  up?: string;
+  down?: string;
+};
+
 export type Screen = {
   id: string;
   name: string;
@@ -153,6 +174,7 @@ export type Screen = {
   tiles?: string[][]; // 2D array of block IDs (for game screens)
   pixels?: SpectrumColor[][]; // 2D array of colors (for title/loading screens)
   placedObjects?: PlacedObject[]; // Placed game objects
+  links?: ScreenLinks; // Flip-screen neighbours (authored in the Level Designer)
   width: number;
   height: number;
   // Loading screen conversion options
@@ -178,21 +200,54 @@ export type GameFlowScreen = {
   scrollText?: string; // Text for continuous loop menu
 };
 
+// Beeper sound effect: a square wave, or noise, sweeping from one pitch to another
+export type SoundEffect = {
+  id: string;
+  name: string;
+  wave: "tone" | "noise";
+  startPitch: number; // Hz
+  endPitch: number; // Hz
+  duration: number; // Milliseconds
+};
+
+// Engine events that can play a sound effect
+export type SoundEvent = "jump" | "collect" | "death" | "fire" | "door";
+
+export type SoundEvents = Partial<Record<SoundEvent, string>>; // Sound effect ID per event
+
+export type TargetMachine = "48k" | "128k";
+
+// AY tune for 128K builds: tempo in frames per row, one line of notes per channel
+export type MusicTrack = {
+  tempo: number;
+  channels: string[]; // e.g. "C4:2 E4 G4 -:2" (see ayMusic.ts)
+};
+
+export type GameSettings = {
+  lives: number;
+  startEnergy: number;
+  showScore: boolean;
+  showEnergy: boolean;
+  hudRows?: number; // Character rows kept at the bottom of the screen for the HUD (2 when missing)
+  machine?: TargetMachine; // Export target (48K when missing)
+  maxShots?: number; // Player shots on screen at once (3 when missing)
+  optimizeSize?: boolean; // Export with screens, sprites and the loading screen LZ packed
+};
+
 export type GameProject = {
   id: string;
   name: string;
+  author?: string; // Written to the TZX archive info
   sprites: Sprite[];
   objects: GameObject[]; // New object library
   blocks: Block[];
   screens: Screen[];
   levels: Level[];
   gameFlow: GameFlowScreen[]; // Non-playable screen sequence
-  settings: {
-    lives: number;
-    startEnergy: number;
-    showScore: boolean;
-    showEnergy: boolean;
-  };
+  sounds: SoundEffect[];
+  soundEvents: SoundEvents;
+  music?: MusicTrack; // Played on 128K builds
+  settings: GameSettings;
 };
 
 export const SPECTRUM_COLORS: SpectrumColor[] = [